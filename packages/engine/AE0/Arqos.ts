@@ -1,13 +1,38 @@
-import { bootstrap } from "./bootstrap";
-import { MemoryManager } from "../AE1/memory/memory-manager";
+import { bootstrap, AE0Context } from "./bootstrap";
+import { getBaseMode, OperationalMode } from "./validators/mode-validator";
+import { getCoreInstance } from "./unlock/core-components";
+import type { MemoryManager } from "../AE1/memory/memory-manager";
+import type { CognitiveCore } from "../AE1/cognitive-core";
 import { DecisionEngine } from "../AE2/decision-engine/decision-maker";
-import { PersistentStore } from "../AE1/state/persistent-store";
-import { InMemoryStore } from "../AE1/state/in-memory-store";
 import { StateStore } from "../AE1/state/state-store";
+import { createStateStore } from "../AE1/state/create-state-store";
+import { PipelineCore } from "../AE3/pipeline-core";
+import type { OrchestrationPlan, ExecutionResult } from "../AE3/types";
+import { getHealthMonitor, ProbeResult, ProbeType, SystemHealth } from "../health/health-monitor";
+import { tracer } from "../runtime/tracing";
+import { getConfig, getConfigService } from "../src/core/config";
+import { AE3Client, SendPlanResult } from "../AE2/integration/ae3-client";
+import { intentInput } from "../AE2/integration/plan-translator";
+import type { DecisionContext, StrategicDecision, OrchestrationPlan as StrategicPlan } from "../AE2/types";
+
+export interface RunOptions {
+    /** Extra decision context (domain, urgency, metadata...) */
+    context?: Omit<DecisionContext, "intent">;
+    agents?: any[];
+    constraints?: any[];
+    /** Base tool input; defaults to the intent mapped onto common tool fields */
+    input?: Record<string, unknown>;
+}
+
+export interface RunResult extends SendPlanResult {
+    decision: StrategicDecision;
+    plan: StrategicPlan;
+}
 
 export interface ArqosConfig {
-    mode: "lite" | "fullstack";
-    persistence?: "local" | "memory" | "remote";
+    /** lite, fullstack ou um modo customizado de runtime/modes */
+    mode: OperationalMode;
+    persistence?: "local" | "sqlite" | "memory" | "remote";
     storagePath?: string;
     enableAudit?: boolean;
 }
@@ -20,58 +45,75 @@ export class Arqos {
     private memory: MemoryManager;
     private decisionEngine: DecisionEngine;
     private state: StateStore;
+    private pipeline: PipelineCore;
 
     private constructor(
         private config: ArqosConfig,
+        private context: AE0Context,
         state: StateStore,
         memory: MemoryManager,
-        decisionEngine: DecisionEngine
+        decisionEngine: DecisionEngine,
+        pipeline: PipelineCore
     ) {
         this.state = state;
         this.memory = memory;
         this.decisionEngine = decisionEngine;
+        this.pipeline = pipeline;
     }
 
     /**
      * Initializes the Arqos Engine.
-     * Uses provided configuration or falls back to environment variables.
+     * Explicit configuration wins over env, arqos.config.yaml, runtime YAML and defaults.
      */
     public static async init(config: Partial<ArqosConfig> = {}): Promise<Arqos> {
-        // Fallback to environment variables
-        const mode = config.mode || (process.env.ARQOS_MODE as any) || "lite";
-        const persistence = config.persistence || (process.env.ARQOS_PERSISTENCE as any) || "memory";
-        const storagePath = config.storagePath || process.env.ARQOS_STORAGE_PATH || "./.storage";
+        getConfigService().load({
+            overrides: {
+                mode: config.mode || undefined,
+                persistence: config.persistence,
+                storage_path: config.storagePath || undefined,
+                enable_audit: config.enableAudit
+            }
+        });
 
+        const mode = getConfig("mode");
         const finalConfig: ArqosConfig = {
             mode,
-            persistence,
-            storagePath,
-            enableAudit: config.enableAudit ?? true
+            persistence: getConfig("persistence"),
+            storagePath: getConfig("storage_path"),
+            enableAudit: getConfig("enable_audit")
         };
 
         // 1. Setup State Storage
-        let state: StateStore;
-        if (finalConfig.persistence === "local") {
-            state = new PersistentStore(finalConfig.storagePath);
-        } else {
-            state = new InMemoryStore();
-        }
+        const state = createStateStore();
 
-        // 2. Bootstrap Core Systems
-        await bootstrap(mode);
+        // 2. Bootstrap Core Systems (AE2 → AE1 → AE3); AE1 keeps its memory in this store
+        const context = await bootstrap(mode, { stateStore: state, handleSignals: false });
 
         // 3. Initialize High-Level Modules
-        const memory = new MemoryManager(mode, state);
+        const cognitiveCore = getCoreInstance<CognitiveCore>(context.lifecycle, "AE1");
+        if (!cognitiveCore) {
+            throw new Error("[Arqos] AE1 Cognitive Core was not started by bootstrap");
+        }
+        // Same MemoryManager that records AE3 executions
+        const memory = cognitiveCore.getMemory();
         const decisionEngine = new DecisionEngine({
-            mode,
+            mode: getBaseMode(mode),
             enableAudit: finalConfig.enableAudit ?? true,
         });
 
         await decisionEngine.initialize();
 
-        console.log(`[Arqos] Engine initialized in ${mode} mode (persistence: ${persistence}) ✓`);
+        const pipeline = getCoreInstance<PipelineCore>(context.lifecycle, "AE3");
+        if (!pipeline) {
+            throw new Error("[Arqos] AE3 Pipeline Core was not started by bootstrap");
+        }
+
+        console.log(`[Arqos] Engine initialized in ${mode} mode (persistence: ${finalConfig.persistence}) ✓`);
 
-        return new Arqos(finalConfig, state, memory, decisionEngine);
+        const arqos = new Arqos(finalConfig, context, state, memory, decisionEngine, pipeline);
+        // SIGTERM/SIGINT run the full shutdown (components, state store, tracer)
+        context.lifecycle.installSignalHandlers({ shutdown: () => arqos.shutdown() });
+        return arqos;
     }
 
     public getMemory() {
@@ -86,10 +128,77 @@ export class Arqos {
         return this.state;
     }
 
+    public getPipeline() {
+        return this.pipeline;
+    }
+
+    /**
+     * Graceful shutdown of AE3 → AE1 → AE2
+     */
+    public async shutdown(): Promise<void> {
+        await this.context.lifecycle.shutdownAll();
+        this.state.close();
+        await tracer.flush();
+    }
+
+    /**
+     * Current system health as reported by the AE0 HealthMonitor
+     */
+    public getHealth(): SystemHealth {
+        return getHealthMonitor().getSystemHealth();
+    }
+
+    /**
+     * Liveness, readiness or startup probe result (Kubernetes semantics)
+     */
+    public getProbe(probe: ProbeType): ProbeResult {
+        return getHealthMonitor().getProbe(probe);
+    }
+
     /**
      * Shorthand for making a strategic decision
      */
     public async decide(context: any, agents: any[] = [], constraints: any[] = []) {
-        return this.decisionEngine.decide(context, agents, constraints);
+        return tracer.withSpan("Arqos.decide", () => this.decisionEngine.decide(context, agents, constraints));
+    }
+
+    /**
+     * Shorthand for executing an AE3 orchestration plan
+     */
+    public async executePlan(plan: OrchestrationPlan): Promise<ExecutionResult> {
+        return tracer.withSpan("Arqos.executePlan", () => this.pipeline.executePlan(plan), {
+            attributes: { "arqos.plan.id": plan.id }
+        });
+    }
+
+    /**
+     * End-to-end run: intent → AE2 decision → AE3 execution → audit of the outcome
+     */
+    public async run(intent: string, options: RunOptions = {}): Promise<RunResult> {
+        // Um trace por run: decisão, execução das tools e auditoria ficam sob o mesmo span
+        return tracer.withSpan("Arqos.run", async (span) => {
+            const result = await this.runTraced(intent, options);
+            span.setAttribute("arqos.run.status", result.outcome.status);
+            return result;
+        }, { attributes: { "arqos.mode": this.config.mode } });
+    }
+
+    private async runTraced(intent: string, options: RunOptions): Promise<RunResult> {
+        const { decision, plan } = await this.decide(
+            { ...options.context, intent },
+            options.agents,
+            options.constraints
+        );
+
+        const client = new AE3Client(this.pipeline);
+        const sent = await client.sendPlan(plan, {
+            input: options.input ?? intentInput(intent),
+            isToolAvailable: (name) => this.pipeline.hasTool(name)
+        });
+
+        await this.decisionEngine.logExecution(sent.outcome);
+        console.log(`[Arqos] Run ${plan.id} finished: ${sent.outcome.status} (${sent.outcome.duration}ms)`);
+
+        return { decision, plan, ...sent };
     }
 }
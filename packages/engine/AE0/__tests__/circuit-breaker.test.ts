@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CircuitBreaker,
+  CircuitBreakerError,
+  CircuitBreakerOptions,
+  CircuitBreakerRegistry,
+} from "../circuit-breaker/circuit-breaker";
+import {
+  CircuitStateBackend,
+  FileCircuitStateBackend,
+  InMemoryCircuitStateBackend,
+} from "../circuit-breaker/circuit-state-store";
+import { getConfigService } from "../../src/core/config";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("AE0 CircuitBreaker", () => {
+  const breakers: CircuitBreaker[] = [];
+
+  function create(options: Partial<CircuitBreakerOptions> = {}): CircuitBreaker {
+    const breaker = new CircuitBreaker({ name: "downstream", syncIntervalMs: 0, ...options });
+    breakers.push(breaker);
+    return breaker;
+  }
+
+  afterEach(() => {
+    breakers.splice(0).forEach((breaker) => breaker.destroy());
+  });
+
+  it("deve abrir pela taxa de falhas na janela deslizante", () => {
+    const breaker = create({
+      failureThreshold: 100,
+      slidingWindow: { windowMs: 60000, failureRateThreshold: 0.5, minimumRequests: 4 },
+    });
+
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.getStats()).toMatchObject({ failureRate: 0.5, windowRequests: 4 });
+  });
+
+  it("deve ignorar amostras fora da janela", () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(1000);
+    const breaker = create({
+      failureThreshold: 100,
+      slidingWindow: { windowMs: 100, failureRateThreshold: 0.5, minimumRequests: 2 },
+    });
+
+    breaker.recordFailure();
+    now.mockReturnValue(1200);
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+
+    expect(breaker.getStats()).toMatchObject({ state: "closed", failureRate: 0, windowRequests: 2 });
+    now.mockRestore();
+  });
+
+  it("deve manter o circuito aberto após restart com backend em arquivo", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-circuit-"));
+    try {
+      create({ stateBackend: new FileCircuitStateBackend(dir) }).trip();
+      await flush();
+
+      const restarted = create({ stateBackend: new FileCircuitStateBackend(dir) });
+      await restarted.restore();
+
+      expect(restarted.getState()).toBe("open");
+      await expect(restarted.execute(async () => "ok")).rejects.toBeInstanceOf(CircuitBreakerError);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("deve resolver o backend do registry pelo config carregado depois do import", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-circuit-"));
+    try {
+      create({ stateBackend: new FileCircuitStateBackend(dir) }).trip();
+      await flush();
+
+      getConfigService().load({ env: { ARQOS_CIRCUIT_STATE_DIR: dir } });
+      const restarted = CircuitBreakerRegistry.getOrCreate({ name: "downstream", resetTimeoutMs: 60000 });
+      await CircuitBreakerRegistry.restoreAll();
+
+      expect(restarted.getState()).toBe("open");
+    } finally {
+      CircuitBreakerRegistry.clear();
+      getConfigService().reset();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("deve compartilhar o estado entre instâncias via backend", async () => {
+    const backend = new InMemoryCircuitStateBackend();
+    const workerA = create({ stateBackend: backend, failureThreshold: 2 });
+    const workerB = create({ stateBackend: backend, failureThreshold: 2 });
+
+    await expect(workerB.execute(async () => "ok")).resolves.toBe("ok");
+
+    for (let i = 0; i < 2; i++) {
+      await workerA.execute(async () => { throw new Error("down"); }).catch(() => undefined);
+    }
+    await flush();
+
+    await expect(workerB.execute(async () => "ok")).rejects.toMatchObject({ state: "open" });
+  });
+
+  it("deve passar a half-open ao restaurar um circuito aberto há mais que resetTimeoutMs", async () => {
+    const backend: CircuitStateBackend = new InMemoryCircuitStateBackend();
+    await backend.save("downstream", {
+      state: "open",
+      failures: 5,
+      successes: 0,
+      window: [],
+      lastStateChange: Date.now() - 5000,
+      updatedAt: Date.now(),
+    });
+
+    const breaker = create({ stateBackend: backend, resetTimeoutMs: 1000 });
+    await breaker.restore();
+
+    expect(breaker.getState()).toBe("half_open");
+  });
+});
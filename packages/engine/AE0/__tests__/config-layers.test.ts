@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ConfigChange, getConfigService } from "../../src/core/config";
+
+describe("AE0 layered configuration", () => {
+  const service = getConfigService();
+  let dir: string;
+  let runtimeDir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-config-"));
+    runtimeDir = path.join(dir, "runtime");
+    configFile = path.join(dir, "arqos.config.yaml");
+    fs.mkdirSync(runtimeDir);
+    fs.writeFileSync(configFile, "");
+    fs.writeFileSync(
+      path.join(runtimeDir, "runtime_fullstack.yaml"),
+      "runtime:\n  environment: production\nobservability:\n  tracing:\n    enabled: false\n"
+    );
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    service.reset();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("deve aplicar as camadas em ordem e registrar a origem de cada chave", () => {
+    fs.writeFileSync(configFile, "mode: fullstack\nvectorial:\n  provider: pinecone\n  dimensions: 512\n");
+
+    service.load({
+      configFile,
+      runtimeDir,
+      env: { ARQOS_VECTORIAL_DIMENSIONS: "1024", ARQOS_VECTORIAL_PROVIDER: "" },
+      overrides: { storage_path: "/data" }
+    });
+
+    expect(service.get("environment")).toBe("production");
+    expect(service.get("tracing.enabled")).toBe(false);
+    expect(service.get("vectorial.provider")).toBe("pinecone");
+    expect(service.get("vectorial.dimensions")).toBe(1024);
+    expect(service.explain("vectorial.dimensions")).toMatchObject({
+      source: "env",
+      origin: "ARQOS_VECTORIAL_DIMENSIONS",
+      overridden: [
+        { source: "file", origin: configFile, value: 512 },
+        { source: "default", value: 768 }
+      ]
+    });
+    expect(service.explain("environment")).toMatchObject({ source: "runtime", origin: path.join(runtimeDir, "runtime_fullstack.yaml") });
+    expect(service.explain("storage_path")).toMatchObject({ source: "explicit", origin: "ArqosConfig", value: "/data" });
+  });
+
+  it("deve mascarar segredos", () => {
+    service.load({ runtimeDir, configFile, env: { OPENAI_API_KEY: "sk-secret" } });
+
+    expect(service.get("embedding.openai_api_key")).toBe("sk-secret");
+    expect(service.explain("embedding.openai_api_key").value).toBe("***");
+    expect(JSON.stringify(service.effective())).not.toContain("sk-secret");
+  });
+
+  it.each([
+    ["valor inválido", {}, { ARQOS_VECTORIAL_DIMENSIONS: "abc" }, /vectorial\.dimensions = "abc" \(ARQOS_VECTORIAL_DIMENSIONS\)/],
+    ["chave desconhecida no arquivo", { "arqos.config.yaml": "vectorial:\n  dimension: 512\n" }, {}, /unknown key "dimension"/]
+  ])("deve falhar rápido com %s", (_case, files: Record<string, string>, env, message) => {
+    for (const [name, content] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), content);
+
+    const load = () => service.load({ runtimeDir, configFile, env });
+    expect(load).toThrow(message);
+    expect(load).toThrow(expect.objectContaining({ code: "ARQOS_FAIL_FAST" }));
+  });
+
+  it("deve recarregar apenas chaves reloadable e notificar a mudança", () => {
+    const env: NodeJS.ProcessEnv = {};
+    fs.writeFileSync(configFile, "embedding:\n  provider: local\nvectorial:\n  max_items: 10\n");
+    service.load({ runtimeDir, configFile, env });
+    const changes: ConfigChange[] = [];
+    service.onChange((change) => changes.push(change));
+
+    fs.writeFileSync(configFile, "embedding:\n  provider: openai\nvectorial:\n  max_items: 99\n");
+    env.OPENAI_API_KEY = "sk-new";
+    service.reload();
+
+    expect(service.get("embedding.provider")).toBe("openai");
+    expect(service.get("vectorial.max_items")).toBe(10);
+    expect(changes).toEqual([
+      { key: "embedding.provider", previous: "local", value: "openai", source: "file", origin: configFile },
+      { key: "embedding.openai_api_key", previous: undefined, value: "***", source: "env", origin: "OPENAI_API_KEY" }
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("vectorial.max_items changed"));
+  });
+});
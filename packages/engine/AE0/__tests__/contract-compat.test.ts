@@ -0,0 +1,119 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as YAML from "yaml";
+import {
+  compareContractFiles,
+  compareContracts,
+  compareContractsWithGit,
+  loadContractDocument,
+} from "../validators/contract-compat";
+
+const ENGINE_ROOT = path.resolve(__dirname, "..", "..");
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe("AE0 contract compatibility", () => {
+  let tool: any;
+
+  beforeEach(async () => {
+    tool = await loadContractDocument(path.join(ENGINE_ROOT, "AE3", "contracts", "tools", "traducao.contract.yaml"));
+  });
+
+  it("não deve reportar mudanças entre versões idênticas", async () => {
+    const file = path.join(ENGINE_ROOT, "AE2", "contracts", "m1-m2.contract.yaml");
+    const report = await compareContractFiles(file, file);
+
+    expect(report).toMatchObject({ declaredBump: "none", requiredBump: "none", sufficient: true, changes: [] });
+  });
+
+  it("deve classificar mudanças em schemas de entrada e saída", () => {
+    const next = clone(tool);
+    next.version = "1.1.0";
+    next.input_schema.required.push("glossary");
+    next.input_schema.properties.quality_level.enum.push("max");
+    next.output_schema.required.push("detected_lang");
+    delete next.output_schema.properties.quality_score;
+    next.description = "Traduz textos";
+
+    const report = compareContracts(tool, next);
+
+    expect(report.changes).toEqual(expect.arrayContaining([
+      { kind: "breaking", pointer: "/input_schema/required", message: expect.stringContaining("glossary") },
+      { kind: "additive", pointer: "/input_schema/properties/quality_level/enum", message: expect.stringContaining("max") },
+      { kind: "additive", pointer: "/output_schema/required", message: expect.stringContaining("detected_lang") },
+      { kind: "breaking", pointer: "/output_schema/properties/quality_score", message: expect.stringContaining("removida") },
+      { kind: "patch", pointer: "/description", message: expect.any(String) },
+    ]));
+    expect(report).toMatchObject({ declaredBump: "minor", requiredBump: "major", sufficient: false });
+  });
+
+  it("deve aceitar bump minor para mudanças aditivas em cláusulas provides", async () => {
+    const previous: any = await loadContractDocument(path.join(ENGINE_ROOT, "AE2", "contracts", "m1-m2.contract.yaml"));
+    const next = clone(previous);
+    next.version = "1.1.0";
+    next.m1_provides[0].schema.properties.rationale = { type: "string" };
+    next.m2_provides.push({ name: "orchestration_metrics", format: "Metrics", frequency: "periodic" });
+
+    const report = compareContracts(previous, next);
+
+    expect(report.changes.map((change) => [change.kind, change.pointer])).toEqual([
+      ["additive", "/m1_provides/0/schema/properties/rationale"],
+      ["additive", "/m2_provides/1"],
+    ]);
+    expect(report).toMatchObject({ requiredBump: "minor", sufficient: true });
+  });
+
+  it("deve tratar mudanças em contratos JSON sem schema de forma conservadora", async () => {
+    const previous: any = await loadContractDocument(path.join(ENGINE_ROOT, "AE0", "ae0_to_ae1.contract.json"));
+    const next = clone(previous);
+    next.version = "1.0.1";
+    next.expectations_from_ae1.forbidden_actions = next.expectations_from_ae1.forbidden_actions.filter(
+      (action: string) => action !== "unlock_ae2"
+    );
+
+    const report = compareContracts(previous, next);
+
+    expect(report.changes).toEqual([
+      { kind: "breaking", pointer: "/expectations_from_ae1/forbidden_actions", message: "Itens removidos: unlock_ae2" },
+    ]);
+    expect(report).toMatchObject({ declaredBump: "patch", requiredBump: "major", sufficient: false });
+  });
+
+  it("deve recusar regressão de versão", () => {
+    const next = clone(tool);
+    next.version = "0.9.0";
+
+    expect(compareContracts(tool, next)).toMatchObject({ declaredBump: null, sufficient: false });
+  });
+
+  it("deve comparar contratos renomeados com o arquivo de origem", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-compat-"));
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@local", ...args], { cwd: dir, encoding: "utf-8" });
+
+    try {
+      git("init", "-q");
+      fs.writeFileSync(path.join(dir, "old.contract.yaml"), YAML.stringify(tool));
+      git("add", "-A");
+      git("commit", "-q", "-m", "base");
+
+      git("mv", "old.contract.yaml", "new.contract.yaml");
+      const next = clone(tool);
+      next.version = "1.0.1";
+      next.description = "Traduz textos";
+      fs.writeFileSync(path.join(dir, "new.contract.yaml"), YAML.stringify(next));
+
+      const reports = await compareContractsWithGit("HEAD", dir);
+
+      expect(reports).toEqual([
+        expect.objectContaining({ file: "new.contract.yaml", declaredBump: "patch", requiredBump: "patch", sufficient: true }),
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
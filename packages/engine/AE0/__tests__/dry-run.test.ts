@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { dryRunBootstrap, formatReport } from "../dry-run";
+
+const SCHEMAS_PATH = path.resolve(__dirname, "..", "..", "schemas");
+
+describe("AE0 bootstrap dry-run", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-dry-run-"));
+    fs.mkdirSync(path.join(root, "AE0"));
+    fs.mkdirSync(path.join(root, "interfaces"));
+    fs.writeFileSync(path.join(root, "AE0", "ae0.yaml"), "id: AE0\nversion: \"1.0\"\nunlock_sequence:\n  order: [AE2, AE1, AE3]\n");
+    fs.writeFileSync(
+      path.join(root, "interfaces", "ae1-ae2.contract.yaml"),
+      "contract_id: ae1-ae2\nversion: \"2\"\nprovides: []\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  async function run(mode = "lite") {
+    return dryRunBootstrap(mode, {
+      engineRoot: root,
+      schemasPath: SCHEMAS_PATH,
+      contractsPath: path.join(root, "interfaces"),
+    });
+  }
+
+  it("deve coletar os problemas de todas as verificações", async () => {
+    const report = await run("staging");
+
+    expect(report.valid).toBe(false);
+    expect(report.checks.map((check) => [check.check, check.passed])).toEqual([
+      ["mode", false],
+      ["schemas", false],
+      ["contracts", false],
+      ["dependencies", false],
+    ]);
+
+    const schemaIssues = report.checks[1].issues;
+    expect(schemaIssues).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        file: "AE0/ae0.yaml",
+        pointer: "/role",
+        schema: "ae0.schema.json#/required",
+        hint: expect.stringContaining("role"),
+      }),
+      expect.objectContaining({ file: "AE0/ae0.yaml", pointer: "/version" }),
+    ]));
+
+    expect(report.checks[2].issues).toEqual([
+      expect.objectContaining({
+        file: "interfaces/ae1-ae2.contract.yaml",
+        pointer: "/version",
+        hint: expect.stringContaining("semver"),
+      }),
+    ]);
+    expect(report.checks[3].issues.map((issue) => issue.file)).toContain("AE1/ae1.yaml");
+    expect(report.summary.errors).toBe(report.checks.flatMap((check) => check.issues).length);
+  });
+
+  it("deve renderizar o relatório em JUnit XML", async () => {
+    const xml = formatReport(await run(), "junit");
+
+    expect(xml).toContain('<testsuite name="mode" tests="1" failures="0"');
+    expect(xml).toContain('<testcase classname="schemas" name="AE0/ae0.yaml">');
+    expect(xml).toContain('<testcase classname="contracts" name="interfaces/ae1-ae2.contract.yaml">');
+    expect(xml).toMatch(/<failure message="\/role: must have required property &apos;role&apos;" type="schemas">/);
+    expect(xml).toContain("hint: O valor deve casar com");
+    expect(xml).toContain("file: AE0/ae0.yaml#/role");
+  });
+});
@@ -0,0 +1,94 @@
+import { createEventBus } from "../event-stream/event-bus";
+import { matchesTopic } from "../event-stream/topic-matcher";
+
+describe("AE0 EventBus", () => {
+  describe("matchesTopic()", () => {
+    it.each([
+      ["circuit.*", "circuit.failure", true],
+      ["circuit.*", "circuit", false],
+      ["circuit.*", "circuit.state.change", false],
+      ["ae3.tool.#", "ae3.tool", true],
+      ["ae3.tool.#", "ae3.tool.http.timeout", true],
+      ["ae3.#.timeout", "ae3.tool.http.timeout", true],
+      ["ae3.#.timeout", "ae3.tool.http.failed", false],
+      ["*", "plugin.reloaded", true],
+      ["plugin.reloaded", "plugin.reloaded", true],
+    ])("%s × %s → %s", (pattern, type, expected) => {
+      expect(matchesTopic(pattern, type)).toBe(expected);
+    });
+  });
+
+  it("deve entregar eventos a inscrições por padrão hierárquico", () => {
+    const bus = createEventBus();
+    const received: string[] = [];
+    bus.subscribe("circuit.*", (_payload, meta) => { received.push(`family:${meta.type}`); });
+    bus.subscribe("circuit.failure", (_payload, meta) => { received.push(`exact:${meta.type}`); });
+    bus.subscribe("*", (_payload, meta) => { received.push(`all:${meta.type}`); });
+
+    bus.publish("circuit.failure", {});
+    bus.publish("plugin.reloaded", {});
+
+    expect(received).toEqual([
+      "exact:circuit.failure",
+      "family:circuit.failure",
+      "all:circuit.failure",
+      "all:plugin.reloaded",
+    ]);
+  });
+
+  it("deve tentar novamente com backoff e enviar à DLQ quando as tentativas acabam", async () => {
+    const bus = createEventBus();
+    let calls = 0;
+    bus.subscribe("ae3.tool.#", async () => {
+      calls++;
+      throw new Error("handler down");
+    }, { retry: { retries: 2, delay: 1 } });
+
+    bus.publish("ae3.tool.http.timeout", { tool: "HTTPRequest" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(calls).toBe(3);
+    expect(bus.getDeadLetters()).toEqual([
+      expect.objectContaining({
+        subscription: "ae3.tool.#",
+        error: "handler down",
+        attempts: 3,
+        event: expect.objectContaining({ type: "ae3.tool.http.timeout" }),
+      }),
+    ]);
+    expect(bus.getStats().deadLetterCount).toBe(1);
+  });
+
+  it("deve reentregar eventos da DLQ ao handler original", async () => {
+    const bus = createEventBus();
+    let healthy = false;
+    const delivered: unknown[] = [];
+    bus.subscribe("circuit.state_change", (payload) => {
+      if (!healthy) throw new Error("not yet");
+      delivered.push(payload);
+    });
+
+    bus.publish("circuit.state_change", { to: "open" });
+    bus.publish("circuit.state_change", { to: "closed" });
+    expect(bus.getDeadLetters({ type: "circuit.state_change" })).toHaveLength(2);
+
+    const [first] = bus.getDeadLetters();
+    expect(await bus.redriveDeadLetters([first.id])).toEqual({ redelivered: 0, failed: 1 });
+    expect(bus.getDeadLetters()).toHaveLength(2);
+
+    healthy = true;
+    expect(await bus.redriveDeadLetters()).toEqual({ redelivered: 2, failed: 0 });
+    expect(delivered).toEqual([{ to: "closed" }, { to: "open" }]);
+    expect(bus.getDeadLetters()).toEqual([]);
+  });
+
+  it("deve descartar entradas da DLQ", () => {
+    const bus = createEventBus({ deadLetterLimit: 2 });
+    bus.subscribe("job", () => { throw new Error("x"); });
+    for (let i = 0; i < 3; i++) bus.publish("job", i);
+
+    expect(bus.getDeadLetters().map((letter) => letter.event.payload)).toEqual([1, 2]);
+    expect(bus.purgeDeadLetters()).toBe(2);
+    expect(bus.getStats().deadLetterCount).toBe(0);
+  });
+});
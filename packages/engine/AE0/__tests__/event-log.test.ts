@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createEventBus, EventRecord } from "../event-stream/event-bus";
+import { EventLog } from "../event-stream/event-log";
+
+describe("AE0 Event Log", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-events-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("deve segmentar o log e reabrir a partir do último offset", () => {
+    const log = new EventLog({ directory: dir, segmentMaxBytes: 200 });
+    for (let i = 0; i < 10; i++) {
+      log.append({ id: `e${i}`, type: "test", payload: { i }, priority: 50, timestamp: 1000 + i });
+    }
+
+    expect(log.getSegmentCount()).toBeGreaterThan(1);
+
+    const reopened = new EventLog({ directory: dir, segmentMaxBytes: 200 });
+    expect(reopened.getNextOffset()).toBe(10);
+    expect(reopened.read({ fromOffset: 7 }).map((e) => e.offset)).toEqual([7, 8, 9]);
+    expect(reopened.read({ fromTimestamp: 1008 }).map((e) => e.id)).toEqual(["e8", "e9"]);
+  });
+
+  it("deve descartar registro parcial deixado por um crash", () => {
+    const log = new EventLog({ directory: dir });
+    log.append({ id: "a", type: "test", payload: 1, priority: 50, timestamp: 1 });
+    const [segment] = fs.readdirSync(dir).filter((f) => f.endsWith(".jsonl"));
+    fs.appendFileSync(path.join(dir, segment), '{"id":"b","type":"te');
+
+    const reopened = new EventLog({ directory: dir });
+    reopened.append({ id: "c", type: "test", payload: 3, priority: 50, timestamp: 3 });
+
+    expect(reopened.read().map((e) => [e.id, e.offset])).toEqual([["a", 0], ["c", 1]]);
+  });
+
+  it("deve remover segmentos antigos além de maxSegments", () => {
+    const log = new EventLog({ directory: dir, segmentMaxBytes: 100, maxSegments: 2 });
+    for (let i = 0; i < 10; i++) {
+      log.append({ id: `e${i}`, type: "test", payload: i, priority: 50, timestamp: i });
+    }
+
+    expect(log.getSegmentCount()).toBe(2);
+    expect(log.read()[0].offset).toBe(log.getFirstOffset());
+  });
+
+  describe("EventBus com persistência", () => {
+    it("deve reentregar eventos por offset, timestamp e filtro", () => {
+      const bus = createEventBus({ persistence: { directory: dir } });
+      bus.publish("ae3.execution.completed", { plan: 1 }, { source: "AE3" });
+      bus.publish("plugin.reloaded", { name: "x" }, { source: "AE3/hot-reload" });
+      bus.publish("ae3.execution.completed", { plan: 2 }, { source: "AE3" });
+
+      const received: EventRecord[] = [];
+      bus.subscribe("ae3.execution.completed", (_payload, meta) => { received.push(meta); });
+
+      expect(bus.replay({ fromOffset: 1 }, { types: ["ae3.execution.completed"] })).toBe(1);
+      expect(received).toEqual([expect.objectContaining({ offset: 2, payload: { plan: 2 }, replayed: true })]);
+
+      // Um novo bus sobre o mesmo diretório enxerga o histórico
+      const restarted = createEventBus({ persistence: { directory: dir } });
+      const types: string[] = [];
+      restarted.subscribe("*", (_payload, meta) => { types.push(meta.type); });
+      restarted.replay({ fromTimestamp: 0 });
+
+      expect(types).toEqual(["ae3.execution.completed", "plugin.reloaded", "ae3.execution.completed"]);
+      expect(restarted.getStats().logOffset).toBe(3);
+    });
+
+    it("deve consumir por consumer group a partir do offset confirmado", async () => {
+      const bus = createEventBus({ persistence: { directory: dir } });
+      for (let i = 0; i < 4; i++) bus.publish("job", i);
+
+      const seen: unknown[] = [];
+      const failOn = 2;
+      await expect(
+        bus.consume("workers", async (payload) => {
+          if (payload === failOn) throw new Error("boom");
+          seen.push(payload);
+        })
+      ).rejects.toThrow("boom");
+
+      expect(seen).toEqual([0, 1]);
+      expect(bus.getEventLog()!.getCommittedOffset("workers")).toBe(2);
+
+      // Após restart, retoma no evento que falhou
+      const restarted = createEventBus({ persistence: { directory: dir } });
+      const processed = await restarted.consume("workers", async (payload) => { seen.push(payload); });
+
+      expect(processed).toBe(2);
+      expect(seen).toEqual([0, 1, 2, 3]);
+      expect(await restarted.consume("workers", async () => undefined)).toBe(0);
+      expect(await restarted.consume("audit", async () => undefined)).toBe(4);
+    });
+
+    it("deve recusar replay sem persistência", () => {
+      expect(() => createEventBus().replay({ fromOffset: 0 })).toThrow(/Event log disabled/);
+    });
+  });
+});
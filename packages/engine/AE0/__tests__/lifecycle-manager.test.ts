@@ -0,0 +1,119 @@
+import type { AE0Context } from "../bootstrap";
+import { LifecycleManager, LifecycleComponent } from "../unlock/lifecycle-manager";
+import { resolveUnlockOrder } from "../unlock/unlock-sequencer";
+
+const DEPENDENCIES = { AE2: [], AE1: ["AE2"], AE3: ["AE2", "AE1"] };
+
+function fakeComponent(name: string, calls: string[], overrides: Partial<LifecycleComponent> = {}): LifecycleComponent {
+  return {
+    name,
+    initialize: async () => { calls.push(`init:${name}`); },
+    shutdown: async () => { calls.push(`stop:${name}`); },
+    ...overrides,
+  };
+}
+
+describe("AE0 LifecycleManager", () => {
+  let lifecycle: LifecycleManager;
+  let context: AE0Context;
+  let calls: string[];
+
+  beforeEach(() => {
+    lifecycle = new LifecycleManager();
+    context = { mode: "lite", state: {}, lifecycle };
+    calls = [];
+  });
+
+  it("deve subir na ordem do grafo e desligar em ordem reversa", async () => {
+    ["AE3", "AE1", "AE2"].forEach((name) => lifecycle.register(fakeComponent(name, calls)));
+
+    await resolveUnlockOrder(["AE2", "AE1", "AE3"], context, DEPENDENCIES);
+
+    expect(calls).toEqual(["init:AE2", "init:AE1", "init:AE3"]);
+    expect(context.state).toEqual({ AE2_ready: true, AE1_ready: true, AE3_ready: true });
+    expect(lifecycle.getStatus()).toEqual({ AE3: "ready", AE1: "ready", AE2: "ready" });
+
+    await lifecycle.shutdownAll();
+    expect(calls.slice(3)).toEqual(["stop:AE3", "stop:AE1", "stop:AE2"]);
+  });
+
+  it("deve aguardar a readiness probe", async () => {
+    let ready = false;
+    lifecycle.register(fakeComponent("AE2", calls, {
+      initialize: async () => { setTimeout(() => { ready = true; }, 30); },
+      isReady: () => ready,
+    }));
+
+    await lifecycle.startAll(["AE2"], context);
+    expect(lifecycle.getStatus().AE2).toBe("ready");
+  });
+
+  it("deve falhar por timeout e desligar os componentes já iniciados", async () => {
+    lifecycle.register(fakeComponent("AE2", calls));
+    lifecycle.register(fakeComponent("AE1", calls, { initialize: () => new Promise(() => undefined) }), { timeoutMs: 30 });
+
+    await expect(lifecycle.startAll(["AE2", "AE1"], context, DEPENDENCIES)).rejects.toMatchObject({ code: "ETIMEDOUT" });
+    expect(calls).toEqual(["init:AE2", "stop:AE1", "stop:AE2"]);
+    expect(lifecycle.getStatus()).toEqual({ AE2: "stopped", AE1: "stopped" });
+  });
+
+  it("deve recusar componentes cujas dependências não estão prontas", async () => {
+    lifecycle.register(fakeComponent("AE1", calls));
+
+    await expect(lifecycle.startAll(["AE1"], context, DEPENDENCIES)).rejects.toMatchObject({
+      code: "ARQOS_UNLOCK_FAILED",
+      message: expect.stringContaining("AE1 requires AE2"),
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it("deve executar os hooks de shutdown depois dos componentes", async () => {
+    lifecycle.register(fakeComponent("AE2", calls));
+    lifecycle.onShutdown(() => {
+      calls.push("hook");
+    });
+    await lifecycle.startAll(["AE2"], context);
+
+    await lifecycle.shutdownAll();
+    await lifecycle.shutdownAll();
+
+    expect(calls).toEqual(["init:AE2", "stop:AE2", "hook"]);
+  });
+
+  it("deve desligar no SIGTERM e reenviar o sinal sem chamar process.exit", async () => {
+    const exit = jest.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+    const kill = jest.spyOn(process, "kill").mockImplementation(() => true);
+    lifecycle.register(fakeComponent("AE2", calls));
+    await lifecycle.startAll(["AE2"], context);
+    lifecycle.installSignalHandlers({ signals: ["SIGTERM"] });
+
+    process.emit("SIGTERM", "SIGTERM");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(calls).toEqual(["init:AE2", "stop:AE2"]);
+    expect(exit).not.toHaveBeenCalled();
+    expect(kill).toHaveBeenCalledWith(process.pid, "SIGTERM");
+    exit.mockRestore();
+    kill.mockRestore();
+  });
+
+  it("deve usar o shutdown informado e não reenviar o sinal se outro listener o trata", async () => {
+    const kill = jest.spyOn(process, "kill").mockImplementation(() => true);
+    const appHandler = () => undefined;
+    process.on("SIGTERM", appHandler);
+    lifecycle.installSignalHandlers({
+      signals: ["SIGTERM"],
+      shutdown: async () => {
+        calls.push("app:shutdown");
+      },
+    });
+
+    process.emit("SIGTERM", "SIGTERM");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(calls).toEqual(["app:shutdown"]);
+    expect(kill).not.toHaveBeenCalled();
+    process.removeListener("SIGTERM", appHandler);
+    kill.mockRestore();
+  });
+});
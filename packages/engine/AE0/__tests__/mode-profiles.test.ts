@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  clearModeCache,
+  getModeConfig,
+  listModes,
+  loadCustomModes,
+  validateMode
+} from "../validators/mode-validator";
+import { ExecutionEngine } from "../../AE3/execution/execution-engine";
+import { ToolRegistry } from "../../AE3/tools/recebe/tool-registry";
+import type { Tool } from "../../AE3/integration/tool-interface";
+
+describe("AE0 custom operational modes", () => {
+  const dirs: string[] = [];
+
+  function modesDir(files: Record<string, string>): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-modes-"));
+    dirs.push(dir);
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, name), content);
+    }
+    return dir;
+  }
+
+  afterEach(() => {
+    delete process.env.ARQOS_MODES_PATH;
+    clearModeCache();
+  });
+
+  afterAll(() => {
+    for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("deve carregar o perfil staging herdando do fullstack", () => {
+    const staging = getModeConfig("staging");
+
+    expect(listModes()).toEqual(expect.arrayContaining(["lite", "fullstack", "staging"]));
+    expect(validateMode("staging")).toBe(true);
+    expect(staging.base).toBe("fullstack");
+    expect(staging.settings.ae1).toEqual({
+      memory_tiers: ["short_term", "long_term", "vectorial"],
+      state_store: "memory"
+    });
+    expect(staging.settings.ae2.modules).toHaveLength(5);
+    expect(staging.settings.ae3.tools).toBe("all");
+    expect(staging.settings.network.outbound).toBe(false);
+    expect(staging.features.ae0).toEqual(getModeConfig("fullstack").features.ae0);
+  });
+
+  it("deve encadear herança entre modos customizados", () => {
+    const dir = modesDir({
+      "offline.yaml": [
+        "mode: offline",
+        "extends: lite",
+        "settings:",
+        "  network:",
+        "    outbound: false"
+      ].join("\n"),
+      "offline-demo.yml": [
+        "mode: offline-demo",
+        "extends: offline",
+        "description: Demo sem rede",
+        "settings:",
+        "  ae3:",
+        "    tools: [UserIntentParser, ClauseGeneration]"
+      ].join("\n")
+    });
+
+    const demo = loadCustomModes(dir).get("offline-demo")!;
+
+    expect(demo.base).toBe("lite");
+    expect(demo.description).toBe("Demo sem rede");
+    expect(demo.settings.network.outbound).toBe(false);
+    expect(demo.settings.ae3).toMatchObject({ tools: ["UserIntentParser", "ClauseGeneration"], parallel_execution: false });
+    expect(demo.settings.ae1.state_store).toBe("memory");
+  });
+
+  it.each([
+    ["herança circular", { "a.yaml": "mode: a\nextends: b", "b.yaml": "mode: b\nextends: a" }, /herança circular/],
+    ["pai inexistente", { "a.yaml": "mode: a\nextends: ghost" }, /estende "ghost"/],
+    ["modo embutido redefinido", { "lite.yaml": "mode: lite\nextends: fullstack" }, /redefine o modo embutido/],
+    ["campo fora do schema", { "a.yaml": "mode: a\nextends: lite\nsettings:\n  ae3:\n    parallel: true" }, /inválido/],
+    ["memória sem short_term", { "a.yaml": "mode: a\nextends: lite\nsettings:\n  ae1:\n    memory_tiers: [vectorial]" }, /inválido/]
+  ])("deve falhar no bootstrap com %s", (_case, files, message) => {
+    const dir = modesDir(files);
+
+    expect(() => loadCustomModes(dir)).toThrow(message);
+    expect(() => loadCustomModes(dir)).toThrow(expect.objectContaining({ code: "ARQOS_FAIL_FAST" }));
+  });
+
+  it("deve rejeitar modos não declarados", () => {
+    process.env.ARQOS_MODES_PATH = modesDir({});
+
+    expect(() => validateMode("staging")).toThrow('Modo operacional inválido: "staging". Use: lite, fullstack');
+  });
+
+  it("deve aplicar paralelismo do modo no ExecutionEngine", async () => {
+    process.env.ARQOS_MODES_PATH = modesDir({
+      "narrow.yaml": "mode: narrow\nextends: fullstack\nsettings:\n  ae3:\n    max_concurrency: 2"
+    });
+
+    let running = 0;
+    let peak = 0;
+    const fetchTool: Tool = {
+      id: "Fetch",
+      name: "Fetch",
+      phase: "colhe",
+      version: "1.0.0",
+      async execute() {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return { tool_id: "Fetch", tool_name: "Fetch", success: true, duration_ms: 0, timestamp: new Date() };
+      },
+      async healthCheck() {
+        return { tool_name: "Fetch", status: "healthy", last_check: new Date(), avg_latency_ms: 0, success_rate: 1 };
+      }
+    };
+    const registry = new ToolRegistry("fullstack");
+    await registry.registerTool("Fetch", "colhe", () => fetchTool);
+
+    const result = await new ExecutionEngine("narrow", registry).execute({
+      id: "plan-narrow",
+      timeout_budget: 1000,
+      sequence: ["f1", "f2", "f3"].map((id) => ({ id, tool_name: "Fetch", tool_input: {}, depends_on: [] }))
+    });
+
+    expect(result.success).toBe(true);
+    expect(peak).toBe(2);
+  });
+});
@@ -1,21 +1,47 @@
 // AE0 bootstrap orchestrator (core)
 import { validateContracts } from "./validators/contract-validator";
 import { validateSchemas } from "./validators/schema-validator";
-import { validateMode } from "./validators/mode-validator";
+import { validateMode, getBaseMode, OperationalMode } from "./validators/mode-validator";
 import { resolveDependencies } from "./validators/dependency-resolver";
 import { resolveUnlockOrder } from "./unlock/unlock-sequencer";
-import { initializeEventStream } from "./event-stream/event-bus";
-import { startHealthMonitoring } from "../health/health-monitor";
+import { LifecycleManager } from "./unlock/lifecycle-manager";
+import { registerCoreComponents } from "./unlock/core-components";
+import { initializeEventStream, getEventBus } from "./event-stream/event-bus";
+import { CircuitBreakerRegistry } from "./circuit-breaker/circuit-breaker";
+import { getHealthMonitor, startHealthMonitoring } from "../health/health-monitor";
+import { tracer } from "../runtime/tracing";
+import { resolveSpanExporterFromEnv } from "../runtime/otlp-exporter";
 import * as path from "path";
 import { EnginePaths } from "../src/core/paths";
+import { getConfig, getConfigService } from "../src/core/config";
 import { ArqosError } from "@arqos/utils";
+import type { StateStore } from "../AE1/state/state-store";
+
+export { dryRunBootstrap } from "./dry-run";
+export type { BootstrapReport, ValidationIssue } from "./validators/validation-report";
 
 export type AE0Context = {
-  mode: "lite" | "fullstack";
+  mode: OperationalMode;
   state: Record<string, unknown>;
+  lifecycle: LifecycleManager;
 };
 
-export async function bootstrap(mode: "lite" | "fullstack"): Promise<AE0Context> {
+export interface BootstrapOptions {
+  /** Componentes já registrados; vazio = registra AE1, AE2 e AE3 */
+  lifecycle?: LifecycleManager;
+  /** false = apenas validações e event stream, sem subir componentes (padrão: true) */
+  startComponents?: boolean;
+  /** Shutdown gracioso dos componentes em SIGTERM/SIGINT (padrão: true; o Arqos instala o próprio) */
+  handleSignals?: boolean;
+  /** Store usado pela memória do AE1 (padrão: o AE1 cria conforme o modo e a config) */
+  stateStore?: StateStore;
+  /** Recarrega as chaves reloadable quando o arquivo de config do projeto muda (padrão: true) */
+  watchConfig?: boolean;
+}
+
+let stopConfigEvents: (() => void) | undefined;
+
+export async function bootstrap(mode: OperationalMode, options: BootstrapOptions = {}): Promise<AE0Context> {
   console.log(`[AE0] Starting bootstrap in ${mode} mode...`);
 
   validateMode(mode);
@@ -35,16 +61,51 @@ export async function bootstrap(mode: "lite" | "fullstack"): Promise<AE0Context>
   }
 
   await validateContracts(contractsPath);
-  await resolveDependencies(engineRoot);
+  const { order, dependencies } = await resolveDependencies(engineRoot);
 
-  await initializeEventStream(mode);
-  await resolveUnlockOrder(["AE2", "AE1", "AE3"]);
-  startHealthMonitoring();
+  // Tracing: ARQOS_TRACE_FILE ou OTEL_EXPORTER_OTLP_ENDPOINT habilitam o export OTLP/JSON
+  tracer.configure({
+    exporter: getConfig("tracing.enabled") ? resolveSpanExporterFromEnv() : undefined,
+    serviceName: getConfig("tracing.service_name")
+  });
 
-  console.log("[AE0] Bootstrap complete ✓");
+  await initializeEventStream(getBaseMode(mode));
 
-  return {
+  // Chaves reloadable alteradas viram eventos config.changed
+  stopConfigEvents?.();
+  stopConfigEvents = getConfigService().onChange((change) => {
+    getEventBus().publish("config.changed", change, { source: "AE0" });
+  });
+
+  const context: AE0Context = {
     mode,
-    state: {}
+    state: {},
+    lifecycle: options.lifecycle ?? new LifecycleManager()
   };
+
+  if (options.watchConfig ?? true) {
+    const config = getConfigService();
+    config.watch();
+    context.lifecycle.onShutdown(() => config.unwatch());
+  }
+
+  if (options.startComponents ?? true) {
+    if (Object.keys(context.lifecycle.getStatus()).length === 0) {
+      await registerCoreComponents(context.lifecycle, mode, { stateStore: options.stateStore });
+    }
+
+    await resolveUnlockOrder(order, context, dependencies);
+    // Circuitos abertos antes do restart (circuit_breaker.state_dir) continuam abertos
+    await CircuitBreakerRegistry.restoreAll();
+    if (options.handleSignals ?? true) {
+      context.lifecycle.installSignalHandlers();
+    }
+  }
+  startHealthMonitoring();
+  // Startup e readiness só passam depois do bootstrap
+  getHealthMonitor().markStarted();
+
+  console.log("[AE0] Bootstrap complete ✓");
+
+  return context;
 }
@@ -9,9 +9,24 @@
  */
 
 import { getEventBus, EventBus } from '../event-stream/event-bus';
+import {
+  CircuitSample,
+  CircuitSnapshot,
+  CircuitStateBackend,
+  resolveCircuitBackendFromEnv
+} from './circuit-state-store';
 
 export type CircuitState = 'closed' | 'open' | 'half_open';
 
+export interface SlidingWindowOptions {
+  /** Duração da janela em ms */
+  windowMs: number;
+  /** Taxa de falhas (0-1) que abre o circuito */
+  failureRateThreshold: number;
+  /** Mínimo de requisições na janela antes de avaliar a taxa */
+  minimumRequests?: number;
+}
+
 export interface CircuitBreakerOptions {
   /** Nome do circuito (para identificação) */
   name: string;
@@ -29,6 +44,12 @@ export interface CircuitBreakerOptions {
   onFailure?: (error: Error) => void;
   /** Habilitar eventos no EventBus */
   enableEvents?: boolean;
+  /** Abre também por taxa de falhas na janela, além de falhas consecutivas */
+  slidingWindow?: SlidingWindowOptions;
+  /** Backend para persistir/compartilhar o estado (padrão: apenas no processo) */
+  stateBackend?: CircuitStateBackend;
+  /** Intervalo mínimo entre leituras do backend (ms) */
+  syncIntervalMs?: number;
 }
 
 export interface CircuitBreakerStats {
@@ -43,8 +64,14 @@ export interface CircuitBreakerStats {
   lastFailureTime?: number;
   lastSuccessTime?: number;
   lastStateChange?: number;
+  /** Taxa de falhas na janela deslizante (se configurada) */
+  failureRate?: number;
+  windowRequests?: number;
 }
 
+// Limite de amostras mantidas na janela deslizante
+const MAX_WINDOW_SAMPLES = 1000;
+
 export class CircuitBreakerError extends Error {
   constructor(
     message: string,
@@ -72,6 +99,10 @@ export class CircuitBreaker {
   private lastStateChange?: number;
   private resetTimer?: NodeJS.Timeout;
   private eventBus?: EventBus;
+  private window: CircuitSample[] = [];
+  private updatedAt = 0;
+  private lastSync = 0;
+  private persistScheduled = false;
 
   private readonly name: string;
   private readonly failureThreshold: number;
@@ -81,6 +112,9 @@ export class CircuitBreaker {
   private readonly onStateChange?: (from: CircuitState, to: CircuitState) => void;
   private readonly onFailure?: (error: Error) => void;
   private readonly enableEvents: boolean;
+  private readonly slidingWindow?: Required<SlidingWindowOptions>;
+  private readonly stateBackend?: CircuitStateBackend;
+  private readonly syncIntervalMs: number;
 
   constructor(options: CircuitBreakerOptions) {
     this.name = options.name;
@@ -91,6 +125,12 @@ export class CircuitBreaker {
     this.onStateChange = options.onStateChange;
     this.onFailure = options.onFailure;
     this.enableEvents = options.enableEvents ?? false;
+    this.stateBackend = options.stateBackend;
+    this.syncIntervalMs = options.syncIntervalMs ?? 1000;
+
+    if (options.slidingWindow) {
+      this.slidingWindow = { minimumRequests: 10, ...options.slidingWindow };
+    }
 
     if (this.enableEvents) {
       try {
@@ -105,6 +145,9 @@ export class CircuitBreaker {
    * Executa uma operação protegida pelo circuit breaker
    */
   async execute<T>(operation: () => Promise<T>): Promise<T> {
+    // Estado pode ter sido alterado por outro processo
+    await this.sync();
+
     // Verifica se pode executar
     if (!this.canExecute()) {
       this.totalRejected++;
@@ -175,6 +218,7 @@ export class CircuitBreaker {
     this.failures++;
     this.totalFailures++;
     this.lastFailureTime = Date.now();
+    this.recordSample(1);
 
     if (this.onFailure && error) {
       this.onFailure(error);
@@ -189,10 +233,12 @@ export class CircuitBreaker {
     if (this.state === 'half_open') {
       // Falha em half-open volta para open
       this.transitionTo('open');
-    } else if (this.state === 'closed' && this.failures >= this.failureThreshold) {
-      // Atingiu threshold, abre o circuito
+    } else if (this.state === 'closed' && (this.failures >= this.failureThreshold || this.failureRateExceeded())) {
+      // Atingiu threshold (consecutivo ou taxa na janela), abre o circuito
       this.transitionTo('open');
     }
+
+    this.persist();
   }
 
   /**
@@ -202,6 +248,7 @@ export class CircuitBreaker {
     this.successes++;
     this.totalSuccesses++;
     this.lastSuccessTime = Date.now();
+    this.recordSample(0);
 
     this.publishEvent('circuit.success', {
       successes: this.successes,
@@ -217,6 +264,46 @@ export class CircuitBreaker {
       // Reset contador de falhas em operação normal
       this.failures = 0;
     }
+
+    this.persist();
+  }
+
+  /**
+   * Adiciona amostra à janela deslizante
+   */
+  private recordSample(failed: 0 | 1): void {
+    if (!this.slidingWindow) return;
+
+    this.window.push([Date.now(), failed]);
+    if (this.window.length > MAX_WINDOW_SAMPLES) {
+      this.window.splice(0, this.window.length - MAX_WINDOW_SAMPLES);
+    }
+  }
+
+  /**
+   * Descarta amostras fora da janela
+   */
+  private pruneWindow(): void {
+    if (!this.slidingWindow) return;
+
+    const cutoff = Date.now() - this.slidingWindow.windowMs;
+    const firstValid = this.window.findIndex(([timestamp]) => timestamp >= cutoff);
+    this.window = firstValid === -1 ? [] : this.window.slice(firstValid);
+  }
+
+  private getFailureRate(): number | undefined {
+    if (!this.slidingWindow) return undefined;
+
+    this.pruneWindow();
+    if (this.window.length === 0) return 0;
+    return this.window.filter(([, failed]) => failed === 1).length / this.window.length;
+  }
+
+  private failureRateExceeded(): boolean {
+    if (!this.slidingWindow) return false;
+
+    const rate = this.getFailureRate()!;
+    return this.window.length >= this.slidingWindow.minimumRequests && rate >= this.slidingWindow.failureRateThreshold;
   }
 
   /**
@@ -233,15 +320,25 @@ export class CircuitBreaker {
     if (newState === 'closed') {
       this.failures = 0;
       this.successes = 0;
+      this.window = [];
       this.clearResetTimer();
     } else if (newState === 'open') {
       this.successes = 0;
-      this.scheduleReset();
+      this.scheduleReset(this.resetTimeoutMs);
     } else if (newState === 'half_open') {
       this.failures = 0;
       this.successes = 0;
+      this.window = [];
     }
 
+    this.persist();
+    this.notifyStateChange(oldState, newState);
+  }
+
+  /**
+   * Callbacks, eventos e log de mudança de estado
+   */
+  private notifyStateChange(oldState: CircuitState, newState: CircuitState, origin?: string): void {
     // Callbacks
     if (this.onStateChange) {
       this.onStateChange(oldState, newState);
@@ -252,20 +349,106 @@ export class CircuitBreaker {
       to: newState
     });
 
-    console.log(`[AE0] Circuit "${this.name}": ${oldState} -> ${newState}`);
+    console.log(`[AE0] Circuit "${this.name}": ${oldState} -> ${newState}${origin ? ` (${origin})` : ''}`);
   }
 
   /**
    * Agenda tentativa de recuperação
    */
-  private scheduleReset(): void {
+  private scheduleReset(delayMs: number): void {
     this.clearResetTimer();
 
     this.resetTimer = setTimeout(() => {
       if (this.state === 'open') {
         this.transitionTo('half_open');
       }
-    }, this.resetTimeoutMs);
+    }, delayMs);
+  }
+
+  /**
+   * Recarrega o estado do backend, respeitando syncIntervalMs
+   */
+  private async sync(force: boolean = false): Promise<void> {
+    if (!this.stateBackend) return;
+    if (!force && Date.now() - this.lastSync < this.syncIntervalMs) return;
+    this.lastSync = Date.now();
+
+    try {
+      const snapshot = await this.stateBackend.load(this.name);
+      if (snapshot && snapshot.updatedAt > this.updatedAt) {
+        this.applySnapshot(snapshot);
+      }
+    } catch (error) {
+      console.warn(`[AE0] Circuit "${this.name}": failed to load state: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Adota um estado persistido (restart ou outro processo)
+   */
+  private applySnapshot(snapshot: CircuitSnapshot): void {
+    const oldState = this.state;
+
+    this.state = snapshot.state;
+    this.failures = snapshot.failures;
+    this.successes = snapshot.successes;
+    this.window = snapshot.window ?? [];
+    this.lastFailureTime = snapshot.lastFailureTime;
+    this.lastStateChange = snapshot.lastStateChange;
+    this.updatedAt = snapshot.updatedAt;
+
+    if (oldState !== this.state) {
+      this.notifyStateChange(oldState, this.state, 'restored');
+    }
+
+    if (this.state === 'open') {
+      // Mantém o tempo restante de abertura
+      const elapsed = Date.now() - (this.lastStateChange ?? 0);
+      if (elapsed >= this.resetTimeoutMs) {
+        this.transitionTo('half_open');
+      } else {
+        this.scheduleReset(this.resetTimeoutMs - elapsed);
+      }
+    } else {
+      this.clearResetTimer();
+    }
+  }
+
+  /**
+   * Grava o estado no backend; chamadas no mesmo tick são agrupadas
+   */
+  private persist(): void {
+    if (!this.stateBackend || this.persistScheduled) return;
+
+    this.persistScheduled = true;
+    this.updatedAt = Math.max(Date.now(), this.updatedAt + 1);
+
+    queueMicrotask(() => {
+      this.persistScheduled = false;
+      this.stateBackend!.save(this.name, this.toSnapshot()).catch((error) => {
+        console.warn(`[AE0] Circuit "${this.name}": failed to persist state: ${(error as Error).message}`);
+      });
+    });
+  }
+
+  private toSnapshot(): CircuitSnapshot {
+    this.pruneWindow();
+    return {
+      state: this.state,
+      failures: this.failures,
+      successes: this.successes,
+      window: [...this.window],
+      lastFailureTime: this.lastFailureTime,
+      lastStateChange: this.lastStateChange,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Carrega o estado persistido imediatamente (ex: no bootstrap)
+   */
+  async restore(): Promise<void> {
+    await this.sync(true);
   }
 
   /**
@@ -316,7 +499,9 @@ export class CircuitBreaker {
       totalRejected: this.totalRejected,
       lastFailureTime: this.lastFailureTime,
       lastSuccessTime: this.lastSuccessTime,
-      lastStateChange: this.lastStateChange
+      lastStateChange: this.lastStateChange,
+      failureRate: this.getFailureRate(),
+      windowRequests: this.slidingWindow ? this.window.length : undefined
     };
   }
 
@@ -327,7 +512,9 @@ export class CircuitBreaker {
     this.clearResetTimer();
     this.failures = 0;
     this.successes = 0;
+    this.window = [];
     this.transitionTo('closed');
+    this.persist();
   }
 
   /**
@@ -350,6 +537,17 @@ export class CircuitBreaker {
  */
 export class CircuitBreakerRegistry {
   private static breakers = new Map<string, CircuitBreaker>();
+  private static stateBackend?: CircuitStateBackend;
+  // O backend sai do config na primeira criação: o config pode ser carregado depois do import
+  private static backendResolved = false;
+
+  /**
+   * Define o backend de estado usado pelos próximos breakers criados
+   */
+  static configure(options: { stateBackend?: CircuitStateBackend }): void {
+    this.stateBackend = options.stateBackend;
+    this.backendResolved = true;
+  }
 
   /**
    * Obtém ou cria um circuit breaker
@@ -358,7 +556,7 @@ export class CircuitBreakerRegistry {
     let breaker = this.breakers.get(options.name);
 
     if (!breaker) {
-      breaker = new CircuitBreaker(options);
+      breaker = new CircuitBreaker({ stateBackend: this.resolveBackend(), ...options });
       this.breakers.set(options.name, breaker);
     }
 
@@ -399,6 +597,13 @@ export class CircuitBreakerRegistry {
     return Array.from(this.breakers.values()).map(b => b.getStats());
   }
 
+  /**
+   * Carrega o estado persistido de todos os circuit breakers
+   */
+  static async restoreAll(): Promise<void> {
+    await Promise.all(Array.from(this.breakers.values()).map(b => b.restore()));
+  }
+
   /**
    * Reseta todos os circuit breakers
    */
@@ -407,11 +612,21 @@ export class CircuitBreakerRegistry {
   }
 
   /**
-   * Limpa o registry
+   * Limpa o registry; o próximo breaker volta a resolver o backend pelo config
    */
   static clear(): void {
     this.breakers.forEach(b => b.destroy());
     this.breakers.clear();
+    this.stateBackend = undefined;
+    this.backendResolved = false;
+  }
+
+  private static resolveBackend(): CircuitStateBackend | undefined {
+    if (!this.backendResolved) {
+      this.stateBackend = resolveCircuitBackendFromEnv();
+      this.backendResolved = true;
+    }
+    return this.stateBackend;
   }
 }
 
@@ -444,6 +659,7 @@ export class CircuitBreakerFactory {
       resetTimeoutMs: 30000, // 30s
       operationTimeoutMs: 10000, // 10s
       enableEvents: true,
+      slidingWindow: { windowMs: 60000, failureRateThreshold: 0.5, minimumRequests: 10 },
       onStateChange
     });
   }
@@ -458,7 +674,8 @@ export class CircuitBreakerFactory {
       successThreshold: 5, // Recupera devagar
       resetTimeoutMs: 60000, // 1 min
       operationTimeoutMs: 15000, // 15s
-      enableEvents: true
+      enableEvents: true,
+      slidingWindow: { windowMs: 60000, failureRateThreshold: 0.25, minimumRequests: 5 }
     });
   }
 }
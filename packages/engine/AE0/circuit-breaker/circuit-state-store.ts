@@ -0,0 +1,82 @@
+/**
+ * Circuit State Store para AE0
+ * Backends plugáveis para o estado dos circuit breakers, permitindo que
+ * circuitos abertos sobrevivam a restarts e sejam compartilhados entre processos
+ */
+
+import type { StateStore } from '../../AE1/state/state-store';
+import { PersistentStore } from '../../AE1/state/persistent-store';
+import type { CircuitState } from './circuit-breaker';
+import { getConfig } from '../../src/core/config';
+
+/** Amostra da janela deslizante: [timestamp, 1 = falha | 0 = sucesso] */
+export type CircuitSample = [number, 0 | 1];
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  /** Falhas consecutivas */
+  failures: number;
+  /** Sucessos consecutivos em half-open */
+  successes: number;
+  window: CircuitSample[];
+  lastFailureTime?: number;
+  lastStateChange?: number;
+  /** Versão lógica para resolver conflitos (último escritor vence) */
+  updatedAt: number;
+}
+
+/**
+ * Contrato para backends de estado compartilhado (arquivo, Redis, banco...)
+ */
+export interface CircuitStateBackend {
+  load(name: string): Promise<CircuitSnapshot | null>;
+  save(name: string, snapshot: CircuitSnapshot): Promise<void>;
+}
+
+/**
+ * Estado apenas no processo atual (comportamento padrão)
+ */
+export class InMemoryCircuitStateBackend implements CircuitStateBackend {
+  private snapshots = new Map<string, CircuitSnapshot>();
+
+  async load(name: string): Promise<CircuitSnapshot | null> {
+    return this.snapshots.get(name) ?? null;
+  }
+
+  async save(name: string, snapshot: CircuitSnapshot): Promise<void> {
+    this.snapshots.set(name, snapshot);
+  }
+}
+
+/**
+ * Adapta qualquer StateStore do AE1 como backend de circuitos
+ */
+export class StateStoreCircuitBackend implements CircuitStateBackend {
+  constructor(private readonly store: StateStore, private readonly prefix = 'circuit:') {}
+
+  load(name: string): Promise<CircuitSnapshot | null> {
+    return this.store.read<CircuitSnapshot>(this.prefix + name);
+  }
+
+  save(name: string, snapshot: CircuitSnapshot): Promise<void> {
+    return this.store.write(this.prefix + name, snapshot);
+  }
+}
+
+/**
+ * Estado em disco via PersistentStore; um diretório compartilhado entre
+ * workers do mesmo host faz com que todos enxerguem os mesmos circuitos
+ */
+export class FileCircuitStateBackend extends StateStoreCircuitBackend {
+  constructor(directory: string) {
+    super(new PersistentStore(directory));
+  }
+}
+
+/**
+ * Backend em arquivo se circuit_breaker.state_dir (ARQOS_CIRCUIT_STATE_DIR) estiver definido
+ */
+export function resolveCircuitBackendFromEnv(): CircuitStateBackend | undefined {
+  const directory = getConfig('circuit_breaker.state_dir');
+  return directory ? new FileCircuitStateBackend(directory) : undefined;
+}
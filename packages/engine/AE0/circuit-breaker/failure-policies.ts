@@ -18,6 +18,8 @@ export interface RetryOptions {
   maxDelayMs: number;
   /** Adicionar jitter aleatório */
   jitter: boolean;
+  /** false = falha definitiva, não tenta novamente */
+  shouldRetry?: (error: Error) => boolean;
 }
 
 export interface FailurePolicyConfig {
@@ -26,7 +28,7 @@ export interface FailurePolicyConfig {
   /** Configurações de retry (se action = 'retry') */
   retry?: RetryOptions;
   /** Função de fallback (se action = 'fallback') */
-  fallback?: <T>() => T | Promise<T>;
+  fallback?: () => unknown;
   /** Timeout para operações (ms) */
   timeoutMs?: number;
   /** Habilitar circuit breaker */
@@ -137,7 +139,7 @@ export class FailurePolicyExecutor {
         this.config.fallback &&
         this.circuitBreaker!.getState() === 'open'
       ) {
-        return this.config.fallback<T>();
+        return this.config.fallback() as T;
       }
       throw error;
     }
@@ -186,6 +188,10 @@ export class FailurePolicyExecutor {
         lastError = error as Error;
         console.log(`[AE0] Attempt ${attempt}/${retryConfig.maxAttempts} failed: ${lastError.message}`);
 
+        if (retryConfig.shouldRetry && !retryConfig.shouldRetry(lastError)) {
+          break;
+        }
+
         if (attempt < retryConfig.maxAttempts) {
           const delay = calculateBackoffDelay(attempt, retryConfig);
           console.log(`[AE0] Retrying in ${delay}ms...`);
@@ -207,7 +213,7 @@ export class FailurePolicyExecutor {
       // Se tem fallback, usar
       if (this.config.fallback) {
         console.log('[AE0] Using fallback due to degradation');
-        return this.config.fallback<T>();
+        return this.config.fallback() as T;
       }
       throw error;
     }
@@ -222,7 +228,7 @@ export class FailurePolicyExecutor {
     } catch (error) {
       if (this.config.fallback) {
         console.log('[AE0] Primary operation failed, using fallback');
-        return this.config.fallback<T>();
+        return this.config.fallback() as T;
       }
       throw error;
     }
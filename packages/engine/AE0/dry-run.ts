@@ -0,0 +1,106 @@
+// AE0 bootstrap dry-run: executa todas as validações sem subir componentes
+import * as fs from "fs/promises";
+import * as path from "path";
+import { collectContractIssues } from "./validators/contract-validator";
+import { collectSchemaIssues } from "./validators/schema-validator";
+import { validateMode, getBaseMode } from "./validators/mode-validator";
+import { collectDependencyIssues } from "./validators/dependency-resolver";
+import { BootstrapReport, CheckResult, buildReport, toJUnitXml } from "./validators/validation-report";
+import { EnginePaths } from "../src/core/paths";
+
+export interface DryRunOptions {
+  engineRoot?: string;
+  schemasPath?: string;
+  contractsPath?: string;
+  /** Padrão: <engineRoot>/runtime/modes quando engineRoot é informado */
+  modesPath?: string;
+}
+
+export type ReportFormat = "json" | "junit";
+
+/**
+ * Roda as verificações do bootstrap (modo, schemas, contratos, dependências)
+ * e devolve todos os problemas encontrados em vez de falhar no primeiro.
+ */
+export async function dryRunBootstrap(mode: string, options: DryRunOptions = {}): Promise<BootstrapReport> {
+  const startedAt = Date.now();
+  const engineRoot = options.engineRoot ?? EnginePaths.getRoot();
+  const schemasPath = options.schemasPath ?? EnginePaths.getSchemasPath();
+  const contractsPath = options.contractsPath ?? EnginePaths.getContractsPath();
+  const modesPath =
+    options.modesPath ?? (options.engineRoot ? path.join(engineRoot, "runtime", "modes") : EnginePaths.getModesPath());
+
+  const modeCheck = checkMode(mode, modesPath);
+  const checks: CheckResult[] = [
+    modeCheck,
+    await collectSchemaIssues(schemasPath, engineRoot),
+    await collectContractIssues(contractsPath, engineRoot),
+    await collectDependencyIssues(engineRoot, modeCheck.passed ? getBaseMode(mode, modesPath) : "lite"),
+  ];
+
+  return buildReport(mode, checks, startedAt);
+}
+
+export function formatReport(report: BootstrapReport, format: ReportFormat): string {
+  return format === "junit" ? toJUnitXml(report) : JSON.stringify(report, null, 2) + "\n";
+}
+
+function checkMode(mode: string, modesPath: string): CheckResult {
+  const startedAt = Date.now();
+  try {
+    validateMode(mode, modesPath);
+    return { check: "mode", passed: true, checked: [mode], issues: [], durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      check: "mode",
+      passed: false,
+      checked: [mode],
+      issues: [{
+        check: "mode",
+        severity: "error",
+        message: (error as Error).message,
+        file: mode,
+        hint: "Use --mode lite|fullstack (ou um modo de runtime/modes) ou defina ARQOS_MODE",
+      }],
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// CLI execution: ts-node AE0/dry-run.ts [--mode lite] [--format json|junit] [--output report.xml]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const mode = readFlag(args, "--mode") ?? process.env.ARQOS_MODE ?? "lite";
+  const format = (readFlag(args, "--format") ?? "json") as ReportFormat;
+  const output = readFlag(args, "--output");
+
+  if (format !== "json" && format !== "junit") {
+    console.error(`[AE0] ✗ Formato inválido: "${format}". Use: json ou junit`);
+    process.exit(2);
+  }
+
+  dryRunBootstrap(mode)
+    .then(async (report) => {
+      const rendered = formatReport(report, format);
+      if (output) {
+        await fs.mkdir(path.dirname(path.resolve(output)), { recursive: true });
+        await fs.writeFile(output, rendered, "utf-8");
+        console.error(
+          `[AE0] Dry-run ${report.valid ? "✓" : "✗"} ${report.summary.errors} erro(s), ` +
+          `${report.summary.warnings} aviso(s) → ${output}`
+        );
+      } else {
+        process.stdout.write(rendered);
+      }
+      process.exit(report.valid ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error(`\n[AE0] ✗ Erro fatal: ${error.message}`);
+      process.exit(2);
+    });
+}
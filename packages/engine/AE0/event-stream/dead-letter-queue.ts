@@ -0,0 +1,87 @@
+/**
+ * Dead-Letter Queue para AE0 Event Stream
+ * Guarda eventos cujo handler falhou após esgotar as tentativas, para inspeção
+ * e re-drive. Capacidade limitada: ao encher, descarta a entrada mais antiga.
+ */
+
+import type { EventRecord, EventHandler } from "./event-bus";
+
+export interface DeadLetter {
+  id: string;
+  event: EventRecord;
+  /** Tipo/padrão da inscrição cujo handler falhou */
+  subscription: string;
+  error: string;
+  attempts: number;
+  failedAt: number;
+}
+
+export interface DeadLetterFilter {
+  type?: string;
+  subscription?: string;
+}
+
+interface DeadLetterEntry extends DeadLetter {
+  handler: EventHandler;
+}
+
+const DEFAULT_CAPACITY = 1000;
+
+export class DeadLetterQueue {
+  private entries = new Map<string, DeadLetterEntry>();
+  private sequence = 0;
+
+  constructor(private readonly capacity: number = DEFAULT_CAPACITY) {}
+
+  add(event: EventRecord, subscription: string, handler: EventHandler, error: unknown, attempts: number): DeadLetter {
+    if (this.entries.size >= this.capacity) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+
+    const entry: DeadLetterEntry = {
+      id: `dlq-${Date.now()}-${this.sequence++}`,
+      event,
+      subscription,
+      handler,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      failedAt: Date.now(),
+    };
+    this.entries.set(entry.id, entry);
+    return toDeadLetter(entry);
+  }
+
+  list(filter: DeadLetterFilter = {}): DeadLetter[] {
+    return [...this.entries.values()]
+      .filter((entry) => !filter.type || entry.event.type === filter.type)
+      .filter((entry) => !filter.subscription || entry.subscription === filter.subscription)
+      .map(toDeadLetter);
+  }
+
+  /**
+   * Entrada completa (com handler) para re-drive
+   */
+  take(id: string): DeadLetterEntry | undefined {
+    const entry = this.entries.get(id);
+    this.entries.delete(id);
+    return entry;
+  }
+
+  remove(ids?: string[]): number {
+    if (!ids) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+    return ids.filter((id) => this.entries.delete(id)).length;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+function toDeadLetter({ handler: _handler, ...letter }: DeadLetterEntry): DeadLetter {
+  return { ...letter };
+}
@@ -3,8 +3,14 @@
  * Implementa pub/sub pattern com suporte a prioridades e modos operacionais
  */
 
+import { withRetry } from "@arqos/utils";
 import { InMemoryBuffer, EventBuffer } from "./in-memory-buffer";
 import { PriorityQueue, PriorityEvent, PriorityEventFactory } from "./priority-queue";
+import { EventLog, EventLogOptions, EventLogQuery } from "./event-log";
+import { DeadLetterQueue, DeadLetter, DeadLetterFilter } from "./dead-letter-queue";
+import { isTopicPattern, matchesTopic, MATCH_ALL } from "./topic-matcher";
+import { tracer, formatTraceparent, parseTraceparent } from "../../runtime/tracing";
+import { getConfig } from "../../src/core/config";
 
 export type EventMode = "lite" | "fullstack";
 
@@ -24,10 +30,29 @@ export interface EventRecord {
   source?: string;
   traceId?: string;
   metadata?: Record<string, any>;
+  /** Posição no event log (apenas com persistência habilitada) */
+  offset?: number;
+  /** true quando entregue por replay() ou consume() */
+  replayed?: boolean;
 }
 
+/** Ponto de partida do replay: offset do log ou timestamp (ms) */
+export type ReplayPosition = { fromOffset: number } | { fromTimestamp: number };
+
+export type ReplayFilter = Omit<EventLogQuery, "fromOffset" | "fromTimestamp">;
+
 export type EventHandler = (payload: unknown, meta: EventRecord) => void | Promise<void>;
 
+export interface SubscribeOptions {
+  /** Retry com backoff exponencial (withRetry) antes de enviar o evento à DLQ */
+  retry?: { retries: number; delay: number };
+}
+
+export interface RedriveResult {
+  redelivered: number;
+  failed: number;
+}
+
 export interface EventBusStats {
   mode: EventMode;
   subscriberCount: number;
@@ -36,6 +61,9 @@ export interface EventBusStats {
   totalPublished: number;
   totalDispatched: number;
   totalErrors: number;
+  deadLetterCount: number;
+  /** Próximo offset do event log (persistência habilitada) */
+  logOffset?: number;
 }
 
 export interface EventBusOptions {
@@ -43,26 +71,53 @@ export interface EventBusOptions {
   bufferLimit?: number;
   asyncHandlers?: boolean;
   errorHandler?: (error: Error, event: EventRecord) => void;
+  /** Habilita o event log durável em disco */
+  persistence?: EventLogOptions;
+  /** Capacidade da dead-letter queue (padrão: 1000) */
+  deadLetterLimit?: number;
 }
 
 // Event bus abstraction
 export interface EventBus {
   publish(eventType: string, payload: unknown, options?: EventPublishOptions): void;
-  subscribe(eventType: string, handler: EventHandler): () => void;
+  /**
+   * Inscreve um handler em um tipo exato ou padrão (`circuit.*`, `ae3.tool.#`, `*`)
+   */
+  subscribe(eventType: string, handler: EventHandler, options?: SubscribeOptions): () => void;
   unsubscribe(eventType: string, handler?: EventHandler): void;
   getStats(): EventBusStats;
   clear(): void;
+  /**
+   * Reentrega eventos do log aos subscribers atuais, em ordem de offset.
+   * Retorna o número de eventos reentregues.
+   */
+  replay(from: ReplayPosition, filter?: ReplayFilter): number;
+  /**
+   * Consome o log a partir do offset confirmado do grupo, confirmando após cada
+   * evento processado. Em caso de erro o offset fica no evento que falhou.
+   */
+  consume(group: string, handler: EventHandler, filter?: ReplayFilter): Promise<number>;
+  getEventLog(): EventLog | undefined;
+  getDeadLetters(filter?: DeadLetterFilter): DeadLetter[];
+  /**
+   * Reentrega eventos da DLQ ao handler que falhou (todos, se `ids` ausente).
+   * Falhas voltam para a DLQ.
+   */
+  redriveDeadLetters(ids?: string[]): Promise<RedriveResult>;
+  purgeDeadLetters(ids?: string[]): number;
 }
 
 const DEFAULT_BUFFER_LIMIT = 1000;
 const DEFAULT_PRIORITY = 50;
 
 class EventBusCore implements EventBus {
-  private readonly handlers = new Map<string, Set<EventHandler>>();
+  private readonly handlers = new Map<string, Map<EventHandler, SubscribeOptions>>();
   private readonly queue: PriorityQueue<EventRecord> | InMemoryBuffer<EventRecord>;
   private readonly mode: EventMode;
   private readonly asyncHandlers: boolean;
   private readonly errorHandler?: (error: Error, event: EventRecord) => void;
+  private readonly eventLog?: EventLog;
+  private readonly deadLetters: DeadLetterQueue;
 
   private processing = false;
   private sequence = 0;
@@ -79,6 +134,12 @@ class EventBusCore implements EventBus {
 
     const bufferLimit = options.bufferLimit || DEFAULT_BUFFER_LIMIT;
 
+    this.deadLetters = new DeadLetterQueue(options.deadLetterLimit);
+
+    if (options.persistence) {
+      this.eventLog = new EventLog(options.persistence);
+    }
+
     // Usar componentes melhorados
     if (this.mode === "fullstack") {
       this.queue = new PriorityQueue<EventRecord>();
@@ -92,6 +153,8 @@ class EventBusCore implements EventBus {
 
   publish(eventType: string, payload: unknown, options?: EventPublishOptions): void {
     const now = Date.now();
+    // Contexto do span ativo segue no metadata (traceparent) até os handlers
+    const trace = tracer.activeContext();
     const event: EventRecord = {
       id: `${now}-${this.sequence++}`,
       type: eventType,
@@ -99,10 +162,17 @@ class EventBusCore implements EventBus {
       priority: options?.priority ?? DEFAULT_PRIORITY,
       timestamp: now,
       source: options?.source,
-      traceId: options?.traceId,
-      metadata: options?.metadata
+      traceId: options?.traceId ?? trace?.traceId,
+      metadata: trace && !options?.metadata?.traceparent
+        ? { ...options?.metadata, traceparent: formatTraceparent(trace) }
+        : options?.metadata
     };
 
+    // Persistir antes de enfileirar: o evento sobrevive a um crash antes do dispatch
+    if (this.eventLog) {
+      event.offset = this.eventLog.append(event);
+    }
+
     this.totalPublished++;
 
     if (this.mode === "fullstack") {
@@ -114,12 +184,12 @@ class EventBusCore implements EventBus {
     this.processQueue();
   }
 
-  subscribe(eventType: string, handler: EventHandler): () => void {
+  subscribe(eventType: string, handler: EventHandler, options: SubscribeOptions = {}): () => void {
     const existing = this.handlers.get(eventType);
     if (existing) {
-      existing.add(handler);
+      existing.set(handler, options);
     } else {
-      this.handlers.set(eventType, new Set([handler]));
+      this.handlers.set(eventType, new Map([[handler, options]]));
     }
 
     // Retornar função de unsubscribe
@@ -157,10 +227,82 @@ class EventBusCore implements EventBus {
       queueSize: this.queue.size(),
       totalPublished: this.totalPublished,
       totalDispatched: this.totalDispatched,
-      totalErrors: this.totalErrors
+      totalErrors: this.totalErrors,
+      deadLetterCount: this.deadLetters.size(),
+      logOffset: this.eventLog?.getNextOffset()
     };
   }
 
+  replay(from: ReplayPosition, filter: ReplayFilter = {}): number {
+    const events = this.requireEventLog().read({ ...filter, ...from });
+
+    for (const event of events) {
+      this.dispatch({ ...event, replayed: true });
+    }
+
+    return events.length;
+  }
+
+  async consume(group: string, handler: EventHandler, filter: ReplayFilter = {}): Promise<number> {
+    const log = this.requireEventLog();
+    const fromOffset = log.getCommittedOffset(group);
+    const toOffset = filter.toOffset ?? log.getNextOffset();
+    let processed = 0;
+
+    for (const event of log.read({ ...filter, fromOffset, toOffset })) {
+      await this.callHandler(handler, { ...event, replayed: true });
+      log.commit(group, event.offset + 1);
+      processed++;
+    }
+
+    // Eventos não selecionados pelo filtro também contam como consumidos
+    const limited = filter.limit !== undefined && processed >= filter.limit;
+    if (!limited && log.getCommittedOffset(group) < toOffset) {
+      log.commit(group, toOffset);
+    }
+
+    return processed;
+  }
+
+  getEventLog(): EventLog | undefined {
+    return this.eventLog;
+  }
+
+  getDeadLetters(filter?: DeadLetterFilter): DeadLetter[] {
+    return this.deadLetters.list(filter);
+  }
+
+  async redriveDeadLetters(ids?: string[]): Promise<RedriveResult> {
+    const result: RedriveResult = { redelivered: 0, failed: 0 };
+
+    for (const id of ids ?? this.deadLetters.list().map((letter) => letter.id)) {
+      const entry = this.deadLetters.take(id);
+      if (!entry) continue;
+
+      const options = this.handlers.get(entry.subscription)?.get(entry.handler) ?? {};
+      const delivered = await this.deliverWithRetry(
+        entry.subscription,
+        entry.handler,
+        options.retry ?? { retries: 0, delay: 0 },
+        entry.event
+      );
+      delivered ? result.redelivered++ : result.failed++;
+    }
+
+    return result;
+  }
+
+  purgeDeadLetters(ids?: string[]): number {
+    return this.deadLetters.remove(ids);
+  }
+
+  private requireEventLog(): EventLog {
+    if (!this.eventLog) {
+      throw new Error("[AE0] Event log disabled. Initialize the event stream with persistence to replay events.");
+    }
+    return this.eventLog;
+  }
+
   clear(): void {
     this.handlers.clear();
     if (this.mode === "fullstack") {
@@ -199,43 +341,80 @@ class EventBusCore implements EventBus {
   }
 
   private dispatch(event: EventRecord): void {
-    const directHandlers = this.handlers.get(event.type);
-    const wildcardHandlers = this.handlers.get("*");
+    // Tipo exato primeiro, depois padrões; o wildcard global por último
+    const subscriptions = this.handlers.has(event.type) ? [event.type] : [];
+    for (const key of this.handlers.keys()) {
+      if (key !== event.type && key !== MATCH_ALL && isTopicPattern(key) && matchesTopic(key, event.type)) {
+        subscriptions.push(key);
+      }
+    }
+    if (this.handlers.has(MATCH_ALL) && event.type !== MATCH_ALL) {
+      subscriptions.push(MATCH_ALL);
+    }
 
-    if (!directHandlers && !wildcardHandlers) {
+    if (subscriptions.length === 0) {
       return;
     }
 
     this.totalDispatched++;
 
-    // Handlers diretos
-    if (directHandlers) {
-      for (const handler of directHandlers) {
-        this.invokeHandler(handler, event);
+    for (const subscription of subscriptions) {
+      for (const [handler, options] of this.handlers.get(subscription) ?? []) {
+        this.invokeHandler(subscription, handler, options, event);
       }
     }
+  }
 
-    // Handlers wildcard
-    if (wildcardHandlers) {
-      for (const handler of wildcardHandlers) {
-        this.invokeHandler(handler, event);
-      }
+  private invokeHandler(subscription: string, handler: EventHandler, options: SubscribeOptions, event: EventRecord): void {
+    if (options.retry) {
+      void this.deliverWithRetry(subscription, handler, options.retry, event);
+      return;
     }
-  }
 
-  private invokeHandler(handler: EventHandler, event: EventRecord): void {
     try {
-      const result = handler(event.payload, event);
+      const result = this.callHandler(handler, event);
 
       // Se handler é assíncrono e asyncHandlers habilitado
       if (this.asyncHandlers && result instanceof Promise) {
-        result.catch(error => this.handleError(error, event));
+        result.catch(error => this.deadLetter(subscription, handler, event, error, 1));
       }
     } catch (error) {
-      this.handleError(error as Error, event);
+      this.deadLetter(subscription, handler, event, error, 1);
     }
   }
 
+  private async deliverWithRetry(
+    subscription: string,
+    handler: EventHandler,
+    retry: { retries: number; delay: number },
+    event: EventRecord
+  ): Promise<boolean> {
+    let attempts = 0;
+
+    try {
+      await withRetry(async () => {
+        attempts++;
+        await this.callHandler(handler, event);
+      }, retry);
+      return true;
+    } catch (error) {
+      this.deadLetter(subscription, handler, event, error, attempts);
+      return false;
+    }
+  }
+
+  /**
+   * Handler roda como filho do span que publicou o evento
+   */
+  private callHandler(handler: EventHandler, event: EventRecord): void | Promise<void> {
+    return tracer.withContext(parseTraceparent(event.metadata?.traceparent), () => handler(event.payload, event));
+  }
+
+  private deadLetter(subscription: string, handler: EventHandler, event: EventRecord, error: unknown, attempts: number): void {
+    this.handleError(error as Error, event);
+    this.deadLetters.add(event, subscription, handler, error, attempts);
+  }
+
   private handleError(error: Error, event: EventRecord): void {
     this.totalErrors++;
 
@@ -270,14 +449,21 @@ export async function initializeEventStream(
   if (typeof modeOrOptions === 'string') {
     // API legada
     options.mode = modeOrOptions;
-    options.bufferLimit = Number(process.env.ARQOS_EVENT_BUFFER_LIMIT) || DEFAULT_BUFFER_LIMIT;
+    options.bufferLimit = getConfig("event_stream.buffer_limit");
+    const logDir = getConfig("event_stream.log_dir");
+    if (logDir) {
+      options.persistence = { directory: logDir };
+    }
   } else if (modeOrOptions) {
     // API nova
     options = modeOrOptions;
   }
 
   eventBusInstance = new EventBusCore(options);
-  console.log(`[AE0] Event stream inicializado (${options.mode || 'lite'})`);
+  console.log(
+    `[AE0] Event stream inicializado (${options.mode || 'lite'})` +
+    (options.persistence ? ` com event log em ${options.persistence.directory}` : '')
+  );
 
   return eventBusInstance;
 }
@@ -0,0 +1,234 @@
+/**
+ * Event Log durável para AE0 Event Stream
+ * Log append-only em disco, segmentado em arquivos JSONL, com offsets
+ * monotônicos e offsets confirmados por consumer group.
+ *
+ * Layout do diretório:
+ *   00000000000000000000.jsonl   (segmento; nome = offset base)
+ *   00000000000000001024.jsonl
+ *   consumer-offsets.json        ({ [group]: próximo offset a consumir })
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface EventLogOptions {
+  directory: string;
+  /** Tamanho máximo de um segmento antes de abrir o próximo */
+  segmentMaxBytes?: number;
+  /** Segmentos mantidos em disco (os mais antigos são removidos); padrão: todos */
+  maxSegments?: number;
+  /** fsync a cada append (mais lento, sobrevive a queda do SO) */
+  fsync?: boolean;
+}
+
+export interface LoggedEvent {
+  offset: number;
+  id: string;
+  type: string;
+  payload: unknown;
+  priority: number;
+  timestamp: number;
+  source?: string;
+  traceId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface EventLogQuery {
+  fromOffset?: number;
+  fromTimestamp?: number;
+  /** Offset exclusivo onde a leitura para */
+  toOffset?: number;
+  types?: string[];
+  source?: string;
+  predicate?: (event: LoggedEvent) => boolean;
+  limit?: number;
+}
+
+interface Segment {
+  baseOffset: number;
+  file: string;
+}
+
+const DEFAULT_SEGMENT_MAX_BYTES = 8 * 1024 * 1024;
+const SEGMENT_EXTENSION = ".jsonl";
+const OFFSETS_FILE = "consumer-offsets.json";
+
+export class EventLog {
+  private readonly directory: string;
+  private readonly segmentMaxBytes: number;
+  private readonly maxSegments?: number;
+  private readonly fsync: boolean;
+
+  private segments: Segment[] = [];
+  private nextOffset = 0;
+  private activeBytes = 0;
+  private committed: Record<string, number> = {};
+
+  constructor(options: EventLogOptions) {
+    this.directory = options.directory;
+    this.segmentMaxBytes = options.segmentMaxBytes ?? DEFAULT_SEGMENT_MAX_BYTES;
+    this.maxSegments = options.maxSegments;
+    this.fsync = options.fsync ?? false;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.recover();
+  }
+
+  /**
+   * Grava o evento no segmento ativo e retorna seu offset
+   */
+  append(event: Omit<LoggedEvent, "offset">): number {
+    const offset = this.nextOffset;
+    const line = JSON.stringify({ ...event, offset }) + "\n";
+    const bytes = Buffer.byteLength(line);
+
+    if (this.segments.length === 0 || (this.activeBytes > 0 && this.activeBytes + bytes > this.segmentMaxBytes)) {
+      this.roll(offset);
+    }
+
+    const active = this.segments[this.segments.length - 1];
+    const fd = fs.openSync(active.file, "a");
+    try {
+      fs.writeSync(fd, line);
+      if (this.fsync) fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    this.activeBytes += bytes;
+    this.nextOffset++;
+    return offset;
+  }
+
+  /**
+   * Lê eventos em ordem de offset
+   */
+  read(query: EventLogQuery = {}): LoggedEvent[] {
+    const fromOffset = Math.max(query.fromOffset ?? 0, this.getFirstOffset());
+    const toOffset = query.toOffset ?? this.nextOffset;
+    const limit = query.limit ?? Infinity;
+    const types = query.types ? new Set(query.types) : undefined;
+    const events: LoggedEvent[] = [];
+
+    for (let i = 0; i < this.segments.length && events.length < limit; i++) {
+      const nextBase = this.segments[i + 1]?.baseOffset ?? Infinity;
+      if (nextBase <= fromOffset) continue;
+      if (this.segments[i].baseOffset >= toOffset) break;
+
+      for (const event of readSegment(this.segments[i].file)) {
+        if (event.offset < fromOffset) continue;
+        if (event.offset >= toOffset || events.length >= limit) break;
+        if (query.fromTimestamp !== undefined && event.timestamp < query.fromTimestamp) continue;
+        if (types && !types.has(event.type)) continue;
+        if (query.source && event.source !== query.source) continue;
+        if (query.predicate && !query.predicate(event)) continue;
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  getFirstOffset(): number {
+    return this.segments[0]?.baseOffset ?? this.nextOffset;
+  }
+
+  getNextOffset(): number {
+    return this.nextOffset;
+  }
+
+  getSegmentCount(): number {
+    return this.segments.length;
+  }
+
+  // ==========================================================================
+  // Consumer groups
+  // ==========================================================================
+
+  /**
+   * Próximo offset a consumir pelo grupo (padrão: início do log)
+   */
+  getCommittedOffset(group: string): number {
+    return Math.max(this.committed[group] ?? 0, this.getFirstOffset());
+  }
+
+  commit(group: string, nextOffset: number): void {
+    this.committed[group] = nextOffset;
+
+    // Escrita atômica: tmp + rename
+    const file = path.join(this.directory, OFFSETS_FILE);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.committed, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  getConsumerGroups(): Record<string, number> {
+    return { ...this.committed };
+  }
+
+  // ==========================================================================
+  // Internos
+  // ==========================================================================
+
+  private roll(baseOffset: number): void {
+    const file = path.join(this.directory, `${String(baseOffset).padStart(20, "0")}${SEGMENT_EXTENSION}`);
+    fs.writeFileSync(file, "", { flag: "a" });
+    this.segments.push({ baseOffset, file });
+    this.activeBytes = 0;
+
+    if (this.maxSegments && this.segments.length > this.maxSegments) {
+      for (const segment of this.segments.splice(0, this.segments.length - this.maxSegments)) {
+        fs.rmSync(segment.file, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Reabre o log existente: descarta linha parcial (crash no meio de um append)
+   * e recalcula o próximo offset
+   */
+  private recover(): void {
+    this.segments = fs
+      .readdirSync(this.directory)
+      .filter((name) => /^\d{20}\.jsonl$/.test(name))
+      .map((name) => ({
+        baseOffset: Number(name.slice(0, -SEGMENT_EXTENSION.length)),
+        file: path.join(this.directory, name),
+      }))
+      .sort((a, b) => a.baseOffset - b.baseOffset);
+
+    const offsetsFile = path.join(this.directory, OFFSETS_FILE);
+    if (fs.existsSync(offsetsFile)) {
+      this.committed = JSON.parse(fs.readFileSync(offsetsFile, "utf-8"));
+    }
+
+    const active = this.segments[this.segments.length - 1];
+    if (!active) return;
+
+    const content = fs.readFileSync(active.file, "utf-8");
+    const complete = content.slice(0, content.lastIndexOf("\n") + 1);
+    if (complete.length !== content.length) {
+      console.warn(`[AE0] Event log: truncating partial record in ${path.basename(active.file)}`);
+      fs.writeFileSync(active.file, complete);
+    }
+
+    const events = readSegment(active.file);
+    this.nextOffset = events.length > 0 ? events[events.length - 1].offset + 1 : active.baseOffset;
+    this.activeBytes = Buffer.byteLength(complete);
+  }
+}
+
+function readSegment(file: string): LoggedEvent[] {
+  if (!fs.existsSync(file)) return [];
+
+  const events: LoggedEvent[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Registro corrompido: ignorado na leitura
+    }
+  }
+  return events;
+}
@@ -0,0 +1,36 @@
+/**
+ * Topic Matcher para AE0 Event Stream
+ * Padrões hierárquicos separados por `.`:
+ * - `*` casa exatamente um segmento (`circuit.*` → `circuit.failure`)
+ * - `#` casa zero ou mais segmentos (`ae3.tool.#` → `ae3.tool`, `ae3.tool.http.timeout`)
+ *
+ * O padrão `*` isolado mantém o significado legado: todos os eventos.
+ */
+
+export const MATCH_ALL = "*";
+
+export function isTopicPattern(pattern: string): boolean {
+  return pattern.split(".").some((segment) => segment === "*" || segment === "#");
+}
+
+export function matchesTopic(pattern: string, eventType: string): boolean {
+  if (pattern === MATCH_ALL || pattern === eventType) return true;
+  return matchSegments(pattern.split("."), 0, eventType.split("."), 0);
+}
+
+function matchSegments(pattern: string[], p: number, topic: string[], t: number): boolean {
+  if (p === pattern.length) return t === topic.length;
+
+  const segment = pattern[p];
+  if (segment === "#") {
+    // Tenta consumir 0..n segmentos do tópico
+    for (let skip = t; skip <= topic.length; skip++) {
+      if (matchSegments(pattern, p + 1, topic, skip)) return true;
+    }
+    return false;
+  }
+
+  if (t === topic.length) return false;
+  if (segment !== "*" && segment !== topic[t]) return false;
+  return matchSegments(pattern, p + 1, topic, t + 1);
+}
@@ -0,0 +1,66 @@
+// AE1/AE2/AE3 cores as lifecycle components
+import type { CognitiveCore } from "../../AE1/cognitive-core";
+import type { StrategosCore } from "../../AE2/strategos-core";
+import type { PipelineCore } from "../../AE3/pipeline-core";
+import type { StateStore } from "../../AE1/state/state-store";
+import type { LifecycleComponent, LifecycleManager } from "./lifecycle-manager";
+import type { OperationalMode } from "../validators/mode-validator";
+
+interface CoreInstance {
+  initialize(): Promise<void>;
+  isReady(): boolean;
+  shutdown?(): Promise<void>;
+}
+
+export class CoreComponent<T extends CoreInstance> implements LifecycleComponent {
+  constructor(public readonly name: string, public readonly instance: T) {}
+
+  initialize(): Promise<void> {
+    return this.instance.initialize();
+  }
+
+  isReady(): boolean {
+    return this.instance.isReady();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.instance.shutdown?.();
+  }
+}
+
+export interface CoreComponentsOptions {
+  /** Store do AE1 criado por quem chama (Arqos.init); padrão: o AE1 cria o seu */
+  stateStore?: StateStore;
+}
+
+// AE3 carrega tools e plugins
+const CORE_TIMEOUTS_MS: Record<string, number> = { AE2: 10000, AE1: 10000, AE3: 30000 };
+
+/**
+ * Registra os núcleos AE1, AE2 e AE3. Os módulos são carregados sob demanda
+ * para que o AE0 não dependa deles em tempo de import.
+ */
+export async function registerCoreComponents(
+  lifecycle: LifecycleManager,
+  mode: OperationalMode,
+  options: CoreComponentsOptions = {}
+): Promise<void> {
+  const { StrategosCore } = await import("../../AE2/strategos-core");
+  const { CognitiveCore } = await import("../../AE1/cognitive-core");
+  const { PipelineCore } = await import("../../AE3/pipeline-core");
+
+  const cores: CoreComponent<CoreInstance>[] = [
+    new CoreComponent<StrategosCore>("AE2", new StrategosCore(mode)),
+    new CoreComponent<CognitiveCore>("AE1", new CognitiveCore(mode, { stateStore: options.stateStore })),
+    new CoreComponent<PipelineCore>("AE3", new PipelineCore(mode)),
+  ];
+
+  for (const core of cores) {
+    lifecycle.register(core, { timeoutMs: CORE_TIMEOUTS_MS[core.name] });
+  }
+}
+
+export function getCoreInstance<T extends CoreInstance>(lifecycle: LifecycleManager, name: string): T | undefined {
+  const component = lifecycle.get(name);
+  return component instanceof CoreComponent ? (component.instance as T) : undefined;
+}
@@ -0,0 +1,212 @@
+// Component lifecycle (pre-checks → initialize → readiness → post-actions; reverse shutdown)
+import { ArqosError } from "@arqos/utils";
+import type { AE0Context } from "../bootstrap";
+import { runPreChecks } from "./pre-checks";
+import { runPostActions } from "./post-actions";
+
+export interface LifecycleComponent {
+  /** Identificador no grafo de dependências (AE1, AE2, AE3) */
+  name: string;
+  initialize(): Promise<void>;
+  /** Readiness probe; ausente = pronto após initialize() */
+  isReady?(): boolean | Promise<boolean>;
+  shutdown?(): Promise<void>;
+}
+
+export interface ComponentOptions {
+  /** Limite para initialize() + readiness */
+  timeoutMs?: number;
+  /** Componentes que precisam estar prontos antes */
+  dependsOn?: string[];
+}
+
+export interface SignalHandlerOptions {
+  /** Padrão: SIGTERM e SIGINT */
+  signals?: NodeJS.Signals[];
+  /** Executado no sinal (padrão: shutdownAll()) */
+  shutdown?: () => Promise<void>;
+}
+
+export type ComponentStatus = "registered" | "starting" | "ready" | "failed" | "stopping" | "stopped";
+
+interface Registration {
+  component: LifecycleComponent;
+  options: ComponentOptions;
+  status: ComponentStatus;
+}
+
+export const DEFAULT_COMPONENT_TIMEOUT_MS = 15000;
+const READINESS_POLL_MS = 50;
+
+export class LifecycleManager {
+  private registrations = new Map<string, Registration>();
+  private started: string[] = [];
+  private removeSignalHandlers?: () => void;
+  private shutdownHooks: Array<() => void | Promise<void>> = [];
+
+  register(component: LifecycleComponent, options: ComponentOptions = {}): void {
+    if (this.registrations.has(component.name)) {
+      throw new ArqosError(`[AE0] Component already registered: ${component.name}`, "ARQOS_UNLOCK_FAILED");
+    }
+    this.registrations.set(component.name, { component, options, status: "registered" });
+  }
+
+  has(name: string): boolean {
+    return this.registrations.has(name);
+  }
+
+  get<T extends LifecycleComponent = LifecycleComponent>(name: string): T | undefined {
+    return this.registrations.get(name)?.component as T | undefined;
+  }
+
+  getStatus(): Record<string, ComponentStatus> {
+    return Object.fromEntries([...this.registrations].map(([name, reg]) => [name, reg.status]));
+  }
+
+  /**
+   * Executado uma vez por shutdownAll(), depois dos componentes (ex: watchers do bootstrap)
+   */
+  onShutdown(hook: () => void | Promise<void>): void {
+    this.shutdownHooks.push(hook);
+  }
+
+  /**
+   * Sobe os componentes na ordem do grafo de dependências.
+   * Se um componente falhar, os já iniciados são desligados em ordem reversa.
+   */
+  async startAll(order: string[], context: AE0Context, dependencies: Record<string, string[]> = {}): Promise<void> {
+    const unknown = [...this.registrations.keys()].filter((name) => !order.includes(name));
+    if (unknown.length > 0) {
+      throw new ArqosError(`[AE0] Components outside unlock order: ${unknown.join(", ")}`, "ARQOS_UNLOCK_FAILED");
+    }
+
+    for (const name of order) {
+      const registration = this.registrations.get(name);
+      if (!registration) {
+        console.warn(`[AE0] No component registered for ${name}; skipping unlock`);
+        continue;
+      }
+
+      try {
+        await this.start(name, registration, context, registration.options.dependsOn ?? dependencies[name] ?? []);
+      } catch (error) {
+        registration.status = "failed";
+        await this.shutdownAll();
+        throw error instanceof ArqosError
+          ? error
+          : new ArqosError(`[AE0] Failed to unlock ${name}: ${(error as Error).message}`, "ARQOS_UNLOCK_FAILED", error);
+      }
+    }
+  }
+
+  /**
+   * Desliga os componentes iniciados em ordem reversa; erros não interrompem os demais
+   */
+  async shutdownAll(): Promise<void> {
+    this.removeSignalHandlers?.();
+    this.removeSignalHandlers = undefined;
+
+    for (const name of [...this.started].reverse()) {
+      const registration = this.registrations.get(name)!;
+      registration.status = "stopping";
+
+      try {
+        if (registration.component.shutdown) {
+          await withTimeout(
+            registration.component.shutdown(),
+            registration.options.timeoutMs ?? DEFAULT_COMPONENT_TIMEOUT_MS,
+            `${name} shutdown`
+          );
+        }
+        console.log(`[AE0] ${name} stopped`);
+      } catch (error) {
+        console.error(`[AE0] Failed to stop ${name}:`, error);
+      }
+      registration.status = "stopped";
+    }
+
+    this.started = [];
+
+    for (const hook of this.shutdownHooks.splice(0)) {
+      try {
+        await hook();
+      } catch (error) {
+        console.error("[AE0] Shutdown hook failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Shutdown gracioso em SIGTERM/SIGINT. O processo não é encerrado aqui: depois
+   * do shutdown o sinal é reenviado só se ninguém mais o escuta (padrão do Node).
+   */
+  installSignalHandlers(options: SignalHandlerOptions = {}): void {
+    if (this.removeSignalHandlers) return;
+
+    const signals = options.signals ?? ["SIGTERM", "SIGINT"];
+    const shutdown = options.shutdown ?? (() => this.shutdownAll());
+    const handler = (signal: NodeJS.Signals) => {
+      console.log(`[AE0] ${signal} received, shutting down...`);
+      // Um segundo sinal durante o shutdown encerra o processo
+      this.removeSignalHandlers?.();
+      this.removeSignalHandlers = undefined;
+
+      void shutdown()
+        .catch((error) => console.error("[AE0] Shutdown failed:", error))
+        .finally(() => {
+          if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+        });
+    };
+
+    signals.forEach((signal) => process.once(signal, handler));
+    this.removeSignalHandlers = () => signals.forEach((signal) => process.removeListener(signal, handler));
+  }
+
+  private async start(
+    name: string,
+    registration: Registration,
+    context: AE0Context,
+    dependsOn: string[]
+  ): Promise<void> {
+    const { component, options } = registration;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_COMPONENT_TIMEOUT_MS;
+
+    console.log(`[AE0] Unlocking ${name}...`);
+    registration.status = "starting";
+
+    await runPreChecks(name, context, dependsOn);
+
+    this.started.push(name);
+    const deadline = Date.now() + timeoutMs;
+    await withTimeout(component.initialize(), timeoutMs, `${name} initialize`);
+    await waitForReady(component, deadline);
+
+    await runPostActions(name, context);
+    registration.status = "ready";
+    console.log(`[AE0] ${name} ready ✓`);
+  }
+}
+
+async function waitForReady(component: LifecycleComponent, deadline: number): Promise<void> {
+  if (!component.isReady) return;
+
+  while (!(await component.isReady())) {
+    if (Date.now() >= deadline) {
+      throw new ArqosError(`[AE0] ${component.name} not ready before timeout`, "ETIMEDOUT");
+    }
+    await new Promise((resolve) => setTimeout(resolve, READINESS_POLL_MS));
+  }
+}
+
+async function withTimeout<T>(task: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ArqosError(`[AE0] ${label} timed out after ${ms}ms`, "ETIMEDOUT")), ms);
+  });
+
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -1,7 +1,13 @@
 // Post-unlock actions (events, state updates)
 import type { AE0Context } from "../bootstrap";
+import { getEventBus } from "../event-stream/event-bus";
 
 export async function runPostActions(component: string, context: AE0Context): Promise<void> {
   context.state[`${component}_ready`] = true;
-  // Placeholder for event emission and telemetry.
+
+  try {
+    getEventBus().publish("ae0.component.ready", { component, mode: context.mode }, { source: "AE0", priority: 0 });
+  } catch {
+    // Event bus não inicializado
+  }
 }
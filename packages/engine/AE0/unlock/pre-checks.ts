@@ -1,9 +1,14 @@
 // Pre-unlock checks per component
 import type { AE0Context } from "../bootstrap";
 
-export async function runPreChecks(component: string, context: AE0Context): Promise<void> {
+export async function runPreChecks(component: string, context: AE0Context, dependsOn: string[] = []): Promise<void> {
   if (!context.state) {
     throw new Error("state store is not initialized");
   }
-  // Placeholder for component-specific checks.
+
+  // Dependências do grafo precisam ter passado pelos post-actions
+  const pending = dependsOn.filter((dependency) => context.state[`${dependency}_ready`] !== true);
+  if (pending.length > 0) {
+    throw new Error(`${component} requires ${pending.join(", ")} to be ready`);
+  }
 }
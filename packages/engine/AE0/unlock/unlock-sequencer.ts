@@ -1,13 +1,19 @@
-export async function resolveUnlockOrder(order: string[]): Promise<void> {
-  if (order.join(",") != "AE2,AE1,AE3") {
-    throw new Error("[AE0] Invalid unlock order. Must be: AE2->AE1->AE3");
-  }
+import type { AE0Context } from "../bootstrap";
+import { LifecycleManager } from "./lifecycle-manager";
 
-  for (const component of order) {
-    await unlockComponent(component);
+/**
+ * Sobe os componentes na ordem calculada pelo dependency-resolver
+ */
+export async function resolveUnlockOrder(
+  order: string[],
+  context: AE0Context,
+  dependencies: Record<string, string[]> = {},
+  lifecycle: LifecycleManager = context.lifecycle
+): Promise<void> {
+  if (new Set(order).size !== order.length) {
+    throw new Error(`[AE0] Invalid unlock order: duplicated components in ${order.join("->")}`);
   }
-}
 
-async function unlockComponent(component: string): Promise<void> {
-  console.log(`[AE0] Unlocking ${component}...`);
+  console.log(`[AE0] Unlock order: ${order.join(" -> ")}`);
+  await lifecycle.startAll(order, context, dependencies);
 }
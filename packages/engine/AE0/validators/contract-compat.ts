@@ -0,0 +1,486 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { ArqosError, compareSemver, parseSemver } from '@arqos/utils';
+
+/**
+ * Contract Compatibility para AE0
+ * Compara duas versões de um contrato, classifica cada mudança e verifica
+ * se o bump semver declarado é suficiente
+ */
+
+export type ChangeKind = 'breaking' | 'additive' | 'patch';
+export type BumpLevel = 'none' | 'patch' | 'minor' | 'major';
+
+export interface ContractChange {
+  kind: ChangeKind;
+  /** JSON Pointer no contrato novo (ou antigo, para remoções) */
+  pointer: string;
+  message: string;
+}
+
+export interface CompatibilityReport {
+  contractId: string;
+  file?: string;
+  fromVersion: string;
+  toVersion: string;
+  /** null = versão inválida ou regrediu */
+  declaredBump: BumpLevel | null;
+  requiredBump: BumpLevel;
+  /** false se o bump declarado for menor que o exigido ou a versão regredir */
+  sufficient: boolean;
+  changes: ContractChange[];
+}
+
+/**
+ * Quem produz o dado validado pelo schema:
+ * - output: o dono do contrato emite; consumidores dependem do que é garantido
+ * - input: o dono do contrato recebe; produtores dependem do que é aceito
+ */
+type SchemaDirection = 'input' | 'output';
+
+type JsonObject = Record<string, unknown>;
+type AddChange = (kind: ChangeKind, pointer: string, message: string) => void;
+
+// Campos que não alteram o comportamento do contrato
+const DESCRIPTIVE_KEYS = new Set(['description', 'purpose', 'title', 'notes', 'comment', 'examples']);
+
+// Restrições numéricas: true = valor maior restringe mais
+const BOUNDS: Record<string, boolean> = {
+  minimum: true,
+  exclusiveMinimum: true,
+  minLength: true,
+  minItems: true,
+  minProperties: true,
+  maximum: false,
+  exclusiveMaximum: false,
+  maxLength: false,
+  maxItems: false,
+  maxProperties: false
+};
+
+// Palavras-chave com regra própria em diffSchema
+const SCHEMA_KEYWORDS = new Set([
+  'type', 'enum', 'required', 'properties', 'items', 'additionalProperties',
+  'pattern', 'format', 'const', ...Object.keys(BOUNDS)
+]);
+
+const BUMP_ORDER: BumpLevel[] = ['none', 'patch', 'minor', 'major'];
+
+/**
+ * Carrega contrato YAML ou JSON (o parser YAML aceita JSON com comentários '#')
+ */
+export async function loadContractDocument(filePath: string): Promise<unknown> {
+  return YAML.parse(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Compara duas versões já carregadas de um contrato
+ * @throws ArqosError (ARQOS_INPUT_INVALID) se algum dos documentos não for um objeto
+ */
+export function compareContracts(previousDocument: unknown, nextDocument: unknown): CompatibilityReport {
+  const previous = requireContract(previousDocument, 'anterior');
+  const next = requireContract(nextDocument, 'novo');
+  const changes: ContractChange[] = [];
+  const add: AddChange = (kind, pointer, message) => { changes.push({ kind, pointer, message }); };
+
+  if (previous.contract_id !== next.contract_id) {
+    add('breaking', '/contract_id', `contract_id alterado: ${previous.contract_id} → ${next.contract_id}`);
+  }
+
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const key of keys) {
+    if (key === 'contract_id' || key === 'version') continue;
+    const pointer = `/${escapePointer(key)}`;
+
+    if (key === 'input_schema' || key === 'output_schema') {
+      diffSchema(previous[key], next[key], pointer, key === 'input_schema' ? 'input' : 'output', add);
+    } else if (/provides$|^receives$/.test(key) && (Array.isArray(previous[key]) || Array.isArray(next[key]))) {
+      diffClauses(toArray(previous[key]), toArray(next[key]), pointer, key.endsWith('provides') ? 'output' : 'input', add);
+    } else {
+      diffValue(previous[key], next[key], pointer, add);
+    }
+  }
+
+  const fromVersion = String(previous.version ?? '0.0.0');
+  const toVersion = String(next.version ?? '0.0.0');
+  const declaredBump = declaredBumpOf(fromVersion, toVersion);
+  const requiredBump = requiredBumpFor(changes, fromVersion);
+
+  return {
+    contractId: String(next.contract_id ?? previous.contract_id),
+    fromVersion,
+    toVersion,
+    declaredBump,
+    requiredBump,
+    sufficient: declaredBump !== null && BUMP_ORDER.indexOf(declaredBump) >= BUMP_ORDER.indexOf(requiredBump),
+    changes
+  };
+}
+
+/**
+ * Compara dois arquivos de contrato
+ */
+export async function compareContractFiles(previousPath: string, nextPath: string): Promise<CompatibilityReport> {
+  const report = compareContracts(await loadContractDocument(previousPath), await loadContractDocument(nextPath));
+  return { ...report, file: nextPath };
+}
+
+/**
+ * Compara os contratos alterados na árvore de trabalho contra uma referência git
+ * (ex: origin/main). Contratos novos não entram no relatório; removidos são breaking;
+ * renomeados são comparados com o arquivo de origem.
+ */
+export async function compareContractsWithGit(baseRef: string, cwd: string = process.cwd()): Promise<CompatibilityReport[]> {
+  const git = (...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8' });
+  const topLevel = git('rev-parse', '--show-toplevel').trim();
+
+  const changed = git('diff', '--name-status', baseRef, '--', '*.contract.yaml', '*.contract.yml', '*.contract.json')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => line.split('\t'));
+
+  const reports: CompatibilityReport[] = [];
+  for (const [status, ...paths] of changed) {
+    // Cópias (C<similaridade>) deixam o original no lugar: contrato novo
+    if (status === 'A' || status.startsWith('C')) continue;
+
+    // Renomeados: R<similaridade>\t<antigo>\t<novo>
+    const previousFile = paths[0];
+    const file = paths[paths.length - 1];
+    const previous = requireContract(YAML.parse(git('show', `${baseRef}:${previousFile}`)), `${baseRef}:${previousFile}`);
+    if (status === 'D') {
+      reports.push({
+        contractId: String(previous.contract_id),
+        file,
+        fromVersion: String(previous.version ?? '0.0.0'),
+        toVersion: '-',
+        declaredBump: null,
+        requiredBump: 'major',
+        sufficient: false,
+        changes: [{ kind: 'breaking', pointer: '/', message: 'Contrato removido' }]
+      });
+      continue;
+    }
+
+    const next = await loadContractDocument(path.join(topLevel, file));
+    reports.push({ ...compareContracts(previous, next), file });
+  }
+
+  return reports;
+}
+
+/**
+ * Diff de cláusulas provides/receives, pareadas por name
+ */
+function diffClauses(
+  previous: unknown[],
+  next: unknown[],
+  pointer: string,
+  direction: SchemaDirection,
+  add: AddChange
+): void {
+  const byName = (clauses: unknown[]) => new Map(clauses.map((item, index) => {
+    const clause = isObject(item) ? item : {};
+    return [clause.name ?? `#${index}`, { clause, index }];
+  }));
+  const before = byName(previous);
+  const after = byName(next);
+
+  for (const [name, { index }] of before) {
+    if (!after.has(name)) add('breaking', `${pointer}/${index}`, `Cláusula "${name}" removida`);
+  }
+
+  for (const [name, { clause, index }] of after) {
+    const clausePointer = `${pointer}/${index}`;
+    const old = before.get(name)?.clause;
+
+    if (!old) {
+      add(direction === 'output' ? 'additive' : 'breaking', clausePointer, `Cláusula "${name}" adicionada`);
+      continue;
+    }
+
+    for (const key of new Set([...Object.keys(old), ...Object.keys(clause)])) {
+      if (key === 'name') continue;
+      const keyPointer = `${clausePointer}/${escapePointer(key)}`;
+
+      if (key === 'schema') {
+        diffSchema(old.schema, clause.schema, keyPointer, direction, add);
+      } else {
+        diffValue(old[key], clause[key], keyPointer, add);
+      }
+    }
+  }
+}
+
+/**
+ * Diff de JSON Schema orientado à direção do dado
+ */
+function diffSchema(
+  previous: unknown,
+  next: unknown,
+  pointer: string,
+  direction: SchemaDirection,
+  add: AddChange
+): void {
+  // Restringir o que é aceito quebra produtores; restringir o que é emitido só adiciona garantias
+  const tightened: ChangeKind = direction === 'input' ? 'breaking' : 'additive';
+  const loosened: ChangeKind = direction === 'input' ? 'additive' : 'breaking';
+
+  if (previous === undefined && next === undefined) return;
+  if (previous === undefined || previous === true || (isObject(previous) && Object.keys(previous).length === 0)) {
+    if (next !== undefined && next !== true && !(isObject(next) && Object.keys(next).length === 0)) {
+      add(tightened, pointer, 'Schema adicionado');
+    }
+    return;
+  }
+  if (next === undefined || next === true || (isObject(next) && Object.keys(next).length === 0)) {
+    add(loosened, pointer, 'Schema removido');
+    return;
+  }
+  if (!isObject(previous) || !isObject(next)) {
+    diffValue(previous, next, pointer, add);
+    return;
+  }
+
+  const prevTypes = toList(previous.type);
+  const nextTypes = toList(next.type);
+  if (prevTypes.length > 0 || nextTypes.length > 0) {
+    const removed = prevTypes.filter(type => !nextTypes.includes(type));
+    const added = nextTypes.filter(type => !prevTypes.includes(type));
+    if (nextTypes.length === 0) {
+      add(loosened, `${pointer}/type`, `Restrição de tipo removida (${prevTypes.join('|')})`);
+    } else if (prevTypes.length === 0) {
+      add(tightened, `${pointer}/type`, `Restrição de tipo adicionada (${nextTypes.join('|')})`);
+    } else if (removed.length > 0 && added.length > 0) {
+      add('breaking', `${pointer}/type`, `Tipo alterado: ${prevTypes.join('|')} → ${nextTypes.join('|')}`);
+    } else if (removed.length > 0) {
+      add(tightened, `${pointer}/type`, `Tipos removidos: ${removed.join(', ')}`);
+    } else if (added.length > 0) {
+      add(loosened, `${pointer}/type`, `Tipos adicionados: ${added.join(', ')}`);
+    }
+  }
+
+  if (previous.enum !== undefined || next.enum !== undefined) {
+    const prevEnum = toArray(previous.enum);
+    const nextEnum = toArray(next.enum);
+    const removed = prevEnum.filter(value => !nextEnum.some(other => isEqual(value, other)));
+    const added = nextEnum.filter(value => !prevEnum.some(other => isEqual(value, other)));
+    if (next.enum === undefined) {
+      add(loosened, `${pointer}/enum`, 'Enum removido');
+    } else if (previous.enum === undefined) {
+      add(tightened, `${pointer}/enum`, `Enum adicionado: ${nextEnum.join(', ')}`);
+    } else {
+      if (removed.length > 0) add(tightened, `${pointer}/enum`, `Valores removidos do enum: ${removed.join(', ')}`);
+      if (added.length > 0) add(loosened, `${pointer}/enum`, `Valores adicionados ao enum: ${added.join(', ')}`);
+    }
+  }
+
+  const prevRequired = toArray(previous.required);
+  const nextRequired = toArray(next.required);
+  for (const field of nextRequired.filter(field => !prevRequired.includes(field))) {
+    add(tightened, `${pointer}/required`, `Campo "${field}" passou a ser obrigatório`);
+  }
+  for (const field of prevRequired.filter(field => !nextRequired.includes(field))) {
+    add(loosened, `${pointer}/required`, `Campo "${field}" deixou de ser obrigatório`);
+  }
+
+  const prevProps = isObject(previous.properties) ? previous.properties : {};
+  const nextProps = isObject(next.properties) ? next.properties : {};
+  for (const name of Object.keys(prevProps)) {
+    if (!(name in nextProps)) {
+      add('breaking', `${pointer}/properties/${escapePointer(name)}`, `Propriedade "${name}" removida`);
+    }
+  }
+  for (const name of Object.keys(nextProps)) {
+    const propPointer = `${pointer}/properties/${escapePointer(name)}`;
+    if (!(name in prevProps)) {
+      add('additive', propPointer, `Propriedade "${name}" adicionada`);
+    } else {
+      diffSchema(prevProps[name], nextProps[name], propPointer, direction, add);
+    }
+  }
+
+  if (previous.items !== undefined || next.items !== undefined) {
+    diffSchema(previous.items ?? {}, next.items ?? {}, `${pointer}/items`, direction, add);
+  }
+
+  if (previous.additionalProperties !== next.additionalProperties) {
+    if (next.additionalProperties === false) {
+      add(tightened, `${pointer}/additionalProperties`, 'Propriedades adicionais deixaram de ser aceitas');
+    } else if (previous.additionalProperties === false) {
+      add(loosened, `${pointer}/additionalProperties`, 'Propriedades adicionais passaram a ser aceitas');
+    } else {
+      diffSchema(previous.additionalProperties, next.additionalProperties, `${pointer}/additionalProperties`, direction, add);
+    }
+  }
+
+  for (const [keyword, higherIsTighter] of Object.entries(BOUNDS)) {
+    const before = previous[keyword];
+    const after = next[keyword];
+    if (before === after) continue;
+
+    const keywordPointer = `${pointer}/${keyword}`;
+    if (after === undefined) {
+      add(loosened, keywordPointer, `${keyword} removido`);
+    } else if (before === undefined) {
+      add(tightened, keywordPointer, `${keyword} adicionado: ${after}`);
+    } else if (typeof before === 'number' && typeof after === 'number') {
+      const tighter = higherIsTighter ? after > before : after < before;
+      add(tighter ? tightened : loosened, keywordPointer, `${keyword}: ${before} → ${after}`);
+    } else {
+      add('breaking', keywordPointer, `${keyword}: ${before} → ${after}`);
+    }
+  }
+
+  for (const keyword of ['pattern', 'format', 'const']) {
+    if (!isEqual(previous[keyword], next[keyword])) {
+      add('breaking', `${pointer}/${keyword}`, `${keyword} alterado`);
+    }
+  }
+
+  // Demais palavras-chave (oneOf, $ref, default...) e campos descritivos
+  for (const keyword of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (!SCHEMA_KEYWORDS.has(keyword)) {
+      diffValue(previous[keyword], next[keyword], `${pointer}/${escapePointer(keyword)}`, add);
+    }
+  }
+}
+
+/**
+ * Diff genérico para campos fora dos schemas (garantias, políticas, timeouts).
+ * Conservador: remoções e alterações de valor são breaking, adições são additive.
+ */
+function diffValue(
+  previous: unknown,
+  next: unknown,
+  pointer: string,
+  add: AddChange
+): void {
+  if (isEqual(previous, next)) return;
+
+  const key = pointer.slice(pointer.lastIndexOf('/') + 1);
+  if (DESCRIPTIVE_KEYS.has(key)) {
+    add('patch', pointer, `${key} alterado`);
+    return;
+  }
+
+  if (previous === undefined) {
+    add('additive', pointer, 'Campo adicionado');
+    return;
+  }
+  if (next === undefined) {
+    add('breaking', pointer, 'Campo removido');
+    return;
+  }
+
+  if (isObject(previous) && isObject(next)) {
+    for (const child of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      diffValue(previous[child], next[child], `${pointer}/${escapePointer(child)}`, add);
+    }
+    return;
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next) && [...previous, ...next].every(item => !isObject(item) && !Array.isArray(item))) {
+    const removed = previous.filter(item => !next.includes(item));
+    const added = next.filter(item => !previous.includes(item));
+    if (removed.length > 0) add('breaking', pointer, `Itens removidos: ${removed.join(', ')}`);
+    if (added.length > 0) add('additive', pointer, `Itens adicionados: ${added.join(', ')}`);
+    return;
+  }
+
+  add('breaking', pointer, `Valor alterado: ${JSON.stringify(previous)} → ${JSON.stringify(next)}`);
+}
+
+function declaredBumpOf(fromVersion: string, toVersion: string): BumpLevel | null {
+  const from = parseSemver(fromVersion);
+  const to = parseSemver(toVersion);
+  if (!from || !to || compareSemver(toVersion, fromVersion) < 0) return null;
+
+  if (to.major !== from.major) return 'major';
+  if (to.minor !== from.minor) return 'minor';
+  if (to.patch !== from.patch) return 'patch';
+  return 'none';
+}
+
+/**
+ * Bump mínimo; em 0.x.y mudanças breaking exigem apenas minor (semver §4)
+ */
+function requiredBumpFor(changes: ContractChange[], fromVersion: string): BumpLevel {
+  if (changes.some(change => change.kind === 'breaking')) {
+    return parseSemver(fromVersion)?.major === 0 ? 'minor' : 'major';
+  }
+  if (changes.some(change => change.kind === 'additive')) return 'minor';
+  if (changes.length > 0) return 'patch';
+  return 'none';
+}
+
+function requireContract(document: unknown, label: string): JsonObject {
+  if (!isObject(document)) {
+    throw new ArqosError(`[AE0] Contrato ${label} não é um objeto`, 'ARQOS_INPUT_INVALID');
+  }
+  return document;
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function formatReport(report: CompatibilityReport): string {
+  const status = report.sufficient ? '✓' : '✗';
+  const lines = [
+    `[AE0] ${status} ${report.file ?? report.contractId}: ${report.fromVersion} → ${report.toVersion} ` +
+      `(declarado: ${report.declaredBump ?? 'inválido'}, exigido: ${report.requiredBump})`
+  ];
+  report.changes.forEach(change => lines.push(`  - [${change.kind}] ${change.pointer}: ${change.message}`));
+  return lines.join('\n');
+}
+
+// CLI execution
+// ts-node AE0/validators/contract-compat.ts <antigo> <novo>
+// ts-node AE0/validators/contract-compat.ts --base origin/main [--json]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const baseIndex = args.indexOf('--base');
+  const files = args.filter((arg, index) => !arg.startsWith('--') && (baseIndex < 0 || index !== baseIndex + 1));
+
+  const run = baseIndex >= 0
+    ? compareContractsWithGit(args[baseIndex + 1])
+    : files.length === 2
+      ? compareContractFiles(files[0], files[1]).then(report => [report])
+      : Promise.reject(new Error('Uso: contract-compat <antigo> <novo> | --base <git-ref> [--json]'));
+
+  run
+    .then(reports => {
+      if (json) {
+        process.stdout.write(JSON.stringify(reports, null, 2) + '\n');
+      } else {
+        reports.forEach(report => console.log(formatReport(report)));
+        console.log(`\n[AE0] ${reports.length} contrato(s) comparado(s)`);
+      }
+      process.exit(reports.every(report => report.sufficient) ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error(`\n[AE0] ✗ Erro fatal: ${error.message}`);
+      process.exit(2);
+    });
+}
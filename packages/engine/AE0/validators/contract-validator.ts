@@ -1,6 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as YAML from 'yaml';
+import { CheckResult, ValidationIssue, relativeToRoot } from './validation-report';
 
 /**
  * Contract Validator para AE0
@@ -360,6 +361,87 @@ export async function validateContracts(
   console.log(`[AE0] ✓ Todos os contratos validados com sucesso\n`);
 }
 
+/**
+ * Converte uma mensagem do validador em issue com JSON Pointer e dica
+ */
+function toContractIssue(message: string, severity: ValidationIssue['severity'], file: string): ValidationIssue {
+  const issue: ValidationIssue = { check: 'contracts', severity, message, file };
+
+  const clause = message.match(/^(provides|receives)\[(\d+)\]/);
+  const field = message.match(/campo "(\w+)" obrigatório|Campo obrigatório ausente: (\w+)/);
+
+  if (clause) {
+    issue.pointer = `/${clause[1]}/${clause[2]}`;
+    if (field) issue.pointer += `/${field[1]}`;
+    if (message.includes('frequency inválida')) issue.pointer += '/frequency';
+  } else if (field) {
+    issue.pointer = `/${field[2]}`;
+  } else if (message.startsWith('Versão inválida')) {
+    issue.pointer = '/version';
+  } else {
+    const array = message.match(/^"(provides|receives)" deve ser um array/);
+    issue.pointer = array ? `/${array[1]}` : '/';
+  }
+
+  if (field) {
+    issue.hint = `Adicione o campo "${field[1] ?? field[2]}"`;
+  } else if (message.startsWith('Versão inválida')) {
+    issue.hint = 'Use versão semver MAJOR.MINOR.PATCH (ex: 1.0.0)';
+  } else if (message.includes('schema não definido')) {
+    issue.hint = 'Declare "schema" com type/required/properties';
+  } else if (message.includes('purpose não definido')) {
+    issue.hint = 'Declare "purpose" descrevendo o uso do dado';
+  } else if (message.includes('pelo menos')) {
+    issue.hint = 'Declare ao menos uma cláusula "provides" ou "receives"';
+  }
+
+  return issue;
+}
+
+/**
+ * Valida todos os contratos sem interromper no primeiro erro (usado pelo dry-run)
+ *
+ * @param contractsPath - Caminho para o diretório de contratos
+ * @param projectRoot - Raiz do projeto; os arquivos no relatório são relativos a ela
+ */
+export async function collectContractIssues(contractsPath: string, projectRoot: string): Promise<CheckResult> {
+  const startedAt = Date.now();
+  const checked: string[] = [];
+  const issues: ValidationIssue[] = [];
+
+  let contractFiles: string[] = [];
+  try {
+    contractFiles = await findContractFiles(contractsPath);
+  } catch (error) {
+    issues.push({
+      check: 'contracts',
+      severity: 'error',
+      message: (error as Error).message,
+      file: relativeToRoot(projectRoot, contractsPath),
+      hint: 'Verifique ARQOS_CONTRACTS_PATH ou o diretório interfaces/ do engine'
+    });
+  }
+
+  for (const contractFile of contractFiles) {
+    const file = relativeToRoot(projectRoot, contractFile);
+    const result = await validateContract(contractFile);
+
+    checked.push(file);
+    issues.push(
+      ...result.errors.map(message => toContractIssue(message, 'error', file)),
+      ...result.warnings.map(message => toContractIssue(message, 'warning', file))
+    );
+  }
+
+  return {
+    check: 'contracts',
+    passed: !issues.some(issue => issue.severity === 'error'),
+    checked,
+    issues,
+    durationMs: Date.now() - startedAt
+  };
+}
+
 /**
  * Valida um único contrato
  * Útil para validação sob demanda
@@ -1,6 +1,7 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as yaml from "yaml";
+import type { CheckResult, ValidationIssue } from "./validation-report";
 
 // ============================================================
 // TYPES
@@ -26,6 +27,13 @@ interface DependencyGraph {
   order: string[];
 }
 
+export interface ResolvedDependencies {
+  /** Ordem de unlock (topológica) */
+  order: string[];
+  /** Dependências diretas de cada componente (sem AE0) */
+  dependencies: Record<string, string[]>;
+}
+
 interface ContractValidation {
   valid: boolean;
   errors: string[];
@@ -307,7 +315,7 @@ async function validateContracts(projectRoot: string, graph: DependencyGraph): P
 export async function resolveDependencies(
   projectRoot: string = process.cwd(),
   mode: "lite" | "fullstack" = "lite"
-): Promise<void> {
+): Promise<ResolvedDependencies> {
   console.log(`[AE0] Resolvendo dependências (modo: ${mode})...`);
 
   // Step 1: Validate file existence
@@ -369,6 +377,82 @@ export async function resolveDependencies(
   console.log(`[AE0] ✅ Dependências resolvidas com sucesso`);
   console.log(`[AE0] ✅ Ordem de unlock validada: ${CANONICAL_UNLOCK_ORDER.join(" → ")}`);
   console.log(`[AE0] ✅ Contratos validados: ${contractValidation.valid ? "OK" : "AVISOS"}`);
+
+  return {
+    order: computedOrder,
+    dependencies: Object.fromEntries(
+      [...graph.nodes].map(([nodeId, node]) => [nodeId, node.dependsOn.filter((dep) => dep !== "AE0")])
+    )
+  };
+}
+
+/**
+ * Executa as mesmas verificações de resolveDependencies acumulando os problemas
+ * em vez de lançar no primeiro (usado pelo dry-run)
+ */
+export async function collectDependencyIssues(
+  projectRoot: string = process.cwd(),
+  mode: "lite" | "fullstack" = "lite"
+): Promise<CheckResult> {
+  const startedAt = Date.now();
+  const issues: ValidationIssue[] = [];
+  const done = (): CheckResult => ({
+    check: "dependencies",
+    passed: !issues.some((issue) => issue.severity === "error"),
+    checked: ["dependencies"],
+    issues,
+    durationMs: Date.now() - startedAt
+  });
+  const error = (message: string, hint: string, file?: string) =>
+    issues.push({ check: "dependencies", severity: "error", message, hint, file });
+
+  for (const dependency of DEFAULT_DEPENDENCIES) {
+    for (const relativePath of dependency.requiredPaths) {
+      if (!(await pathExists(path.join(projectRoot, relativePath)))) {
+        error(
+          `${dependency.name}: ${relativePath} ausente`,
+          `Crie ${relativePath} ou ajuste ARQOS_ENGINE_ROOT`,
+          relativePath.split(path.sep).join("/")
+        );
+      }
+    }
+  }
+  if (issues.length > 0) return done();
+
+  let graph: DependencyGraph;
+  try {
+    graph = await buildDependencyGraph(projectRoot, mode);
+  } catch (err) {
+    error((err as Error).message, "Corrija a sintaxe YAML dos arquivos aeN.yaml");
+    return done();
+  }
+
+  for (const cycle of detectCycles(graph)) {
+    error(`Dependência circular: ${cycle}`, "Remova uma das arestas do ciclo em dependsOn");
+  }
+
+  const computedOrder = topologicalSort(graph);
+  if (JSON.stringify(computedOrder) !== JSON.stringify(CANONICAL_UNLOCK_ORDER)) {
+    error(
+      `Ordem de unlock inválida: ${computedOrder.join("→")}`,
+      `A ordem canônica é ${CANONICAL_UNLOCK_ORDER.join("→")}`
+    );
+  }
+
+  // Contratos inter-componentes só bloqueiam o bootstrap no fullstack
+  const contractValidation = await validateContracts(projectRoot, graph);
+  for (const message of contractValidation.errors) {
+    const contract = message.match(/(ae\d-ae\d)/)?.[1];
+    issues.push({
+      check: "dependencies",
+      severity: mode === "fullstack" ? "error" : "warning",
+      message,
+      file: contract ? `interfaces/${contract}.contract.yaml` : undefined,
+      hint: "Alinhe provides/receives do contrato com os dados declarados pelo componente"
+    });
+  }
+
+  return done();
 }
 
 // ============================================================
@@ -1,12 +1,61 @@
 /**
  * Mode Validator para AE0
  * Valida e resolve o modo operacional do Arqos Engine
+ *
+ * Modos embutidos: lite e fullstack. Modos customizados são declarados em
+ * YAML (runtime/modes/*.yaml, ou ARQOS_MODES_PATH) e herdam de um embutido
+ * ou de outro modo customizado via `extends`.
  */
 
-export type OperationalMode = 'lite' | 'fullstack';
+import Ajv, { ValidateFunction } from 'ajv';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { ArqosError } from '@arqos/utils';
+import { EnginePaths } from '../../src/core/paths';
+
+export type BaseMode = 'lite' | 'fullstack';
+
+/** Nome do modo: embutido ou declarado em runtime/modes */
+export type OperationalMode = BaseMode | (string & {});
+
+export type MemoryTier = 'short_term' | 'long_term' | 'vectorial';
+
+/** Módulos AE2 opcionais (os 3 core estão sempre ativos) */
+export type AE2ModuleName =
+  | 'distributed_execution'
+  | 'contextual_awareness'
+  | 'predictive_optimization'
+  | 'self_reflection'
+  | 'evolution_manager';
 
-interface ModeConfig {
+export interface ModeSettings {
+  ae1: {
+    memory_tiers: MemoryTier[];
+    state_store: 'memory' | 'persistent';
+  };
+  ae2: {
+    modules: AE2ModuleName[];
+  };
+  ae3: {
+    /** 'all' = catálogo completo */
+    tools: string[] | 'all';
+    exclude_tools: string[];
+    parallel_execution: boolean;
+    max_concurrency?: number;
+    plugins: boolean;
+  };
+  network: {
+    /** false = tools e provedores que saem para a rede ficam desligados */
+    outbound: boolean;
+  };
+}
+
+export interface ModeConfig {
   mode: OperationalMode;
+  /** Modo embutido na raiz da cadeia de herança */
+  base: BaseMode;
+  extends?: OperationalMode;
   description: string;
   features: {
     ae0: string[];
@@ -14,44 +63,217 @@ interface ModeConfig {
     ae2: string[];
     ae3: string[];
   };
+  settings: ModeSettings;
+  /** Arquivo YAML de origem (modos customizados) */
+  source?: string;
 }
 
-const MODE_CONFIGS: Record<OperationalMode, ModeConfig> = {
+type PartialModeConfig = {
+  mode: string;
+  extends: string;
+  description?: string;
+  features?: Partial<ModeConfig['features']>;
+  settings?: { [K in keyof ModeSettings]?: Partial<ModeSettings[K]> };
+};
+
+const MODE_CONFIGS: Record<BaseMode, ModeConfig> = {
   lite: {
     mode: 'lite',
+    base: 'lite',
     description: 'Minimal overhead for testing and development',
     features: {
       ae0: ['basic_validation', 'simple_circuit_breaker'],
       ae1: ['short_term_memory_only', 'in_memory_store'],
       ae2: ['3_modules', 'deterministic_decisions', 'legacy_orchestration'],
       ae3: ['5_essential_tools', 'sequential_execution']
+    },
+    settings: {
+      ae1: { memory_tiers: ['short_term', 'vectorial'], state_store: 'memory' },
+      ae2: { modules: [] },
+      ae3: {
+        tools: ['UserIntentParser', 'InputValidator', 'ChainOfThoughtGenerator', 'InsightSummarizer', 'ClauseGeneration'],
+        exclude_tools: [],
+        parallel_execution: false,
+        plugins: false
+      },
+      network: { outbound: true }
     }
   },
   fullstack: {
     mode: 'fullstack',
+    base: 'fullstack',
     description: 'Production-grade with all features enabled',
     features: {
       ae0: ['complete_validation', 'advanced_circuit_breaker', 'health_monitoring'],
       ae1: ['3_layer_memory', 'embedding', 'learning_engine', 'persistent_store'],
       ae2: ['8_modules', 'adaptive_decisions', 'internal_flow_orchestration', '8_cognitive_contracts'],
       ae3: ['40_plus_tools', 'parallel_execution', 'plugin_system']
+    },
+    settings: {
+      ae1: { memory_tiers: ['short_term', 'long_term', 'vectorial'], state_store: 'persistent' },
+      ae2: {
+        modules: [
+          'distributed_execution',
+          'contextual_awareness',
+          'predictive_optimization',
+          'self_reflection',
+          'evolution_manager'
+        ]
+      },
+      ae3: { tools: 'all', exclude_tools: [], parallel_execution: true, plugins: true },
+      network: { outbound: true }
     }
   }
 };
 
+const BASE_MODES = Object.keys(MODE_CONFIGS) as BaseMode[];
+
+// Modos resolvidos por diretório (YAML lido uma vez por processo)
+const customModesCache = new Map<string, Map<string, ModeConfig>>();
+
+function isBaseMode(mode: string): mode is BaseMode {
+  return (BASE_MODES as string[]).includes(mode);
+}
+
+function compileProfileSchema(): ValidateFunction {
+  const schemaPath = path.join(EnginePaths.getSchemasPath(), 'mode-profile.schema.json');
+  const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8'));
+  return new Ajv({ allErrors: true, strict: false }).compile(schema);
+}
+
+function readProfiles(modesPath: string): Map<string, { profile: PartialModeConfig; file: string }> {
+  const declared = new Map<string, { profile: PartialModeConfig; file: string }>();
+  if (!fs.existsSync(modesPath)) return declared;
+
+  const files = fs.readdirSync(modesPath).filter(f => f.endsWith('.yaml') || f.endsWith('.yml')).sort();
+  if (files.length === 0) return declared;
+
+  const validate = compileProfileSchema();
+  for (const file of files) {
+    const filePath = path.join(modesPath, file);
+    let profile: unknown;
+    try {
+      profile = YAML.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new ArqosError(`[AE0] fail-fast: modo ${file} não é YAML válido: ${(error as Error).message}`, 'ARQOS_FAIL_FAST', error);
+    }
+
+    if (!validate(profile)) {
+      const details = (validate.errors ?? []).map(err => `${err.instancePath || '/'} ${err.message}`).join('; ');
+      throw new ArqosError(`[AE0] fail-fast: modo ${file} inválido: ${details}`, 'ARQOS_FAIL_FAST');
+    }
+
+    const parsed = profile as PartialModeConfig;
+    if (isBaseMode(parsed.mode)) {
+      throw new ArqosError(`[AE0] fail-fast: ${file} redefine o modo embutido "${parsed.mode}"`, 'ARQOS_FAIL_FAST');
+    }
+    const duplicate = declared.get(parsed.mode);
+    if (duplicate) {
+      throw new ArqosError(
+        `[AE0] fail-fast: modo "${parsed.mode}" declarado em ${path.basename(duplicate.file)} e ${file}`,
+        'ARQOS_FAIL_FAST'
+      );
+    }
+    declared.set(parsed.mode, { profile: parsed, file: filePath });
+  }
+
+  return declared;
+}
+
+/**
+ * Aplica o perfil sobre o pai: features por componente e settings por seção
+ * substituem os do pai; o que não for declarado é herdado.
+ */
+function mergeProfile(parent: ModeConfig, profile: PartialModeConfig, source: string): ModeConfig {
+  const settings = profile.settings ?? {};
+  return {
+    mode: profile.mode,
+    base: parent.base,
+    extends: profile.extends,
+    description: profile.description ?? parent.description,
+    features: { ...parent.features, ...profile.features },
+    settings: {
+      ae1: { ...parent.settings.ae1, ...settings.ae1 },
+      ae2: { ...parent.settings.ae2, ...settings.ae2 },
+      ae3: { ...parent.settings.ae3, ...settings.ae3 },
+      network: { ...parent.settings.network, ...settings.network }
+    },
+    source
+  };
+}
+
+/**
+ * Carrega, valida e resolve a herança dos modos customizados
+ *
+ * @param modesPath - Diretório com os YAML (padrão: runtime/modes ou ARQOS_MODES_PATH)
+ * @returns Modos customizados por nome
+ * @throws ArqosError (ARQOS_FAIL_FAST) se algum perfil for inválido
+ */
+export function loadCustomModes(modesPath: string = EnginePaths.getModesPath()): Map<string, ModeConfig> {
+  const cached = customModesCache.get(modesPath);
+  if (cached) return cached;
+
+  const declared = readProfiles(modesPath);
+  const resolved = new Map<string, ModeConfig>();
+
+  const resolve = (name: string, chain: string[]): ModeConfig => {
+    if (isBaseMode(name)) return MODE_CONFIGS[name];
+
+    const done = resolved.get(name);
+    if (done) return done;
+
+    const entry = declared.get(name);
+    if (!entry) {
+      throw new ArqosError(
+        `[AE0] fail-fast: modo "${chain[chain.length - 1]}" estende "${name}", que não existe`,
+        'ARQOS_FAIL_FAST'
+      );
+    }
+    if (chain.includes(name)) {
+      throw new ArqosError(`[AE0] fail-fast: herança circular entre modos: ${[...chain, name].join(' → ')}`, 'ARQOS_FAIL_FAST');
+    }
+
+    const config = mergeProfile(resolve(entry.profile.extends, [...chain, name]), entry.profile, entry.file);
+    resolved.set(name, config);
+    return config;
+  };
+
+  for (const name of declared.keys()) {
+    resolve(name, []);
+  }
+
+  customModesCache.set(modesPath, resolved);
+  return resolved;
+}
+
+/**
+ * Descarta os modos customizados em cache (ex: após editar os YAML)
+ */
+export function clearModeCache(): void {
+  customModesCache.clear();
+}
+
+/**
+ * Lista os modos disponíveis (embutidos + customizados)
+ */
+export function listModes(modesPath?: string): OperationalMode[] {
+  return [...BASE_MODES, ...loadCustomModes(modesPath).keys()];
+}
+
 /**
  * Valida o modo operacional
  *
- * @param mode - Modo a ser validado ('lite' | 'fullstack')
+ * @param mode - Modo a ser validado ('lite' | 'fullstack' | modo customizado)
+ * @param modesPath - Diretório dos modos customizados (opcional)
  * @returns true se válido
  * @throws Error se modo inválido
  */
-export function validateMode(mode: string): mode is OperationalMode {
-  const validModes: OperationalMode[] = ['lite', 'fullstack'];
+export function validateMode(mode: string, modesPath?: string): mode is OperationalMode {
+  const validModes = listModes(modesPath);
 
-  if (!validModes.includes(mode as OperationalMode)) {
+  if (!validModes.includes(mode)) {
     throw new Error(
-      `Modo operacional inválido: "${mode}". Use: ${validModes.join(' ou ')}`
+      `Modo operacional inválido: "${mode}". Use: ${validModes.join(', ')}`
     );
   }
 
@@ -93,13 +315,24 @@ export function resolveMode(explicitMode?: string): OperationalMode {
 }
 
 /**
- * Obtém a configuração para um modo específico
+ * Obtém a configuração (já com herança aplicada) para um modo específico
  *
  * @param mode - Modo operacional
+ * @param modesPath - Diretório dos modos customizados (opcional)
  * @returns Configuração do modo
  */
-export function getModeConfig(mode: OperationalMode): ModeConfig {
-  return MODE_CONFIGS[mode];
+export function getModeConfig(mode: OperationalMode, modesPath?: string): ModeConfig {
+  if (isBaseMode(mode)) return MODE_CONFIGS[mode];
+
+  validateMode(mode, modesPath);
+  return loadCustomModes(modesPath).get(mode)!;
+}
+
+/**
+ * Modo embutido do qual o modo herda (lite ou fullstack)
+ */
+export function getBaseMode(mode: OperationalMode, modesPath?: string): BaseMode {
+  return getModeConfig(mode, modesPath).base;
 }
 
 /**
@@ -129,6 +362,9 @@ export function logModeInfo(mode: OperationalMode): void {
 
   console.log(`\n[AE0] ======================================`);
   console.log(`[AE0] Modo Operacional: ${config.mode.toUpperCase()}`);
+  if (config.extends) {
+    console.log(`[AE0] Herda de: ${config.extends} (base: ${config.base})`);
+  }
   console.log(`[AE0] ${config.description}`);
   console.log(`[AE0] ======================================`);
 
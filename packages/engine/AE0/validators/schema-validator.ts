@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as YAML from 'yaml';
 import { EnginePaths } from '../../src/core/paths';
 import { ArqosError } from '@arqos/utils';
+import { CheckResult, ValidationIssue, issueFromAjvError, relativeToRoot } from './validation-report';
 
 /**
  * Schema Validator para AE0
@@ -15,6 +16,7 @@ interface ValidationResult {
   schemaId: string;
   valid: boolean;
   errors?: string[];
+  issues: ValidationIssue[];
 }
 
 interface SchemaMapping {
@@ -60,6 +62,11 @@ const SCHEMA_MAPPINGS: SchemaMapping[] = [
     schemaFile: 'execution-result.schema.json',
     description: 'Execution result'
   },
+  {
+    yamlPattern: /[\\\/]runtime[\\\/]modes[\\\/][^\\\/]+\.ya?ml$/,
+    schemaFile: 'mode-profile.schema.json',
+    description: 'Custom operational mode'
+  },
   {
     yamlPattern: /[\\\/]AE3[\\\/]contracts[\\\/]tools[\\\/].*\.contract\.ya?ml$/i,
     schemaFile: 'tool-contract.schema.json',
@@ -138,6 +145,22 @@ function getSchemaForYaml(yamlPath: string): SchemaMapping | null {
   return null;
 }
 
+/**
+ * Lista os YAMLs do projeto que possuem schema correspondente
+ */
+async function findFilesToValidate(root: string): Promise<Array<{ file: string; mapping: SchemaMapping }>> {
+  const filesToValidate: Array<{ file: string; mapping: SchemaMapping }> = [];
+
+  for (const yamlFile of await findYamlFiles(root)) {
+    const mapping = getSchemaForYaml(yamlFile);
+    if (mapping) {
+      filesToValidate.push({ file: yamlFile, mapping });
+    }
+  }
+
+  return filesToValidate;
+}
+
 /**
  * Valida um arquivo YAML contra um schema
  */
@@ -145,13 +168,21 @@ async function validateYamlFile(
   yamlPath: string,
   schemaMapping: SchemaMapping,
   schemas: Map<string, object>,
-  ajv: Ajv
+  ajv: Ajv,
+  projectRoot: string = process.cwd()
 ): Promise<ValidationResult> {
+  const file = relativeToRoot(projectRoot, yamlPath);
   const result: ValidationResult = {
     filePath: yamlPath,
     schemaId: schemaMapping.schemaFile,
     valid: false,
-    errors: []
+    errors: [],
+    issues: []
+  };
+  const fail = (message: string, hint: string): ValidationResult => {
+    result.errors = [message];
+    result.issues = [{ check: 'schemas', severity: 'error', message, file, schema: schemaMapping.schemaFile, hint }];
+    return result;
   };
 
   try {
@@ -162,8 +193,10 @@ async function validateYamlFile(
     // Obter schema
     const schema = schemas.get(schemaMapping.schemaFile);
     if (!schema) {
-      result.errors = [`Schema ${schemaMapping.schemaFile} não encontrado`];
-      return result;
+      return fail(
+        `Schema ${schemaMapping.schemaFile} não encontrado`,
+        `Adicione ${schemaMapping.schemaFile} ao diretório de schemas`
+      );
     }
 
     // Compilar e validar
@@ -171,8 +204,7 @@ async function validateYamlFile(
     try {
       validate = ajv.compile(schema);
     } catch (compileError) {
-      result.errors = [`Erro ao compilar schema: ${compileError}`];
-      return result;
+      return fail(`Erro ao compilar schema: ${compileError}`, `Corrija o JSON Schema ${schemaMapping.schemaFile}`);
     }
 
     const valid = validate(yamlData);
@@ -183,12 +215,12 @@ async function validateYamlFile(
         const field = err.instancePath || 'root';
         return `${field}: ${err.message}`;
       });
+      result.issues = validate.errors.map(err => issueFromAjvError(err, file, schemaMapping.schemaFile));
     }
 
     return result;
   } catch (error) {
-    result.errors = [`Erro ao processar arquivo: ${error}`];
-    return result;
+    return fail(`Erro ao processar arquivo: ${error}`, 'Verifique se o arquivo existe e contém YAML válido');
   }
 }
 
@@ -226,18 +258,8 @@ export async function validateSchemas(
     validateFormats: true
   });
 
-  // Encontrar arquivos YAML
-  const yamlFiles = await findYamlFiles(root);
-  console.log(`[AE0] ✓ ${yamlFiles.length} arquivos YAML encontrados`);
-
-  // Filtrar apenas arquivos que têm schema correspondente
-  const filesToValidate: Array<{ file: string; mapping: SchemaMapping }> = [];
-  for (const yamlFile of yamlFiles) {
-    const mapping = getSchemaForYaml(yamlFile);
-    if (mapping) {
-      filesToValidate.push({ file: yamlFile, mapping });
-    }
-  }
+  // Encontrar arquivos YAML que têm schema correspondente
+  const filesToValidate = await findFilesToValidate(root);
 
   console.log(`[AE0] ✓ ${filesToValidate.length} arquivos para validar`);
 
@@ -252,7 +274,7 @@ export async function validateSchemas(
   let invalidCount = 0;
 
   for (const { file, mapping } of filesToValidate) {
-    const result = await validateYamlFile(file, mapping, schemas, ajv);
+    const result = await validateYamlFile(file, mapping, schemas, ajv, root);
     results.push(result);
 
     if (result.valid) {
@@ -285,6 +307,48 @@ export async function validateSchemas(
   console.log(`[AE0] ✓ Todos os schemas validados com sucesso\n`);
 }
 
+/**
+ * Valida todos os YAMLs sem interromper no primeiro erro (usado pelo dry-run)
+ *
+ * @param schemasPath - Caminho para o diretório de schemas JSON
+ * @param projectRoot - Raiz do projeto; os arquivos no relatório são relativos a ela
+ */
+export async function collectSchemaIssues(schemasPath: string, projectRoot: string): Promise<CheckResult> {
+  const startedAt = Date.now();
+  const checked: string[] = [];
+  const issues: ValidationIssue[] = [];
+
+  let schemas: Map<string, object>;
+  try {
+    schemas = await loadSchemas(schemasPath);
+  } catch (error) {
+    issues.push({
+      check: 'schemas',
+      severity: 'error',
+      message: (error as Error).message,
+      file: relativeToRoot(projectRoot, schemasPath),
+      hint: 'Verifique ARQOS_SCHEMAS_PATH ou o diretório schemas/ do engine'
+    });
+    return { check: 'schemas', passed: false, checked: [], issues, durationMs: Date.now() - startedAt };
+  }
+
+  const ajv = new Ajv({ allErrors: true, strict: false, validateFormats: true });
+
+  for (const { file, mapping } of await findFilesToValidate(projectRoot)) {
+    const result = await validateYamlFile(file, mapping, schemas, ajv, projectRoot);
+    checked.push(relativeToRoot(projectRoot, file));
+    issues.push(...result.issues);
+  }
+
+  return {
+    check: 'schemas',
+    passed: issues.length === 0,
+    checked,
+    issues,
+    durationMs: Date.now() - startedAt
+  };
+}
+
 /**
  * Valida um único arquivo YAML
  * Útil para validação sob demanda
@@ -0,0 +1,183 @@
+import * as path from 'path';
+import type { ErrorObject } from 'ajv';
+
+/**
+ * Validation Report para AE0
+ * Formato estruturado (JSON / JUnit XML) dos problemas encontrados no bootstrap
+ */
+
+export type ValidationCheck = 'mode' | 'schemas' | 'contracts' | 'dependencies';
+
+export interface ValidationIssue {
+  check: ValidationCheck;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Arquivo relativo à raiz do engine */
+  file?: string;
+  /** JSON Pointer dentro do arquivo (ex: /bootstrap/fail_fast) */
+  pointer?: string;
+  /** Schema aplicado + caminho da regra violada (ex: ae0.schema.json#/properties/version/pattern) */
+  schema?: string;
+  hint?: string;
+}
+
+export interface CheckResult {
+  check: ValidationCheck;
+  passed: boolean;
+  /** Itens verificados (arquivos, modo, componentes) */
+  checked: string[];
+  issues: ValidationIssue[];
+  durationMs: number;
+}
+
+export interface BootstrapReport {
+  mode: string;
+  valid: boolean;
+  generatedAt: string;
+  durationMs: number;
+  summary: { errors: number; warnings: number };
+  checks: CheckResult[];
+}
+
+/**
+ * Converte um erro do AJV em issue com ponteiro e dica de correção
+ */
+export function issueFromAjvError(
+  error: ErrorObject,
+  file: string,
+  schemaFile: string
+): ValidationIssue {
+  const params = error.params as Record<string, any>;
+  let pointer = error.instancePath || '/';
+  let hint: string | undefined;
+
+  switch (error.keyword) {
+    case 'required':
+      pointer = `${error.instancePath}/${params.missingProperty}`;
+      hint = `Adicione a propriedade obrigatória "${params.missingProperty}"`;
+      break;
+    case 'additionalProperties':
+      pointer = `${error.instancePath}/${params.additionalProperty}`;
+      hint = `Remova "${params.additionalProperty}" ou declare-a no schema ${schemaFile}`;
+      break;
+    case 'enum':
+      hint = `Use um dos valores: ${(params.allowedValues as unknown[]).join(', ')}`;
+      break;
+    case 'type':
+      hint = `Altere o valor para o tipo ${params.type}`;
+      break;
+    case 'pattern':
+      hint = `O valor deve casar com ${params.pattern}`;
+      break;
+  }
+
+  return {
+    check: 'schemas',
+    severity: 'error',
+    message: `${pointer}: ${error.message}`,
+    file,
+    pointer,
+    schema: `${schemaFile}${error.schemaPath}`,
+    hint
+  };
+}
+
+export function relativeToRoot(root: string, file: string): string {
+  return path.relative(root, file).split(path.sep).join('/');
+}
+
+export function buildReport(mode: string, checks: CheckResult[], startedAt: number): BootstrapReport {
+  const issues = checks.flatMap((check) => check.issues);
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+
+  return {
+    mode,
+    valid: errors === 0,
+    generatedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    summary: { errors, warnings: issues.length - errors },
+    checks
+  };
+}
+
+/**
+ * JUnit XML: uma testsuite por verificação, um testcase por item verificado
+ */
+export function toJUnitXml(report: BootstrapReport): string {
+  const suites = report.checks.map((check) => ({ check, items: groupByItem(check) }));
+  const failuresOf = (items: Map<string, ValidationIssue[]>) =>
+    [...items.values()].filter((issues) => issues.some((issue) => issue.severity === 'error')).length;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="arqos-bootstrap-${escapeXml(report.mode)}" ` +
+      `tests="${suites.reduce((n, suite) => n + suite.items.size, 0)}" ` +
+      `failures="${suites.reduce((n, suite) => n + failuresOf(suite.items), 0)}" time="${seconds(report.durationMs)}">`
+  ];
+
+  for (const { check, items } of suites) {
+    lines.push(
+      `  <testsuite name="${check.check}" tests="${items.size}" failures="${failuresOf(items)}" time="${seconds(check.durationMs)}">`
+    );
+
+    for (const [item, itemIssues] of items) {
+      const errors = itemIssues.filter((issue) => issue.severity === 'error');
+      const warnings = itemIssues.filter((issue) => issue.severity === 'warning');
+
+      lines.push(`    <testcase classname="${check.check}" name="${escapeXml(item)}">`);
+      if (errors.length > 0) {
+        lines.push(
+          `      <failure message="${escapeXml(errors[0].message)}" type="${check.check}">` +
+            escapeXml(errors.map(formatIssue).join('\n')) +
+            '</failure>'
+        );
+      }
+      if (warnings.length > 0) {
+        lines.push(`      <system-out>${escapeXml(warnings.map(formatIssue).join('\n'))}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Agrupa as issues por item verificado; issues sem item próprio ficam no testcase da verificação
+ */
+function groupByItem(check: CheckResult): Map<string, ValidationIssue[]> {
+  const items = new Map<string, ValidationIssue[]>(check.checked.map((item) => [item, []]));
+
+  for (const issue of check.issues) {
+    const item = issue.file && items.has(issue.file) ? issue.file : check.check;
+    if (!items.has(item)) items.set(item, []);
+    items.get(item)!.push(issue);
+  }
+
+  return items;
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  return [
+    `[${issue.severity}] ${issue.message}`,
+    issue.file ? `  file: ${issue.file}${issue.pointer ? `#${issue.pointer}` : ''}` : '',
+    issue.schema ? `  schema: ${issue.schema}` : '',
+    issue.hint ? `  hint: ${issue.hint}` : ''
+  ].filter(Boolean).join('\n');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,98 @@
+import { createEventBus } from "../../AE0/event-stream/event-bus";
+import { AE1Reporter } from "../../AE3/integration/ae1-reporter";
+import { startAE3Listener, toMemoryEvents, AE3ListenerTarget } from "../integration/ae3-listener";
+import type { ExecutionResult } from "../../AE3/types";
+import type { MemoryEvent } from "../memory/memory-types";
+import type { ExecutionLog } from "../state/state-types";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("AE1 AE3Listener", () => {
+  const stored: MemoryEvent[] = [];
+  const recorded: ExecutionLog[] = [];
+  const target: AE3ListenerTarget = {
+    memory: { store: async (event) => { stored.push(event); } },
+    cognitiveCore: { recordExecution: async (log) => { recorded.push(log); } },
+  };
+
+  let reporter: AE1Reporter;
+  let stop: () => void;
+
+  beforeEach(async () => {
+    stored.length = 0;
+    recorded.length = 0;
+    const bus = createEventBus();
+    stop = startAE3Listener(target, bus);
+    reporter = new AE1Reporter(bus);
+    await reporter.connect();
+  });
+
+  afterEach(() => stop());
+
+  it("deve converter a execução em MemoryEvents por tool e um ExecutionLog do plano", async () => {
+    const result: ExecutionResult = {
+      plan_id: "plan-1",
+      success: false,
+      status: "failed",
+      outputs: [
+        { tool_id: "R1", tool_name: "UserIntentParser", success: true, duration_ms: 12, timestamp: new Date() },
+        { tool_id: "P1", tool_name: "InsightSummarizer", success: false, error: "boom", duration_ms: 30, timestamp: new Date() },
+      ],
+      total_duration_ms: 42,
+      tools_executed: 1,
+      tools_failed: 1,
+      errors: ["boom"],
+    };
+
+    await reporter.reportExecution({ plan_id: "plan-1", result, duration_ms: 45 });
+    await flush();
+
+    expect(stored).toEqual([
+      expect.objectContaining({ type: "tool_execution", outcome: "success", duration_ms: 12 }),
+      expect.objectContaining({
+        type: "tool_execution",
+        outcome: "failed",
+        metadata: expect.objectContaining({ plan_id: "plan-1", tool_name: "InsightSummarizer", error: "boom" }),
+      }),
+    ]);
+    expect(recorded).toEqual([
+      expect.objectContaining({ type: "plan_execution", outcome: "failed", duration_ms: 45 }),
+    ]);
+    expect(recorded[0].id).toBe(`plan-1:${recorded[0].timestamp}`);
+    expect(recorded[0].metadata).toEqual(expect.objectContaining({ plan_id: "plan-1" }));
+  });
+
+  it("deve registrar falhas do plano como ExecutionLog", async () => {
+    await reporter.reportFailure({
+      plan_id: "plan-2",
+      error: Object.assign(new Error("Tool not available"), { code: "ARQOS_INPUT_INVALID" }),
+      duration_ms: 3,
+    });
+    await flush();
+
+    expect(stored).toEqual([]);
+    expect(recorded[0]).toEqual(expect.objectContaining({
+      id: `plan-2:${recorded[0].timestamp}`,
+      outcome: "failed",
+      metadata: { plan_id: "plan-2", error: "Tool not available", code: "ARQOS_INPUT_INVALID" },
+    }));
+  });
+
+  it("não deve sobrescrever execuções anteriores quando o plano é reexecutado", () => {
+    const output = { tool_id: "R1", tool_name: "UserIntentParser", success: true, duration_ms: 1, timestamp: new Date() };
+
+    const first = toMemoryEvents("plan-1", [output], "2026-10-19T10:00:00.000Z");
+    const second = toMemoryEvents("plan-1", [output], "2026-10-19T10:05:00.000Z");
+
+    expect(first[0].id).toBe("plan-1:2026-10-19T10:00:00.000Z:0:UserIntentParser");
+    expect(second[0].id).not.toBe(first[0].id);
+  });
+
+  it("deve parar de registrar após cancelar a inscrição", async () => {
+    stop();
+    await reporter.reportFailure({ plan_id: "plan-3", error: new Error("x"), duration_ms: 1 });
+    await flush();
+
+    expect(recorded).toEqual([]);
+  });
+});
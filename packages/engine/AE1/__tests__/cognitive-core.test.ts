@@ -0,0 +1,80 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { initializeEventStream, resetEventBus } from "../../AE0/event-stream/event-bus";
+import { AE1Reporter } from "../../AE3/integration/ae1-reporter";
+import { getConfigService } from "../../src/core/config";
+import { CognitiveCore } from "../cognitive-core";
+import type { ExecutionResult } from "../../AE3/types";
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("timed out");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe("CognitiveCore state store", () => {
+  let dir: string;
+  let core: CognitiveCore;
+  let log: jest.SpyInstance;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-core-"));
+    log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    getConfigService().load({
+      env: {
+        ARQOS_PERSISTENCE: "local",
+        ARQOS_STORAGE_PATH: dir,
+        ARQOS_STATE_ENCRYPTION: "true",
+        ARQOS_STATE_KEY: crypto.randomBytes(32).toString("base64")
+      }
+    });
+    await initializeEventStream("fullstack");
+  });
+
+  afterEach(async () => {
+    await core.shutdown();
+    resetEventBus();
+    getConfigService().reset();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("deve gravar cifradas no disco as execuções do AE3 registradas na memória", async () => {
+    core = new CognitiveCore("fullstack");
+    await core.initialize();
+
+    const result: ExecutionResult = {
+      plan_id: "plan-secret",
+      success: true,
+      status: "success",
+      outputs: [{ tool_id: "R1", tool_name: "UserIntentParser", success: true, duration_ms: 12, timestamp: new Date() }],
+      total_duration_ms: 12,
+      tools_executed: 1,
+      tools_failed: 0
+    };
+    const reporter = new AE1Reporter();
+    await reporter.connect();
+    await reporter.reportExecution({ plan_id: "plan-secret", result, duration_ms: 15 });
+
+    // Fim da cadeia do listener: memória → learning → ciclo de cognição
+    await waitFor(() => log.mock.calls.some(([message]) => message === "[AE1] Cognition cycle complete ✓"));
+
+    const files = fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith(".json")).map((file) => fs.readFileSync(path.join(dir, file), "utf8"));
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.join("\n")).not.toContain("UserIntentParser");
+    expect(files.join("\n")).not.toContain("plan-secret");
+    for (const file of files) {
+      expect(JSON.parse(file)).toMatchObject({ $enc: "aes-256-gcm", kid: "default" });
+    }
+    expect(await core.getMemory().retrieve({ timeframe: "recent", event_type: "tool_execution" })).toEqual([
+      expect.objectContaining({ metadata: expect.objectContaining({ plan_id: "plan-secret", tool_name: "UserIntentParser" }) })
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { EmbeddingService } from "../memory/embeddings/embedding-service";
+import { EmbeddingProviderRegistry, registerBuiltinEmbeddingProviders } from "../memory/embeddings/embedding-registry";
+import { CharTrigramProvider, HashedTfIdfProvider } from "../memory/embeddings/local-providers";
+import type { EmbeddingProvider } from "../memory/embeddings/embedding-provider";
+
+const DIMENSIONS = 256;
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+/**
+ * Provider de teste que registra os lotes recebidos
+ */
+function recordingProvider(name: string, dimensions: number, calls: string[][], options: Partial<EmbeddingProvider> = {}) {
+  return (): EmbeddingProvider => ({
+    name,
+    dimensions,
+    ...options,
+    embed: async (texts) => {
+      calls.push(texts);
+      return texts.map((text) => Array.from({ length: dimensions }, (_, i) => (i === text.length % dimensions ? 1 : 0)));
+    }
+  });
+}
+
+function registry(): EmbeddingProviderRegistry {
+  const instance = new EmbeddingProviderRegistry();
+  registerBuiltinEmbeddingProviders(instance);
+  return instance;
+}
+
+describe("local embedding providers", () => {
+  it("tfidf deve ser determinístico e aproximar textos com os mesmos termos", async () => {
+    const provider = new HashedTfIdfProvider({ dimensions: DIMENSIONS });
+    const [query, related, unrelated] = await provider.embed([
+      "falha no pagamento da fatura",
+      "Pagamento da fatura recusado: falha no cartão",
+      "previsão do tempo para amanhã"
+    ]);
+
+    expect(query).toHaveLength(DIMENSIONS);
+    expect(await provider.embed(["falha no pagamento da fatura"])).toEqual([query]);
+    expect(cosine(query, related)).toBeGreaterThan(0.5);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated) + 0.3);
+  });
+
+  it("trigram deve tolerar erros de digitação", async () => {
+    const provider = new CharTrigramProvider({ dimensions: DIMENSIONS });
+    const [typo, original, other] = await provider.embed(["pagamneto recusado", "pagamento recusado", "relatório mensal"]);
+
+    expect(cosine(typo, original)).toBeGreaterThan(0.5);
+    expect(cosine(typo, original)).toBeGreaterThan(cosine(typo, other));
+  });
+
+  it("local deve continuar gerando os vetores do algoritmo anterior ao registry", async () => {
+    const providers = registry();
+    const local = providers.create("local", { dimensions: DIMENSIONS });
+    const legacy = providers.create("hash", { dimensions: DIMENSIONS });
+
+    expect(local.name).toBe("hash");
+    expect(await local.embed(["falha no pagamento"])).toEqual(await legacy.embed(["falha no pagamento"]));
+  });
+});
+
+describe("EmbeddingService", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("deve agrupar em lotes do provider e reutilizar o cache por conteúdo", async () => {
+    const calls: string[][] = [];
+    const providers = registry();
+    providers.register("custom", recordingProvider("custom", 8, calls, { maxBatchSize: 2 }));
+    const service = new EmbeddingService({ registry: providers, provider: () => "custom", dimensions: 8 });
+
+    const vectors = await service.embedBatch(["a", "bb", "a", "ccc"]);
+    expect(calls).toEqual([["a", "bb"], ["ccc"]]);
+    expect(vectors[0]).toEqual(vectors[2]);
+
+    await service.embed("bb");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("não deve servir do cache vetores de um modelo anterior do mesmo provider", async () => {
+    const calls: string[][] = [];
+    let model = "v1";
+    const providers = registry();
+    providers.register("custom", () => ({ ...recordingProvider("custom", 8, calls)(), id: `custom:${model}` }));
+    const service = new EmbeddingService({ registry: providers, provider: () => "custom", dimensions: 8 });
+
+    await service.embed("a");
+    model = "v2";
+    await service.embed("a");
+
+    expect(calls).toEqual([["a"], ["a"]]);
+  });
+
+  it("deve cair no provider local quando a dimensão não confere", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const providers = registry();
+    providers.register("wide", recordingProvider("wide", 1536, []));
+    const service = new EmbeddingService({ registry: providers, provider: () => "wide", dimensions: DIMENSIONS });
+
+    const result = await service.embedWithProvider(["texto"]);
+
+    expect(result.provider).toBe("hash");
+    expect(result.vectors[0]).toHaveLength(DIMENSIONS);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("vectorial.dimensions is 256"));
+  });
+
+  it("deve usar o fallback para providers remotos sem rede ou nomes desconhecidos", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const calls: string[][] = [];
+    const providers = registry();
+    providers.register("remote", recordingProvider("remote", DIMENSIONS, calls, { remote: true }));
+
+    const offline = new EmbeddingService({ registry: providers, provider: () => "remote", dimensions: DIMENSIONS, allowRemote: false });
+    expect(offline.resolve().name).toBe("hash");
+    await offline.embed("texto");
+    expect(calls).toEqual([]);
+
+    const unknown = new EmbeddingService({ registry: providers, provider: () => "missing", dimensions: DIMENSIONS });
+    expect((await unknown.embedWithProvider(["texto"])).provider).toBe("hash");
+    expect(() => providers.create("missing", { dimensions: DIMENSIONS })).toThrow(expect.objectContaining({ code: "ARQOS_NOT_FOUND" }));
+  });
+
+  it("deve aplicar as regras de rede e o cache ao provider escolhido por chamada", async () => {
+    const calls: string[][] = [];
+    const providers = registry();
+    providers.register("remote", recordingProvider("remote", DIMENSIONS, calls, { remote: true }));
+    providers.register("custom", recordingProvider("custom", DIMENSIONS, calls));
+
+    const offline = new EmbeddingService({ registry: providers, dimensions: DIMENSIONS, allowRemote: false });
+    await offline.embed("texto", { provider: "remote" });
+    expect(calls).toEqual([]);
+
+    await offline.embedBatch(["a", "b"], { provider: "custom" });
+    await offline.embed("a", { provider: "custom" });
+    expect(calls).toEqual([["a", "b"]]);
+  });
+
+  it("deve desligar providers remotos no serviço compartilhado em modos sem rede de saída", () => {
+    const previous = process.env.ARQOS_MODE;
+    process.env.ARQOS_MODE = "staging";
+    try {
+      jest.isolateModules(() => {
+        const { getEmbeddingService } = require("../memory/embeddings/embedding-service");
+        expect(getEmbeddingService().resolve({ provider: "openai" }).remote).toBeFalsy();
+      });
+    } finally {
+      if (previous === undefined) delete process.env.ARQOS_MODE;
+      else process.env.ARQOS_MODE = previous;
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EncryptedStore, loadStateKeyring, StateKeyring } from "../state/encrypted-store";
+import { InMemoryStore } from "../state/in-memory-store";
+import { PersistentStore } from "../state/persistent-store";
+
+const dirs: string[] = [];
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-encrypted-"));
+  dirs.push(dir);
+  return dir;
+}
+
+function keyring(activeKeyId: string, ...ids: string[]): StateKeyring {
+  const keys = Object.fromEntries([activeKeyId, ...ids].map((id) => [id, crypto.createHash("sha256").update(id).digest()]));
+  return { activeKeyId, keys };
+}
+
+afterAll(() => {
+  for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("EncryptedStore", () => {
+  it("não deve gravar valores em texto puro no disco", async () => {
+    const dir = tempDir();
+    const store = new EncryptedStore(new PersistentStore(dir), keyring("k1"));
+
+    await store.write("short:evt-1", { id: "evt-1", metadata: { email: "ana@example.com" } });
+
+    expect(await store.read("short:evt-1")).toEqual({ id: "evt-1", metadata: { email: "ana@example.com" } });
+    expect(await store.scan("short:")).toEqual([{ key: "short:evt-1", value: { id: "evt-1", metadata: { email: "ana@example.com" } } }]);
+    const files = fs.readdirSync(dir).map((file) => fs.readFileSync(path.join(dir, file), "utf8"));
+    expect(files.join("\n")).not.toContain("ana@example.com");
+    expect(JSON.parse(files[0])).toMatchObject({ $enc: "aes-256-gcm", kid: "k1" });
+  });
+
+  it("deve rejeitar registros adulterados ou movidos para outra chave", async () => {
+    const inner = new InMemoryStore();
+    const store = new EncryptedStore(inner, keyring("k1"));
+    await store.write("a", { secret: 1 });
+
+    await inner.write("b", await inner.read("a"));
+    await expect(store.read("b")).rejects.toMatchObject({ code: "ARQOS_STATE_DECRYPT_FAILED" });
+
+    const record = (await inner.read<Record<string, string>>("a"))!;
+    await inner.write("a", { ...record, data: Buffer.from("tampered").toString("base64") });
+    await expect(store.read("a")).rejects.toMatchObject({ code: "ARQOS_STATE_DECRYPT_FAILED" });
+  });
+
+  it("deve manter compare-and-set e transações sobre valores decifrados", async () => {
+    const store = new EncryptedStore(new InMemoryStore(), keyring("k1"));
+
+    expect(await store.compareAndSet("counter", null, 1)).toBe(true);
+    expect(await store.compareAndSet("counter", 0, 2)).toBe(false);
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        store.transaction(async (tx) => tx.write("counter", ((await tx.read<number>("counter")) ?? 0) + 1), { retries: 5 })
+      )
+    );
+
+    expect(await store.read("counter")).toBe(4);
+  });
+
+  it("deve re-criptografar com a chave ativa após a rotação", async () => {
+    const inner = new InMemoryStore();
+    await inner.write("legacy", { plain: true });
+    await new EncryptedStore(inner, keyring("k1")).write("short:a", { id: "a" }, { ttlMs: 60_000 });
+
+    const rotated = new EncryptedStore(inner, keyring("k2", "k1"));
+    expect(await rotated.read("short:a")).toEqual({ id: "a" });
+
+    expect(await rotated.reencrypt()).toEqual({ reencrypted: 2, current: 0, failed: [] });
+    expect(await inner.read("short:a")).toMatchObject({ kid: "k2", exp: expect.any(Number) });
+    expect(await inner.read("legacy")).toMatchObject({ kid: "k2" });
+
+    // k1 pode sair do keyring
+    const current = new EncryptedStore(inner, keyring("k2"));
+    expect(await current.read("short:a")).toEqual({ id: "a" });
+    expect(await current.reencrypt()).toEqual({ reencrypted: 0, current: 2, failed: [] });
+  });
+});
+
+describe("loadStateKeyring", () => {
+  it("deve ler keyfile com várias chaves", () => {
+    const keyfile = path.join(tempDir(), "keys.json");
+    const k1 = crypto.randomBytes(32);
+    fs.writeFileSync(keyfile, JSON.stringify({ active: "k2", keys: { k1: k1.toString("base64"), k2: crypto.randomBytes(32).toString("hex") } }));
+
+    const loaded = loadStateKeyring({ keyfile });
+
+    expect(loaded.activeKeyId).toBe("k2");
+    expect(loaded.keys.k1.equals(k1)).toBe(true);
+  });
+
+  it("deve falhar sem chave ou com a chave ativa ausente", () => {
+    expect(() => loadStateKeyring({})).toThrow(expect.objectContaining({ code: "ARQOS_FAIL_FAST" }));
+    expect(() => loadStateKeyring({ key: "short" })).toThrow(expect.objectContaining({ code: "ARQOS_FAIL_FAST" }));
+
+    const keyfile = path.join(tempDir(), "keys.json");
+    fs.writeFileSync(keyfile, JSON.stringify({ active: "k9", keys: { k1: crypto.randomBytes(32).toString("base64") } }));
+    expect(() => loadStateKeyring({ keyfile })).toThrow(expect.objectContaining({ code: "ARQOS_FAIL_FAST" }));
+  });
+});
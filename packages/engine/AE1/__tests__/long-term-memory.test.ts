@@ -0,0 +1,135 @@
+import { LongTermMemory } from "../memory/long-term";
+import { MemoryManager } from "../memory/memory-manager";
+import type { MemoryEvent } from "../memory/memory-types";
+import { InMemoryStore } from "../state/in-memory-store";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-30T12:00:00.000Z");
+
+const event = (id: string, daysAgo: number, fields: Partial<MemoryEvent> = {}): MemoryEvent => ({
+  id,
+  timestamp: new Date(NOW - daysAgo * DAY_MS).toISOString(),
+  type: "pricing_run",
+  outcome: "success",
+  ...fields
+});
+
+describe("LongTermMemory", () => {
+  let store: InMemoryStore;
+  let memory: LongTermMemory;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    store = new InMemoryStore();
+    memory = new LongTermMemory(180, store);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("deve filtrar por período, tipo, outcome e metadata com paginação", async () => {
+    await memory.store(event("p1", 10, { outcome: "failure", metadata: { region: "br", retries: 3 } }));
+    await memory.store(event("p2", 40, { outcome: "failure", metadata: { region: "us", retries: 1 } }));
+    await memory.store(event("p3", 20, { outcome: "success" }));
+    await memory.store(event("p4", 120, { outcome: "failure" }));
+    await memory.store(event("c1", 5, { type: "checkout", outcome: "failure" }));
+
+    const lastQuarter = { event_type: "pricing_run", outcome: "failure", from: new Date(NOW - 90 * DAY_MS).toISOString() };
+
+    expect((await memory.retrieve(lastQuarter)).map((e) => e.id)).toEqual(["p1", "p2"]);
+    expect((await memory.retrieve({ ...lastQuarter, order: "asc", limit: 1 })).map((e) => e.id)).toEqual(["p2"]);
+    expect((await memory.retrieve({ ...lastQuarter, offset: 1 })).map((e) => e.id)).toEqual(["p2"]);
+    expect((await memory.retrieve({ ...lastQuarter, metadata: { retries: { gte: 2 } } })).map((e) => e.id)).toEqual(["p1"]);
+    expect((await memory.retrieve({ metadata: { region: { in: ["us"] } } })).map((e) => e.id)).toEqual(["p2"]);
+    expect((await memory.retrieve({ event_type: ["checkout"], to: new Date(NOW).toISOString() })).map((e) => e.id)).toEqual(["c1"]);
+  });
+
+  it("deve consultar pelo índice, lendo só os eventos da página", async () => {
+    for (let day = 1; day <= 20; day++) {
+      await memory.store(event(`e${day}`, day, { outcome: day % 2 === 0 ? "failure" : "success" }));
+    }
+    const scan = jest.spyOn(store, "scan");
+    const read = jest.spyOn(store, "read");
+
+    const page = await memory.retrieve({ outcome: "failure", limit: 3, offset: 1 });
+
+    expect(page.map((e) => e.id)).toEqual(["e4", "e6", "e8"]);
+    // Só o prefixo do índice + 3 eventos
+    expect(scan.mock.calls).toEqual([["index:long:"]]);
+    expect(read.mock.calls.filter(([key]) => key.startsWith("long:"))).toHaveLength(3);
+  });
+
+  it("deve gravar uma chave de índice por evento", async () => {
+    await memory.store(event("a", 2));
+    await memory.store(event("b", 1, { outcome: "failure" }));
+    const ts = (daysAgo: number) => String(NOW - daysAgo * DAY_MS).padStart(15, "0");
+
+    expect(await store.scan("index:long:")).toEqual([
+      { key: `index:long:${ts(2)}:a`, value: { type: "pricing_run", outcome: "success" } },
+      { key: `index:long:${ts(1)}:b`, value: { type: "pricing_run", outcome: "failure" } }
+    ]);
+
+    // Novo timestamp para o mesmo id troca a entrada
+    await memory.store(event("a", 0));
+    expect(await store.list("index:long:")).toEqual([`index:long:${ts(1)}:b`, `index:long:${ts(0)}:a`]);
+    expect((await memory.retrieve({})).map((e) => e.id)).toEqual(["a", "b"]);
+  });
+
+  it("deve reconstruir o índice de eventos gravados antes dele", async () => {
+    await store.write("long:legacy", event("legacy", 3));
+    await store.write("long:index", [{ id: "legacy", ts: 0, type: "pricing_run" }]);
+    await store.write("index:long", []);
+
+    expect((await memory.retrieve({})).map((e) => e.id)).toEqual(["legacy"]);
+    await memory.store(event("new", 1));
+    expect((await memory.retrieve({})).map((e) => e.id)).toEqual(["new", "legacy"]);
+  });
+
+  it("deve expirar eventos fora da retenção", async () => {
+    await memory.store(event("aging", 170));
+    await memory.store(event("recent", 1));
+    jest.setSystemTime(NOW + 20 * DAY_MS);
+
+    expect((await memory.retrieve({})).map((e) => e.id)).toEqual(["recent"]);
+    expect(await store.read("long:aging")).toBeNull();
+    expect(await memory.count()).toBe(1);
+
+    // Fora da janela nem chega a ser gravado
+    await memory.store(event("old", 200));
+    expect(await store.list("long:")).toEqual(["long:recent"]);
+  });
+
+  it("deve resumir eventos antigos por dia, tipo e outcome", async () => {
+    await memory.store(event("a", 100, { outcome: "failure", duration_ms: 100 }));
+    await memory.store(event("b", 100, { outcome: "failure", duration_ms: 300 }));
+    await memory.store(event("c", 100, { outcome: "success" }));
+    await memory.store(event("d", 10, { outcome: "failure" }));
+
+    const report = await memory.consolidate([], { now: NOW });
+    const failures = await memory.retrieve({ outcome: "failure" });
+
+    expect(report).toEqual({ promoted: 0, summarized: 3, expired: 0 });
+    expect(failures.map((e) => e.id)).toEqual(["d", `summary:pricing_run:failure:${new Date(NOW - 100 * DAY_MS).toISOString().slice(0, 10)}`]);
+    expect(failures[1]).toMatchObject({ duration_ms: 200, metadata: { summary: true, count: 2, event_ids: ["a", "b"] } });
+    expect(await store.read("long:a")).toBeNull();
+  });
+
+  it("deve promover eventos recorrentes do short-term no MemoryManager", async () => {
+    const manager = new MemoryManager("fullstack", store);
+    for (const id of ["o1", "o2", "o3"]) {
+      await manager.store(event(id, 0, { type: "observation", outcome: undefined }));
+    }
+    await manager.store(event("once", 0, { type: "anomaly", outcome: undefined }));
+    await manager.store(event("run", 0, { outcome: "failure" }));
+
+    expect((await new LongTermMemory(180, store).retrieve({})).map((e) => e.id)).toEqual(["run"]);
+
+    const report = await manager.consolidate({ now: NOW });
+    const longTerm = await new LongTermMemory(180, store).retrieve({ order: "asc" });
+
+    expect(report.promoted).toBe(3);
+    expect(longTerm.map((e) => e.id).sort()).toEqual(["o1", "o2", "o3", "run"]);
+    expect((await manager.retrieve({ timeframe: "all", event_type: "anomaly" })).map((e) => e.id)).toEqual(["once"]);
+  });
+});
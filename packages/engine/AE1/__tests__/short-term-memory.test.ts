@@ -0,0 +1,50 @@
+import { ShortTermMemory } from "../memory/short-term";
+import type { MemoryEvent } from "../memory/memory-types";
+import { InMemoryStore } from "../state/in-memory-store";
+
+const event = (index: number): MemoryEvent => ({
+  id: `evt-${index}`,
+  timestamp: new Date(Date.UTC(2026, 9, 1) + index * 1000).toISOString(),
+  type: "tool_execution",
+  outcome: "success"
+});
+
+describe("ShortTermMemory", () => {
+  it("deve gravar sem listar o store e aplicar o limite em lote no prune()", async () => {
+    const store = new InMemoryStore();
+    const memory = new ShortTermMemory(7, store);
+    const list = jest.spyOn(store, "list");
+    const scan = jest.spyOn(store, "scan");
+
+    for (let i = 0; i < 205; i++) {
+      await memory.store(event(i));
+    }
+    expect(list).not.toHaveBeenCalled();
+    expect(scan).not.toHaveBeenCalled();
+
+    expect(await memory.prune()).toBe(5);
+    expect(await memory.count()).toBe(200);
+    expect(await store.read("short:evt-4")).toBeNull();
+    expect(await store.read("short:evt-5")).not.toBeNull();
+    expect(await memory.prune()).toBe(0);
+  });
+
+  it("deve ignorar e remover o short:index de versões anteriores", async () => {
+    const store = new InMemoryStore();
+    const memory = new ShortTermMemory(7, store);
+    await store.write("short:index", ["evt-0", "evt-1"]);
+    for (let i = 0; i < 201; i++) {
+      await memory.store(event(i));
+    }
+
+    const recent = await memory.retrieve({ limit: Number.MAX_SAFE_INTEGER });
+    expect(recent).toHaveLength(201);
+    expect(recent.every((stored) => typeof stored.id === "string")).toBe(true);
+    expect(await memory.count()).toBe(201);
+
+    expect(await memory.prune()).toBe(1);
+    expect(await store.read("short:index")).toBeNull();
+    expect(await store.read("short:undefined")).toBeNull();
+    expect(await memory.count()).toBe(200);
+  });
+});
@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { InMemoryStore } from "../state/in-memory-store";
+import { PersistentStore } from "../state/persistent-store";
+import { SQLITE_SCHEMA_VERSION, SqliteStore } from "../state/sqlite-store";
+import { migrateStateStore, restoreLegacyKey } from "../state/migrate-state";
+import type { StateStore } from "../state/state-store";
+
+const dirs: string[] = [];
+
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-state-"));
+  dirs.push(dir);
+  return dir;
+}
+
+afterAll(() => {
+  for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe.each([
+  ["InMemoryStore", () => new InMemoryStore()],
+  ["PersistentStore", () => new PersistentStore(tempDir())],
+  ["SqliteStore", () => new SqliteStore(path.join(tempDir(), "arqos.db"))]
+])("%s", (_name, createStore: () => StateStore) => {
+  let store: StateStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it("deve remover chaves e listar por prefixo", async () => {
+    await store.write("short:b", { id: "b" });
+    await store.write("short:a", { id: "a" });
+    await store.write("long:a", { id: "a" });
+
+    expect(await store.list("short:")).toEqual(["short:a", "short:b"]);
+    expect(await store.scan("long:")).toEqual([{ key: "long:a", value: { id: "a" } }]);
+    expect(await store.delete("short:a")).toBe(true);
+    expect(await store.delete("short:a")).toBe(false);
+    expect(await store.read("short:a")).toBeNull();
+    expect(await store.list("short:")).toEqual(["short:b"]);
+  });
+
+  it("deve expirar chaves com TTL", async () => {
+    await store.write("session:1", "soon", { ttlMs: 20 });
+    await store.write("session:2", "later", { ttlMs: 60000 });
+    expect(await store.read("session:1")).toBe("soon");
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(await store.read("session:1")).toBeNull();
+    expect(await store.list("session:")).toEqual(["session:2"]);
+
+    // Regravar sem TTL remove a expiração
+    await store.write("session:2", "forever");
+    expect(await store.read("session:2")).toBe("forever");
+  });
+
+  it("deve aplicar batch com puts e deletes", async () => {
+    await store.write("k:old", 1);
+
+    await store.batch([
+      { type: "put", key: "k:new", value: 2 },
+      { type: "delete", key: "k:old" }
+    ]);
+
+    expect(await store.scan("k:")).toEqual([{ key: "k:new", value: 2 }]);
+  });
+
+  it("deve fazer compare-and-set", async () => {
+    expect(await store.compareAndSet("lock", null, { owner: "a" })).toBe(true);
+    expect(await store.compareAndSet("lock", null, { owner: "b" })).toBe(false);
+    expect(await store.compareAndSet("lock", { owner: "a" }, null)).toBe(true);
+    expect(await store.read("lock")).toBeNull();
+  });
+
+  it("deve serializar incrementos concorrentes em transações", async () => {
+    await store.write("counter", 0);
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        store.transaction(async (tx) => {
+          const value = (await tx.read<number>("counter")) ?? 0;
+          tx.write("counter", value + 1);
+        }, { retries: 10 })
+      )
+    );
+
+    expect(await store.read("counter")).toBe(5);
+  });
+
+  it("deve falhar com ARQOS_STATE_CONFLICT quando as tentativas acabam", async () => {
+    await store.write("counter", 0);
+    let bump = 0;
+
+    const attempt = store.transaction(async (tx) => {
+      const value = await tx.read<number>("counter");
+      // Escrita concorrente entre a leitura e o commit
+      await store.write("counter", ++bump);
+      tx.write("counter", (value ?? 0) + 100);
+    }, { retries: 1 });
+
+    await expect(attempt).rejects.toMatchObject({ code: "ARQOS_STATE_CONFLICT" });
+    expect(await store.read("counter")).toBe(2);
+  });
+});
+
+describe("PersistentStore on disk", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = tempDir();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("deve reaplicar um batch interrompido na próxima abertura", async () => {
+    fs.writeFileSync(
+      path.join(dir, ".arqos-journal.json"),
+      JSON.stringify([
+        { type: "put", key: "a:1", value: "one" },
+        { type: "delete", key: "a:2" }
+      ])
+    );
+    fs.writeFileSync(path.join(dir, "a%3A2.json"), JSON.stringify("two"));
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const store = new PersistentStore(dir);
+
+    expect(await store.list("a:")).toEqual(["a:1"]);
+    expect(fs.existsSync(path.join(dir, ".arqos-journal.json"))).toBe(false);
+  });
+
+  it("deve ler e remover arquivos no formato de nome antigo", async () => {
+    fs.writeFileSync(path.join(dir, "circuit_ae3_tool_Search.json"), JSON.stringify({ state: "open" }));
+    const store = new PersistentStore(dir);
+
+    expect(await store.read("circuit:ae3.tool.Search")).toEqual({ state: "open" });
+    expect(await store.delete("circuit:ae3.tool.Search")).toBe(true);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("deve listar arquivos no formato de nome antigo pela chave original", async () => {
+    fs.writeFileSync(path.join(dir, "long_evt_2.json"), JSON.stringify({ id: "evt.2" }));
+    fs.writeFileSync(path.join(dir, "learning_history.json"), JSON.stringify([1]));
+    fs.writeFileSync(path.join(dir, "long_index.json"), JSON.stringify(["evt.2"]));
+    const store = new PersistentStore(dir);
+    await store.write("long:evt-3", { id: "evt-3" });
+
+    expect(await store.list("long:")).toEqual(["long:evt-3", "long:evt.2"]);
+    expect(await store.scan("learning:")).toEqual([{ key: "learning:history", value: [1] }]);
+    expect(await store.list("long_")).toEqual(["long_index"]);
+    expect(await store.delete("long:evt.2")).toBe(true);
+    expect(await store.list("long:")).toEqual(["long:evt-3"]);
+  });
+});
+
+describe("SqliteStore on disk", () => {
+  let file: string;
+
+  beforeEach(() => {
+    file = path.join(tempDir(), "arqos.db");
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("deve criar o schema versionado e manter os dados entre aberturas", async () => {
+    const first = new SqliteStore(file);
+    expect(first.schemaVersion()).toBe(SQLITE_SCHEMA_VERSION);
+    await first.write("a:b", 1);
+    await first.write("a_b", 2);
+    first.close();
+
+    const second = new SqliteStore(file);
+    expect(await second.read("a:b")).toBe(1);
+    expect(await second.read("a_b")).toBe(2);
+    second.close();
+  });
+
+  it("deve recusar um arquivo de uma versão mais nova do schema", () => {
+    const Database = require("better-sqlite3");
+    const database = new Database(file);
+    database.pragma(`user_version = ${SQLITE_SCHEMA_VERSION + 1}`);
+
+    expect(() => new SqliteStore(file, { database })).toThrow(expect.objectContaining({ code: "ARQOS_FAIL_FAST" }));
+  });
+});
+
+describe("migrateStateStore", () => {
+  it("deve restaurar chaves de arquivos no formato antigo", () => {
+    expect(restoreLegacyKey("short_evt_1", { id: "evt-1" })).toBe("short:evt-1");
+    expect(restoreLegacyKey("ae1_vectorial_default", [])).toBe("ae1:vectorial:default");
+    expect(restoreLegacyKey("learning_history", [])).toBe("learning:history");
+    expect(restoreLegacyKey("long:evt-2", { id: "evt-2" })).toBe("long:evt-2");
+    expect(restoreLegacyKey("custom_key", {})).toBe("custom_key");
+  });
+
+  it("deve copiar um diretório .storage sem sobrescrever chaves do destino", async () => {
+    const dir = tempDir();
+    fs.writeFileSync(path.join(dir, "short_evt_1.json"), JSON.stringify({ id: "evt.1" }));
+    fs.writeFileSync(path.join(dir, "learning_history.json"), JSON.stringify([1]));
+    const source = new PersistentStore(dir);
+    await source.write("long:evt-2", { id: "evt-2" });
+    await source.write("circuit:ae3.tool.Search", { state: "open" });
+
+    const target = new InMemoryStore();
+    await target.write("circuit:ae3.tool.Search", { state: "closed" });
+
+    const report = await migrateStateStore(source, target, { batchSize: 2 });
+
+    // O PersistentStore já lista os arquivos antigos pela chave original
+    expect(report).toEqual({
+      migrated: 3,
+      renamed: [],
+      skipped: ["circuit:ae3.tool.Search"]
+    });
+    expect(await target.list()).toEqual(["circuit:ae3.tool.Search", "learning:history", "long:evt-2", "short:evt.1"]);
+    expect(await target.read("circuit:ae3.tool.Search")).toEqual({ state: "closed" });
+  });
+
+  it("não deve copiar os índices de ids das versões anteriores", async () => {
+    const dir = tempDir();
+    fs.writeFileSync(path.join(dir, "short_index.json"), JSON.stringify(["evt-1"]));
+    fs.writeFileSync(path.join(dir, "long_index.json"), JSON.stringify(["evt-2"]));
+    fs.writeFileSync(path.join(dir, "short_evt-1.json"), JSON.stringify({ id: "evt-1" }));
+
+    const target = new InMemoryStore();
+    const report = await migrateStateStore(new PersistentStore(dir), target);
+
+    expect(report).toMatchObject({ migrated: 1, skipped: ["long_index", "short_index"] });
+    expect(await target.list()).toEqual(["short:evt-1"]);
+  });
+
+  it("não deve gravar em dry-run", async () => {
+    const source = new InMemoryStore();
+    await source.write("short:a", { id: "a" });
+    const target = new InMemoryStore();
+
+    expect((await migrateStateStore(source, target, { dryRun: true })).migrated).toBe(1);
+    expect(await target.list()).toEqual([]);
+  });
+});
@@ -12,6 +12,14 @@ class InMemoryStateStore extends StateStore {
   async read<T>(key: string): Promise<T | null> {
     return (this.store.get(key) as T) ?? null;
   }
+
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
+  }
+
+  async list(prefix = ""): Promise<string[]> {
+    return Array.from(this.store.keys()).filter((key) => key.startsWith(prefix)).sort();
+  }
 }
 
 const makeEvent = (id: string): MemoryEvent => ({
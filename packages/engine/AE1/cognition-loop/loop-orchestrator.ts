@@ -9,6 +9,7 @@ import { suggestHeuristics } from "./suggest";
 
 export class CognitionLoop {
   private isRunning = false;
+  private intervalId?: ReturnType<typeof setInterval>;
 
   constructor(
     private memory: MemoryManager,
@@ -26,11 +27,19 @@ export class CognitionLoop {
     this.isRunning = true;
     console.log("[AE1] Cognition loop started (continuous)");
 
-    setInterval(() => {
+    this.intervalId = setInterval(() => {
       void this.executeCycle();
     }, 60000);
   }
 
+  stop(): void {
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+  }
+
   async trigger(): Promise<void> {
     await this.executeCycle();
   }
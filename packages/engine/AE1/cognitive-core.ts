@@ -15,8 +15,10 @@ import { PatternDetector } from "./pattern-detection/pattern-detector";
 import { HeuristicManager } from "./heuristics/heuristic-manager";
 import { StateStore } from "./state/state-store";
 import { InMemoryStore } from "./state/in-memory-store";
-import { PersistentStore } from "./state/persistent-store";
+import { createStateStore } from "./state/create-state-store";
 import { LearningEngine } from "./learning/learning-engine";
+import { startAE3Listener } from "./integration/ae3-listener";
+import { getModeConfig, ModeConfig, OperationalMode } from "../AE0/validators/mode-validator";
 import type { LearningReport } from "./learning/learning-types";
 import type { ExecutionLog, CognitiveContext } from "./state/state-types";
 
@@ -29,6 +31,11 @@ export interface ExtendedCognitiveContext extends CognitiveContext {
   learning_trend?: 'improving' | 'stable' | 'degrading';
 }
 
+export interface CognitiveCoreOptions {
+  /** Store já criado (Arqos.init); padrão: createStateStore(), ou em memória se o modo pedir */
+  stateStore?: StateStore;
+}
+
 // ============================================================================
 // Cognitive Core
 // ============================================================================
@@ -41,11 +48,15 @@ export class CognitiveCore {
   private stateStore!: StateStore;
   private learningEngine!: LearningEngine;
   private mode: "lite" | "fullstack";
+  private modeConfig: ModeConfig;
   private learningSchedulerId?: ReturnType<typeof setInterval>;
   private lastLearningReport?: LearningReport;
+  private stopAE3Listener?: () => void;
+  private ownsStateStore = false;
 
-  constructor(mode: "lite" | "fullstack") {
-    this.mode = mode;
+  constructor(mode: OperationalMode, private options: CognitiveCoreOptions = {}) {
+    this.modeConfig = getModeConfig(mode);
+    this.mode = this.modeConfig.base;
     console.log(`[AE1] Initializing Cognitive Core in ${mode} mode...`);
   }
 
@@ -82,24 +93,51 @@ export class CognitiveCore {
       this.startLearningScheduler();
     }
 
+    this.memory.startConsolidation();
+    this.connectAE3();
+
     console.log("[AE1] Cognitive Core initialized ✓");
     console.log(`[AE1] Learning Engine initialized in ${this.mode} mode`);
   }
 
+  isReady(): boolean {
+    return this.learningEngine !== undefined;
+  }
+
+  getMemory(): MemoryManager {
+    return this.memory;
+  }
+
   private async waitForAE2(): Promise<void> {
     console.log("[AE1] Waiting for AE2 to be ready...");
     // Placeholder: implement wait strategy.
   }
 
+  /**
+   * Recebe execuções do AE3 via AE0 event bus
+   */
+  private connectAE3(): void {
+    try {
+      this.stopAE3Listener = startAE3Listener({ memory: this.memory, cognitiveCore: this });
+    } catch {
+      console.warn("[AE1] Event bus not initialized; AE3 executions will not be recorded");
+    }
+  }
+
   private async initializeStateStore(): Promise<StateStore> {
-    if (this.mode === "lite") {
+    if (this.options.stateStore) {
+      return this.options.stateStore;
+    }
+    if (this.modeConfig.settings.ae1.state_store === "memory") {
       return new InMemoryStore();
     }
-    return new PersistentStore();
+    // persistence, storage_path e state_encryption valem também para a memória do AE1
+    this.ownsStateStore = true;
+    return createStateStore();
   }
 
   private async initializeMemory(): Promise<MemoryManager> {
-    return new MemoryManager(this.mode, this.stateStore);
+    return new MemoryManager(this.modeConfig.mode, this.stateStore);
   }
 
   // ==========================================================================
@@ -183,6 +221,7 @@ export class CognitiveCore {
         type: event.type,
         outcome: event.outcome,
         duration_ms: event.duration_ms,
+        metadata: event.metadata,
       }));
     } catch {
       // Fallback: retorna lista vazia
@@ -207,7 +246,7 @@ export class CognitiveCore {
 
         case "review_heuristics":
           console.log("[AE1] Triggering heuristic review:", action.reason);
-          await this.heuristicManager.triggerReview?.();
+          // Futuro: revisão das heurísticas pelo HeuristicManager
           break;
 
         case "urgent_optimization":
@@ -282,9 +321,17 @@ export class CognitiveCore {
     // Para scheduler de aprendizado
     this.stopLearningScheduler();
 
+    this.stopAE3Listener?.();
+    this.stopAE3Listener = undefined;
+    this.memory.stopConsolidation();
+
     // Para loop de cognicao
     if (this.mode === 'fullstack') {
-      this.cognitionLoop.stop?.();
+      this.cognitionLoop.stop();
+    }
+
+    if (this.ownsStateStore) {
+      this.stateStore.close();
     }
 
     console.log("[AE1] Cognitive Core shutdown complete");
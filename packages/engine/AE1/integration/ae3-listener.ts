@@ -1,3 +1,108 @@
-export function startAE3Listener(): void {
-  // Placeholder for AE3 event listener.
+/**
+ * AE3 Listener - AE1
+ *
+ * Consome os relatórios de execução publicados pelo AE1Reporter (AE3) no
+ * AE0 event bus e os converte em:
+ * - MemoryEvent por tool executada (MemoryManager.store)
+ * - ExecutionLog por plano (CognitiveCore.recordExecution → learning engine)
+ */
+
+import { getEventBus, EventBus } from "../../AE0/event-stream/event-bus";
+import { AE3_EXECUTION_EVENTS } from "../../AE3/types";
+import type { ExecutionReport, ExecutionFailureReport } from "../../AE3/types";
+import type { ToolOutput } from "../../AE3/integration/tool-interface";
+import type { MemoryEvent } from "../memory/memory-types";
+import type { ExecutionLog } from "../state/state-types";
+
+export interface AE3ListenerTarget {
+  memory: { store(event: MemoryEvent): Promise<void> };
+  cognitiveCore: { recordExecution(log: ExecutionLog): Promise<void> };
+}
+
+/**
+ * Inicia o listener; retorna a função que cancela as inscrições
+ */
+export function startAE3Listener(target: AE3ListenerTarget, eventBus: EventBus = getEventBus()): () => void {
+  // O event bus não aguarda handlers assíncronos: erros são tratados aqui
+  const handle = <T>(kind: string, fn: (report: T) => Promise<void>) => (payload: unknown) => {
+    fn(payload as T).catch((error) => {
+      console.error(`[AE1:AE3Listener] Failed to record ${kind}:`, error);
+    });
+  };
+
+  const unsubscribers = [
+    eventBus.subscribe(
+      AE3_EXECUTION_EVENTS.completed,
+      handle<ExecutionReport>("execution", (report) => recordExecutionReport(target, report))
+    ),
+    eventBus.subscribe(
+      AE3_EXECUTION_EVENTS.failed,
+      handle<ExecutionFailureReport>("failure", (report) => recordFailureReport(target, report))
+    ),
+  ];
+
+  console.log("[AE1] AE3 listener started");
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
+
+export async function recordExecutionReport(target: AE3ListenerTarget, report: ExecutionReport): Promise<void> {
+  const outputs = report.result.outputs as ToolOutput[];
+
+  for (const event of toMemoryEvents(report.plan_id, outputs, report.timestamp)) {
+    await target.memory.store(event);
+  }
+
+  await target.cognitiveCore.recordExecution({
+    id: runId(report.plan_id, report.timestamp),
+    timestamp: report.timestamp,
+    type: "plan_execution",
+    outcome: report.result.status,
+    duration_ms: report.duration_ms,
+    metadata: {
+      plan_id: report.plan_id,
+      tools_executed: report.result.tools_executed,
+      tools_failed: report.result.tools_failed,
+      errors: report.result.errors ?? [],
+    },
+  });
+}
+
+export async function recordFailureReport(target: AE3ListenerTarget, report: ExecutionFailureReport): Promise<void> {
+  await target.cognitiveCore.recordExecution({
+    id: runId(report.plan_id, report.timestamp),
+    timestamp: report.timestamp,
+    type: "plan_execution",
+    outcome: "failed",
+    duration_ms: report.duration_ms,
+    metadata: { plan_id: report.plan_id, error: report.error.message, code: report.error.code },
+  });
+}
+
+/**
+ * Um plano pode ser reexecutado com o mesmo id: o timestamp do relatório separa as execuções na memória
+ */
+function runId(planId: string, timestamp: string): string {
+  return `${planId}:${timestamp}`;
+}
+
+/**
+ * Um MemoryEvent por output de tool (sucesso, falha ou timeout)
+ */
+export function toMemoryEvents(planId: string, outputs: ToolOutput[], timestamp: string): MemoryEvent[] {
+  return outputs
+    .filter((output): output is ToolOutput => !!output)
+    .map((output, index) => ({
+      id: `${runId(planId, timestamp)}:${index}:${output.tool_name}`,
+      timestamp,
+      type: "tool_execution",
+      outcome: output.timed_out ? "timed_out" : output.success ? "success" : "failed",
+      duration_ms: output.duration_ms,
+      metadata: {
+        plan_id: planId,
+        tool_id: output.tool_id,
+        tool_name: output.tool_name,
+        ...(output.error ? { error: output.error } : {}),
+        ...(output.schema_violations ? { schema_violations: output.schema_violations } : {}),
+      },
+    }));
 }
@@ -1,4 +1,5 @@
 import type { VectorRecord, VectorStoreAdapter } from "../vectorial";
+import { getConfig } from "../../../src/core/config";
 
 export interface PgClient {
   query<T = unknown>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
@@ -29,7 +30,7 @@ export class PgvectorAdapter implements VectorStoreAdapter {
   constructor(options: PgvectorAdapterOptions) {
     this.client = options.client;
     this.tableName = options.tableName ?? "ae1_vectorial_memory";
-    this.dimensions = options.dimensions ?? Number(process.env.ARQOS_VECTORIAL_DIMENSIONS ?? 768);
+    this.dimensions = options.dimensions ?? getConfig("vectorial.dimensions");
     this.autoCreate = options.autoCreate ?? true;
   }
 
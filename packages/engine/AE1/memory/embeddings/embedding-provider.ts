@@ -0,0 +1,22 @@
+/**
+ * Modelo de embedding: recebe textos em lote e devolve um vetor por texto,
+ * na mesma ordem, com exatamente `dimensions` posições
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  /** Identifica o modelo que gera os vetores (ex: "openai:text-embedding-3-small"); padrão: name */
+  readonly id?: string;
+  readonly dimensions: number;
+  /** Máximo de textos por chamada a embed() (padrão: sem limite) */
+  readonly maxBatchSize?: number;
+  /** Chama um serviço externo (desligado em modos sem rede de saída) */
+  readonly remote?: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderOptions {
+  /** Dimensão esperada pelo vector store (vectorial.dimensions) */
+  dimensions: number;
+}
+
+export type EmbeddingProviderFactory = (options: EmbeddingProviderOptions) => EmbeddingProvider;
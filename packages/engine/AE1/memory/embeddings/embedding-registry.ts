@@ -0,0 +1,81 @@
+import { ArqosError } from "@arqos/utils";
+import { getConfig } from "../../../src/core/config";
+import type { EmbeddingProvider, EmbeddingProviderFactory, EmbeddingProviderOptions } from "./embedding-provider";
+import { CharTrigramProvider, HashBagOfWordsProvider, HashedTfIdfProvider } from "./local-providers";
+import { CohereEmbeddingProvider, OpenAIEmbeddingProvider } from "./remote-providers";
+
+/**
+ * Providers de embedding por nome (o valor de `embedding.provider`).
+ * Registrar um nome existente substitui o provider anterior.
+ */
+export class EmbeddingProviderRegistry {
+  private factories = new Map<string, EmbeddingProviderFactory>();
+
+  register(name: string, factory: EmbeddingProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.factories.keys()).sort();
+  }
+
+  /**
+   * @throws ArqosError (ARQOS_NOT_FOUND) para nomes não registrados
+   */
+  create(name: string, options: EmbeddingProviderOptions): EmbeddingProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new ArqosError(
+        `[AE1:Embeddings] Unknown embedding provider "${name}" (registered: ${this.names().join(", ")})`,
+        "ARQOS_NOT_FOUND"
+      );
+    }
+    return factory(options);
+  }
+}
+
+/**
+ * Locais: hash (legado; também atende por local, para não mudar vetores já armazenados), tfidf e trigram.
+ * Remotos leem a configuração a cada criação, então chaves/modelos recarregados valem na próxima chamada.
+ */
+export function registerBuiltinEmbeddingProviders(registry: EmbeddingProviderRegistry): void {
+  registry.register("local", (options) => new HashBagOfWordsProvider(options));
+  registry.register("tfidf", (options) => new HashedTfIdfProvider(options));
+  registry.register("trigram", (options) => new CharTrigramProvider(options));
+  registry.register("hash", (options) => new HashBagOfWordsProvider(options));
+  registry.register(
+    "openai",
+    ({ dimensions }) =>
+      new OpenAIEmbeddingProvider({
+        apiKey: getConfig("embedding.openai_api_key"),
+        model: getConfig("embedding.openai_model"),
+        dimensions
+      })
+  );
+  registry.register(
+    "cohere",
+    ({ dimensions }) =>
+      new CohereEmbeddingProvider({
+        apiKey: getConfig("embedding.cohere_api_key"),
+        model: getConfig("embedding.cohere_model"),
+        dimensions
+      })
+  );
+}
+
+let registry: EmbeddingProviderRegistry | undefined;
+
+/**
+ * Registry global com os providers nativos; plugins registram os seus aqui
+ */
+export function getEmbeddingRegistry(): EmbeddingProviderRegistry {
+  if (!registry) {
+    registry = new EmbeddingProviderRegistry();
+    registerBuiltinEmbeddingProviders(registry);
+  }
+  return registry;
+}
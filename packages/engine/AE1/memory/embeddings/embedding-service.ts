@@ -0,0 +1,187 @@
+import { ArqosError } from "@arqos/utils";
+import * as crypto from "crypto";
+import { getConfig } from "../../../src/core/config";
+import { getModeConfig } from "../../../AE0/validators/mode-validator";
+import type { EmbeddingProvider } from "./embedding-provider";
+import { EmbeddingProviderRegistry, getEmbeddingRegistry } from "./embedding-registry";
+
+export interface EmbeddingServiceOptions {
+  registry?: EmbeddingProviderRegistry;
+  /** Nome do provider, avaliado a cada chamada (padrão: embedding.provider, recarregável) */
+  provider?: () => string;
+  /** Provider usado quando o selecionado falha ou é remoto sem rede (padrão: "local") */
+  fallback?: string;
+  /** Padrão: vectorial.dimensions */
+  dimensions?: number;
+  /** Modos sem rede de saída desligam providers remotos (padrão: true) */
+  allowRemote?: boolean;
+  /** Vetores em cache, por hash do conteúdo (padrão: 5000) */
+  cacheSize?: number;
+}
+
+export interface EmbedOptions {
+  /** Provider desta chamada no lugar de embedding.provider (mesmo cache e mesmas regras de rede) */
+  provider?: string;
+}
+
+/**
+ * Ponto único de geração de embeddings do engine: resolve o provider do
+ * registry, agrupa os textos nos lotes que ele aceita, guarda os vetores em
+ * cache (LRU por modelo + dimensão + texto) e valida a dimensão antes de
+ * devolver. Se o provider falhar, os textos vão para o fallback local.
+ */
+export class EmbeddingService {
+  private readonly registry: EmbeddingProviderRegistry;
+  private readonly dimensions: number;
+  private readonly cacheSize: number;
+  private cache = new Map<string, number[]>();
+  private warned = new Set<string>();
+
+  constructor(private options: EmbeddingServiceOptions = {}) {
+    this.registry = options.registry ?? getEmbeddingRegistry();
+    this.dimensions = options.dimensions ?? getConfig("vectorial.dimensions");
+    this.cacheSize = options.cacheSize ?? 5000;
+  }
+
+  async embed(text: string, options?: EmbedOptions): Promise<number[]> {
+    const [vector] = await this.embedBatch([text], options);
+    return vector;
+  }
+
+  async embedBatch(texts: string[], options?: EmbedOptions): Promise<number[][]> {
+    return (await this.embedWithProvider(texts, options)).vectors;
+  }
+
+  /**
+   * Como embedBatch(), informando qual provider gerou os vetores (após um eventual fallback)
+   */
+  async embedWithProvider(texts: string[], options?: EmbedOptions): Promise<{ provider: string; vectors: number[][] }> {
+    const fallback = this.options.fallback ?? "local";
+    let provider: EmbeddingProvider;
+    try {
+      provider = this.resolve(options);
+    } catch (error) {
+      this.warnOnce(`[AE1:Embeddings] ${(error as Error).message}; using "${fallback}"`);
+      provider = this.create(fallback);
+    }
+
+    try {
+      return { provider: provider.name, vectors: await this.embedWith(provider, texts) };
+    } catch (error) {
+      const local = this.create(fallback);
+      if (provider.name === local.name) throw error;
+      this.warnOnce(`[AE1:Embeddings] Provider "${provider.name}" failed (${(error as Error).message}); using "${fallback}"`);
+      return { provider: local.name, vectors: await this.embedWith(local, texts) };
+    }
+  }
+
+  /**
+   * Provider que atenderá a próxima chamada (sem rede, remotos dão lugar ao fallback)
+   */
+  resolve(options?: EmbedOptions): EmbeddingProvider {
+    const name = options?.provider ?? this.options.provider?.() ?? getConfig("embedding.provider");
+    const provider = this.create(name);
+    if (provider.remote && this.options.allowRemote === false) {
+      return this.create(this.options.fallback ?? "local");
+    }
+    return provider;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private create(name: string): EmbeddingProvider {
+    return this.registry.create(name, { dimensions: this.dimensions });
+  }
+
+  private async embedWith(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = new Array(texts.length);
+    // Textos repetidos no lote são calculados uma vez
+    const pending = new Map<string, { text: string; indexes: number[] }>();
+
+    texts.forEach((text, index) => {
+      const hash = this.hash(provider, text);
+      const cached = this.cache.get(hash);
+      if (cached) {
+        this.remember(hash, cached);
+        vectors[index] = cached;
+      } else {
+        const entry = pending.get(hash) ?? { text, indexes: [] };
+        entry.indexes.push(index);
+        pending.set(hash, entry);
+      }
+    });
+
+    const entries = Array.from(pending.entries());
+    const batchSize = provider.maxBatchSize ?? Math.max(1, entries.length);
+    for (let start = 0; start < entries.length; start += batchSize) {
+      const batch = entries.slice(start, start + batchSize);
+      const embedded = await provider.embed(batch.map(([, entry]) => entry.text));
+      this.validate(provider, embedded, batch.length);
+
+      batch.forEach(([hash, entry], position) => {
+        this.remember(hash, embedded[position]);
+        for (const index of entry.indexes) vectors[index] = embedded[position];
+      });
+    }
+
+    return vectors;
+  }
+
+  /**
+   * @throws ArqosError (ARQOS_INPUT_INVALID) se a resposta não bater com o lote ou com vectorial.dimensions
+   */
+  private validate(provider: EmbeddingProvider, vectors: number[][], expected: number): void {
+    if (vectors.length !== expected) {
+      throw new ArqosError(
+        `[AE1:Embeddings] Provider "${provider.name}" returned ${vectors.length} vectors for ${expected} texts`,
+        "ARQOS_INPUT_INVALID"
+      );
+    }
+    for (const vector of vectors) {
+      if (vector.length !== this.dimensions || !vector.every(Number.isFinite)) {
+        throw new ArqosError(
+          `[AE1:Embeddings] Provider "${provider.name}" returned ${vector.length} dimensions; ` +
+            `vectorial.dimensions is ${this.dimensions}`,
+          "ARQOS_INPUT_INVALID"
+        );
+      }
+    }
+  }
+
+  private remember(hash: string, vector: number[]): void {
+    this.cache.delete(hash);
+    this.cache.set(hash, vector);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * O id do provider entra na chave: um modelo recarregado (embedding.openai_model...) não reaproveita vetores do anterior
+   */
+  private hash(provider: EmbeddingProvider, text: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(`${provider.id ?? provider.name}\u0000${provider.dimensions}\u0000${text}`)
+      .digest("hex");
+  }
+
+  private warnOnce(message: string): void {
+    if (this.warned.has(message)) return;
+    this.warned.add(message);
+    console.warn(message);
+  }
+}
+
+let service: EmbeddingService | undefined;
+
+/**
+ * Serviço compartilhado (tools do AE3 que recebem texto sem vetor); remotos
+ * seguem o network.outbound do modo configurado
+ */
+export function getEmbeddingService(): EmbeddingService {
+  service ??= new EmbeddingService({ allowRemote: getModeConfig(getConfig("mode")).settings.network.outbound });
+  return service;
+}
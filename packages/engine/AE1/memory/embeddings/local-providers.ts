@@ -0,0 +1,178 @@
+import type { EmbeddingProvider, EmbeddingProviderOptions } from "./embedding-provider";
+
+/**
+ * Palavras funcionais (pt/en) com peso reduzido no TF-IDF
+ */
+const STOPWORDS = new Set([
+  "a", "o", "as", "os", "de", "da", "do", "das", "dos", "e", "em", "no", "na", "nos", "nas", "um", "uma",
+  "para", "por", "com", "que", "se", "ao", "the", "of", "and", "to", "in", "on", "for", "is", "at", "by", "an"
+]);
+const STOPWORD_WEIGHT = 0.1;
+
+/**
+ * Minúsculas, sem acentos, separado em letras/dígitos
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** FNV-1a 32 bits */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Feature hashing com sinal: colisões tendem a se cancelar em vez de somar
+ */
+function hashFeatures(features: Map<string, number>, dimensions: number): number[] {
+  const vector = new Array(dimensions).fill(0);
+  for (const [feature, weight] of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+  return normalize(vector);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0)) || 1;
+  return vector.map((v) => Number((v / norm).toFixed(6)));
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+export interface HashedTfIdfOptions extends EmbeddingProviderOptions {
+  /** IDF pré-calculado por termo (termos ausentes usam `defaultIdf`) */
+  idf?: Record<string, number>;
+  /** Padrão: 1 */
+  defaultIdf?: number;
+  /** Inclui pares de palavras adjacentes (padrão: true) */
+  bigrams?: boolean;
+}
+
+/**
+ * TF-IDF de unigramas e bigramas em feature hashing.
+ * Determinístico: o mesmo texto gera sempre o mesmo vetor (o IDF é fixo, não
+ * aprendido com o que já foi armazenado).
+ */
+export class HashedTfIdfProvider implements EmbeddingProvider {
+  readonly name = "tfidf";
+  readonly dimensions: number;
+
+  constructor(private options: HashedTfIdfOptions) {
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const tokens = tokenize(text);
+    const terms = [...tokens];
+    if (this.options.bigrams ?? true) {
+      for (let i = 1; i < tokens.length; i += 1) {
+        if (!STOPWORDS.has(tokens[i - 1]) && !STOPWORDS.has(tokens[i])) {
+          terms.push(`${tokens[i - 1]} ${tokens[i]}`);
+        }
+      }
+    }
+
+    const features = new Map<string, number>();
+    for (const [term, count] of countTerms(terms)) {
+      const idf = STOPWORDS.has(term) ? STOPWORD_WEIGHT : this.options.idf?.[term] ?? this.options.defaultIdf ?? 1;
+      features.set(term, (1 + Math.log(count)) * idf);
+    }
+    return hashFeatures(features, this.dimensions);
+  }
+}
+
+/**
+ * Trigramas de caracteres por palavra: tolera erros de digitação e variações
+ * de flexão ("pagamento" ~ "pagamentos" ~ "pagamneto")
+ */
+export class CharTrigramProvider implements EmbeddingProvider {
+  readonly name = "trigram";
+  readonly dimensions: number;
+
+  constructor(options: EmbeddingProviderOptions) {
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const trigrams: string[] = [];
+    for (const token of tokenize(text)) {
+      const padded = ` ${token} `;
+      for (let i = 0; i + 3 <= padded.length; i += 1) {
+        trigrams.push(padded.slice(i, i + 3));
+      }
+    }
+
+    const features = new Map<string, number>();
+    for (const [trigram, count] of countTerms(trigrams)) {
+      features.set(trigram, 1 + Math.log(count));
+    }
+    return hashFeatures(features, this.dimensions);
+  }
+}
+
+/**
+ * Bag-of-words com hash simples (embedding local anterior ao registry;
+ * mantido para vetores já armazenados com ele)
+ */
+export class HashBagOfWordsProvider implements EmbeddingProvider {
+  readonly name = "hash";
+  readonly dimensions: number;
+
+  constructor(options: EmbeddingProviderOptions) {
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+
+    // Tokenize by words, lowercase, remove common punctuation
+    const tokens = text.toLowerCase()
+      .replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, "")
+      .split(/\s+/);
+
+    for (const token of tokens) {
+      if (!token) continue;
+
+      // Hash string to generic integer
+      let hash = 0;
+      for (let i = 0; i < token.length; i++) {
+        const char = token.charCodeAt(i);
+        hash = ((hash << 5) - hash) + char;
+        hash = hash & hash; // Convert to 32bit integer
+      }
+
+      // Map hash to dimension index
+      const idx = Math.abs(hash) % this.dimensions;
+      vector[idx] += 1;
+    }
+
+    return normalize(vector);
+  }
+}
@@ -0,0 +1,83 @@
+import { ArqosError } from "@arqos/utils";
+import type { EmbeddingProvider } from "./embedding-provider";
+
+interface RemoteProviderOptions {
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+}
+
+async function postJson<T>(provider: string, url: string, apiKey: string | undefined, body: unknown): Promise<T> {
+  if (!apiKey) {
+    throw new ArqosError(`[AE1:Embeddings] ${provider} API key not configured`, "ARQOS_FAIL_FAST");
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new ArqosError(`[AE1:Embeddings] ${provider} responded ${response.status}`, "ARQOS_EXECUTION_FAILED");
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * OpenAI /v1/embeddings. Modelos text-embedding-3 recebem `dimensions` e
+ * devolvem vetores já no tamanho do vector store.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly id: string;
+  readonly remote = true;
+  readonly maxBatchSize = 2048;
+  readonly dimensions: number;
+
+  constructor(private options: RemoteProviderOptions) {
+    this.id = `${this.name}:${options.model}`;
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const payload = await postJson<{ data?: Array<{ embedding: number[]; index: number }> }>(
+      "OpenAI",
+      "https://api.openai.com/v1/embeddings",
+      this.options.apiKey,
+      {
+        model: this.options.model,
+        input: texts,
+        ...(this.options.model.startsWith("text-embedding-3") ? { dimensions: this.dimensions } : {}),
+      }
+    );
+    return [...(payload.data ?? [])].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * Cohere /v1/embed (até 96 textos por chamada)
+ */
+export class CohereEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "cohere";
+  readonly id: string;
+  readonly remote = true;
+  readonly maxBatchSize = 96;
+  readonly dimensions: number;
+
+  constructor(private options: RemoteProviderOptions) {
+    this.id = `${this.name}:${options.model}`;
+    this.dimensions = options.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const payload = await postJson<{ embeddings?: number[][] }>("Cohere", "https://api.cohere.ai/v1/embed", this.options.apiKey, {
+      model: this.options.model,
+      texts,
+      input_type: "search_document",
+    });
+    return payload.embeddings ?? [];
+  }
+}
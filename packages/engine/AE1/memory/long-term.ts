@@ -1,14 +1,276 @@
-import type { MemoryEvent, MemoryQuery } from "./memory-types";
-import type { StateStore } from "../state/state-store";
+import type { ConsolidationReport, MemoryEvent, MemoryQuery } from "./memory-types";
+import type { StateOperation, StateStore, StateTransaction } from "../state/state-store";
+import { DEFAULT_QUERY_LIMIT, matchesIndex, matchesQuery, paginate, timestampOf } from "./memory-query";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Versão do índice gravada em `index:long`; outro valor (ausente ou o array antigo) reconstrói
+const INDEX_VERSION = 2;
+// Timestamps com largura fixa: a ordem lexicográfica das chaves é a ordem temporal
+const TS_WIDTH = 15;
+
+/**
+ * Entrada do índice: tempo, tipo e outcome ficam fora do evento para que os
+ * filtros mais comuns não precisem ler cada evento do StateStore
+ */
+interface LongTermIndexEntry {
+  id: string;
+  ts: number;
+  type: string;
+  outcome?: string;
+  summary?: boolean;
+}
+
+export interface ConsolidationOptions {
+  /** Ocorrências do mesmo tipo/outcome no short-term para promover (padrão: 3) */
+  promoteThreshold?: number;
+  /** Idade a partir da qual eventos viram resumos diários (padrão: 90 dias) */
+  summarizeAfterDays?: number;
+  now?: number;
+}
+
+/**
+ * Memória de longo prazo.
+ *
+ * Eventos ficam em `long:<id>` com TTL até o fim da janela de `retentionDays`
+ * (contada do timestamp do evento). O índice tem uma chave por evento,
+ * `index:long:<ts>:<id>` com tipo e outcome, gravada na mesma transação que o
+ * evento: cada escrita toca só as próprias chaves e as consultas percorrem o
+ * prefixo em ordem de timestamp. consolidate() promove eventos recorrentes do
+ * short-term e agrega eventos antigos em um resumo por dia, tipo e outcome.
+ */
 export class LongTermMemory {
+  private readonly prefix = "long:";
+  // Fora do prefixo: list/scan de `long:` continuam vendo só eventos
+  private readonly indexPrefix = "index:long:";
+  private readonly versionKey = "index:long";
+  private indexed?: Promise<void>;
+
   constructor(private retentionDays: number, private stateStore: StateStore) {}
 
-  async store(event: MemoryEvent): Promise<void> {
-    await this.stateStore.write(`long:${event.id}`, event);
+  async store(event: MemoryEvent, now: number = Date.now()): Promise<void> {
+    await this.ensureIndex();
+    await this.stateStore.transaction((tx) => this.put(tx, event, now));
+  }
+
+  async retrieve(query: MemoryQuery): Promise<MemoryEvent[]> {
+    const cutoff = this.cutoff(Date.now());
+    const index = (await this.readIndex()).filter((entry) => entry.ts >= cutoff && matchesIndex(entry, query));
+    if (query.order !== "asc") index.reverse();
+
+    // Sem filtros de metadata dá para paginar pelo índice e ler só a página
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = query.limit || DEFAULT_QUERY_LIMIT;
+    const hasMetadata = Object.keys(query.metadata ?? {}).length > 0;
+    const candidates = hasMetadata ? index : index.slice(offset, offset + limit);
+
+    const events: MemoryEvent[] = [];
+    for (const entry of candidates) {
+      const event = await this.stateStore.read<MemoryEvent>(this.key(entry.id));
+      if (event && matchesQuery(event, query)) {
+        events.push(event);
+      }
+      if (hasMetadata && events.length >= offset + limit) break;
+    }
+
+    return paginate(events, hasMetadata ? query : { ...query, offset: 0 });
+  }
+
+  async count(): Promise<number> {
+    const cutoff = this.cutoff(Date.now());
+    return (await this.readIndex()).filter((entry) => entry.ts >= cutoff).length;
+  }
+
+  /**
+   * Remove eventos fora da janela de retenção (o TTL já cobre os gravados com
+   * a retenção atual; isto cobre mudanças de retenção, relógios injetados e o índice)
+   */
+  async expire(now: number = Date.now()): Promise<number> {
+    const cutoff = this.cutoff(now);
+    const expired = (await this.readIndex()).filter((entry) => entry.ts < cutoff);
+    if (expired.length === 0) return 0;
+
+    await this.stateStore.batch(
+      expired.flatMap((entry): StateOperation[] => [
+        { type: "delete", key: this.key(entry.id) },
+        { type: "delete", key: this.indexKey(entry) }
+      ])
+    );
+    return expired.length;
+  }
+
+  /**
+   * Retenção → promoção de eventos recorrentes → resumo de eventos antigos
+   *
+   * @param recent - Eventos atuais do short-term
+   */
+  async consolidate(recent: MemoryEvent[], options: ConsolidationOptions = {}): Promise<ConsolidationReport> {
+    const now = options.now ?? Date.now();
+    const expired = await this.expire(now);
+    const promoted = await this.promote(recent, options.promoteThreshold ?? 3, now);
+    const summarized = await this.summarize(now - (options.summarizeAfterDays ?? 90) * DAY_MS, now);
+    return { promoted, summarized, expired };
+  }
+
+  private async promote(recent: MemoryEvent[], threshold: number, now: number): Promise<number> {
+    const groups = new Map<string, MemoryEvent[]>();
+    for (const event of recent) {
+      const signature = `${event.type}\u0000${event.outcome ?? ""}`;
+      groups.set(signature, [...(groups.get(signature) ?? []), event]);
+    }
+    const candidates = [...groups.values()].filter((events) => events.length >= threshold).flat();
+    if (candidates.length === 0) return 0;
+
+    await this.ensureIndex();
+    return this.stateStore.transaction(async (tx) => {
+      let promoted = 0;
+      for (const event of candidates) {
+        // Já promovido (ou repetido no short-term)
+        if (await tx.read(this.key(event.id))) continue;
+        if (await this.put(tx, event, now)) promoted++;
+      }
+      return promoted;
+    });
+  }
+
+  private async summarize(before: number, now: number): Promise<number> {
+    const groups = new Map<string, LongTermIndexEntry[]>();
+    for (const entry of await this.readIndex()) {
+      if (entry.summary || entry.ts >= before) continue;
+      const id = `summary:${entry.type}:${entry.outcome ?? "none"}:${this.day(entry.ts)}`;
+      groups.set(id, [...(groups.get(id) ?? []), entry]);
+    }
+
+    let summarized = 0;
+    for (const [id, entries] of groups) {
+      // Resumo, remoção dos originais e índice no mesmo commit
+      summarized += await this.stateStore.transaction(async (tx) => {
+        const events: MemoryEvent[] = [];
+        for (const entry of entries) {
+          const event = await tx.read<MemoryEvent>(this.key(entry.id));
+          if (event) events.push(event);
+          tx.delete(this.key(entry.id));
+          tx.delete(this.indexKey(entry));
+        }
+        if (events.length === 0) return 0;
+
+        await this.put(tx, this.mergeSummary(id, await tx.read<MemoryEvent>(this.key(id)), events), now);
+        return events.length;
+      });
+    }
+    return summarized;
+  }
+
+  /**
+   * Resumo diário: contagem, duração média e ids originais (somados a um resumo existente)
+   */
+  private mergeSummary(id: string, existing: MemoryEvent | null, events: MemoryEvent[]): MemoryEvent {
+    const previous = (existing?.metadata ?? {}) as { count?: number; event_ids?: string[]; total_duration_ms?: number };
+    const count = (previous.count ?? 0) + events.length;
+    const totalDuration = (previous.total_duration_ms ?? 0) + events.reduce((sum, event) => sum + (event.duration_ms ?? 0), 0);
+    const [sample] = events;
+
+    return {
+      id,
+      timestamp: `${this.day(timestampOf(sample))}T00:00:00.000Z`,
+      type: sample.type,
+      outcome: sample.outcome,
+      duration_ms: count > 0 ? Math.round(totalDuration / count) : undefined,
+      metadata: {
+        summary: true,
+        count,
+        total_duration_ms: totalDuration,
+        event_ids: [...(previous.event_ids ?? []), ...events.map((event) => event.id)]
+      }
+    };
+  }
+
+  /**
+   * Grava o evento (TTL até o fim da retenção) e a sua entrada no índice,
+   * trocando a entrada anterior do mesmo id se o timestamp mudou.
+   * Eventos já fora da janela não são gravados.
+   */
+  private async put(tx: StateTransaction, event: MemoryEvent, now: number): Promise<boolean> {
+    const ttlMs = timestampOf(event) - this.cutoff(now);
+    if (ttlMs <= 0) return false;
+
+    const previous = await tx.read<MemoryEvent>(this.key(event.id));
+    const entry = this.entryOf(event);
+    if (previous && this.indexKey(this.entryOf(previous)) !== this.indexKey(entry)) {
+      tx.delete(this.indexKey(this.entryOf(previous)));
+    }
+
+    tx.write(this.key(event.id), event, { ttlMs });
+    tx.write(this.indexKey(entry), this.indexValue(entry));
+    return true;
+  }
+
+  /**
+   * Entradas do índice em ordem de timestamp
+   */
+  private async readIndex(): Promise<LongTermIndexEntry[]> {
+    await this.ensureIndex();
+    const index: LongTermIndexEntry[] = [];
+    for (const { key, value } of await this.stateStore.scan<Omit<LongTermIndexEntry, "id" | "ts">>(this.indexPrefix)) {
+      const rest = key.slice(this.indexPrefix.length);
+      index.push({ ...value, id: rest.slice(TS_WIDTH + 1), ts: Number(rest.slice(0, TS_WIDTH)) });
+    }
+    return index;
+  }
+
+  /**
+   * Índice a partir dos eventos gravados (stores anteriores ao índice por chave),
+   * uma vez por instância
+   */
+  private ensureIndex(): Promise<void> {
+    this.indexed ??= this.rebuildIndex().catch((error) => {
+      this.indexed = undefined;
+      throw error;
+    });
+    return this.indexed;
+  }
+
+  private async rebuildIndex(): Promise<void> {
+    if ((await this.stateStore.read(this.versionKey)) === INDEX_VERSION) return;
+
+    const operations: StateOperation[] = [];
+    for (const { value } of await this.stateStore.scan<MemoryEvent>(this.prefix)) {
+      // Ignora o `long:index` de versões anteriores
+      if (typeof value?.id !== "string") continue;
+      const entry = this.entryOf(value);
+      operations.push({ type: "put", key: this.indexKey(entry), value: this.indexValue(entry) });
+    }
+    operations.push({ type: "put", key: this.versionKey, value: INDEX_VERSION });
+    await this.stateStore.batch(operations);
+  }
+
+  private entryOf(event: MemoryEvent): LongTermIndexEntry {
+    return {
+      id: event.id,
+      ts: Math.max(0, timestampOf(event)),
+      type: event.type,
+      ...(event.outcome !== undefined ? { outcome: event.outcome } : {}),
+      ...(event.metadata?.summary === true ? { summary: true } : {})
+    };
+  }
+
+  private indexKey(entry: LongTermIndexEntry): string {
+    return `${this.indexPrefix}${String(entry.ts).padStart(TS_WIDTH, "0")}:${entry.id}`;
+  }
+
+  private indexValue({ id, ts, ...value }: LongTermIndexEntry): Omit<LongTermIndexEntry, "id" | "ts"> {
+    return value;
+  }
+
+  /** Dia UTC (YYYY-MM-DD) */
+  private day(ts: number): string {
+    return new Date(ts).toISOString().slice(0, 10);
+  }
+
+  private key(id: string): string {
+    return `${this.prefix}${id}`;
   }
 
-  async retrieve(_query: MemoryQuery): Promise<MemoryEvent[]> {
-    return [];
+  private cutoff(now: number): number {
+    return now - this.retentionDays * DAY_MS;
   }
 }
@@ -1,32 +1,44 @@
-import type { MemoryEvent, MemoryInsights, MemoryQuery } from "./memory-types";
+import type { ConsolidationReport, MemoryEvent, MemoryInsights, MemoryQuery } from "./memory-types";
 import { ShortTermMemory } from "./short-term";
-import { LongTermMemory } from "./long-term";
+import { ConsolidationOptions, LongTermMemory } from "./long-term";
+import { paginate } from "./memory-query";
 import { VectorialMemory } from "./vectorial";
 import type { VectorStoreAdapter } from "./vectorial";
 import { PineconeAdapter } from "./adapters/pinecone-adapter";
 import { PgvectorAdapter } from "./adapters/pgvector-adapter";
 import { WeaviateAdapter } from "./adapters/weaviate-adapter";
+import { EmbeddingService } from "./embeddings/embedding-service";
 import type { StateStore } from "../state/state-store";
+import { getModeConfig, ModeConfig, OperationalMode } from "../../AE0/validators/mode-validator";
+import { getConfig } from "../../src/core/config";
+import { initializeHealthMonitor } from "../../health/health-monitor";
 
 export class MemoryManager {
   private shortTerm: ShortTermMemory;
   private longTerm?: LongTermMemory;
   private vectorial?: VectorialMemory;
-  private mode: "lite" | "fullstack";
+  private modeConfig: ModeConfig;
+  private embeddings: EmbeddingService;
+  private consolidationTimer?: NodeJS.Timeout;
 
-  constructor(mode: "lite" | "fullstack", stateStore: StateStore) {
-    this.mode = mode;
+  constructor(mode: OperationalMode, stateStore: StateStore) {
+    this.modeConfig = getModeConfig(mode);
+    const tiers = this.modeConfig.settings.ae1.memory_tiers;
     this.shortTerm = new ShortTermMemory(7, stateStore);
+    // Sem rede de saída (ex: staging) os provedores remotos ficam desligados
+    this.embeddings = new EmbeddingService({ allowRemote: this.modeConfig.settings.network.outbound });
+
+    // Tiers vêm do modo; sem adapter configurado o vectorial fica local/in-memory
+    if (tiers.includes("vectorial")) {
+      this.vectorial = new VectorialMemory(stateStore, {
+        embedder: (text) => this.embeddings.embed(text),
+        adapter: this.resolveVectorAdapter(),
+        namespace: mode
+      });
+      this.registerVectorHealthCheck(this.vectorial);
+    }
 
-    // Initialize Vectorial Memory in both modes
-    // Lite will default to local/in-memory because resolveVectorAdapter returns undefined by default
-    this.vectorial = new VectorialMemory(stateStore, {
-      embedder: (text) => this.createEmbeddingFromText(text),
-      adapter: this.resolveVectorAdapter(),
-      namespace: mode
-    });
-
-    if (mode === "fullstack") {
+    if (tiers.includes("long_term")) {
       this.longTerm = new LongTermMemory(180, stateStore);
     }
   }
@@ -40,8 +52,9 @@ export class MemoryManager {
       await this.vectorial.store(event.id, embedding, event.metadata ?? {}, event);
     }
 
-    if (this.mode === "fullstack") {
-      await this.longTerm!.store(event);
+    // Execuções (com outcome) vão direto ao long-term; demais só quando recorrentes (consolidate)
+    if (this.longTerm && event.outcome !== undefined) {
+      await this.longTerm.store(event);
     }
   }
 
@@ -58,13 +71,64 @@ export class MemoryManager {
       return await this.shortTerm.retrieve(query);
     }
 
-    if (this.mode === "fullstack") {
-      return await this.longTerm!.retrieve(query);
+    if (this.longTerm) {
+      // Short-term ainda não consolidado também faz parte do histórico
+      const window = { ...query, offset: 0, limit: (query.offset ?? 0) + (query.limit || 50) };
+      const [longTerm, recent] = await Promise.all([this.longTerm.retrieve(window), this.shortTerm.retrieve(window)]);
+      const seen = new Set(longTerm.map((event) => event.id));
+      return paginate([...longTerm, ...recent.filter((event) => !seen.has(event.id))], query);
     }
 
     return await this.shortTerm.retrieve(query);
   }
 
+  /**
+   * Promove eventos recorrentes do short-term, resume eventos antigos, aplica a retenção e o limite do short-term
+   */
+  async consolidate(options?: ConsolidationOptions): Promise<ConsolidationReport> {
+    if (!this.longTerm) {
+      await this.pruneShortTerm();
+      return { promoted: 0, summarized: 0, expired: 0 };
+    }
+
+    // Promoção olha o short-term antes do limite de eventos
+    const recent = await this.shortTerm.retrieve({ limit: Number.MAX_SAFE_INTEGER });
+    const report = await this.longTerm.consolidate(recent, options);
+    if (report.promoted + report.summarized + report.expired > 0) {
+      console.log(
+        `[AE1] Memory consolidated: ${report.promoted} promoted, ${report.summarized} summarized, ${report.expired} expired`
+      );
+    }
+    await this.pruneShortTerm();
+    return report;
+  }
+
+  /**
+   * Consolidação periódica (sem long_term, só aplica o limite do short-term)
+   */
+  startConsolidation(intervalMs: number = 3600000): void {
+    if (this.consolidationTimer) return;
+
+    this.consolidationTimer = setInterval(() => {
+      this.consolidate().catch((error) => console.warn("[AE1] Memory consolidation failed:", error));
+    }, intervalMs);
+    this.consolidationTimer.unref();
+  }
+
+  stopConsolidation(): void {
+    if (this.consolidationTimer) {
+      clearInterval(this.consolidationTimer);
+      this.consolidationTimer = undefined;
+    }
+  }
+
+  private async pruneShortTerm(): Promise<void> {
+    const pruned = await this.shortTerm.prune();
+    if (pruned > 0) {
+      console.log(`[AE1] Short-term memory over capacity: ${pruned} oldest events removed`);
+    }
+  }
+
   async getInsights(): Promise<MemoryInsights> {
     return {
       total_events: await this.shortTerm.count(),
@@ -84,98 +148,7 @@ export class MemoryManager {
       .filter(Boolean)
       .join(" ");
 
-    // Use shared implementation
-    return this.createEmbeddingFromText(text);
-  }
-
-  private async createEmbeddingFromText(text: string): Promise<number[]> {
-    const dimensions = Number(process.env.ARQOS_VECTORIAL_DIMENSIONS ?? 768);
-    const provider = (process.env.ARQOS_EMBEDDING_PROVIDER ?? "local").toLowerCase();
-
-    // Improved Bag-of-Words Hashing for Local Implementation
-    const localEmbedding = (): number[] => {
-      const vector = new Array(dimensions).fill(0);
-
-      // Tokenize by words, lowercase, remove common punctuation
-      const tokens = text.toLowerCase()
-        .replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, "")
-        .split(/\s+/);
-
-      for (const token of tokens) {
-        if (!token) continue;
-
-        // Hash string to generic integer
-        let hash = 0;
-        for (let i = 0; i < token.length; i++) {
-          const char = token.charCodeAt(i);
-          hash = ((hash << 5) - hash) + char;
-          hash = hash & hash; // Convert to 32bit integer
-        }
-
-        // Map hash to dimension index
-        const idx = Math.abs(hash) % dimensions;
-        vector[idx] += 1;
-      }
-
-      // Normalize (L2)
-      const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0)) || 1;
-      return vector.map((v) => Number((v / norm).toFixed(6)));
-    };
-
-    if (provider === "openai" && process.env.OPENAI_API_KEY) {
-      try {
-        const response = await fetch("https://api.openai.com/v1/embeddings", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: process.env.ARQOS_OPENAI_EMBEDDING_MODEL ?? "text-embedding-3-small",
-            input: text,
-          }),
-        });
-
-        if (response.ok) {
-          const payload = (await response.json()) as { data?: Array<{ embedding: number[] }> };
-          const embedding = payload.data?.[0]?.embedding;
-          if (embedding && embedding.length > 0) {
-            return embedding;
-          }
-        }
-      } catch {
-        // fallback to local embedding
-      }
-    }
-
-    if (provider === "cohere" && process.env.COHERE_API_KEY) {
-      try {
-        const response = await fetch("https://api.cohere.ai/v1/embed", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.COHERE_API_KEY}`,
-          },
-          body: JSON.stringify({
-            model: process.env.ARQOS_COHERE_EMBEDDING_MODEL ?? "embed-english-v3.0",
-            texts: [text],
-            input_type: "search_document",
-          }),
-        });
-
-        if (response.ok) {
-          const payload = (await response.json()) as { embeddings?: number[][] };
-          const embedding = payload.embeddings?.[0];
-          if (embedding && embedding.length > 0) {
-            return embedding;
-          }
-        }
-      } catch {
-        // fallback to local embedding
-      }
-    }
-
-    return localEmbedding();
+    return this.embeddings.embed(text);
   }
 
   private async getMemoryUsage(): Promise<number> {
@@ -183,12 +156,38 @@ export class MemoryManager {
     return Number(usageMb.toFixed(2));
   }
 
+  /**
+   * Readiness depende do vector store configurado (adapter remoto ou in-memory)
+   */
+  private registerVectorHealthCheck(vectorial: VectorialMemory): void {
+    const provider = getConfig("vectorial.provider");
+    initializeHealthMonitor().registerCheck({
+      name: "ae1.vectorial",
+      check: async () => {
+        const health = await vectorial.healthCheck();
+        return {
+          status: health.status === "unavailable" ? "unhealthy" : health.status,
+          message: health.message,
+          metadata: { provider }
+        };
+      },
+      intervalMs: 30000,
+      critical: true,
+      probes: ["readiness"]
+    });
+  }
+
   private resolveVectorAdapter(): VectorStoreAdapter | undefined {
-    const provider = (process.env.ARQOS_VECTORIAL_PROVIDER ?? "memory").toLowerCase();
+    const provider = getConfig("vectorial.provider");
+
+    if (provider !== "memory" && !this.modeConfig.settings.network.outbound) {
+      console.warn(`[AE1] Vector adapter "${provider}" disabled: mode ${this.modeConfig.mode} has no outbound network. Using in-memory.`);
+      return undefined;
+    }
 
     if (provider === "pinecone") {
-      const apiKey = process.env.ARQOS_PINECONE_API_KEY;
-      const indexHost = process.env.ARQOS_PINECONE_INDEX_HOST;
+      const apiKey = getConfig("vectorial.pinecone.api_key");
+      const indexHost = getConfig("vectorial.pinecone.index_host");
       if (!apiKey || !indexHost) {
         console.warn("[AE1] Pinecone adapter requested but missing API key or index host. Falling back to in-memory.");
         return undefined;
@@ -196,8 +195,8 @@ export class MemoryManager {
       return new PineconeAdapter({
         apiKey,
         indexHost,
-        namespace: process.env.ARQOS_VECTORIAL_NAMESPACE,
-        timeoutMs: Number(process.env.ARQOS_PINECONE_TIMEOUT_MS ?? 5000),
+        namespace: getConfig("vectorial.namespace"),
+        timeoutMs: getConfig("vectorial.pinecone.timeout_ms"),
       });
     }
 
@@ -209,23 +208,23 @@ export class MemoryManager {
       }
       return new PgvectorAdapter({
         client: client as any,
-        tableName: process.env.ARQOS_PGVECTOR_TABLE,
-        dimensions: Number(process.env.ARQOS_VECTORIAL_DIMENSIONS ?? 768),
-        autoCreate: (process.env.ARQOS_PGVECTOR_AUTOCREATE ?? "true").toLowerCase() !== "false",
+        tableName: getConfig("vectorial.pgvector.table"),
+        dimensions: getConfig("vectorial.dimensions"),
+        autoCreate: getConfig("vectorial.pgvector.autocreate"),
       });
     }
 
     if (provider === "weaviate") {
-      const host = process.env.ARQOS_WEAVIATE_HOST;
+      const host = getConfig("vectorial.weaviate.host");
       if (!host) {
         console.warn("[AE1] Weaviate adapter requested but ARQOS_WEAVIATE_HOST is missing. Falling back to in-memory.");
         return undefined;
       }
       return new WeaviateAdapter({
         host,
-        apiKey: process.env.ARQOS_WEAVIATE_API_KEY,
-        className: process.env.ARQOS_WEAVIATE_CLASS,
-        timeoutMs: Number(process.env.ARQOS_WEAVIATE_TIMEOUT_MS ?? 5000),
+        apiKey: getConfig("vectorial.weaviate.api_key"),
+        className: getConfig("vectorial.weaviate.class_name"),
+        timeoutMs: getConfig("vectorial.weaviate.timeout_ms"),
       });
     }
 
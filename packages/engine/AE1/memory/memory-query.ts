@@ -0,0 +1,109 @@
+import type { MemoryEvent, MemoryQuery, MetadataPredicate } from "./memory-types";
+
+/**
+ * Filtros de MemoryQuery compartilhados pelos tiers short-term e long-term
+ */
+
+export const DEFAULT_QUERY_LIMIT = 50;
+
+export function toArray<T>(value: T | T[] | undefined): T[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+export function timestampOf(event: MemoryEvent): number {
+  const ts = Date.parse(event.timestamp);
+  return Number.isNaN(ts) ? 0 : ts;
+}
+
+/**
+ * Intervalo [from, to) da query em ms (limites abertos viram ±Infinity)
+ */
+export function queryRange(query: MemoryQuery): { from: number; to: number } {
+  const from = query.from ? Date.parse(query.from) : -Infinity;
+  const to = query.to ? Date.parse(query.to) : Infinity;
+  return { from: Number.isNaN(from) ? -Infinity : from, to: Number.isNaN(to) ? Infinity : to };
+}
+
+/**
+ * Filtros baratos (sem metadata): tempo, tipo e outcome
+ */
+export function matchesIndex(
+  entry: { ts: number; type: string; outcome?: string },
+  query: MemoryQuery
+): boolean {
+  const { from, to } = queryRange(query);
+  if (entry.ts < from || entry.ts >= to) return false;
+
+  const types = toArray(query.event_type);
+  if (types && !types.includes(entry.type)) return false;
+
+  const outcomes = toArray(query.outcome);
+  if (outcomes && (entry.outcome === undefined || !outcomes.includes(entry.outcome))) return false;
+
+  return true;
+}
+
+export function matchesQuery(event: MemoryEvent, query: MemoryQuery): boolean {
+  if (!matchesIndex({ ts: timestampOf(event), type: event.type, outcome: event.outcome }, query)) return false;
+
+  for (const [path, predicate] of Object.entries(query.metadata ?? {})) {
+    if (!matchesPredicate(getPath(event.metadata, path), predicate)) return false;
+  }
+  return true;
+}
+
+/**
+ * Ordena (desc por padrão) e aplica offset/limit
+ */
+export function paginate(events: MemoryEvent[], query: MemoryQuery): MemoryEvent[] {
+  const direction = query.order === "asc" ? 1 : -1;
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = query.limit || DEFAULT_QUERY_LIMIT;
+
+  return [...events]
+    .sort((a, b) => direction * (timestampOf(a) - timestampOf(b)))
+    .slice(offset, offset + limit);
+}
+
+function getPath(object: unknown, path: string): unknown {
+  let current = object;
+  for (const part of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function compare(value: unknown, bound: number | string): number | undefined {
+  if (typeof value !== typeof bound) return undefined;
+  return value! < bound ? -1 : value! > bound ? 1 : 0;
+}
+
+function matchesPredicate(value: unknown, predicate: MetadataPredicate): boolean {
+  if (predicate === null || typeof predicate !== "object") return value === predicate;
+
+  if (predicate.exists !== undefined && (value !== undefined) !== predicate.exists) return false;
+  if ("eq" in predicate && value !== predicate.eq) return false;
+  if ("ne" in predicate && value === predicate.ne) return false;
+  if (predicate.in && !predicate.in.includes(value)) return false;
+
+  const bounds: Array<[number | string | undefined, (result: number) => boolean]> = [
+    [predicate.gt, (result) => result > 0],
+    [predicate.gte, (result) => result >= 0],
+    [predicate.lt, (result) => result < 0],
+    [predicate.lte, (result) => result <= 0]
+  ];
+  for (const [bound, accept] of bounds) {
+    if (bound === undefined) continue;
+    const result = compare(value, bound);
+    if (result === undefined || !accept(result)) return false;
+  }
+
+  if (predicate.contains !== undefined) {
+    if (typeof value === "string") return typeof predicate.contains === "string" && value.includes(predicate.contains);
+    if (Array.isArray(value)) return value.includes(predicate.contains);
+    return false;
+  }
+  return true;
+}
@@ -7,11 +7,54 @@ export interface MemoryEvent {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Filtro sobre um campo de metadata: valor literal (igualdade) ou operadores
+ */
+export type MetadataPredicate =
+  | string
+  | number
+  | boolean
+  | null
+  | {
+      eq?: unknown;
+      ne?: unknown;
+      gt?: number | string;
+      gte?: number | string;
+      lt?: number | string;
+      lte?: number | string;
+      in?: unknown[];
+      exists?: boolean;
+      /** Substring (string) ou elemento (array) */
+      contains?: unknown;
+    };
+
 export interface MemoryQuery {
   type?: "semantic" | "timeframe";
   text?: string;
   timeframe?: "recent" | "all";
   limit?: number;
+  /** Paginação: eventos a pular */
+  offset?: number;
+  /** MemoryEvent.type */
+  event_type?: string | string[];
+  outcome?: string | string[];
+  /** ISO 8601, inclusivo */
+  from?: string;
+  /** ISO 8601, exclusivo */
+  to?: string;
+  /** Filtros por metadata; chaves com ponto acessam campos aninhados */
+  metadata?: Record<string, MetadataPredicate>;
+  /** Padrão: desc (mais recentes primeiro) */
+  order?: "asc" | "desc";
+}
+
+export interface ConsolidationReport {
+  /** Eventos recorrentes do short-term levados ao long-term */
+  promoted: number;
+  /** Eventos antigos agregados em resumos */
+  summarized: number;
+  /** Eventos removidos por retenção */
+  expired: number;
 }
 
 export interface MemoryInsights {
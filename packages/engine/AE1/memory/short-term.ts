@@ -1,49 +1,66 @@
 import type { MemoryEvent, MemoryQuery } from "./memory-types";
-import type { StateStore } from "../state/state-store";
+import type { StateEntry, StateStore } from "../state/state-store";
+import { matchesQuery, paginate } from "./memory-query";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Memória de curto prazo: `short:<id>` com TTL de `retentionDays`. O limite de
+ * eventos é aplicado em lote por prune() (na consolidação), não a cada escrita.
+ */
 export class ShortTermMemory {
-  private readonly indexKey = "short:index";
+  private readonly prefix = "short:";
+  // Simple cap to prevent infinite growth in Lite (TTL cuida do resto)
+  private readonly maxEvents = 200;
 
   constructor(private retentionDays: number, private stateStore: StateStore) { }
 
   async store(event: MemoryEvent): Promise<void> {
-    // 1. Store the event data
-    await this.stateStore.write(`short:${event.id}`, event);
-
-    // 2. Update index
-    const index = (await this.stateStore.read<string[]>(this.indexKey)) || [];
-    if (!index.includes(event.id)) {
-      index.push(event.id);
-      // Simple cap to prevent infinite growth in Lite
-      if (index.length > 200) index.shift();
-      await this.stateStore.write(this.indexKey, index);
-    }
+    await this.stateStore.write(`${this.prefix}${event.id}`, event, { ttlMs: this.retentionDays * DAY_MS });
   }
 
-  async retrieve(query: MemoryQuery): Promise<MemoryEvent[]> {
-    const index = (await this.stateStore.read<string[]>(this.indexKey)) || [];
-    const events: MemoryEvent[] = [];
+  /**
+   * Remove os eventos mais antigos além do limite (e o `short:index` de versões
+   * anteriores); retorna quantos eventos saíram
+   */
+  async prune(): Promise<number> {
+    const keys = await this.stateStore.list(this.prefix);
+    if (keys.length <= this.maxEvents) return 0;
 
-    // Retrieve newest first (from end of array)
-    const limit = query.limit || 50;
+    const entries = await this.stateStore.scan<MemoryEvent>(this.prefix);
+    const legacy = entries.filter((entry) => !isEvent(entry));
+    const events = entries.filter(isEvent).map((entry) => entry.value);
 
-    for (let i = index.length - 1; i >= 0 && events.length < limit; i--) {
-      const id = index[i];
-      const event = await this.stateStore.read<MemoryEvent>(`short:${id}`);
-      if (event) {
-        events.push(event);
-      }
-    }
+    // Oldest first
+    const overflow = paginate(events, { order: "asc", limit: Math.max(0, events.length - this.maxEvents) });
+    await this.stateStore.batch([
+      ...legacy.map((entry) => ({ type: "delete" as const, key: entry.key })),
+      ...overflow.map((old) => ({ type: "delete" as const, key: `${this.prefix}${old.id}` }))
+    ]);
+    return overflow.length;
+  }
 
-    return events;
+  async retrieve(query: MemoryQuery): Promise<MemoryEvent[]> {
+    const events = (await this.events()).filter((event) => matchesQuery(event, query));
+    return paginate(events, query);
   }
 
   async count(): Promise<number> {
-    const index = (await this.stateStore.read<string[]>(this.indexKey)) || [];
-    return index.length;
+    return (await this.events()).length;
   }
 
   async getPatterns(): Promise<string[]> {
     return []; // Patterns come from abstract/statistical now
   }
+
+  private async events(): Promise<MemoryEvent[]> {
+    return (await this.stateStore.scan<MemoryEvent>(this.prefix)).filter(isEvent).map((entry) => entry.value);
+  }
+}
+
+/**
+ * Ignora o array de ids `short:index` mantido pelas versões anteriores
+ */
+function isEvent(entry: StateEntry<MemoryEvent>): boolean {
+  return typeof entry.value?.id === "string";
 }
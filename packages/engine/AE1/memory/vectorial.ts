@@ -1,5 +1,6 @@
 import type { StateStore } from "../state/state-store";
 import type { MemoryEvent } from "./memory-types";
+import { getConfig } from "../../src/core/config";
 
 export type Embedder = (text: string) => Promise<number[]>;
 
@@ -36,8 +37,8 @@ export class VectorialMemory {
   constructor(private stateStore: StateStore, options: VectorialMemoryOptions = {}) {
     this.embedder = options.embedder;
     this.adapter = options.adapter;
-    this.maxItems = options.maxItems ?? Number(process.env.ARQOS_VECTORIAL_MAX_ITEMS ?? 5000);
-    this.namespace = options.namespace ?? (process.env.ARQOS_VECTORIAL_NAMESPACE ?? "default");
+    this.maxItems = options.maxItems ?? getConfig("vectorial.max_items");
+    this.namespace = options.namespace ?? getConfig("vectorial.namespace") ?? "default";
     this.stateKey = `ae1:vectorial:${this.namespace}`;
   }
 
@@ -113,7 +114,7 @@ export class VectorialMemory {
       return this.embedder(text);
     }
 
-    const dimensions = Number(process.env.ARQOS_VECTORIAL_DIMENSIONS ?? 768);
+    const dimensions = getConfig("vectorial.dimensions");
     const vector = new Array(dimensions).fill(0);
     for (let i = 0; i < text.length; i += 1) {
       const code = text.charCodeAt(i);
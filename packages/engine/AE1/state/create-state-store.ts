@@ -0,0 +1,40 @@
+import * as path from "path";
+import { getConfig } from "../../src/core/config";
+import { StateStore } from "./state-store";
+import { InMemoryStore } from "./in-memory-store";
+import { PersistentStore } from "./persistent-store";
+import { SqliteStore } from "./sqlite-store";
+import { EncryptedStore, loadStateKeyring } from "./encrypted-store";
+
+/**
+ * StateStore da configuração efetiva (`persistence`, `storage_path`, `state_encryption.*`)
+ */
+export function createStateStore(): StateStore {
+  const persistence = getConfig("persistence");
+  const storagePath = getConfig("storage_path");
+
+  let store: StateStore;
+  if (persistence === "local") {
+    store = new PersistentStore(storagePath);
+  } else if (persistence === "sqlite") {
+    store = new SqliteStore(path.join(storagePath, "arqos.db"));
+  } else {
+    store = new InMemoryStore();
+  }
+
+  if (getConfig("state_encryption.enabled")) {
+    return new EncryptedStore(
+      store,
+      loadStateKeyring({
+        keyfile: getConfig("state_encryption.keyfile"),
+        key: getConfig("state_encryption.key"),
+        keyId: getConfig("state_encryption.key_id")
+      })
+    );
+  }
+
+  if (getConfig("environment") === "production" && (persistence === "local" || persistence === "sqlite")) {
+    console.warn(`[AE1] State persisted in plaintext (persistence: ${persistence}); set ARQOS_STATE_ENCRYPTION=true`);
+  }
+  return store;
+}
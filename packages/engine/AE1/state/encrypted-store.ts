@@ -0,0 +1,278 @@
+import { ArqosError } from "@arqos/utils";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { StateStore, StateEntry, StateOperation, WriteOptions, snapshot } from "./state-store";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Chaves AES-256 por id; registros novos usam `activeKeyId`, os antigos
+ * continuam legíveis enquanto a chave deles estiver no keyring
+ */
+export interface StateKeyring {
+  activeKeyId: string;
+  keys: Record<string, Buffer>;
+}
+
+export interface StateKeyringOptions {
+  /** JSON `{ "active": "<id>", "keys": { "<id>": "<base64>" } }` */
+  keyfile?: string;
+  /** Chave única em base64 (ou hex), usada quando não há keyfile */
+  key?: string;
+  /** Id da chave única (padrão: "default") */
+  keyId?: string;
+}
+
+/**
+ * Formato gravado no store interno
+ */
+interface EncryptedRecord {
+  $enc: typeof ALGORITHM;
+  kid: string;
+  iv: string;
+  tag: string;
+  data: string;
+  /** Expiração absoluta, para a re-criptografia manter o TTL */
+  exp?: number;
+}
+
+export interface ReencryptReport {
+  /** Registros regravados com a chave ativa (inclui os que estavam em texto puro) */
+  reencrypted: number;
+  /** Registros que já usavam a chave ativa */
+  current: number;
+  /** Chaves que não puderam ser lidas (chave ausente do keyring ou registro adulterado) */
+  failed: string[];
+}
+
+function decodeKey(id: string, encoded: string): Buffer {
+  const trimmed = encoded.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new ArqosError(`[AE1:EncryptedStore] Key "${id}" must be ${KEY_BYTES} bytes (base64 or hex)`, "ARQOS_FAIL_FAST");
+  }
+  return key;
+}
+
+/**
+ * Monta o keyring a partir do keyfile ou de uma chave única
+ *
+ * @throws ArqosError (ARQOS_FAIL_FAST) sem chaves, com chave inválida ou sem a chave ativa
+ */
+export function loadStateKeyring(options: StateKeyringOptions): StateKeyring {
+  let keyring: StateKeyring;
+
+  if (options.keyfile) {
+    let parsed: { active?: string; keys?: Record<string, string> };
+    try {
+      parsed = JSON.parse(fs.readFileSync(options.keyfile, "utf8"));
+    } catch (error) {
+      throw new ArqosError(`[AE1:EncryptedStore] Cannot read keyfile ${options.keyfile}`, "ARQOS_FAIL_FAST", error);
+    }
+    const keys: Record<string, Buffer> = {};
+    for (const [id, encoded] of Object.entries(parsed.keys ?? {})) {
+      keys[id] = decodeKey(id, encoded);
+    }
+    keyring = { activeKeyId: parsed.active ?? "", keys };
+  } else if (options.key) {
+    const id = options.keyId ?? "default";
+    keyring = { activeKeyId: id, keys: { [id]: decodeKey(id, options.key) } };
+  } else {
+    throw new ArqosError(
+      "[AE1:EncryptedStore] State encryption is enabled but no key was configured (ARQOS_STATE_KEYFILE or ARQOS_STATE_KEY)",
+      "ARQOS_FAIL_FAST"
+    );
+  }
+
+  if (!keyring.keys[keyring.activeKeyId]) {
+    throw new ArqosError(`[AE1:EncryptedStore] Active key "${keyring.activeKeyId}" is not in the keyring`, "ARQOS_FAIL_FAST");
+  }
+  return keyring;
+}
+
+function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  return typeof value === "object" && value !== null && (value as EncryptedRecord).$enc === ALGORITHM;
+}
+
+/**
+ * Criptografia em repouso (AES-256-GCM) em volta de qualquer StateStore.
+ *
+ * Cada valor vira um registro com o id da chave, IV e tag; a chave do store
+ * entra como dado autenticado, então um registro copiado para outra chave não
+ * decifra. Chaves continuam em claro para list/scan por prefixo. Valores em
+ * texto puro gravados antes da criptografia ainda são lidos e passam a ser
+ * cifrados por reencrypt().
+ */
+export class EncryptedStore extends StateStore {
+  constructor(private inner: StateStore, private keyring: StateKeyring) {
+    super();
+    if (!keyring.keys[keyring.activeKeyId]) {
+      throw new ArqosError(`[AE1:EncryptedStore] Active key "${keyring.activeKeyId}" is not in the keyring`, "ARQOS_FAIL_FAST");
+    }
+  }
+
+  async write(key: string, value: unknown, options?: WriteOptions): Promise<void> {
+    await this.inner.write(key, this.encrypt(key, value, options?.ttlMs), options);
+  }
+
+  async read<T>(key: string): Promise<T | null> {
+    return this.decrypt<T>(key, await this.inner.read(key));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.inner.delete(key);
+  }
+
+  async list(prefix?: string): Promise<string[]> {
+    return this.inner.list(prefix);
+  }
+
+  async scan<T>(prefix: string = ""): Promise<StateEntry<T>[]> {
+    return (await this.inner.scan(prefix)).map((entry) => ({ key: entry.key, value: this.decrypt<T>(entry.key, entry.value) as T }));
+  }
+
+  close(): void {
+    this.inner.close();
+  }
+
+  /**
+   * Regrava com a chave ativa os registros cifrados com outra chave ou em
+   * texto puro. Cada registro é trocado por compare-and-set: uma escrita
+   * concorrente (que já usa a chave ativa) não é sobrescrita.
+   */
+  async reencrypt(prefix: string = ""): Promise<ReencryptReport> {
+    const report: ReencryptReport = { reencrypted: 0, current: 0, failed: [] };
+
+    for (const { key, value: raw } of await this.inner.scan(prefix)) {
+      if (isEncryptedRecord(raw) && raw.kid === this.keyring.activeKeyId) {
+        report.current++;
+        continue;
+      }
+
+      let value: unknown;
+      try {
+        value = this.decrypt(key, raw);
+      } catch (error) {
+        console.warn(`[AE1:EncryptedStore] Cannot re-encrypt ${key}: ${(error as Error).message}`);
+        report.failed.push(key);
+        continue;
+      }
+
+      const ttlMs = isEncryptedRecord(raw) && raw.exp !== undefined ? raw.exp - Date.now() : undefined;
+      if (ttlMs !== undefined && ttlMs <= 0) continue;
+
+      if (await this.inner.compareAndSet(key, raw, this.encrypt(key, value, ttlMs), { ttlMs })) {
+        report.reencrypted++;
+      } else {
+        report.current++;
+      }
+    }
+
+    return report;
+  }
+
+  protected async applyBatch(operations: StateOperation[]): Promise<void> {
+    await this.inner.batch(operations.map((operation) => this.encryptOperation(operation)));
+  }
+
+  /**
+   * Validação e escrita em uma transação do store interno, para manter o
+   * isolamento dele (ex: o lock entre processos do SqliteStore)
+   */
+  protected async commitIfUnchanged(expected: Map<string, string>, operations: StateOperation[]): Promise<boolean> {
+    try {
+      return await this.inner.transaction(async (tx) => {
+        for (const [key, seen] of expected) {
+          if (snapshot(this.decrypt(key, await tx.read(key))) !== seen) return false;
+        }
+        for (const operation of operations.map((candidate) => this.encryptOperation(candidate))) {
+          if (operation.type === "put") {
+            tx.write(operation.key, operation.value, { ttlMs: operation.ttlMs });
+          } else {
+            tx.delete(operation.key);
+          }
+        }
+        return true;
+      }, { retries: 0 });
+    } catch (error) {
+      if ((error as ArqosError).code === "ARQOS_STATE_CONFLICT") return false;
+      throw error;
+    }
+  }
+
+  private encryptOperation(operation: StateOperation): StateOperation {
+    return operation.type === "put"
+      ? { ...operation, value: this.encrypt(operation.key, operation.value, operation.ttlMs) }
+      : operation;
+  }
+
+  private encrypt(key: string, value: unknown, ttlMs?: number): EncryptedRecord {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.keyring.keys[this.keyring.activeKeyId], iv);
+    cipher.setAAD(Buffer.from(key, "utf8"));
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+
+    return {
+      $enc: ALGORITHM,
+      kid: this.keyring.activeKeyId,
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+      ...(ttlMs !== undefined ? { exp: Date.now() + ttlMs } : {})
+    };
+  }
+
+  /**
+   * @throws ArqosError (ARQOS_STATE_DECRYPT_FAILED) com chave desconhecida ou registro adulterado
+   */
+  private decrypt<T>(key: string, raw: unknown): T | null {
+    if (!isEncryptedRecord(raw)) return (raw as T) ?? null;
+
+    const secret = this.keyring.keys[raw.kid];
+    if (!secret) {
+      throw new ArqosError(`[AE1:EncryptedStore] Key "${raw.kid}" for ${key} is not in the keyring`, "ARQOS_STATE_DECRYPT_FAILED");
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, secret, Buffer.from(raw.iv, "base64"));
+      decipher.setAAD(Buffer.from(key, "utf8"));
+      decipher.setAuthTag(Buffer.from(raw.tag, "base64"));
+      const plain = Buffer.concat([decipher.update(Buffer.from(raw.data, "base64")), decipher.final()]);
+      return JSON.parse(plain.toString("utf8")) as T;
+    } catch (error) {
+      throw new ArqosError(`[AE1:EncryptedStore] Record ${key} failed authentication`, "ARQOS_STATE_DECRYPT_FAILED", error);
+    }
+  }
+}
+
+// CLI: ts-node AE1/state/encrypted-store.ts reencrypt [prefixo] — job de rotação sobre o store configurado
+if (require.main === module) {
+  const [command, prefix = ""] = process.argv.slice(2);
+
+  (async () => {
+    if (command !== "reencrypt") {
+      throw new Error("Usage: encrypted-store.ts reencrypt [prefix]");
+    }
+
+    const { createStateStore } = await import("./create-state-store");
+    const store = createStateStore();
+    try {
+      if (!(store instanceof EncryptedStore)) {
+        throw new Error("State encryption is disabled (ARQOS_STATE_ENCRYPTION)");
+      }
+      const report = await store.reencrypt(prefix);
+      console.log(
+        `[AE1:EncryptedStore] Re-encrypted ${report.reencrypted} records ` +
+          `(${report.current} already current, ${report.failed.length} failed)`
+      );
+      process.exitCode = report.failed.length > 0 ? 1 : 0;
+    } finally {
+      store.close();
+    }
+  })().catch((error) => {
+    console.error(`[AE1:EncryptedStore] ✗ ${(error as Error).message}`);
+    process.exit(1);
+  });
+}
@@ -1,13 +1,59 @@
-import { StateStore } from "./state-store";
+import { StateStore, StateOperation, WriteOptions } from "./state-store";
+
+interface StoredValue {
+  value: unknown;
+  expiresAt?: number;
+}
 
 export class InMemoryStore extends StateStore {
-  private store = new Map<string, unknown>();
+  private store = new Map<string, StoredValue>();
 
-  async write(key: string, value: unknown): Promise<void> {
-    this.store.set(key, value);
+  async write(key: string, value: unknown, options?: WriteOptions): Promise<void> {
+    this.put(key, value, options?.ttlMs);
   }
 
   async read<T>(key: string): Promise<T | null> {
-    return (this.store.get(key) as T) ?? null;
+    return (this.live(key)?.value as T) ?? null;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = this.live(key) !== undefined;
+    this.store.delete(key);
+    return existed;
+  }
+
+  async list(prefix: string = ""): Promise<string[]> {
+    return Array.from(this.store.keys())
+      .filter((key) => key.startsWith(prefix) && this.live(key) !== undefined)
+      .sort();
+  }
+
+  /**
+   * Síncrono: nenhuma outra operação intercala no meio do batch
+   */
+  protected async applyBatch(operations: StateOperation[]): Promise<void> {
+    for (const operation of operations) {
+      if (operation.type === "put") {
+        this.put(operation.key, operation.value, operation.ttlMs);
+      } else {
+        this.store.delete(operation.key);
+      }
+    }
+  }
+
+  private put(key: string, value: unknown, ttlMs?: number): void {
+    this.store.set(key, { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined });
+  }
+
+  /**
+   * Entrada não expirada (expiradas são removidas na leitura)
+   */
+  private live(key: string): StoredValue | undefined {
+    const entry = this.store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
   }
 }
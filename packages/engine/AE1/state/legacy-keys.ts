@@ -0,0 +1,46 @@
+/**
+ * Namespaces conhecidos, na forma do nome de arquivo antigo (`:` virava `_`)
+ */
+const LEGACY_NAMESPACES: Array<[legacy: string, prefix: string]> = [
+  ["ae1_vectorial_", "ae1:vectorial:"],
+  ["learning_", "learning:"],
+  ["circuit_", "circuit:"],
+  ["short_", "short:"],
+  ["long_", "long:"]
+];
+
+/**
+ * Listas de ids mantidas pelas memórias antes dos índices atuais
+ * (`short_index.json`, `long_index.json`); copiadas, virariam eventos falsos
+ */
+const SUPERSEDED_INDEXES = new Set(["short_index", "long_index", "short:index", "long:index"]);
+
+export function isSupersededIndex(key: string, value: unknown): boolean {
+  return SUPERSEDED_INDEXES.has(key) && Array.isArray(value);
+}
+
+/**
+ * Chave gravada com o nome sanitizado de um namespace conhecido
+ */
+export function isLegacyKey(key: string): boolean {
+  return !key.includes(":") && LEGACY_NAMESPACES.some(([legacy]) => key.startsWith(legacy));
+}
+
+/**
+ * Chave original de um arquivo gravado com o nome sanitizado.
+ * Eventos de memória carregam o próprio id, que reconstrói a chave exata.
+ */
+export function restoreLegacyKey(key: string, value: unknown): string {
+  if (key.includes(":")) return key;
+
+  for (const [legacy, prefix] of LEGACY_NAMESPACES) {
+    if (!key.startsWith(legacy)) continue;
+
+    const id = (value as { id?: unknown } | null)?.id;
+    if ((prefix === "short:" || prefix === "long:") && typeof id === "string") {
+      return `${prefix}${id}`;
+    }
+    return `${prefix}${key.slice(legacy.length)}`;
+  }
+  return key;
+}
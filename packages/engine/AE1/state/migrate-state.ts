@@ -0,0 +1,100 @@
+import * as fs from "fs";
+import * as path from "path";
+import { StateStore, StateOperation } from "./state-store";
+import { InMemoryStore } from "./in-memory-store";
+import { PersistentStore } from "./persistent-store";
+import { SqliteStore } from "./sqlite-store";
+import { isSupersededIndex, restoreLegacyKey } from "./legacy-keys";
+
+export { isSupersededIndex, restoreLegacyKey };
+
+export interface StateMigrationOptions {
+  /** Só reporta, sem gravar no destino */
+  dryRun?: boolean;
+  /** Operações por transação no destino (padrão: 500) */
+  batchSize?: number;
+}
+
+export interface StateMigrationReport {
+  migrated: number;
+  /** Chaves no formato antigo (fontes que não as restauram) movidas para o namespace original */
+  renamed: Array<{ from: string; to: string }>;
+  /** Chaves que já existiam no destino (mantidas) e índices de ids antigos (não copiados) */
+  skipped: string[];
+}
+
+/**
+ * Copia todas as chaves vivas de `source` para `target`.
+ * Chaves já presentes no destino não são sobrescritas; TTLs não são copiados
+ * (as memórias reaplicam a retenção na consolidação).
+ */
+export async function migrateStateStore(
+  source: StateStore,
+  target: StateStore,
+  options: StateMigrationOptions = {}
+): Promise<StateMigrationReport> {
+  const batchSize = options.batchSize ?? 500;
+  const existing = new Set(await target.list());
+  const report: StateMigrationReport = { migrated: 0, renamed: [], skipped: [] };
+  let pending: StateOperation[] = [];
+
+  for (const entry of await source.scan("")) {
+    if (isSupersededIndex(entry.key, entry.value)) {
+      report.skipped.push(entry.key);
+      continue;
+    }
+
+    const key = restoreLegacyKey(entry.key, entry.value);
+    if (key !== entry.key) report.renamed.push({ from: entry.key, to: key });
+
+    if (existing.has(key)) {
+      report.skipped.push(key);
+      continue;
+    }
+    existing.add(key);
+
+    pending.push({ type: "put", key, value: entry.value });
+    report.migrated++;
+
+    if (pending.length >= batchSize) {
+      if (!options.dryRun) await target.batch(pending);
+      pending = [];
+    }
+  }
+
+  if (!options.dryRun && pending.length > 0) await target.batch(pending);
+  return report;
+}
+
+// CLI: ts-node AE1/state/migrate-state.ts [--from .storage] [--to .storage/arqos.db] [--dry-run]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const option = (name: string, fallback: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+  };
+
+  const from = path.resolve(option("--from", ".storage"));
+  const to = path.resolve(option("--to", path.join(from, "arqos.db")));
+  const dryRun = args.includes("--dry-run");
+
+  (async () => {
+    // Dry-run sem banco existente não cria o arquivo
+    const target = dryRun && !fs.existsSync(to) ? new InMemoryStore() : new SqliteStore(to);
+    try {
+      const report = await migrateStateStore(new PersistentStore(from), target, { dryRun });
+      for (const { from: legacy, to: key } of report.renamed) {
+        console.log(`[AE1:Migrate] ${legacy} → ${key}`);
+      }
+      console.log(
+        `[AE1:Migrate] ${dryRun ? "Would migrate" : "Migrated"} ${report.migrated} keys from ${from} to ${to}` +
+          ` (${report.renamed.length} renamed, ${report.skipped.length} skipped)`
+      );
+    } finally {
+      target.close();
+    }
+  })().catch((error) => {
+    console.error(`[AE1:Migrate] ✗ ${(error as Error).message}`);
+    process.exit(1);
+  });
+}
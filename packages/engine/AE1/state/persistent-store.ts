@@ -1,9 +1,28 @@
-import { StateStore } from "./state-store";
+import { StateStore, StateOperation, WriteOptions } from "./state-store";
 import * as fs from "fs/promises";
 import * as path from "path";
+import { isLegacyKey, isSupersededIndex, restoreLegacyKey } from "./legacy-keys";
 
+const JOURNAL_FILE = ".arqos-journal.json";
+
+/**
+ * Nome de arquivo reversível para a chave (list() precisa recuperar a chave original)
+ */
+function encodeKey(key: string): string {
+  return encodeURIComponent(key).replace(/[.!~*'()]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function isMissing(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+/**
+ * StateStore em disco: um arquivo JSON por chave, TTL em `<chave>.ttl` e
+ * batches gravados antes em um journal, reaplicado se o processo cair no meio.
+ */
 export class PersistentStore extends StateStore {
   private baseDir: string;
+  private recovery?: Promise<void>;
 
   constructor(storagePath?: string) {
     super();
@@ -16,32 +35,194 @@ export class PersistentStore extends StateStore {
     } catch (err) {
       // Ignore if directory already exists
     }
+
+    // Operações concorrentes esperam o mesmo replay
+    this.recovery ??= this.recoverJournal();
+    await this.recovery;
+  }
+
+  async write(key: string, value: unknown, options?: WriteOptions): Promise<void> {
+    await this.ensureDir();
+    await this.put(key, value, options?.ttlMs);
+  }
+
+  async read<T>(key: string): Promise<T | null> {
+    await this.ensureDir();
+
+    if (await this.isExpired(key)) {
+      await this.remove(key);
+      return null;
+    }
+
+    for (const filePath of [this.valuePath(key), this.legacyPath(key)]) {
+      try {
+        const data = await fs.readFile(filePath, "utf8");
+        return JSON.parse(data) as T;
+      } catch (err) {
+        // Próximo candidato (arquivo no formato antigo)
+      }
+    }
+    return null;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.ensureDir();
+    const existed = (await this.read(key)) !== null;
+    await this.remove(key);
+    return existed;
+  }
+
+  async list(prefix: string = ""): Promise<string[]> {
+    await this.ensureDir();
+    const files = await fs.readdir(this.baseDir);
+    const withTtl = new Set(files.filter((file) => file.endsWith(".ttl")).map((file) => file.slice(0, -4)));
+    const keys = new Set<string>();
+
+    for (const file of files) {
+      if (!file.endsWith(".json") || file.startsWith(".")) continue;
+
+      const encoded = file.slice(0, -5);
+      let key: string;
+      try {
+        key = decodeURIComponent(encoded);
+      } catch {
+        continue;
+      }
+      if (isLegacyKey(key)) key = await this.restoreKey(key, file);
+      if (!key.startsWith(prefix)) continue;
+
+      if (withTtl.has(encoded) && (await this.isExpired(key))) {
+        await this.remove(key);
+        continue;
+      }
+      keys.add(key);
+    }
+
+    return [...keys].sort();
+  }
+
+  /**
+   * Chave original de um arquivo no formato de nome antigo; sem ela, list()
+   * e scan() por prefixo não enxergariam os dados de versões anteriores
+   */
+  private async restoreKey(key: string, file: string): Promise<string> {
+    let value: unknown;
+    try {
+      value = JSON.parse(await fs.readFile(path.join(this.baseDir, file), "utf8"));
+    } catch {
+      return key;
+    }
+    if (isSupersededIndex(key, value)) return key;
+
+    // Só restaura se read() e delete() encontrarem o mesmo arquivo pela chave restaurada
+    const restored = restoreLegacyKey(key, value);
+    return this.legacyPath(restored) === path.join(this.baseDir, file) ? restored : key;
   }
 
-  async write(key: string, value: unknown): Promise<void> {
+  /**
+   * Journal primeiro: ou todas as operações são aplicadas, ou nenhuma
+   * (um journal pendente é reaplicado na próxima abertura)
+   */
+  protected async applyBatch(operations: StateOperation[]): Promise<void> {
+    if (operations.length === 0) return;
     await this.ensureDir();
-    const filePath = path.join(this.baseDir, `${this.sanitizeKey(key)}.json`);
-    const data = JSON.stringify(value, null, 2);
 
+    const journalPath = path.join(this.baseDir, JOURNAL_FILE);
+    await this.atomicWrite(journalPath, JSON.stringify(this.resolveTtl(operations)));
+    await this.replay(operations);
+    await fs.unlink(journalPath);
+  }
+
+  private async recoverJournal(): Promise<void> {
+    const journalPath = path.join(this.baseDir, JOURNAL_FILE);
+    let operations: StateOperation[];
+    try {
+      operations = JSON.parse(await fs.readFile(journalPath, "utf8"));
+    } catch {
+      return;
+    }
+
+    console.warn(`[AE1:PersistentStore] Replaying interrupted batch (${operations.length} operations)`);
+    await this.replay(operations, true);
+    await fs.unlink(journalPath);
+  }
+
+  /**
+   * TTL relativo vira absoluto para que o replay não estenda a expiração
+   */
+  private resolveTtl(operations: StateOperation[]): Array<StateOperation & { expiresAt?: number }> {
+    return operations.map((operation) =>
+      operation.type === "put" && operation.ttlMs !== undefined
+        ? { ...operation, expiresAt: Date.now() + operation.ttlMs }
+        : operation
+    );
+  }
+
+  private async replay(operations: Array<StateOperation & { expiresAt?: number }>, absolute = false): Promise<void> {
+    for (const operation of operations) {
+      if (operation.type === "delete") {
+        await this.remove(operation.key);
+      } else if (absolute && operation.expiresAt !== undefined) {
+        await this.put(operation.key, operation.value, operation.expiresAt - Date.now());
+      } else {
+        await this.put(operation.key, operation.value, operation.ttlMs);
+      }
+    }
+  }
+
+  private async put(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    await this.atomicWrite(this.valuePath(key), JSON.stringify(value, null, 2));
+
+    if (ttlMs !== undefined) {
+      await this.atomicWrite(this.ttlPath(key), String(Date.now() + ttlMs));
+    } else {
+      await this.unlinkIfExists(this.ttlPath(key));
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    await this.unlinkIfExists(this.valuePath(key));
+    await this.unlinkIfExists(this.ttlPath(key));
+    await this.unlinkIfExists(this.legacyPath(key));
+  }
+
+  private async isExpired(key: string): Promise<boolean> {
+    try {
+      const expiresAt = Number(await fs.readFile(this.ttlPath(key), "utf8"));
+      return expiresAt <= Date.now();
+    } catch {
+      return false;
+    }
+  }
+
+  private async atomicWrite(filePath: string, data: string): Promise<void> {
     // Atomic write: write to tmp then rename
     const tmpPath = `${filePath}.tmp`;
     await fs.writeFile(tmpPath, data, "utf8");
     await fs.rename(tmpPath, filePath);
   }
 
-  async read<T>(key: string): Promise<T | null> {
-    await this.ensureDir();
-    const filePath = path.join(this.baseDir, `${this.sanitizeKey(key)}.json`);
-
+  private async unlinkIfExists(filePath: string): Promise<void> {
     try {
-      const data = await fs.readFile(filePath, "utf8");
-      return JSON.parse(data) as T;
+      await fs.unlink(filePath);
     } catch (err) {
-      return null;
+      if (!isMissing(err)) throw err;
     }
   }
 
-  private sanitizeKey(key: string): string {
-    return key.replace(/[^a-z0-9_\-]/gi, "_");
+  private valuePath(key: string): string {
+    return path.join(this.baseDir, `${encodeKey(key)}.json`);
+  }
+
+  private ttlPath(key: string): string {
+    return path.join(this.baseDir, `${encodeKey(key)}.ttl`);
+  }
+
+  /**
+   * Nome usado antes das chaves reversíveis: ainda lido e removido por delete(),
+   * mas nunca sobrescrito (nomes antigos podiam colidir entre chaves)
+   */
+  private legacyPath(key: string): string {
+    return path.join(this.baseDir, `${key.replace(/[^a-z0-9_\-]/gi, "_")}.json`);
   }
 }
@@ -0,0 +1,242 @@
+import { ArqosError } from "@arqos/utils";
+import * as fs from "fs";
+import * as path from "path";
+import { StateStore, StateEntry, StateOperation, WriteOptions, snapshot } from "./state-store";
+
+/**
+ * Subconjunto da API do better-sqlite3 usado pelo store (síncrona)
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+export interface SqliteTransaction<F extends (...args: any[]) => unknown> {
+  (...args: Parameters<F>): ReturnType<F>;
+  /** BEGIN IMMEDIATE: pega o lock de escrita antes das leituras */
+  immediate(...args: Parameters<F>): ReturnType<F>;
+}
+
+export interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): unknown;
+  pragma(source: string, options?: { simple?: boolean }): unknown;
+  transaction<F extends (...args: any[]) => unknown>(fn: F): SqliteTransaction<F>;
+  close(): unknown;
+}
+
+export interface SqliteStoreOptions {
+  /** Conexão já aberta (padrão: better-sqlite3 em `filename`) */
+  database?: SqliteDatabase;
+  /** Espera pelo lock de outro processo antes de SQLITE_BUSY (padrão: 5000) */
+  busyTimeoutMs?: number;
+}
+
+interface SqliteMigration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+/**
+ * Migrações do schema, em ordem. A versão aplicada fica em PRAGMA user_version;
+ * novas versões só são acrescentadas ao final.
+ */
+const MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: "state table",
+    sql: `
+      CREATE TABLE state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER,
+        updated_at INTEGER NOT NULL
+      ) WITHOUT ROWID;
+      CREATE INDEX state_expires_at ON state (expires_at) WHERE expires_at IS NOT NULL;
+    `
+  }
+];
+
+export const SQLITE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+interface StateRow {
+  key: string;
+  value: string;
+}
+
+/**
+ * Menor string maior que todas as chaves com o prefixo (consulta por faixa no índice)
+ */
+function prefixUpperBound(prefix: string): string | undefined {
+  if (!prefix) return undefined;
+  const last = prefix.charCodeAt(prefix.length - 1);
+  return prefix.slice(0, -1) + String.fromCharCode(last + 1);
+}
+
+function openDatabase(filename: string): SqliteDatabase {
+  let Driver: new (filename: string) => SqliteDatabase;
+  try {
+    // Dependência opcional: só exigida quando persistence = "sqlite"
+    Driver = require("better-sqlite3");
+  } catch (error) {
+    throw new ArqosError(
+      '[AE1:SqliteStore] persistence "sqlite" requires the optional better-sqlite3 dependency, which is not installed',
+      "ARQOS_FAIL_FAST",
+      error
+    );
+  }
+
+  fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  return new Driver(filename);
+}
+
+/**
+ * StateStore em um único arquivo SQLite (WAL).
+ *
+ * Chaves são gravadas como estão (sem colisões de nome de arquivo), list/scan
+ * usam o índice da chave primária, batches rodam em uma transação do banco e
+ * compare-and-set/transações validam sob BEGIN IMMEDIATE, o que também serializa
+ * escritores em outros processos apontando para o mesmo arquivo.
+ */
+export class SqliteStore extends StateStore {
+  private readonly db: SqliteDatabase;
+
+  constructor(private filename: string, options: SqliteStoreOptions = {}) {
+    super();
+    this.db = options.database ?? openDatabase(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("synchronous = NORMAL");
+    this.db.pragma(`busy_timeout = ${options.busyTimeoutMs ?? 5000}`);
+    this.migrate();
+    this.purgeExpired();
+  }
+
+  async write(key: string, value: unknown, options?: WriteOptions): Promise<void> {
+    this.put(key, value, options?.ttlMs);
+  }
+
+  async read<T>(key: string): Promise<T | null> {
+    const row = this.db
+      .prepare("SELECT value FROM state WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)")
+      .get(key, Date.now()) as Pick<StateRow, "value"> | undefined;
+    return row ? (JSON.parse(row.value) as T) : null;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async list(prefix: string = ""): Promise<string[]> {
+    return this.range(prefix, "key").map((row) => row.key);
+  }
+
+  /**
+   * Uma consulta só (a base faria um read por chave)
+   */
+  async scan<T>(prefix: string = ""): Promise<StateEntry<T>[]> {
+    return this.range(prefix, "key, value").map((row) => ({ key: row.key, value: JSON.parse(row.value) as T }));
+  }
+
+  /**
+   * Remove linhas expiradas (read/list já as ignoram)
+   *
+   * @returns quantidade removida
+   */
+  purgeExpired(now: number = Date.now()): number {
+    return this.db.prepare("DELETE FROM state WHERE expires_at IS NOT NULL AND expires_at <= ?").run(now).changes;
+  }
+
+  /**
+   * Versão do schema gravada no arquivo
+   */
+  schemaVersion(): number {
+    return this.db.pragma("user_version", { simple: true }) as number;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  protected async applyBatch(operations: StateOperation[]): Promise<void> {
+    this.db.transaction(() => this.apply(operations))();
+  }
+
+  protected async commitIfUnchanged(expected: Map<string, string>, operations: StateOperation[]): Promise<boolean> {
+    const commit = this.db.transaction(() => {
+      const now = Date.now();
+      const current = this.db.prepare("SELECT value FROM state WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)");
+      for (const [key, seen] of expected) {
+        const row = current.get(key, now) as Pick<StateRow, "value"> | undefined;
+        if (snapshot(row ? JSON.parse(row.value) : null) !== seen) return false;
+      }
+      this.apply(operations);
+      return true;
+    });
+    return commit.immediate();
+  }
+
+  /**
+   * Aplica as migrações pendentes, cada uma na sua transação
+   *
+   * @throws ArqosError (ARQOS_FAIL_FAST) se o arquivo vier de uma versão mais nova do engine
+   */
+  private migrate(): void {
+    const current = this.schemaVersion();
+    if (current > SQLITE_SCHEMA_VERSION) {
+      throw new ArqosError(
+        `[AE1:SqliteStore] ${this.filename} has schema version ${current}; this engine supports up to ${SQLITE_SCHEMA_VERSION}`,
+        "ARQOS_FAIL_FAST"
+      );
+    }
+
+    for (const migration of MIGRATIONS.filter((candidate) => candidate.version > current)) {
+      this.db.transaction(() => {
+        this.db.exec(migration.sql);
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+      console.log(`[AE1:SqliteStore] Schema migrated to v${migration.version} (${migration.description})`);
+    }
+  }
+
+  private apply(operations: StateOperation[]): void {
+    for (const operation of operations) {
+      if (operation.type === "put") {
+        this.put(operation.key, operation.value, operation.ttlMs);
+      } else {
+        this.remove(operation.key);
+      }
+    }
+  }
+
+  private put(key: string, value: unknown, ttlMs?: number): void {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO state (key, value, expires_at, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at, updated_at = excluded.updated_at`
+      )
+      .run(key, JSON.stringify(value), ttlMs !== undefined ? now + ttlMs : null, now);
+  }
+
+  /**
+   * @returns true se havia uma linha viva (a linha expirada também é removida)
+   */
+  private remove(key: string): boolean {
+    const row = this.db.prepare("DELETE FROM state WHERE key = ? RETURNING expires_at").get(key) as
+      | { expires_at: number | null }
+      | undefined;
+    return row !== undefined && (row.expires_at === null || row.expires_at > Date.now());
+  }
+
+  private range(prefix: string, columns: string): StateRow[] {
+    const upper = prefixUpperBound(prefix);
+    const sql =
+      `SELECT ${columns} FROM state WHERE key >= ?` +
+      (upper !== undefined ? " AND key < ?" : "") +
+      " AND (expires_at IS NULL OR expires_at > ?) ORDER BY key";
+    const params = upper !== undefined ? [prefix, upper, Date.now()] : [prefix, Date.now()];
+    return this.db.prepare(sql).all(...params) as StateRow[];
+  }
+}
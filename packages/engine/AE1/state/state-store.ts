@@ -1,4 +1,165 @@
+import { ArqosError } from "@arqos/utils";
+
+export interface WriteOptions {
+  /** Expira a chave após ttlMs (read/list passam a ignorá-la) */
+  ttlMs?: number;
+}
+
+export type StateOperation =
+  | { type: "put"; key: string; value: unknown; ttlMs?: number }
+  | { type: "delete"; key: string };
+
+export interface StateEntry<T = unknown> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Visão de uma transação: leituras enxergam as escritas da própria transação,
+ * que só são aplicadas no commit
+ */
+export interface StateTransaction {
+  read<T>(key: string): Promise<T | null>;
+  write(key: string, value: unknown, options?: WriteOptions): void;
+  delete(key: string): void;
+}
+
+export interface TransactionOptions {
+  /** Novas tentativas quando uma chave lida mudou antes do commit (padrão: 3) */
+  retries?: number;
+}
+
+/**
+ * Forma comparável de um valor (ausente e null são iguais)
+ */
+export function snapshot(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Armazenamento chave-valor do AE1.
+ *
+ * Backends implementam write/read/delete/list; batch, compare-and-set e
+ * transações vêm da classe base e são atômicos entre si dentro do processo.
+ * Backends que conseguem aplicar várias operações de uma vez sobrescrevem
+ * applyBatch().
+ */
 export abstract class StateStore {
-  abstract write(key: string, value: unknown): Promise<void>;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  abstract write(key: string, value: unknown, options?: WriteOptions): Promise<void>;
   abstract read<T>(key: string): Promise<T | null>;
+
+  /**
+   * @returns true se a chave existia
+   */
+  abstract delete(key: string): Promise<boolean>;
+
+  /**
+   * Chaves vivas com o prefixo, em ordem lexicográfica
+   */
+  abstract list(prefix?: string): Promise<string[]>;
+
+  /**
+   * Chaves e valores com o prefixo
+   */
+  async scan<T>(prefix: string = ""): Promise<StateEntry<T>[]> {
+    const entries: StateEntry<T>[] = [];
+    for (const key of await this.list(prefix)) {
+      const value = await this.read<T>(key);
+      if (value !== null) {
+        entries.push({ key, value });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Libera recursos do backend (conexões, arquivos abertos)
+   */
+  close(): void {}
+
+  async batch(operations: StateOperation[]): Promise<void> {
+    await this.exclusive(() => this.applyBatch(operations));
+  }
+
+  /**
+   * Grava `value` só se o valor atual for igual a `expected` (null = chave ausente).
+   * `value` null remove a chave.
+   */
+  async compareAndSet(key: string, expected: unknown, value: unknown, options?: WriteOptions): Promise<boolean> {
+    return this.commitIfUnchanged(new Map([[key, snapshot(expected)]]), [
+      value === null ? { type: "delete", key } : { type: "put", key, value, ttlMs: options?.ttlMs }
+    ]);
+  }
+
+  /**
+   * Transação otimista: `fn` roda sem lock; no commit as chaves lidas são
+   * conferidas e, se alguma mudou, `fn` roda de novo.
+   *
+   * @throws ArqosError (ARQOS_STATE_CONFLICT) se as tentativas acabarem
+   */
+  async transaction<T>(fn: (tx: StateTransaction) => Promise<T>, options: TransactionOptions = {}): Promise<T> {
+    const attempts = (options.retries ?? 3) + 1;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const reads = new Map<string, string>();
+      const pending = new Map<string, StateOperation>();
+
+      const tx: StateTransaction = {
+        read: async <V>(key: string): Promise<V | null> => {
+          const operation = pending.get(key);
+          if (operation) return operation.type === "put" ? (operation.value as V) : null;
+
+          const value = await this.read<V>(key);
+          if (!reads.has(key)) reads.set(key, snapshot(value));
+          return value;
+        },
+        write: (key, value, writeOptions) => {
+          pending.set(key, { type: "put", key, value, ttlMs: writeOptions?.ttlMs });
+        },
+        delete: (key) => {
+          pending.set(key, { type: "delete", key });
+        }
+      };
+
+      const result = await fn(tx);
+      if (await this.commitIfUnchanged(reads, Array.from(pending.values()))) return result;
+    }
+
+    throw new ArqosError(`State transaction conflicted ${attempts} times`, "ARQOS_STATE_CONFLICT");
+  }
+
+  /**
+   * Aplica as operações se cada chave ainda tiver o valor esperado (snapshot JSON).
+   * Backends com lock próprio (ex: entre processos) sobrescrevem.
+   */
+  protected async commitIfUnchanged(expected: Map<string, string>, operations: StateOperation[]): Promise<boolean> {
+    return this.exclusive(async () => {
+      for (const [key, seen] of expected) {
+        if (snapshot(await this.read(key)) !== seen) return false;
+      }
+      await this.applyBatch(operations);
+      return true;
+    });
+  }
+
+  /**
+   * Aplica as operações em ordem (sem atomicidade entre chaves)
+   */
+  protected async applyBatch(operations: StateOperation[]): Promise<void> {
+    for (const operation of operations) {
+      if (operation.type === "put") {
+        await this.write(operation.key, operation.value, { ttlMs: operation.ttlMs });
+      } else {
+        await this.delete(operation.key);
+      }
+    }
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
 }
@@ -4,6 +4,7 @@ export interface ExecutionLog {
   type: string;
   outcome?: string;
   duration_ms?: number;
+  metadata?: Record<string, unknown>;
 }
 
 export interface CognitiveContext {
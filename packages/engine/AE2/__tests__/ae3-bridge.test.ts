@@ -0,0 +1,152 @@
+/**
+ * Testes Unitários: Ponte AE2 → AE3 (plan-translator + AE3Client)
+ */
+
+import { AE3Client } from "../integration/ae3-client";
+import { translatePlan, intentInput } from "../integration/plan-translator";
+import type { OrchestrationPlan, ExecutionStep } from "../types";
+import { AE3_PLAN_EVENTS } from "../../AE3/types";
+import type { ExecutionResult } from "../../AE3/types";
+import { AE2Listener } from "../../AE3/integration/ae2-listener";
+import { createEventBus } from "../../AE0/event-stream/event-bus";
+
+function step(id: string, type: ExecutionStep["type"], target: string, onFailure: ExecutionStep["onFailure"] = "retry"): ExecutionStep {
+  return { id, type, target, params: { action: "run" }, timeout: 1000, retries: 0, onFailure };
+}
+
+function buildPlan(): OrchestrationPlan {
+  return {
+    id: "plan_1",
+    decisionId: "decision_1",
+    steps: [
+      step("step_1", "validation", "input_validator"),
+      step("step_2", "tool_call", "UserIntentParser"),
+      step("step_3", "tool_call", "ChainOfThoughtGenerator", "skip"),
+      step("step_4", "tool_call", "InsightSummarizer", "abort"),
+      step("step_5", "sync_point", "synchronizer"),
+      step("step_6", "tool_call", "ReportWriter", "skip"),
+    ],
+    dependencies: [
+      { from: "step_1", to: "step_2", type: "sequential" },
+      { from: "step_1", to: "step_3", type: "sequential" },
+      { from: "step_2", to: "step_5", type: "sequential" },
+      { from: "step_3", to: "step_5", type: "sequential" },
+      { from: "step_5", to: "step_4", type: "sequential" },
+      { from: "step_4", to: "step_6", type: "data" },
+    ],
+    agents: [],
+    timeoutBudget: 5000,
+    rollbackPolicy: { enabled: false, strategy: "none", checkpoints: [] },
+    priority: "normal",
+    createdAt: Date.now(),
+    constraints: [],
+    expectedMetrics: {} as any,
+  };
+}
+
+describe("AE2 → AE3 bridge", () => {
+  describe("translatePlan()", () => {
+    it("deve converter apenas tool_call e repassar dependências de steps estruturais", () => {
+      const { plan } = translatePlan(buildPlan(), { input: intentInput("analisar vendas") });
+
+      expect(plan.timeout_budget).toBe(5000);
+      expect(plan.sequence.map((s) => s.id)).toEqual(["step_2", "step_3", "step_4", "step_6"]);
+      expect(plan.sequence[0].depends_on).toEqual([]);
+      expect(plan.sequence[2].depends_on?.sort()).toEqual(["step_2", "step_3"]);
+      expect(plan.sequence[3].depends_on).toEqual(["step_4"]);
+      expect(plan.sequence[0].tool_input).toEqual(expect.objectContaining({ text: "analisar vendas", action: "run" }));
+    });
+
+    it("deve descartar tools indisponíveis, exceto steps com onFailure=abort", () => {
+      const { plan, droppedSteps } = translatePlan(buildPlan(), {
+        isToolAvailable: (name) => name === "UserIntentParser",
+      });
+
+      expect(droppedSteps).toEqual(["step_3", "step_6"]);
+      expect(plan.sequence.map((s) => s.tool_name)).toEqual(["UserIntentParser", "InsightSummarizer"]);
+    });
+
+    it("deve converter a rollbackPolicy em halt_on_failure", () => {
+      const partial = buildPlan();
+      partial.steps[3].params = { originalStepId: "ps_main" };
+      partial.rollbackPolicy = { enabled: true, strategy: "partial", checkpoints: ["step_2", "ps_main"] };
+      expect(translatePlan(partial).plan.halt_on_failure).toEqual(["step_2", "step_4"]);
+
+      const full = { ...buildPlan(), rollbackPolicy: { enabled: true, strategy: "full" as const, checkpoints: [] } };
+      expect(translatePlan(full).plan.halt_on_failure).toEqual(["step_2", "step_3", "step_4", "step_6"]);
+
+      const disabled = { ...buildPlan(), rollbackPolicy: { enabled: false, strategy: "full" as const, checkpoints: [] } };
+      expect(translatePlan(disabled).plan).not.toHaveProperty("halt_on_failure");
+    });
+  });
+
+  describe("AE2Listener", () => {
+    it("deve receber planos publicados no event bus até desconectar", async () => {
+      const eventBus = createEventBus({ mode: "lite" });
+      const listener = new AE2Listener(eventBus);
+      const received: string[] = [];
+      listener.onOrchestrationPlan(async (plan) => {
+        received.push(plan.id);
+      });
+      await listener.connect();
+
+      const { plan } = translatePlan(buildPlan());
+      eventBus.publish(AE3_PLAN_EVENTS.submitted, plan);
+      await new Promise((resolve) => setImmediate(resolve));
+      listener.disconnect();
+      eventBus.publish(AE3_PLAN_EVENTS.submitted, plan);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(received).toEqual(["plan_1"]);
+    });
+  });
+
+  describe("AE3Client.sendPlan()", () => {
+    it("deve mapear o ExecutionResult em ExecutionOutcome", async () => {
+      const result: ExecutionResult = {
+        plan_id: "plan_1",
+        success: false,
+        status: "failed",
+        outputs: [
+          { success: true },
+          { success: true },
+          { success: false, error: "boom" },
+          { success: false, error: "timeout", timed_out: true },
+        ],
+        total_duration_ms: 10,
+        tools_executed: 2,
+        tools_failed: 2,
+      };
+      const client = new AE3Client({ executePlan: async () => result });
+
+      const { outcome } = await client.sendPlan(buildPlan());
+
+      expect(outcome.status).toBe("partial");
+      expect(outcome.stepsCompleted).toBe(2);
+      expect(outcome.stepsTotal).toBe(4);
+      expect(outcome.errors).toEqual([
+        expect.objectContaining({ stepId: "step_4", code: "ARQOS_TOOL_ERROR", recoverable: false }),
+        expect.objectContaining({ stepId: "step_6", code: "ETIMEDOUT", recoverable: true }),
+      ]);
+    });
+
+    it("deve converter rejeições do AE3 em outcome de falha", async () => {
+      const client = new AE3Client({
+        executePlan: async () => {
+          throw Object.assign(new Error("Unknown dependency"), { code: "ARQOS_INPUT_INVALID" });
+        },
+      });
+
+      const { outcome, result } = await client.sendPlan(buildPlan());
+
+      expect(result).toBeUndefined();
+      expect(outcome.status).toBe("failure");
+      expect(outcome.errors[0]).toEqual(expect.objectContaining({ code: "ARQOS_INPUT_INVALID", recoverable: false }));
+    });
+
+    it("deve falhar sem executor conectado", async () => {
+      const { outcome } = await new AE3Client().sendPlan(buildPlan());
+      expect(outcome.errors[0].code).toBe("ARQOS_AE3_UNAVAILABLE");
+    });
+  });
+});
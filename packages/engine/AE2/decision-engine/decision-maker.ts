@@ -9,6 +9,7 @@ import type {
   StrategicDecision,
   StrategicAnalysis,
   OrchestrationPlan,
+  ExecutionOutcome,
   Agent,
   Constraint,
   DecisionPriority,
@@ -23,6 +24,7 @@ import { StrategicCore } from '../modules/strategic-core/strategic-core';
 import { InternalOrchestrator } from '../modules/internal-orchestrator/orchestrator';
 import { DecisionAuditor } from '../modules/decision-auditor/auditor';
 import { profiler } from '../../runtime/profiler';
+import { tracer } from '../../runtime/tracing';
 
 // ========== Configurações ==========
 
@@ -96,7 +98,8 @@ export class DecisionEngine {
   }
 
   /**
-   * Método principal: toma uma decisão estratégica baseada no contexto
+   * Método principal: toma uma decisão estratégica baseada no contexto.
+   * Cada chamada é um span AE2_Decision com as fases como filhos
    */
   async decide(
     context: DecisionContext,
@@ -106,6 +109,27 @@ export class DecisionEngine {
     decision: StrategicDecision;
     plan: OrchestrationPlan;
     analysis: StrategicAnalysis;
+  }> {
+    return tracer.withSpan('AE2_Decision', async (span) => {
+      const result = await this.runDecision(context, availableAgents, constraints);
+      span.setAttributes({
+        'arqos.decision.id': result.decision.id,
+        'arqos.decision.priority': result.decision.priority,
+        'arqos.decision.confidence': result.decision.confidenceScore,
+        'arqos.plan.id': result.plan.id
+      });
+      return result;
+    }, { attributes: { 'arqos.mode': this.config.mode } });
+  }
+
+  private async runDecision(
+    context: DecisionContext,
+    availableAgents: Agent[],
+    constraints: Constraint[]
+  ): Promise<{
+    decision: StrategicDecision;
+    plan: OrchestrationPlan;
+    analysis: StrategicAnalysis;
   }> {
     if (!this.initialized) {
       throw new Error('DecisionEngine not initialized. Call initialize() first.');
@@ -207,6 +231,15 @@ export class DecisionEngine {
     return decision;
   }
 
+  /**
+   * Registra o resultado da execução de um plano no auditor
+   */
+  async logExecution(outcome: ExecutionOutcome): Promise<void> {
+    if (this.config.enableAudit) {
+      await this.auditor.logExecution(outcome);
+    }
+  }
+
   /**
    * Retorna estatísticas do auditor
    */
@@ -1,5 +1,49 @@
+import { ArqosError } from '@arqos/utils';
+import type { OrchestrationPlan, ExecutionOutcome } from '../types';
+import type { OrchestrationPlan as AE3OrchestrationPlan, ExecutionResult } from '../../AE3/types';
+import { translatePlan, toExecutionOutcome, toFailureOutcome, TranslationOptions } from './plan-translator';
+
+/**
+ * Executor AE3 (PipelineCore ou equivalente)
+ */
+export interface AE3PlanExecutor {
+  executePlan(plan: AE3OrchestrationPlan): Promise<ExecutionResult>;
+}
+
+export interface SendPlanResult {
+  executionPlan: AE3OrchestrationPlan;
+  result?: ExecutionResult;
+  outcome: ExecutionOutcome;
+}
+
 export class AE3Client {
-  async sendPlan(): Promise<void> {
-    // Placeholder for sending orchestration plan.
+  constructor(private executor?: AE3PlanExecutor) {}
+
+  connect(executor: AE3PlanExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Traduz o plano AE2, executa no AE3 e devolve o outcome.
+   * Não lança: rejeições do AE3 viram outcome com status `failure`.
+   */
+  async sendPlan(plan: OrchestrationPlan, options: TranslationOptions = {}): Promise<SendPlanResult> {
+    const startedAt = Date.now();
+    const { plan: executionPlan, droppedSteps } = translatePlan(plan, options);
+
+    console.log(
+      `[AE2:AE3Client] Sending plan ${plan.id}: ${executionPlan.sequence.length} tool steps` +
+      (droppedSteps.length > 0 ? ` (${droppedSteps.length} dropped)` : '')
+    );
+
+    try {
+      if (!this.executor) {
+        throw new ArqosError('AE3 executor not connected', 'ARQOS_AE3_UNAVAILABLE');
+      }
+      const result = await this.executor.executePlan(executionPlan);
+      return { executionPlan, result, outcome: toExecutionOutcome(plan, executionPlan, result, startedAt) };
+    } catch (error) {
+      return { executionPlan, outcome: toFailureOutcome(plan, error, startedAt) };
+    }
   }
 }
@@ -0,0 +1,206 @@
+/**
+ * Plan Translator - AE2 → AE3
+ * Converte o OrchestrationPlan estratégico (steps + dependencies) no plano
+ * executável do AE3 (sequence + depends_on) e o ExecutionResult de volta em
+ * ExecutionOutcome para o Decision Auditor.
+ *
+ * Steps `validation` e `sync_point` são estruturais: no AE3 a validação é feita
+ * pelos contratos das tools e a sincronização pelo próprio DAG. Eles não viram
+ * steps executáveis; suas dependências são repassadas aos dependentes.
+ *
+ * O AE3 não desfaz efeitos de tools já executadas: a rollbackPolicy vira
+ * halt_on_failure, e a falha de um checkpoint ('full': de qualquer step)
+ * interrompe o plano antes dos steps que ainda não começaram.
+ */
+
+import type { OrchestrationPlan, ExecutionStep, ExecutionOutcome, ExecutionError } from '../types';
+import type {
+  OrchestrationPlan as AE3OrchestrationPlan,
+  PlanStep as AE3PlanStep,
+  ExecutionResult
+} from '../../AE3/types';
+import type { ToolOutput } from '../../AE3/integration/tool-interface';
+
+export interface TranslationOptions {
+  /** Input base entregue a todas as tools (params do step têm precedência) */
+  input?: Record<string, unknown>;
+  /** Se informado, steps de tools indisponíveis são descartados (exceto onFailure=abort) */
+  isToolAvailable?: (toolName: string) => boolean;
+}
+
+export interface TranslatedPlan {
+  plan: AE3OrchestrationPlan;
+  /** IDs de steps AE2 descartados por tool indisponível */
+  droppedSteps: string[];
+}
+
+/**
+ * Input base a partir da intenção do usuário, nos campos lidos pelas tools
+ * do pipeline (UserIntentParser: text, ChainOfThoughtGenerator: problem,
+ * InsightSummarizer: content)
+ */
+export function intentInput(intent: string): Record<string, unknown> {
+  return { intent, text: intent, problem: intent, content: intent };
+}
+
+/**
+ * Traduz um plano AE2 para o formato do AE3
+ */
+export function translatePlan(plan: OrchestrationPlan, options: TranslationOptions = {}): TranslatedPlan {
+  const droppedSteps: string[] = [];
+
+  const executable = plan.steps.filter((step) => {
+    if (step.type !== 'tool_call') return false;
+    if (!options.isToolAvailable || options.isToolAvailable(step.target)) return true;
+
+    if (step.onFailure === 'abort') return true; // Falha explícita no AE3
+    console.warn(`[AE2:PlanTranslator] Dropping step ${step.id}: tool ${step.target} not available`);
+    droppedSteps.push(step.id);
+    return false;
+  });
+
+  const executableIds = new Set(executable.map((step) => step.id));
+  const directDeps = buildDependencyMap(plan);
+
+  const sequence: AE3PlanStep[] = executable.map((step) => ({
+    id: step.id,
+    tool_name: step.target,
+    tool_input: { ...(options.input ?? {}), ...(step.params ?? {}) },
+    depends_on: resolveExecutableDeps(step.id, directDeps, executableIds)
+  }));
+
+  const haltOnFailure = resolveHaltOnFailure(plan, executable);
+
+  return {
+    plan: {
+      id: plan.id,
+      sequence,
+      timeout_budget: plan.timeoutBudget,
+      ...(haltOnFailure.length > 0 ? { halt_on_failure: haltOnFailure } : {})
+    },
+    droppedSteps
+  };
+}
+
+/**
+ * Converte o resultado do AE3 em ExecutionOutcome (AE2)
+ */
+export function toExecutionOutcome(
+  plan: OrchestrationPlan,
+  executed: AE3OrchestrationPlan,
+  result: ExecutionResult,
+  startedAt: number
+): ExecutionOutcome {
+  const stepsById = new Map(plan.steps.map((step) => [step.id, step]));
+  const outputs = result.outputs as ToolOutput[];
+  const errors: ExecutionError[] = [];
+
+  outputs.forEach((output, index) => {
+    if (output.success) return;
+    const stepId = executed.sequence[index]?.id ?? `step_${index}`;
+    errors.push({
+      stepId,
+      code: output.timed_out ? 'ETIMEDOUT' : output.schema_violations ? 'ARQOS_INPUT_INVALID' : 'ARQOS_TOOL_ERROR',
+      message: output.error ?? 'Unknown error',
+      recoverable: stepsById.get(stepId)?.onFailure !== 'abort'
+    });
+  });
+
+  const stepsCompleted = outputs.filter((output) => output.success).length;
+  const completedAt = Date.now();
+
+  return {
+    id: `outcome_${plan.id}_${completedAt}`,
+    planId: plan.id,
+    decisionId: plan.decisionId,
+    status: mapStatus(result, stepsCompleted),
+    duration: completedAt - startedAt,
+    stepsCompleted,
+    stepsTotal: executed.sequence.length,
+    errors,
+    result: outputs,
+    startedAt,
+    completedAt
+  };
+}
+
+/**
+ * Outcome de falha quando o AE3 rejeita o plano antes de executar
+ */
+export function toFailureOutcome(plan: OrchestrationPlan, error: unknown, startedAt: number): ExecutionOutcome {
+  const completedAt = Date.now();
+  const err = error as { code?: string; message?: string };
+
+  return {
+    id: `outcome_${plan.id}_${completedAt}`,
+    planId: plan.id,
+    decisionId: plan.decisionId,
+    status: 'failure',
+    duration: completedAt - startedAt,
+    stepsCompleted: 0,
+    stepsTotal: plan.steps.filter((step) => step.type === 'tool_call').length,
+    errors: [{
+      stepId: plan.id,
+      code: err?.code ?? 'ARQOS_EXECUTION_FAILED',
+      message: err?.message ?? String(error),
+      recoverable: false
+    }],
+    startedAt,
+    completedAt
+  };
+}
+
+function mapStatus(result: ExecutionResult, stepsCompleted: number): ExecutionOutcome['status'] {
+  if (result.status === 'timed_out') return 'timeout';
+  if (result.success) return 'success';
+  return stepsCompleted > 0 ? 'partial' : 'failure';
+}
+
+/**
+ * Checkpoints citam o step do plano ou o planStep da decisão que o gerou (params.originalStepId)
+ */
+function resolveHaltOnFailure(plan: OrchestrationPlan, executable: ExecutionStep[]): string[] {
+  const policy = plan.rollbackPolicy;
+  if (!policy?.enabled || policy.strategy === 'none') return [];
+  if (policy.strategy === 'full') return executable.map((step) => step.id);
+
+  const checkpoints = new Set(policy.checkpoints);
+  return executable
+    .filter((step) => checkpoints.has(step.id) || checkpoints.has(String(step.params?.originalStepId)))
+    .map((step) => step.id);
+}
+
+function buildDependencyMap(plan: OrchestrationPlan): Map<string, string[]> {
+  const deps = new Map<string, string[]>(plan.steps.map((step: ExecutionStep) => [step.id, []]));
+  for (const dep of plan.dependencies) {
+    deps.get(dep.to)?.push(dep.from);
+  }
+  return deps;
+}
+
+/**
+ * Sobe pelas dependências até encontrar steps executáveis
+ */
+function resolveExecutableDeps(
+  stepId: string,
+  directDeps: Map<string, string[]>,
+  executableIds: Set<string>
+): string[] {
+  const result = new Set<string>();
+  const visited = new Set<string>();
+  const stack = [...(directDeps.get(stepId) ?? [])];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    if (executableIds.has(current)) {
+      result.add(current);
+    } else {
+      stack.push(...(directDeps.get(current) ?? []));
+    }
+  }
+
+  return [...result];
+}
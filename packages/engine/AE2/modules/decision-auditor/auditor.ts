@@ -11,6 +11,7 @@ import type {
   DecisionAuditEntry,
   ModuleStatus
 } from '../../types';
+import { tracer } from '../../../runtime/tracing';
 
 // ========== Configurações ==========
 
@@ -138,6 +139,7 @@ export class DecisionAuditor {
       id: `audit_decision_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
       type: 'decision',
       timestamp: Date.now(),
+      traceId: tracer.activeContext()?.traceId,
       actorModule: 'DecisionEngine',
       action: 'make_decision',
       decision,
@@ -185,6 +187,7 @@ export class DecisionAuditor {
       id: `audit_execution_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
       type: 'execution',
       timestamp: Date.now(),
+      traceId: tracer.activeContext()?.traceId,
       actorModule: 'Executor',
       action: 'execute_plan',
       details: {
@@ -226,6 +229,7 @@ export class DecisionAuditor {
       id: `audit_error_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
       type: 'error',
       timestamp: Date.now(),
+      traceId: tracer.activeContext()?.traceId,
       actorModule: context.module as string || 'Unknown',
       action: 'error',
       details: {
@@ -12,6 +12,8 @@ import { OrchestrationPlanner } from "./orchestration/orchestration-planner";
 import { AE1Client } from "./integration/ae1-client";
 import { AE3Client } from "./integration/ae3-client";
 import { validateContractById } from "./contracts/contract-validator";
+import { tracer } from "../runtime/tracing";
+import { getModeConfig, ModeConfig, OperationalMode } from "../AE0/validators/mode-validator";
 import type {
   DecisionContext,
   StrategicDecision,
@@ -24,6 +26,7 @@ import type {
 
 export class StrategosCore {
   private mode: "lite" | "fullstack";
+  private modeConfig: ModeConfig;
   private moduleCoordinator!: ModuleCoordinator;
 
   private strategicCore!: StrategicCore;
@@ -42,8 +45,9 @@ export class StrategosCore {
   private ae1Client?: AE1Client;
   private ae3Client!: AE3Client;
 
-  constructor(mode: "lite" | "fullstack") {
-    this.mode = mode;
+  constructor(mode: OperationalMode) {
+    this.modeConfig = getModeConfig(mode);
+    this.mode = this.modeConfig.base;
     console.log(`[AE2] Initializing Strategos Core in ${mode} mode...`);
   }
 
@@ -52,8 +56,10 @@ export class StrategosCore {
 
     await this.initializeCoreModules();
 
+    if (this.modeConfig.settings.ae2.modules.length > 0) {
+      await this.initializeOptionalModules();
+    }
     if (this.mode === "fullstack") {
-      await this.initializeFullstackModules();
       await this.validateCognitiveContracts();
     }
 
@@ -71,6 +77,10 @@ export class StrategosCore {
     console.log(`[AE2] Active modules: ${this.getActiveModuleCount()}`);
   }
 
+  isReady(): boolean {
+    return this.moduleCoordinator !== undefined;
+  }
+
   private async initializeCoreModules(): Promise<void> {
     console.log("[AE2] Initializing core modules (3)...");
 
@@ -86,25 +96,36 @@ export class StrategosCore {
     console.log("[AE2] Core modules initialized ✓");
   }
 
-  private async initializeFullstackModules(): Promise<void> {
-    console.log("[AE2] Initializing fullstack modules (5 additional)...");
+  private async initializeOptionalModules(): Promise<void> {
+    const enabled = this.modeConfig.settings.ae2.modules;
+    console.log(`[AE2] Initializing optional modules (${enabled.length} additional)...`);
 
-    this.distributedExecution = new DistributedExecutionManager();
-    await this.distributedExecution.initialize();
+    if (enabled.includes("distributed_execution")) {
+      this.distributedExecution = new DistributedExecutionManager();
+      await this.distributedExecution.initialize();
+    }
 
-    this.contextualAwareness = new ContextualAwareness();
-    await this.contextualAwareness.initialize();
+    if (enabled.includes("contextual_awareness")) {
+      this.contextualAwareness = new ContextualAwareness();
+      await this.contextualAwareness.initialize();
+    }
 
-    this.predictiveOptimization = new PredictiveOptimization();
-    await this.predictiveOptimization.initialize();
+    if (enabled.includes("predictive_optimization")) {
+      this.predictiveOptimization = new PredictiveOptimization();
+      await this.predictiveOptimization.initialize();
+    }
 
-    this.selfReflection = new SelfReflection();
-    await this.selfReflection.initialize();
+    if (enabled.includes("self_reflection")) {
+      this.selfReflection = new SelfReflection();
+      await this.selfReflection.initialize();
+    }
 
-    this.evolutionManager = new EvolutionManager();
-    await this.evolutionManager.initialize();
+    if (enabled.includes("evolution_manager")) {
+      this.evolutionManager = new EvolutionManager();
+      await this.evolutionManager.initialize();
+    }
 
-    console.log("[AE2] Fullstack modules initialized ✓");
+    console.log("[AE2] Optional modules initialized ✓");
   }
 
   private async validateCognitiveContracts(): Promise<void> {
@@ -132,23 +153,19 @@ export class StrategosCore {
   }
 
   private getAllActiveModules(): Module[] {
-    const modules: Module[] = [this.strategicCore, this.internalOrchestrator, this.decisionAuditor];
-
-    if (this.mode === "fullstack") {
-      modules.push(
-        this.distributedExecution!,
-        this.contextualAwareness!,
-        this.predictiveOptimization!,
-        this.selfReflection!,
-        this.evolutionManager!
-      );
-    }
-
-    return modules;
+    const optional = [
+      this.distributedExecution,
+      this.contextualAwareness,
+      this.predictiveOptimization,
+      this.selfReflection,
+      this.evolutionManager,
+    ].filter((module): module is NonNullable<typeof module> => module !== undefined);
+
+    return [this.strategicCore, this.internalOrchestrator, this.decisionAuditor, ...optional];
   }
 
   private getActiveModuleCount(): number {
-    return this.mode === "lite" ? 3 : 8;
+    return 3 + this.modeConfig.settings.ae2.modules.length;
   }
 
   async makeDecision(context: DecisionContext): Promise<StrategicDecision> {
@@ -164,10 +181,11 @@ export class StrategosCore {
   async orchestrate(request: OrchestrationRequest): Promise<OrchestrationPlan> {
     console.log("[AE2] Creating orchestration plan via Engine...");
 
-    const result = await this.decisionEngine.decide(
-      request.context,
-      request.agents,
-      request.constraints
+    // traceId da requisição vira o trace do span raiz (se não houver span ativo)
+    const result = await tracer.withSpan(
+      "AE2_Orchestrate",
+      () => this.decisionEngine.decide(request.context, request.agents, request.constraints),
+      { traceId: request.traceId }
     );
 
     console.log(`[AE2] Orchestration plan created: ${result.plan.id} ✓`);
@@ -175,16 +193,16 @@ export class StrategosCore {
   }
 
   async reflect(): Promise<ReflectionReport | null> {
-    if (this.mode === "lite") {
-      console.log("[AE2] Self-reflection disabled in lite mode");
+    if (!this.selfReflection || !this.ae1Client) {
+      console.log(`[AE2] Self-reflection disabled in ${this.modeConfig.mode} mode`);
       return null;
     }
 
     console.log("[AE2] Performing self-reflection...");
 
-    const report = await this.selfReflection!.reflect({
+    const report = await this.selfReflection.reflect({
       recent_decisions: await this.decisionAuditor.getRecentDecisions(100),
-      cognitive_context: await this.ae1Client!.getCognitiveContext(),
+      cognitive_context: await this.ae1Client.getCognitiveContext(),
       execution_outcomes: await this.getExecutionOutcomes(),
     });
 
@@ -0,0 +1,216 @@
+import { DependencyResolver } from "../execution/dependency-resolver";
+import { ExecutionEngine } from "../execution/execution-engine";
+import { ToolRegistry } from "../tools/recebe/tool-registry";
+import type { Tool } from "../integration/tool-interface";
+import { fakeTool } from "./helpers/fake-tool";
+
+describe("AE3 DependencyResolver", () => {
+  const resolver = new DependencyResolver();
+
+  it("deve manter a ordem legada quando não há dependências declaradas", () => {
+    const graph = resolver.resolve([
+      { tool_name: "A", tool_input: {} },
+      { tool_name: "B", tool_input: {} }
+    ]);
+
+    expect(graph.layers.map((layer) => layer.map((s) => s.id))).toEqual([["A"], ["B"]]);
+    expect(resolver.hasParallelOpportunities(graph)).toBe(false);
+    // Ordem legada não é dependência de dados
+    expect(graph.steps[1]).toMatchObject({ dependencies: [], after: ["A"] });
+  });
+
+  it("deve agrupar steps independentes e seguir referências de dados", () => {
+    const graph = resolver.resolve([
+      { id: "fetch_a", tool_name: "Fetch", tool_input: {}, depends_on: [] },
+      { id: "fetch_b", tool_name: "Fetch", tool_input: {}, depends_on: [] },
+      { id: "merge", tool_name: "Merge", tool_input: { left: "$steps.fetch_a.output", right: "$steps.fetch_b.output" } }
+    ]);
+
+    expect(graph.layers.map((layer) => layer.map((s) => s.id))).toEqual([["fetch_a", "fetch_b"], ["merge"]]);
+    expect(resolver.hasParallelOpportunities(graph)).toBe(true);
+  });
+
+  it("deve detectar ciclos e dependências desconhecidas", () => {
+    expect(() =>
+      resolver.resolve([
+        { id: "a", tool_name: "A", tool_input: {}, depends_on: ["b"] },
+        { id: "b", tool_name: "B", tool_input: {}, depends_on: ["a"] }
+      ])
+    ).toThrow(/cycle/);
+
+    expect(() => resolver.resolve([{ tool_name: "A", tool_input: {}, depends_on: ["ghost"] }])).toThrow(/unknown step/);
+  });
+});
+
+describe("AE3 SequentialExecutor", () => {
+  it("deve seguir executando a sequence legada depois de um step que falhou", async () => {
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Broken", "colhe", () =>
+      fakeTool("Broken", {
+        output: async () => {
+          throw new Error("boom");
+        }
+      })
+    );
+    await registry.registerTool("Next", "processa", () => fakeTool("Next", { output: async () => "ran" }));
+
+    const engine = new ExecutionEngine("lite", registry);
+    const result = await engine.execute({
+      id: "plan-legacy",
+      timeout_budget: 1000,
+      sequence: [
+        { tool_name: "Broken", tool_input: {} },
+        { tool_name: "Next", tool_input: {} }
+      ]
+    });
+
+    expect(result.outputs.map((output: any) => output.success)).toEqual([false, true]);
+    expect((result.outputs[1] as any).output).toBe("ran");
+  });
+
+  it("deve pular os steps seguintes quando falha um step de halt_on_failure", async () => {
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Broken", "colhe", () =>
+      fakeTool("Broken", {
+        output: async () => {
+          throw new Error("boom");
+        }
+      })
+    );
+    const next = jest.fn(async () => "ran");
+    await registry.registerTool("Next", "processa", () => fakeTool("Next", { output: next }));
+
+    const result = await new ExecutionEngine("lite", registry).execute({
+      id: "plan-halt",
+      timeout_budget: 1000,
+      halt_on_failure: ["Broken"],
+      sequence: [
+        { tool_name: "Broken", tool_input: {} },
+        { tool_name: "Next", tool_input: {}, depends_on: [] }
+      ]
+    });
+
+    expect(next).not.toHaveBeenCalled();
+    expect((result.outputs[1] as any).error).toBe("Skipped: plan halted after 'Broken' failed");
+  });
+});
+
+describe("AE3 ParallelExecutor", () => {
+  it("deve executar camadas em paralelo respeitando o limite de concorrência", async () => {
+    let running = 0;
+    let peak = 0;
+    const registry = new ToolRegistry("fullstack");
+    await registry.registerTool("Fetch", "colhe", () =>
+      fakeTool("Fetch", {
+        output: async (input) => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          running--;
+          return { rows: [input.source] };
+        }
+      })
+    );
+    await registry.registerTool("Merge", "processa", () => fakeTool("Merge", { output: async (input) => input }));
+
+    const engine = new ExecutionEngine("fullstack", registry, { maxConcurrency: 2 });
+    const result = await engine.execute({
+      id: "plan-dag",
+      timeout_budget: 1000,
+      sequence: [
+        { id: "f1", tool_name: "Fetch", tool_input: { source: 1 }, depends_on: [] },
+        { id: "f2", tool_name: "Fetch", tool_input: { source: 2 }, depends_on: [] },
+        { id: "f3", tool_name: "Fetch", tool_input: { source: 3 }, depends_on: [] },
+        { id: "merge", tool_name: "Merge", tool_input: { a: "$steps.f1.output.rows", c: "$steps.f3.output.rows" } }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+    expect(peak).toBe(2);
+    expect((result.outputs[3] as any).output).toEqual({ a: [1], c: [3] });
+  });
+
+  it("deve iniciar cada step assim que as suas dependências terminam", async () => {
+    const events: string[] = [];
+    const registry = new ToolRegistry("fullstack");
+    await registry.registerTool("Task", "processa", () =>
+      fakeTool("Task", {
+        output: async (input) => {
+          events.push(`start:${input.name}`);
+          await new Promise((resolve) => setTimeout(resolve, input.delay as number));
+          events.push(`end:${input.name}`);
+          return input.name;
+        }
+      })
+    );
+
+    const engine = new ExecutionEngine("fullstack", registry, { maxConcurrency: 4 });
+    const result = await engine.execute({
+      id: "plan-ready",
+      timeout_budget: 1000,
+      sequence: [
+        { id: "slow", tool_name: "Task", tool_input: { name: "slow", delay: 50 }, depends_on: [] },
+        { id: "fast", tool_name: "Task", tool_input: { name: "fast", delay: 0 }, depends_on: [] },
+        { id: "next", tool_name: "Task", tool_input: { name: "next", delay: 0 }, depends_on: ["fast"] }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+    expect(events.indexOf("start:next")).toBeLessThan(events.indexOf("end:slow"));
+  });
+});
+
+describe("AE3 timeouts", () => {
+  function hangingTool(name: string, onAbort: () => void): Tool {
+    return {
+      ...fakeTool(name, { output: async () => undefined }),
+      execute(_input, options) {
+        return new Promise(() => {
+          options?.signal?.addEventListener("abort", onAbort);
+        });
+      }
+    };
+  }
+
+  it("deve abortar o step pelo timeout_ms do contrato e marcar timed_out", async () => {
+    const aborted = jest.fn();
+    const contract = { name: "Hang", timeout_ms: 20 } as any;
+    const registry = new ToolRegistry("lite", new Map([["Hang", contract]]));
+    await registry.registerTool("Hang", "colhe", () => hangingTool("Hang", aborted));
+    await registry.registerTool("After", "processa", () => fakeTool("After", { output: async () => "ok" }));
+
+    const result = await new ExecutionEngine("lite", registry).execute({
+      id: "plan-timeout",
+      timeout_budget: 5000,
+      sequence: [
+        { tool_name: "Hang", tool_input: {} },
+        { tool_name: "After", tool_input: {}, depends_on: ["Hang"] }
+      ]
+    });
+
+    expect(result.status).toBe("timed_out");
+    expect(aborted).toHaveBeenCalled();
+    expect((result.outputs[0] as any).timed_out).toBe(true);
+    expect((result.outputs[1] as any).error).toMatch(/Skipped/);
+  });
+
+  it("deve consumir o timeout_budget do plano entre os steps", async () => {
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Slow", "colhe", () =>
+      fakeTool("Slow", { output: () => new Promise((resolve) => setTimeout(resolve, 30)) })
+    );
+
+    const result = await new ExecutionEngine("lite", registry).execute({
+      id: "plan-budget",
+      timeout_budget: 50,
+      sequence: [
+        { id: "s1", tool_name: "Slow", tool_input: {}, depends_on: [] },
+        { id: "s2", tool_name: "Slow", tool_input: {}, depends_on: [] }
+      ]
+    });
+
+    expect(result.status).toBe("timed_out");
+    expect((result.outputs[0] as any).success).toBe(true);
+    expect((result.outputs[1] as any).timed_out).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import type { Tool, ToolHealth, ToolInput, ToolOutput } from "../../integration/tool-interface";
+
+export interface FakeToolOptions {
+  /** Output de uma execução com sucesso */
+  output?: (input: ToolInput) => Promise<unknown>;
+  /** Campos do ToolOutput (ex: success/error), aplicados sobre o padrão de sucesso */
+  result?: (input: ToolInput) => Promise<Partial<ToolOutput>>;
+  /** Campos do healthCheck() (padrão: healthy) */
+  health?: () => Partial<ToolHealth>;
+}
+
+/**
+ * Tool de teste na fase colhe
+ */
+export function fakeTool(name: string, options: FakeToolOptions = {}): Tool {
+  return {
+    id: name,
+    name,
+    phase: "colhe",
+    version: "1.0.0",
+    async execute(input) {
+      const output = await options.output?.(input);
+      return { tool_id: name, tool_name: name, success: true, output, duration_ms: 0, timestamp: new Date(), ...(await options.result?.(input)) };
+    },
+    async healthCheck() {
+      return { tool_name: name, status: "healthy", last_check: new Date(), avg_latency_ms: 0, success_rate: 1, ...options.health?.() };
+    }
+  };
+}
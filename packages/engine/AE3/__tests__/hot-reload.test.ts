@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createEventBus } from "../../AE0/event-stream/event-bus";
+import { ExecutionEngine } from "../execution/execution-engine";
+import { HotReloader } from "../plugins/hot-reload";
+import { PluginLoader } from "../plugins/plugin-loader";
+import { ToolRegistry } from "../tools/recebe/tool-registry";
+
+function contractYaml(required: string[] = []): string {
+  return `
+contract_id: "plugin_greeter"
+version: "1.0.0"
+tool_id: "P2"
+name: "Greeter"
+description: "Greets"
+phase: fornece
+timeout_ms: 1000
+input_schema:
+  type: object
+  required: [${required.join(", ")}]
+output_schema:
+  type: object
+`;
+}
+
+function pluginSource(version: string, greeting: string, delayMs = 0): string {
+  return `
+exports.plugin = {
+  definition: { name: "Greeter", author: "team", license: "MIT", version: "${version}", contract: "./greeter.contract.yaml" },
+  createTool: () => ({
+    id: "P2", name: "Greeter", phase: "fornece", version: "${version}",
+    execute: async () => {
+      await new Promise((r) => setTimeout(r, ${delayMs}));
+      return { tool_id: "P2", tool_name: "Greeter", success: true, output: { text: "${greeting}" }, duration_ms: 0, timestamp: new Date() };
+    },
+    healthCheck: async () => ({ tool_name: "Greeter", status: "healthy", last_check: new Date(), avg_latency_ms: 0, success_rate: 1 })
+  })
+};
+`;
+}
+
+describe("AE3 HotReloader", () => {
+  let dir: string;
+  let contractsDir: string;
+  let registry: ToolRegistry;
+  let loader: PluginLoader;
+  let reloader: HotReloader;
+  const events: { type: string; payload: any }[] = [];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-hot-"));
+    contractsDir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-contracts-"));
+    fs.writeFileSync(path.join(dir, "greeter.contract.yaml"), contractYaml());
+    fs.writeFileSync(path.join(dir, "greeter.js"), pluginSource("1.0.0", "olá", 50));
+
+    const bus = createEventBus();
+    events.length = 0;
+    bus.subscribe("plugin.reloaded", (payload) => { events.push({ type: "plugin.reloaded", payload }); });
+    bus.subscribe("plugin.reload_failed", (payload) => { events.push({ type: "plugin.reload_failed", payload }); });
+
+    loader = new PluginLoader({ directory: dir, engineVersion: "1.5.0" });
+    registry = new ToolRegistry("fullstack");
+    for (const plugin of await loader.discover()) {
+      await registry.registerPlugin(plugin);
+    }
+    reloader = new HotReloader(registry, loader, { contractsDir, eventBus: bus });
+  });
+
+  afterEach(() => {
+    reloader.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(contractsDir, { recursive: true, force: true });
+  });
+
+  it("deve trocar a factory e manter planos em andamento na versão anterior", async () => {
+    const engine = new ExecutionEngine("lite", registry);
+    const inFlight = engine.execute({
+      id: "plan-old",
+      timeout_budget: 1000,
+      sequence: [{ tool_name: "Greeter", tool_input: {} }]
+    });
+
+    fs.writeFileSync(path.join(dir, "greeter.js"), pluginSource("1.1.0", "hello"));
+    jest.resetModules(); // jest mantém um registro de módulos próprio, fora de require.cache
+    await reloader.reloadPlugin(path.join(dir, "greeter.js"));
+
+    expect(((await inFlight).outputs[0] as any).output.text).toBe("olá");
+    expect((await registry.createTool("Greeter").execute({})).output).toEqual({ text: "hello" });
+    expect(events).toEqual([
+      { type: "plugin.reloaded", payload: expect.objectContaining({ name: "Greeter", version: "1.1.0" }) }
+    ]);
+  });
+
+  it("deve publicar plugin.reload_failed e manter a versão registrada se a validação falhar", async () => {
+    fs.writeFileSync(path.join(dir, "greeter.js"), pluginSource("not-semver", "broken"));
+    jest.resetModules();
+    await reloader.reloadPlugin(path.join(dir, "greeter.js"));
+
+    expect(events[0].type).toBe("plugin.reload_failed");
+    expect(registry.getAllTools()[0].plugin?.version).toBe("1.0.0");
+  });
+
+  it("não deve carregar arquivos de teste ou declaração como plugins", async () => {
+    for (const name of ["greeter.test.js", "greeter.d.ts"]) {
+      fs.writeFileSync(path.join(dir, name), pluginSource("9.9.9", "test"));
+      await reloader.reloadPlugin(path.join(dir, name));
+    }
+
+    expect(registry.getAllTools()[0].plugin?.version).toBe("1.0.0");
+    expect(events.map((event) => event.payload.source)).toEqual([path.join(dir, "greeter.js"), path.join(dir, "greeter.js")]);
+  });
+
+  it("deve recarregar contratos observados", async () => {
+    const file = path.join(contractsDir, "greeter.contract.yaml");
+    fs.writeFileSync(file, contractYaml(["name"]));
+    await reloader.reloadContract(file);
+
+    expect(() => registry.validateInput("Greeter", {})).toThrow(/name/);
+    expect(events[0].payload).toEqual(expect.objectContaining({ kind: "contract", name: "Greeter" }));
+  });
+
+  it("deve detectar mudanças no diretório de plugins via fs.watch", async () => {
+    reloader = new HotReloader(registry, loader, { contractsDir, debounceMs: 20, eventBus: createEventBus() });
+    const reloaded = new Promise<void>((resolve) => {
+      jest.spyOn(registry, "registerPlugin").mockImplementation(async () => resolve());
+    });
+
+    reloader.start();
+    fs.writeFileSync(path.join(dir, "greeter.js"), pluginSource("1.2.0", "oi"));
+
+    await reloaded;
+  });
+});
@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PluginLoader } from "../plugins/plugin-loader";
+import { ToolRegistry } from "../tools/recebe/tool-registry";
+
+const CONTRACT = `
+contract_id: "plugin_echo"
+version: "1.0.0"
+tool_id: "P1"
+name: "EchoTool"
+description: "Echoes its input"
+phase: processa
+timeout_ms: 1000
+input_schema:
+  type: object
+output_schema:
+  type: object
+`;
+
+function pluginSource(name: string, version: string, extra = ""): string {
+  return `
+exports.plugin = {
+  definition: { name: "${name}", author: "team", license: "MIT", version: "${version}", engine: "^1.0.0", contract: "./echo.contract.yaml" ${extra} },
+  createTool: () => ({
+    id: "P1",
+    name: "${name}",
+    phase: "processa",
+    version: "${version}",
+    execute: async (input) => ({ tool_id: "P1", tool_name: "${name}", success: true, output: input, duration_ms: 0, timestamp: new Date() }),
+    healthCheck: async () => ({ tool_name: "${name}", status: "healthy", last_check: new Date(), avg_latency_ms: 0, success_rate: 1 })
+  })
+};
+`;
+}
+
+describe("AE3 PluginLoader", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-plugins-"));
+    fs.writeFileSync(path.join(dir, "echo.contract.yaml"), CONTRACT);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("deve descobrir, validar e registrar plugins do diretório", async () => {
+    fs.writeFileSync(path.join(dir, "echo.js"), pluginSource("EchoTool", "1.2.0"));
+    fs.writeFileSync(path.join(dir, "helper.js"), "exports.util = () => 1;");
+
+    const plugins = await new PluginLoader({ directory: dir, engineVersion: "1.5.0" }).discover();
+    expect(plugins.map((p) => p.definition.name)).toEqual(["EchoTool"]);
+    expect(plugins[0].contract?.tool_id).toBe("P1");
+
+    const registry = new ToolRegistry("fullstack");
+    await registry.registerPlugin(plugins[0]);
+    const output = await registry.createTool("EchoTool").execute({ ping: true });
+    expect(output.output).toEqual({ ping: true });
+    expect(registry.getAllTools()[0].plugin?.version).toBe("1.2.0");
+  });
+
+  it("deve carregar plugins de pacotes pelo manifesto arqos.plugin", async () => {
+    const pkgDir = path.join(dir, "echo-pkg");
+    fs.mkdirSync(pkgDir);
+    fs.writeFileSync(path.join(pkgDir, "package.json"), JSON.stringify({ name: "echo-pkg", arqos: { plugin: "./index.js" } }));
+    fs.writeFileSync(path.join(pkgDir, "index.js"), pluginSource("EchoTool", "1.0.0"));
+    fs.writeFileSync(path.join(pkgDir, "echo.contract.yaml"), CONTRACT);
+
+    const plugins = await new PluginLoader({ directory: dir, engineVersion: "1.5.0" }).discover();
+    expect(plugins).toHaveLength(1);
+    expect(plugins[0].source).toBe(path.join(pkgDir, "index.js"));
+  });
+
+  it("deve rejeitar plugins com versão de engine incompatível ou sem contrato", () => {
+    const loader = new PluginLoader({ directory: dir, engineVersion: "2.0.0" });
+    fs.writeFileSync(path.join(dir, "echo.js"), pluginSource("EchoTool", "1.0.0"));
+    expect(() => loader.loadPlugin(path.join(dir, "echo.js"))).toThrow(/requires engine \^1\.0\.0/);
+
+    fs.writeFileSync(path.join(dir, "nocontract.js"), pluginSource("EchoTool", "1.0.0", ', contract: undefined'));
+    expect(() => new PluginLoader({ directory: dir, engineVersion: "1.5.0" }).loadPlugin(path.join(dir, "nocontract.js"))).toThrow(
+      /no contract/
+    );
+  });
+
+  it("não deve sobrescrever tools nativas nem aceitar downgrade", async () => {
+    fs.writeFileSync(path.join(dir, "echo.js"), pluginSource("EchoTool", "1.2.0"));
+    const loader = new PluginLoader({ directory: dir, engineVersion: "1.5.0" });
+    const plugin = loader.loadPlugin(path.join(dir, "echo.js"))!;
+
+    const registry = new ToolRegistry("fullstack");
+    await registry.registerPlugin(plugin);
+    await expect(
+      registry.registerPlugin({ ...plugin, definition: { ...plugin.definition, version: "1.0.0" } })
+    ).rejects.toThrow(/older/);
+
+    await registry.registerTool("Native", "processa", undefined);
+    await expect(
+      registry.registerPlugin({ ...plugin, definition: { ...plugin.definition, name: "Native" } })
+    ).rejects.toThrow(/built-in/);
+  });
+});
@@ -0,0 +1,62 @@
+import { loadToolContracts } from "../contracts/contract-loader";
+import { ExecutionEngine } from "../execution/execution-engine";
+import { ToolRegistry } from "../tools/recebe/tool-registry";
+import type { Tool } from "../integration/tool-interface";
+
+function stubTraducao(output: unknown): Tool {
+  return {
+    id: "T22",
+    name: "Traducao",
+    phase: "fornece",
+    version: "1.0.0",
+    async execute() {
+      return { tool_id: "T22", tool_name: "Traducao", success: true, output, duration_ms: 0, timestamp: new Date() };
+    },
+    async healthCheck() {
+      return { tool_name: "Traducao", status: "healthy", last_check: new Date(), avg_latency_ms: 0, success_rate: 1 };
+    }
+  };
+}
+
+describe("AE3 tool contracts", () => {
+  const contracts = loadToolContracts();
+
+  it("deve carregar os contratos indexados pelo nome da tool", () => {
+    expect(contracts.get("Traducao")?.timeout_ms).toBe(2500);
+    expect(contracts.size).toBeGreaterThan(10);
+  });
+
+  it("deve rejeitar input inválido com ARQOS_INPUT_INVALID e caminhos", async () => {
+    const registry = new ToolRegistry("lite", contracts);
+    await registry.registerTool("Traducao", "fornece", () => stubTraducao({ translated_text: "hello" }));
+
+    expect(() => registry.validateInput("Traducao", { text: "olá", target_lang: "fr" })).toThrow(
+      expect.objectContaining({ code: "ARQOS_INPUT_INVALID" })
+    );
+
+    const result = await new ExecutionEngine("lite", registry).execute({
+      id: "plan-invalid",
+      timeout_budget: 1000,
+      sequence: [{ tool_name: "Traducao", tool_input: { target_lang: 42 } }]
+    });
+
+    const output = result.outputs[0] as any;
+    expect(output.success).toBe(false);
+    expect(output.schema_violations.map((v: any) => v.path)).toEqual(expect.arrayContaining(["/", "/target_lang"]));
+  });
+
+  it("deve sinalizar output fora do output_schema sem falhar o step", async () => {
+    const registry = new ToolRegistry("lite", contracts);
+    await registry.registerTool("Traducao", "fornece", () => stubTraducao({ text: 1 }));
+
+    const result = await new ExecutionEngine("lite", registry).execute({
+      id: "plan-output",
+      timeout_budget: 1000,
+      sequence: [{ tool_name: "Traducao", tool_input: { text: "olá", target_lang: "en" } }]
+    });
+
+    const output = result.outputs[0] as any;
+    expect(output.success).toBe(true);
+    expect(output.schema_violations[0].message).toMatch(/translated_text/);
+  });
+});
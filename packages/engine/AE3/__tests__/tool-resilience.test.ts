@@ -0,0 +1,156 @@
+import { CircuitBreakerRegistry } from "../../AE0/circuit-breaker/circuit-breaker";
+import type { ToolContract, ToolResilienceConfig } from "../contracts/contract-loader";
+import { ExecutionEngine } from "../execution/execution-engine";
+import { ToolRegistry } from "../tools/recebe/tool-registry";
+import type { Tool } from "../integration/tool-interface";
+import { fakeTool } from "./helpers/fake-tool";
+
+function contract(name: string, resilience?: ToolResilienceConfig): ToolContract {
+  return {
+    contract_id: `tool_${name}`,
+    version: "1.0.0",
+    tool_id: name,
+    name,
+    description: name,
+    phase: "colhe",
+    timeout_ms: 1000,
+    input_schema: { type: "object" },
+    output_schema: { type: "object" },
+    resilience
+  };
+}
+
+function plan(id: string, toolName: string, steps = 1) {
+  return {
+    id,
+    timeout_budget: 5000,
+    sequence: Array.from({ length: steps }, (_, i) => ({ id: `s${i}`, tool_name: toolName, tool_input: {}, depends_on: [] }))
+  };
+}
+
+describe("AE3 tool resilience policies", () => {
+  afterEach(() => CircuitBreakerRegistry.clear());
+
+  it("deve retentar conforme o contrato e parar em erros não retentáveis", async () => {
+    let calls = 0;
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Flaky", "colhe", () => fakeTool("Flaky", {
+      result: async () => {
+        calls++;
+        return calls < 3 ? { success: false, error: "upstream 503" } : { output: { ok: true } };
+      }
+    }), contract("Flaky", { retry: { max_attempts: 3, initial_delay_ms: 1 } }));
+    await registry.registerTool("BadInput", "colhe", () => fakeTool("BadInput", {
+      result: async () => {
+        calls++;
+        return { success: false, error: "HTTP 400 Bad Request" };
+      }
+    }), contract("BadInput", { retry: { max_attempts: 3, initial_delay_ms: 1, non_retryable_errors: ["HTTP 4"] } }));
+
+    const engine = new ExecutionEngine("lite", registry);
+
+    const flaky = await engine.execute(plan("p1", "Flaky"));
+    expect(flaky.success).toBe(true);
+    expect(calls).toBe(3);
+
+    calls = 0;
+    const bad = await engine.execute(plan("p2", "BadInput"));
+    expect(bad.outputs[0]).toMatchObject({ success: false, error: "HTTP 400 Bad Request" });
+    expect(calls).toBe(1);
+  });
+
+  it("deve desligar o retry interno da tool quando o contrato declara retry", async () => {
+    const seen: Record<string, number | undefined> = {};
+    const recording = (name: string): Tool => ({
+      ...fakeTool(name, { result: async () => ({ output: {} }) }),
+      async execute(_input, options) {
+        seen[name] = options?.retries;
+        return { tool_id: name, tool_name: name, success: true, output: {}, duration_ms: 0, timestamp: new Date() };
+      }
+    });
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Managed", "colhe", () => recording("Managed"), contract("Managed", { retry: { max_attempts: 2 } }));
+    await registry.registerTool("Plain", "colhe", () => recording("Plain"), contract("Plain"));
+
+    const engine = new ExecutionEngine("lite", registry);
+    await engine.execute(plan("p1", "Managed"));
+    await engine.execute(plan("p2", "Plain"));
+
+    expect(seen).toEqual({ Managed: 0, Plain: undefined });
+  });
+
+  it("deve abrir o circuito, refletir no status e usar a fallback tool", async () => {
+    let primaryCalls = 0;
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Primary", "colhe", () => fakeTool("Primary", {
+      result: async () => {
+        primaryCalls++;
+        return { success: false, error: "down" };
+      }
+    }), contract("Primary", { circuit_breaker: { failure_threshold: 2, reset_timeout_ms: 60000 } }));
+
+    const engine = new ExecutionEngine("lite", registry);
+    await engine.execute(plan("p1", "Primary"));
+    await engine.execute(plan("p2", "Primary"));
+
+    const tool = () => registry.getAllTools().find((t) => t.name === "Primary")!;
+    expect(tool().status).toBe("down");
+
+    const rejected = await engine.execute(plan("p3", "Primary"));
+    expect(rejected.outputs[0]).toMatchObject({ success: false, error: expect.stringMatching(/ae3\.tool\.Primary/) });
+    expect(primaryCalls).toBe(2);
+
+    await registry.registerTool("Backup", "colhe", () => fakeTool("Backup", { result: async () => ({ output: { from: "backup" } }) }));
+    registry.reloadContract(contract("Primary", { circuit_breaker: { failure_threshold: 2 }, fallback_tool: "Backup" }));
+
+    const degraded = await engine.execute(plan("p4", "Primary"));
+    expect(degraded.success).toBe(true);
+    expect(degraded.outputs[0]).toMatchObject({ tool_name: "Backup", fallback_from: "Primary", output: { from: "backup" } });
+    expect(tool().status).toBe("down");
+  });
+
+  it("deve trocar o circuit breaker quando muda a versão do contrato", async () => {
+    let calls = 0;
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Primary", "colhe", () => fakeTool("Primary", {
+      result: async () => {
+        calls++;
+        return { success: false, error: "down" };
+      }
+    }), contract("Primary", { circuit_breaker: { failure_threshold: 1, reset_timeout_ms: 60000 } }));
+
+    const engine = new ExecutionEngine("lite", registry);
+    await engine.execute(plan("p1", "Primary"));
+    expect(CircuitBreakerRegistry.get("ae3.tool.Primary")?.getState()).toBe("open");
+
+    registry.reloadContract({
+      ...contract("Primary", { circuit_breaker: { failure_threshold: 3, reset_timeout_ms: 60000 } }),
+      version: "1.1.0"
+    });
+    await engine.execute(plan("p2", "Primary"));
+    await engine.execute(plan("p3", "Primary"));
+
+    expect(calls).toBe(3);
+    expect(CircuitBreakerRegistry.get("ae3.tool.Primary")?.getState()).toBe("closed");
+    expect(registry.getAllTools().find((t) => t.name === "Primary")!.status).toBe("healthy");
+  });
+
+  it("deve limitar a concorrência com o bulkhead do contrato", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const registry = new ToolRegistry("fullstack");
+    await registry.registerTool("Limited", "colhe", () => fakeTool("Limited", {
+      result: async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        return { output: {} };
+      }
+    }), contract("Limited", { bulkhead: { max_concurrent: 1 } }));
+
+    const result = await new ExecutionEngine("fullstack", registry).execute(plan("p1", "Limited", 3));
+
+    expect(result.success).toBe(true);
+    expect(maxInFlight).toBe(1);
+  });
+});
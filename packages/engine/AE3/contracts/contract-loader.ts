@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as YAML from "yaml";
+import { EnginePaths } from "../../src/core/paths";
+
+/**
+ * Contratos de tools AE3 (contracts/tools/*.contract.yaml)
+ * Formato validado por schemas/tool-contract.schema.json
+ */
+
+export interface ToolContract {
+  contract_id: string;
+  version: string;
+  tool_id: string;
+  name: string;
+  description: string;
+  phase: "recebe" | "colhe" | "processa" | "fornece";
+  enabled_in?: "lite" | "fullstack";
+  timeout_ms: number;
+  input_schema: Record<string, unknown>;
+  output_schema: Record<string, unknown>;
+  optional_fields?: Record<string, unknown>;
+  resilience?: ToolResilienceConfig;
+  [key: string]: unknown;
+}
+
+/**
+ * Políticas de resiliência aplicadas pelo executor a cada Tool.execute.
+ * O timeout de cada tentativa é o timeout_ms do contrato.
+ */
+export interface ToolResilienceConfig {
+  retry?: {
+    max_attempts: number;
+    initial_delay_ms?: number;
+    backoff_multiplier?: number;
+    max_delay_ms?: number;
+    jitter?: boolean;
+    /** Trechos de mensagem de erro que não devem ser retentados (ex: "HTTP 4") */
+    non_retryable_errors?: string[];
+  };
+  bulkhead?: {
+    max_concurrent: number;
+    max_queue?: number;
+  };
+  circuit_breaker?: {
+    failure_threshold?: number;
+    success_threshold?: number;
+    reset_timeout_ms?: number;
+    /** Taxa de falhas (0-1) na janela deslizante */
+    failure_rate_threshold?: number;
+    window_ms?: number;
+    minimum_requests?: number;
+  };
+  /** Tool executada com o mesmo input quando a primária falha ou o circuito está aberto */
+  fallback_tool?: string;
+}
+
+export function getToolContractsPath(): string {
+  return EnginePaths.resolveFromRoot("AE3", "contracts", "tools");
+}
+
+/**
+ * Lê um único arquivo de contrato
+ */
+export function loadToolContract(filePath: string): ToolContract {
+  const content = fs.readFileSync(filePath, "utf-8");
+  return YAML.parse(content) as ToolContract;
+}
+
+/**
+ * Carrega todos os contratos do diretório, indexados pelo nome da tool
+ */
+export function loadToolContracts(contractsDir: string = getToolContractsPath()): Map<string, ToolContract> {
+  const contracts = new Map<string, ToolContract>();
+  if (!fs.existsSync(contractsDir)) {
+    console.warn(`[AE3:Contracts] Contracts directory not found: ${contractsDir}`);
+    return contracts;
+  }
+
+  for (const file of fs.readdirSync(contractsDir)) {
+    if (!file.endsWith(".contract.yaml") && !file.endsWith(".contract.yml")) continue;
+
+    try {
+      const contract = loadToolContract(path.join(contractsDir, file));
+      if (contract?.name) {
+        contracts.set(contract.name, contract);
+      }
+    } catch (error) {
+      console.warn(`[AE3:Contracts] Failed to load ${file}:`, error);
+    }
+  }
+
+  return contracts;
+}
@@ -1,13 +1,166 @@
-import type { OrchestrationPlan } from "../types";
+import { ArqosError } from "@arqos/utils";
+import type { PlanStep } from "../types";
 
-type ToolJob = OrchestrationPlan["sequence"][number];
+/**
+ * Monta o DAG de execução de um plano AE3.
+ *
+ * Dependências de um step vêm de:
+ * - `depends_on`: ids declarados explicitamente
+ * - referências de dados em `tool_input` no formato `$steps.<id>` ou `$steps.<id>.output.campo`
+ * - se nenhuma das duas existir, o step roda depois do anterior (mantém a ordem legada da
+ *   sequence). Essa aresta é só de ordem: como no executor sequencial antigo, o step roda
+ *   mesmo que o anterior tenha falhado.
+ *
+ * Use `depends_on: []` para marcar um step como independente.
+ */
+
+export interface ResolvedStep extends PlanStep {
+  id: string;
+  /** Steps dos quais consome dados ou resultado; se um falhar, este é pulado */
+  dependencies: string[];
+  /** Steps que só precisam terminar antes (ordem legada), com sucesso ou não */
+  after: string[];
+}
+
+export interface ExecutionGraph {
+  steps: ResolvedStep[];
+  /** Camadas topológicas: todos os steps de uma camada podem rodar em paralelo */
+  layers: ResolvedStep[][];
+}
+
+const STEP_REF = /^\$steps\.([^.]+)(?:\.(.+))?$/;
 
 export class DependencyResolver {
-  resolve(sequence: ToolJob[]): ToolJob[] {
-    return sequence;
+  resolve(sequence: PlanStep[]): ExecutionGraph {
+    const ids = assignStepIds(sequence);
+    const known = new Set(ids);
+
+    const steps: ResolvedStep[] = sequence.map((step, index) => {
+      const id = ids[index];
+      const refs = collectStepRefs(step.tool_input);
+      const dependencies = new Set<string>([...(step.depends_on ?? []), ...refs]);
+      const after = step.depends_on === undefined && refs.length === 0 && index > 0 ? [ids[index - 1]] : [];
+
+      for (const dep of dependencies) {
+        if (!known.has(dep)) {
+          throw new ArqosError(`Step '${id}' depends on unknown step '${dep}'`, "ARQOS_INPUT_INVALID");
+        }
+        if (dep === id) {
+          throw new ArqosError(`Step '${id}' depends on itself`, "ARQOS_INPUT_INVALID");
+        }
+      }
+
+      return { ...step, id, dependencies: [...dependencies], after };
+    });
+
+    return { steps, layers: buildLayers(steps) };
   }
 
-  hasParallelOpportunities(_graph: ToolJob[]): boolean {
-    return false;
+  hasParallelOpportunities(graph: ExecutionGraph): boolean {
+    return graph.layers.some((layer) => layer.length > 1);
+  }
+}
+
+/**
+ * Tudo o que precisa terminar antes do step (dados e ordem)
+ */
+export function stepPredecessors(step: ResolvedStep): string[] {
+  return [...step.dependencies, ...step.after];
+}
+
+/**
+ * Substitui referências `$steps.<id>...` pelos outputs já produzidos
+ */
+export function resolveStepInput(
+  input: Record<string, unknown>,
+  outputs: Map<string, unknown>
+): Record<string, unknown> {
+  return resolveValue(input, outputs) as Record<string, unknown>;
+}
+
+function resolveValue(value: unknown, outputs: Map<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const match = STEP_REF.exec(value);
+    if (!match) return value;
+
+    const [, stepId, path] = match;
+    return path ? getPath(outputs.get(stepId), path) : outputs.get(stepId);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, outputs));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, resolveValue(item, outputs)])
+    );
   }
+  return value;
+}
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, source);
+}
+
+function assignStepIds(sequence: PlanStep[]): string[] {
+  const counts = new Map<string, number>();
+  for (const step of sequence) {
+    if (!step.id) counts.set(step.tool_name, (counts.get(step.tool_name) ?? 0) + 1);
+  }
+
+  const ids = sequence.map((step, index) => {
+    if (step.id) return step.id;
+    return (counts.get(step.tool_name) ?? 0) > 1 ? `${step.tool_name}#${index}` : step.tool_name;
+  });
+
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) {
+      throw new ArqosError(`Duplicate step id in plan: ${id}`, "ARQOS_INPUT_INVALID");
+    }
+    seen.add(id);
+  }
+  return ids;
+}
+
+function collectStepRefs(value: unknown, refs: string[] = []): string[] {
+  if (typeof value === "string") {
+    const match = STEP_REF.exec(value);
+    if (match && !refs.includes(match[1])) refs.push(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStepRefs(item, refs));
+  } else if (value && typeof value === "object") {
+    Object.values(value as Record<string, unknown>).forEach((item) => collectStepRefs(item, refs));
+  }
+  return refs;
+}
+
+/**
+ * Kahn por camadas; preserva a ordem original da sequence dentro de cada camada
+ */
+function buildLayers(steps: ResolvedStep[]): ResolvedStep[][] {
+  const remaining = new Map(steps.map((step) => [step.id, step]));
+  const done = new Set<string>();
+  const layers: ResolvedStep[][] = [];
+
+  while (remaining.size > 0) {
+    const layer = [...remaining.values()].filter((step) => stepPredecessors(step).every((dep) => done.has(dep)));
+
+    if (layer.length === 0) {
+      throw new ArqosError(
+        `Dependency cycle detected between steps: ${[...remaining.keys()].join(", ")}`,
+        "ARQOS_INPUT_INVALID"
+      );
+    }
+
+    for (const step of layer) {
+      remaining.delete(step.id);
+      done.add(step.id);
+    }
+    layers.push(layer);
+  }
+
+  return layers;
 }
@@ -2,39 +2,85 @@ import { ToolRegistry } from "../tools/recebe/tool-registry";
 import { SequentialExecutor } from "./sequential-executor";
 import { ParallelExecutor } from "./parallel-executor";
 import { DependencyResolver } from "./dependency-resolver";
+import { ToolResilience } from "./resilience";
 import type { OrchestrationPlan, ExecutionResult } from "../types";
+import { tracer, parseTraceparent } from "../../runtime/tracing";
+import { getModeConfig, OperationalMode } from "../../AE0/validators/mode-validator";
+
+export interface ExecutionEngineOptions {
+  /** Limite de tools simultâneas por camada do DAG (padrão: settings.ae3.max_concurrency do modo) */
+  maxConcurrency?: number;
+}
 
 export class ExecutionEngine {
   private mode: "lite" | "fullstack";
   private sequentialExecutor: SequentialExecutor;
   private parallelExecutor?: ParallelExecutor;
   private dependencyResolver: DependencyResolver;
+  private toolRegistry: ToolRegistry;
 
-  constructor(mode: "lite" | "fullstack", toolRegistry: ToolRegistry) {
-    this.mode = mode;
-    this.sequentialExecutor = new SequentialExecutor(toolRegistry);
-    if (mode === "fullstack") {
-      this.parallelExecutor = new ParallelExecutor(toolRegistry);
+  constructor(mode: OperationalMode, toolRegistry: ToolRegistry, options: ExecutionEngineOptions = {}) {
+    const modeConfig = getModeConfig(mode);
+    this.mode = modeConfig.base;
+    this.toolRegistry = toolRegistry;
+    // Políticas ficam no registro vivo: breakers/bulkheads valem entre planos e o status reflete o breaker
+    const resilience = new ToolResilience(this.mode, toolRegistry);
+    this.sequentialExecutor = new SequentialExecutor(toolRegistry, resilience);
+    if (modeConfig.settings.ae3.parallel_execution) {
+      const maxConcurrency = options.maxConcurrency ?? modeConfig.settings.ae3.max_concurrency;
+      this.parallelExecutor = new ParallelExecutor(toolRegistry, maxConcurrency, resilience);
     }
     this.dependencyResolver = new DependencyResolver();
   }
 
   async execute(plan: OrchestrationPlan): Promise<ExecutionResult> {
+    // Span ativo tem precedência; traceparent do plano cobre chamadas vindas de fora (gateway)
+    const parent = tracer.activeContext() ?? parseTraceparent(plan.traceparent);
+
+    return tracer.withSpan(
+      "AE3_ExecutePlan",
+      async (span) => {
+        const result = await this.executeGraph(plan);
+        span.setAttributes({
+          "arqos.plan.status": result.status,
+          "arqos.plan.tools_executed": result.tools_executed,
+          "arqos.plan.tools_failed": result.tools_failed
+        });
+        if (!result.success) span.setStatus("error", result.errors?.[0] ?? result.status);
+        return result;
+      },
+      { parent, attributes: { "arqos.plan.id": plan.id, "arqos.plan.steps": plan.sequence.length } }
+    );
+  }
+
+  private async executeGraph(plan: OrchestrationPlan): Promise<ExecutionResult> {
     console.log(`[AE3:ExecutionEngine] Executing plan: ${plan.id}`);
 
     const executionGraph = this.dependencyResolver.resolve(plan.sequence);
+    // Snapshot: hot reload durante a execução não troca as tools deste plano
+    const registry = this.toolRegistry.snapshot();
     const canParallelize =
-      this.mode === "fullstack" &&
+      this.parallelExecutor !== undefined &&
       this.dependencyResolver.hasParallelOpportunities(executionGraph);
 
     if (canParallelize) {
-      console.log("[AE3:ExecutionEngine] Using parallel execution");
-      const result = await this.parallelExecutor!.execute(executionGraph, plan.timeout_budget);
+      console.log(`[AE3:ExecutionEngine] Using parallel execution (${executionGraph.layers.length} layers)`);
+      const result = await this.parallelExecutor!.execute(
+        executionGraph,
+        plan.timeout_budget,
+        registry,
+        plan.halt_on_failure
+      );
       return { ...result, plan_id: plan.id };
     }
 
     console.log("[AE3:ExecutionEngine] Using sequential execution");
-    const result = await this.sequentialExecutor.execute(plan.sequence, plan.timeout_budget);
+    const result = await this.sequentialExecutor.execute(
+      executionGraph,
+      plan.timeout_budget,
+      registry,
+      plan.halt_on_failure
+    );
     return { ...result, plan_id: plan.id };
   }
 }
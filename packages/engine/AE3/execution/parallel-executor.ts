@@ -1,44 +1,64 @@
-import type { OrchestrationPlan, ExecutionResult } from "../types";
+import type { ExecutionResult } from "../types";
 import type { ToolOutput } from "../integration/tool-interface";
 import type { ToolRegistry } from "../tools/recebe/tool-registry";
+import { stepPredecessors, ExecutionGraph } from "./dependency-resolver";
+import { TimeoutManager } from "./timeout-manager";
+import { runStep, summarizeOutputs, StepRunContext } from "./step-runner";
+import type { ToolResilience } from "./resilience";
 
-type PlanStep = OrchestrationPlan["sequence"][number];
+// ae3-config.yaml: execution.max_concurrent_tools
+export const DEFAULT_MAX_CONCURRENCY = 10;
 
 export class ParallelExecutor {
-  constructor(private toolRegistry: ToolRegistry) {}
+  private maxConcurrency: number;
+  private timeoutManager = new TimeoutManager();
 
-  async execute(graph: PlanStep[], _timeout: number): Promise<ExecutionResult> {
+  constructor(
+    private toolRegistry: ToolRegistry,
+    maxConcurrency: number = DEFAULT_MAX_CONCURRENCY,
+    private resilience?: ToolResilience
+  ) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  async execute(
+    graph: ExecutionGraph,
+    timeoutBudget: number,
+    toolRegistry: ToolRegistry = this.toolRegistry,
+    haltOnFailure: string[] = []
+  ): Promise<ExecutionResult> {
+    const outputs = new Map<string, ToolOutput>();
     const startTime = Date.now();
+    const context: StepRunContext = {
+      toolRegistry,
+      timeoutManager: this.timeoutManager,
+      deadline: startTime + timeoutBudget,
+      resilience: this.resilience,
+      haltOnFailure: new Set(haltOnFailure)
+    };
 
-    const results = await Promise.all(
-      graph.map(async (step) => {
-        try {
-          const tool = this.toolRegistry.createTool(step.tool_name);
-          return await tool.execute(step.tool_input);
-        } catch (error) {
-          const message = error instanceof Error ? error.message : "Unknown error";
-          return {
-            tool_id: step.tool_name,
-            tool_name: step.tool_name,
-            success: false,
-            error: message,
-            duration_ms: 0,
-            timestamp: new Date()
-          } as ToolOutput;
-        }
-      })
-    );
+    // Cada step sai assim que os seus predecessores terminam, sem esperar a camada inteira
+    const pending = graph.layers.flat();
+    const running = new Set<Promise<void>>();
 
-    const toolsFailed = results.filter((out) => !out.success).length;
+    while (pending.length > 0 || running.size > 0) {
+      while (running.size < this.maxConcurrency) {
+        const index = pending.findIndex((step) => stepPredecessors(step).every((dep) => outputs.has(dep)));
+        if (index === -1) break;
 
-    return {
-      plan_id: "",
-      success: toolsFailed === 0,
-      outputs: results,
-      total_duration_ms: Date.now() - startTime,
-      tools_executed: results.length,
-      tools_failed: toolsFailed,
-      errors: toolsFailed > 0 ? results.filter((o) => o.error).map((o) => o.error as string) : undefined
-    };
+        const [step] = pending.splice(index, 1);
+        const task: Promise<void> = runStep(context, step, outputs).then((output) => {
+          outputs.set(step.id, output);
+          running.delete(task);
+        });
+        running.add(task);
+      }
+      await Promise.race(running);
+    }
+
+    return summarizeOutputs(
+      graph.steps.map((step) => outputs.get(step.id)!),
+      startTime
+    );
   }
 }
@@ -0,0 +1,149 @@
+import { Bulkhead, FailurePolicyExecutor } from "../../AE0/circuit-breaker/failure-policies";
+import { CircuitBreaker, CircuitBreakerRegistry, CircuitState } from "../../AE0/circuit-breaker/circuit-breaker";
+import type { ToolContract } from "../contracts/contract-loader";
+import type { ToolOutput } from "../integration/tool-interface";
+import type { RegisteredTool, ToolRegistry } from "../tools/recebe/tool-registry";
+
+export const STATUS_BY_CIRCUIT: Record<CircuitState, RegisteredTool["status"]> = {
+  closed: "healthy",
+  half_open: "degraded",
+  open: "down"
+};
+
+// Defaults do CircuitBreakerFactory por modo
+const BREAKER_DEFAULTS = {
+  lite: { failureThreshold: 3, successThreshold: 2, resetTimeoutMs: 15000 },
+  fullstack: { failureThreshold: 5, successThreshold: 3, resetTimeoutMs: 30000 }
+};
+
+// Versão do contrato que configurou cada breaker ae3.tool.* do registry
+const breakerVersions = new WeakMap<CircuitBreaker, string>();
+
+interface ToolPolicy {
+  contract: ToolContract;
+  breaker: CircuitBreaker;
+  retry: FailurePolicyExecutor;
+  bulkhead?: Bulkhead;
+  fallbackTool?: string;
+}
+
+/**
+ * Output com success=false convertido em erro para que retry e breaker o contem
+ */
+class ToolAttemptFailed extends Error {
+  constructor(public readonly output: ToolOutput) {
+    super(output.error ?? `${output.tool_name} failed`);
+    this.name = "ToolAttemptFailed";
+  }
+}
+
+/**
+ * Aplica as políticas de resilience do contrato (circuit breaker → bulkhead → retry)
+ * a cada execução de tool. Tools sem resilience no contrato executam direto.
+ */
+export class ToolResilience {
+  private policies = new Map<string, ToolPolicy>();
+
+  constructor(private mode: "lite" | "fullstack", private toolRegistry: ToolRegistry) {}
+
+  /**
+   * @param attempt - Uma tentativa da tool (já com timeout)
+   * @param fallback - Executa a fallback_tool do contrato com o mesmo input
+   */
+  async execute(
+    toolName: string,
+    contract: ToolContract | undefined,
+    attempt: () => Promise<ToolOutput>,
+    fallback?: (toolName: string) => Promise<ToolOutput>
+  ): Promise<ToolOutput> {
+    const policy = this.getPolicy(toolName, contract);
+    if (!policy) return attempt();
+
+    const guarded = async () => {
+      const output = await attempt();
+      if (!output.success) throw new ToolAttemptFailed(output);
+      return output;
+    };
+    const withRetry = () => policy.retry.execute(guarded);
+
+    try {
+      return await policy.breaker.execute(() => (policy.bulkhead ? policy.bulkhead.execute(withRetry) : withRetry()));
+    } catch (error) {
+      if (policy.fallbackTool && fallback) {
+        console.warn(`[AE3:Resilience] ${toolName} failed (${(error as Error).message}); using fallback ${policy.fallbackTool}`);
+        return { ...(await fallback(policy.fallbackTool)), fallback_from: toolName };
+      }
+      if (error instanceof ToolAttemptFailed) return error.output;
+      throw error;
+    } finally {
+      this.toolRegistry.setStatus(toolName, STATUS_BY_CIRCUIT[policy.breaker.getState()]);
+    }
+  }
+
+  /**
+   * Política da tool; recriada quando o contrato muda (hot reload). O breaker
+   * fica no registry e mantém o estado entre reloads da mesma versão; uma nova
+   * versão do contrato troca o breaker para aplicar os novos limites.
+   */
+  private getPolicy(toolName: string, contract: ToolContract | undefined): ToolPolicy | undefined {
+    const config = contract?.resilience;
+    if (!contract || !config) return undefined;
+
+    const cached = this.policies.get(toolName);
+    if (cached?.contract === contract) return cached;
+
+    const retry = config.retry ?? { max_attempts: 1 };
+    const breakerConfig = config.circuit_breaker ?? {};
+    const defaults = BREAKER_DEFAULTS[this.mode];
+    const maxDelayMs = retry.max_delay_ms ?? 5000;
+
+    const breakerName = `ae3.tool.${toolName}`;
+    const existing = CircuitBreakerRegistry.get(breakerName);
+    if (existing && breakerVersions.get(existing) !== contract.version) {
+      CircuitBreakerRegistry.remove(breakerName);
+    }
+
+    const policy: ToolPolicy = {
+      contract,
+      breaker: CircuitBreakerRegistry.getOrCreate({
+        name: breakerName,
+        failureThreshold: breakerConfig.failure_threshold ?? defaults.failureThreshold,
+        successThreshold: breakerConfig.success_threshold ?? defaults.successThreshold,
+        resetTimeoutMs: breakerConfig.reset_timeout_ms ?? defaults.resetTimeoutMs,
+        // Cada tentativa já tem o timeout_ms do contrato; o breaker cobre todas + backoff
+        operationTimeoutMs: contract.timeout_ms * retry.max_attempts + maxDelayMs * (retry.max_attempts - 1),
+        slidingWindow: breakerConfig.failure_rate_threshold
+          ? {
+              windowMs: breakerConfig.window_ms ?? 60000,
+              failureRateThreshold: breakerConfig.failure_rate_threshold,
+              minimumRequests: breakerConfig.minimum_requests
+            }
+          : undefined,
+        enableEvents: this.mode === "fullstack",
+        onStateChange: (_from, to) => this.toolRegistry.setStatus(toolName, STATUS_BY_CIRCUIT[to])
+      }),
+      retry: new FailurePolicyExecutor(
+        {
+          action: "retry",
+          circuitBreaker: false,
+          timeoutMs: 0,
+          retry: {
+            maxAttempts: retry.max_attempts,
+            initialDelayMs: retry.initial_delay_ms ?? 100,
+            backoffMultiplier: retry.backoff_multiplier ?? 2,
+            maxDelayMs,
+            jitter: retry.jitter ?? false,
+            shouldRetry: (error) => !(retry.non_retryable_errors ?? []).some((text) => error.message.includes(text))
+          }
+        },
+        this.mode
+      ),
+      bulkhead: config.bulkhead ? new Bulkhead(config.bulkhead.max_concurrent, config.bulkhead.max_queue) : undefined,
+      fallbackTool: config.fallback_tool !== toolName ? config.fallback_tool : undefined
+    };
+
+    breakerVersions.set(policy.breaker, contract.version);
+    this.policies.set(toolName, policy);
+    return policy;
+  }
+}
@@ -0,0 +1,171 @@
+import { ArqosError } from "@arqos/utils";
+import type { ExecutionResult } from "../types";
+import type { ToolOutput } from "../integration/tool-interface";
+import type { ToolRegistry } from "../tools/recebe/tool-registry";
+import { resolveStepInput, ResolvedStep } from "./dependency-resolver";
+import { TimeoutManager } from "./timeout-manager";
+import { ToolInputInvalidError } from "../schemas/tool-schema";
+import type { ToolResilience } from "./resilience";
+import { tracer } from "../../runtime/tracing";
+
+// ae3-config.yaml: execution.default_timeout_ms (tools sem contrato)
+export const DEFAULT_STEP_TIMEOUT_MS = 30000;
+
+export interface StepRunContext {
+  toolRegistry: ToolRegistry;
+  timeoutManager: TimeoutManager;
+  /** Instante (epoch ms) em que o timeout_budget do plano se esgota */
+  deadline: number;
+  /** Retry/bulkhead/circuit breaker/fallback declarados nos contratos */
+  resilience?: ToolResilience;
+  /** Steps cuja falha interrompe o plano (OrchestrationPlan.halt_on_failure) */
+  haltOnFailure?: Set<string>;
+  /** Primeiro desses steps a falhar; os steps seguintes são pulados */
+  haltedBy?: string;
+}
+
+/**
+ * Executa um step do DAG. Nunca lança: falhas viram ToolOutput com success=false.
+ * Steps cujas dependências falharam são pulados (a aresta de ordem legada não conta), assim como todos os que
+ * ainda não começaram depois da falha de um step de halt_on_failure; o prazo do step é o menor entre
+ * o timeout_ms do contrato da tool e o que resta do budget do plano.
+ * Input é validado contra o contrato antes de executar; output inválido é sinalizado
+ * em schema_violations. Com resilience no contrato, cada tentativa tem esse prazo.
+ */
+export function runStep(
+  context: StepRunContext,
+  step: ResolvedStep,
+  outputs: Map<string, ToolOutput>
+): Promise<ToolOutput> {
+  // Um span por step (filho de AE3_ExecutePlan); tentativas viram eventos
+  return tracer.withSpan(
+    `AE3_Tool ${step.tool_name}`,
+    async (span) => {
+      const output = await executeStep(context, step, outputs);
+      if (!output.success && context.haltOnFailure?.has(step.id)) context.haltedBy ??= step.id;
+      span.setAttribute("arqos.tool.success", output.success);
+      if (output.fallback_from) span.setAttribute("arqos.tool.fallback", output.tool_name);
+      if (output.timed_out) span.setAttribute("arqos.tool.timed_out", true);
+      if (!output.success) span.setStatus("error", output.error);
+      return output;
+    },
+    { attributes: { "arqos.tool.name": step.tool_name, "arqos.step.id": step.id } }
+  );
+}
+
+async function executeStep(
+  context: StepRunContext,
+  step: ResolvedStep,
+  outputs: Map<string, ToolOutput>
+): Promise<ToolOutput> {
+  if (context.haltedBy) {
+    return failedOutput(step, `Skipped: plan halted after '${context.haltedBy}' failed`);
+  }
+
+  const failedDep = step.dependencies.find((dep) => !outputs.get(dep)?.success);
+  if (failedDep) {
+    return failedOutput(step, `Skipped: dependency '${failedDep}' failed`);
+  }
+
+  const remaining = context.deadline - Date.now();
+  if (remaining <= 0) {
+    return failedOutput(step, `Plan timeout budget exhausted before step '${step.id}'`, true);
+  }
+
+  const contract = context.toolRegistry.getContract(step.tool_name);
+  const contractTimeout = contract?.timeout_ms ?? DEFAULT_STEP_TIMEOUT_MS;
+  const timeoutMs = Math.min(contractTimeout, remaining);
+  const startTime = Date.now();
+
+  try {
+    const tool = context.toolRegistry.createTool(step.tool_name);
+    const input = resolveStepInput(step.tool_input, outputs);
+    context.toolRegistry.validateInput(step.tool_name, input);
+
+    // Retry do contrato substitui o retry interno da tool
+    const retries = context.resilience && contract?.resilience?.retry ? 0 : undefined;
+    let attempts = 0;
+    const attempt = () => {
+      tracer.activeSpan()?.addEvent("attempt", { "arqos.tool.attempt": ++attempts });
+      return context.timeoutManager.withTimeout(Math.min(contractTimeout, context.deadline - Date.now()), (signal) =>
+        tool.execute(input, { signal, retries })
+      );
+    };
+    const result = context.resilience
+      ? await context.resilience.execute(step.tool_name, contract, attempt, (fallbackTool) =>
+          runFallback(context, fallbackTool, input)
+        )
+      : await attempt();
+    return checkOutput(context, step, result);
+  } catch (error) {
+    if (error instanceof ToolInputInvalidError) {
+      return { ...failedOutput(step, error.message), schema_violations: error.violations };
+    }
+    if (error instanceof ArqosError && error.code === "ETIMEDOUT") {
+      console.warn(`[AE3:Execution] Step '${step.id}' timed out after ${timeoutMs} ms`);
+      return failedOutput(step, `Step '${step.id}' timed out after ${timeoutMs} ms`, true, Date.now() - startTime);
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return failedOutput(step, message, false, Date.now() - startTime);
+  }
+}
+
+/**
+ * Executa a fallback_tool com o mesmo input, sem política própria
+ */
+async function runFallback(context: StepRunContext, toolName: string, input: Record<string, unknown>): Promise<ToolOutput> {
+  const tool = context.toolRegistry.createTool(toolName);
+  context.toolRegistry.validateInput(toolName, input);
+
+  const timeoutMs = context.toolRegistry.getContract(toolName)?.timeout_ms ?? DEFAULT_STEP_TIMEOUT_MS;
+  return context.timeoutManager.withTimeout(Math.min(timeoutMs, context.deadline - Date.now()), (signal) =>
+    tool.execute(input, { signal })
+  );
+}
+
+function checkOutput(context: StepRunContext, step: ResolvedStep, result: ToolOutput): ToolOutput {
+  if (!result.success) return result;
+
+  // Output de fallback é validado contra o contrato da fallback_tool
+  const toolName = result.fallback_from ? result.tool_name : step.tool_name;
+  const violations = context.toolRegistry.validateOutput(toolName, result.output);
+  if (violations.length === 0) return result;
+
+  console.warn(
+    `[AE3:Execution] Output of '${step.id}' violates ${toolName} contract: ` +
+      violations.map((v) => `${v.path}: ${v.message}`).join("; ")
+  );
+  return { ...result, schema_violations: violations };
+}
+
+/**
+ * Consolida os outputs (na ordem da sequence) em um ExecutionResult
+ */
+export function summarizeOutputs(outputs: ToolOutput[], startTime: number): ExecutionResult {
+  const toolsFailed = outputs.filter((out) => !out.success).length;
+  const timedOut = outputs.some((out) => out.timed_out);
+  const errors = outputs.filter((out) => !out.success && out.error).map((out) => out.error as string);
+
+  return {
+    plan_id: "",
+    success: toolsFailed === 0,
+    status: timedOut ? "timed_out" : toolsFailed === 0 ? "success" : "failed",
+    outputs,
+    total_duration_ms: Date.now() - startTime,
+    tools_executed: outputs.length,
+    tools_failed: toolsFailed,
+    errors: errors.length > 0 ? errors : undefined
+  };
+}
+
+function failedOutput(step: ResolvedStep, message: string, timedOut = false, durationMs = 0): ToolOutput {
+  return {
+    tool_id: step.tool_name,
+    tool_name: step.tool_name,
+    success: false,
+    error: message,
+    ...(timedOut ? { timed_out: true } : {}),
+    duration_ms: durationMs,
+    timestamp: new Date()
+  };
+}
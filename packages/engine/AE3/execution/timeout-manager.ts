@@ -1,11 +1,21 @@
+import { ArqosError } from "@arqos/utils";
+
 export class TimeoutManager {
-  async withTimeout<T>(timeoutMs: number, task: () => Promise<T>): Promise<T> {
+  /**
+   * Executa a task com prazo. Ao estourar, aborta o signal entregue à task
+   * e rejeita com ArqosError ETIMEDOUT.
+   */
+  async withTimeout<T>(timeoutMs: number, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+
     return await new Promise<T>((resolve, reject) => {
       const timer = setTimeout(() => {
-        reject(new Error("timeout"));
-      }, timeoutMs);
+        const error = new ArqosError(`Timeout after ${timeoutMs} ms`, "ETIMEDOUT");
+        controller.abort(error);
+        reject(error);
+      }, Math.max(0, timeoutMs));
 
-      task()
+      task(controller.signal)
         .then((result) => {
           clearTimeout(timer);
           resolve(result);
@@ -1,13 +1,46 @@
+import { getEventBus, EventBus } from "../../AE0/event-stream/event-bus";
+import { AE3_EXECUTION_EVENTS } from "../types";
+import type { ExecutionResult, ExecutionReport, ExecutionFailureReport } from "../types";
+
+/**
+ * Reporta execuções de planos para o AE1 via AE0 event bus.
+ * O AE3 não importa o AE1: o consumo fica em AE1/integration/ae3-listener.
+ */
 export class AE1Reporter {
+  constructor(private eventBus?: EventBus) {}
+
   async connect(): Promise<void> {
-    // Placeholder for AE1 connection.
+    if (this.eventBus) return;
+
+    try {
+      this.eventBus = getEventBus();
+    } catch {
+      console.warn("[AE3:AE1Reporter] Event bus not initialized; executions will not reach AE1");
+    }
   }
 
-  async reportExecution(_payload: Record<string, unknown>): Promise<void> {
-    // Placeholder for reporting execution logs.
+  async reportExecution(payload: { plan_id: string; result: ExecutionResult; duration_ms: number }): Promise<void> {
+    const report: ExecutionReport = { ...payload, timestamp: new Date().toISOString() };
+
+    this.eventBus?.publish(AE3_EXECUTION_EVENTS.completed, report, {
+      source: "AE3/ae1-reporter",
+      priority: payload.result.success ? 50 : 20,
+    });
   }
 
-  async reportFailure(_payload: Record<string, unknown>): Promise<void> {
-    // Placeholder for reporting failures.
+  async reportFailure(payload: { plan_id: string; error: unknown; duration_ms: number }): Promise<void> {
+    const err = payload.error as { message?: string; code?: string } | undefined;
+
+    const report: ExecutionFailureReport = {
+      plan_id: payload.plan_id,
+      error: { message: err?.message ?? String(payload.error), code: err?.code },
+      duration_ms: payload.duration_ms,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.eventBus?.publish(AE3_EXECUTION_EVENTS.failed, report, {
+      source: "AE3/ae1-reporter",
+      priority: 10,
+    });
   }
 }
@@ -1,12 +1,43 @@
+import { getEventBus, EventBus } from "../../AE0/event-stream/event-bus";
+import { AE3_PLAN_EVENTS } from "../types";
 import type { OrchestrationPlan } from "../types";
 
 type PlanHandler = (plan: OrchestrationPlan) => Promise<void>;
 
+/**
+ * Recebe planos publicados no AE0 event bus (AE3_PLAN_EVENTS.submitted).
+ * O AE2 também pode chamar o executor direto (AE2/integration/ae3-client).
+ */
 export class AE2Listener {
   private handler?: PlanHandler;
+  private unsubscribe?: () => void;
+
+  constructor(private eventBus?: EventBus) {}
 
   async connect(): Promise<void> {
-    // Placeholder for AE2 connection.
+    if (this.unsubscribe) return;
+
+    if (!this.eventBus) {
+      try {
+        this.eventBus = getEventBus();
+      } catch {
+        console.warn("[AE3:AE2Listener] Event bus not initialized; plans will not be received from AE2");
+        return;
+      }
+    }
+
+    // O event bus não aguarda handlers assíncronos: erros são tratados aqui
+    this.unsubscribe = this.eventBus.subscribe(AE3_PLAN_EVENTS.submitted, (payload) => {
+      const plan = payload as OrchestrationPlan;
+      this.emitPlan(plan).catch((error) => {
+        console.error(`[AE3:AE2Listener] Failed to execute plan ${plan?.id}:`, error);
+      });
+    });
+  }
+
+  disconnect(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
   }
 
   onOrchestrationPlan(handler: PlanHandler): void {
@@ -4,7 +4,7 @@ export interface Tool {
   phase: "recebe" | "colhe" | "processa" | "fornece";
   version: string;
 
-  execute(input: ToolInput): Promise<ToolOutput>;
+  execute(input: ToolInput, options?: ToolExecutionOptions): Promise<ToolOutput>;
   healthCheck(): Promise<ToolHealth>;
 }
 
@@ -12,16 +12,33 @@ export interface ToolInput {
   [key: string]: unknown;
 }
 
+export interface ToolExecutionOptions {
+  /** Abortado quando o step estoura o timeout ou o budget do plano */
+  signal?: AbortSignal;
+  /** Retries internos da tool; o executor passa 0 quando o contrato declara resilience.retry */
+  retries?: number;
+}
+
 export interface ToolOutput {
   tool_id: string;
   tool_name: string;
   success: boolean;
   output?: unknown;
   error?: string;
+  timed_out?: boolean;
+  /** Violações do input_schema/output_schema do contrato da tool */
+  schema_violations?: SchemaViolation[];
+  /** Tool original quando este output veio da fallback_tool do contrato */
+  fallback_from?: string;
   duration_ms: number;
   timestamp: Date;
 }
 
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
 export interface ToolHealth {
   tool_name: string;
   status: "healthy" | "degraded" | "down";
@@ -1,9 +1,114 @@
-import { ToolRegistry } from "../tools/recebe/tool-registry";
+import { ToolRegistry, RegisteredTool } from "../tools/recebe/tool-registry";
+import { CircuitBreakerRegistry } from "../../AE0/circuit-breaker/circuit-breaker";
+import { getEventBus } from "../../AE0/event-stream/event-bus";
+import { HealthMonitor, HealthStatus, initializeHealthMonitor } from "../../health/health-monitor";
+import { STATUS_BY_CIRCUIT } from "../execution/resilience";
 
+const CHECK_PREFIX = "ae3.tool.";
+
+const HEALTH_BY_TOOL_STATUS: Record<RegisteredTool["status"], HealthStatus> = {
+  healthy: "healthy",
+  degraded: "degraded",
+  down: "unhealthy"
+};
+
+const SEVERITY: RegisteredTool["status"][] = ["healthy", "degraded", "down"];
+
+export interface ToolHealthOptions {
+  /** Padrão: Health Monitor global */
+  monitor?: HealthMonitor;
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Registra um health check por tool carregada no Health Monitor (probe readiness,
+ * não crítico) e reflete o resultado no status do ToolRegistry. Um circuit breaker
+ * aberto prevalece sobre um healthCheck saudável.
+ */
 export class ToolHealth {
-  constructor(private registry: ToolRegistry) {}
+  private monitor: HealthMonitor;
+  private registered = new Set<string>();
+  private unsubscribe?: () => void;
+
+  constructor(private registry: ToolRegistry, private options: ToolHealthOptions = {}) {
+    this.monitor = options.monitor ?? initializeHealthMonitor();
+  }
 
   start(): void {
-    // Placeholder for health checks.
+    this.sync();
+
+    // Plugins recarregados podem adicionar tools
+    if (!this.unsubscribe) {
+      try {
+        this.unsubscribe = getEventBus().subscribe("plugin.reloaded", () => this.sync());
+      } catch {
+        // Event bus não inicializado
+      }
+    }
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    for (const name of this.registered) {
+      this.monitor.unregisterCheck(CHECK_PREFIX + name);
+    }
+    this.registered.clear();
+  }
+
+  /**
+   * Registra checks de tools novas e remove os de tools que saíram do registro
+   */
+  sync(): void {
+    const names = new Set(
+      this.registry
+        .getAllTools()
+        .filter((tool) => tool.factory)
+        .map((tool) => tool.name)
+    );
+
+    for (const name of names) {
+      if (this.registered.has(name)) continue;
+      this.monitor.registerCheck({
+        name: CHECK_PREFIX + name,
+        check: () => this.check(name),
+        intervalMs: this.options.intervalMs ?? 30000,
+        timeoutMs: this.options.timeoutMs,
+        critical: false,
+        probes: ["readiness"]
+      });
+      this.registered.add(name);
+    }
+
+    for (const name of this.registered) {
+      if (names.has(name)) continue;
+      this.monitor.unregisterCheck(CHECK_PREFIX + name);
+      this.registered.delete(name);
+    }
+  }
+
+  private async check(name: string): Promise<{ status: HealthStatus; message?: string; metadata?: Record<string, any> }> {
+    let status: RegisteredTool["status"];
+    let message: string | undefined;
+
+    try {
+      const health = await this.registry.createTool(name).healthCheck();
+      status = health.status;
+      this.registry.setMetrics(name, { avg_latency_ms: health.avg_latency_ms, success_rate: health.success_rate });
+    } catch (error) {
+      status = "down";
+      message = (error as Error).message;
+    }
+
+    const breaker = CircuitBreakerRegistry.get(`ae3.tool.${name}`);
+    const circuit = breaker ? STATUS_BY_CIRCUIT[breaker.getState()] : "healthy";
+    if (SEVERITY.indexOf(circuit) > SEVERITY.indexOf(status)) {
+      status = circuit;
+      message = `circuit ${breaker!.getState()}`;
+    }
+
+    this.registry.setStatus(name, status);
+    return { status: HEALTH_BY_TOOL_STATUS[status], message, metadata: { tool: name } };
   }
 }
@@ -1,14 +1,19 @@
-import { FileMetricsSink } from "@arqos/utils";
+import { ArqosError, CompositeMetricsSink, FileMetricsSink, MetricsSink } from "@arqos/utils";
 import { EnginePaths } from "../src/core/paths";
 import * as fs from "fs";
 import * as path from "path";
 import { ExecutionEngine } from "./execution/execution-engine";
-import { ToolRegistry } from "./tools/recebe/tool-registry";
+import { ToolRegistry, RegisteredTool } from "./tools/recebe/tool-registry";
 import { AE2Listener } from "./integration/ae2-listener";
 import { AE1Reporter } from "./integration/ae1-reporter";
 import { ToolHealth } from "./monitoring/tool-health";
-import { PluginLoader } from "./plugins/plugin-loader";
+import { PluginLoader, loadPluginsConfig } from "./plugins/plugin-loader";
+import { HotReloader } from "./plugins/hot-reload";
+import { loadToolContracts } from "./contracts/contract-loader";
+import { RegistryMetricsSink } from "../health/engine-metrics";
+import { getModeConfig, ModeConfig, OperationalMode } from "../AE0/validators/mode-validator";
 import type { OrchestrationPlan, ExecutionResult, ToolAvailability } from "./types";
+import type { Tool } from "./integration/tool-interface";
 import { UserIntentParser } from "./tools/recebe/user-intent-parser";
 import { DataAnonymizer } from "./tools/recebe/data-anonymizer";
 import { Webhook } from "./tools/recebe/webhook";
@@ -44,18 +49,29 @@ import { InsightSummarizer as ForneceSummarizer } from "./tools/fornece/insight-
 import { ReportGenerator } from "./tools/fornece/report-generator";
 import { EmailSender } from "./tools/fornece/email-sender";
 
+interface ToolCatalogEntry {
+  name: string;
+  phase: RegisteredTool["phase"];
+  /** Chama serviços externos; fica de fora quando o modo não tem rede de saída */
+  network?: boolean;
+  create: () => Tool;
+}
+
 export class PipelineCore {
   private mode: "lite" | "fullstack";
+  private modeConfig: ModeConfig;
   private toolRegistry!: ToolRegistry;
   private executionEngine!: ExecutionEngine;
   private ae2Listener!: AE2Listener;
   private ae1Reporter!: AE1Reporter;
   private toolHealth!: ToolHealth;
   private pluginLoader?: PluginLoader;
-  private metricsSink?: FileMetricsSink;
+  private hotReloader?: HotReloader;
+  private metricsSink?: MetricsSink;
 
-  constructor(mode: "lite" | "fullstack") {
-    this.mode = mode;
+  constructor(mode: OperationalMode) {
+    this.modeConfig = getModeConfig(mode);
+    this.mode = this.modeConfig.base;
     console.log(`[AE3] Initializing Pipeline Core in ${mode} mode...`);
   }
 
@@ -63,22 +79,24 @@ export class PipelineCore {
     console.log("[AE3] Waiting for AE2 and AE1 to be ready...");
     await this.waitForDependencies();
 
-    // Initialize Metrics Sink
+    // Initialize Metrics Sink (registry Prometheus + arquivo)
+    const sinks: MetricsSink[] = [new RegistryMetricsSink()];
     try {
       const logsDir = EnginePaths.resolveFromRoot("logs");
       if (!fs.existsSync(logsDir)) {
         fs.mkdirSync(logsDir, { recursive: true });
       }
-      this.metricsSink = new FileMetricsSink(logsDir);
+      sinks.push(new FileMetricsSink(logsDir));
       console.log(`[AE3] Metrics sink initialized at ${logsDir}`);
     } catch (err) {
       console.warn("[AE3] Failed to initialize metrics sink:", err);
     }
+    this.metricsSink = new CompositeMetricsSink(sinks);
 
-    this.toolRegistry = new ToolRegistry(this.mode);
+    this.toolRegistry = new ToolRegistry(this.mode, loadToolContracts());
     await this.loadTools();
 
-    this.executionEngine = new ExecutionEngine(this.mode, this.toolRegistry);
+    this.executionEngine = new ExecutionEngine(this.modeConfig.mode, this.toolRegistry);
 
     this.ae2Listener = new AE2Listener();
     await this.ae2Listener.connect();
@@ -86,14 +104,21 @@ export class PipelineCore {
     this.ae1Reporter = new AE1Reporter();
     await this.ae1Reporter.connect();
 
-    this.toolHealth = new ToolHealth(this.toolRegistry);
-    this.toolHealth.start();
-
-    if (this.mode === "fullstack") {
-      this.pluginLoader = new PluginLoader();
+    const pluginsConfig = loadPluginsConfig();
+    if (this.modeConfig.settings.ae3.plugins && pluginsConfig.enabled) {
+      this.pluginLoader = new PluginLoader(pluginsConfig);
       await this.loadPlugins();
+
+      if (pluginsConfig.hotReload) {
+        this.hotReloader = new HotReloader(this.toolRegistry, this.pluginLoader);
+        this.hotReloader.start();
+      }
     }
 
+    // Depois dos plugins para que as tools deles também tenham health check
+    this.toolHealth = new ToolHealth(this.toolRegistry);
+    this.toolHealth.start();
+
     this.ae2Listener.onOrchestrationPlan(async (plan) => {
       await this.executePlan(plan);
     });
@@ -102,6 +127,17 @@ export class PipelineCore {
     console.log(`[AE3] Tools loaded: ${this.toolRegistry.count()}`);
   }
 
+  isReady(): boolean {
+    return this.executionEngine !== undefined && this.toolRegistry.count() > 0;
+  }
+
+  async shutdown(): Promise<void> {
+    this.ae2Listener?.disconnect();
+    this.hotReloader?.stop();
+    this.toolHealth?.stop();
+    console.log("[AE3] Pipeline Core stopped");
+  }
+
   private async waitForDependencies(): Promise<void> {
     await Promise.all([this.waitForAE2(), this.waitForAE1()]);
   }
@@ -117,80 +153,94 @@ export class PipelineCore {
   }
 
   private async loadTools(): Promise<void> {
-    console.log(`[AE3] Loading tools for ${this.mode} mode...`);
-
-    if (this.mode === "lite") {
-      await this.toolRegistry.registerTool("UserIntentParser", "recebe", () => new UserIntentParser());
-      await this.toolRegistry.registerTool("InputValidator", "colhe", () => new InputValidator());
-      await this.toolRegistry.registerTool(
-        "ChainOfThoughtGenerator",
-        "processa",
-        () => new ChainOfThoughtGenerator(this.mode)
-      );
-      await this.toolRegistry.registerTool("InsightSummarizer", "processa", () => new ProcessaSummarizer());
-      await this.toolRegistry.registerTool("ClauseGeneration", "fornece", () => new ClauseGeneration());
-
-      console.log("[AE3] 5 essential tools loaded (lite mode) OK");
-      return;
+    const { mode, settings } = this.modeConfig;
+    const { tools, exclude_tools } = settings.ae3;
+    console.log(`[AE3] Loading tools for ${mode} mode...`);
+
+    const catalog = this.toolCatalog();
+    const unknown = [...(tools === "all" ? [] : tools), ...exclude_tools].filter(
+      (name) => !catalog.some((entry) => entry.name === name)
+    );
+    if (unknown.length > 0) {
+      throw new ArqosError(`[AE3] Mode ${mode} references unknown tools: ${unknown.join(", ")}`, "ARQOS_FAIL_FAST");
+    }
+
+    const selected = catalog.filter(
+      (entry) => (tools === "all" || tools.includes(entry.name)) && !exclude_tools.includes(entry.name)
+    );
+    let loaded = 0;
+    for (const entry of selected) {
+      if (entry.network && !settings.network.outbound) {
+        console.log(`[AE3] Skipping ${entry.name}: no outbound network in ${mode} mode`);
+        continue;
+      }
+      await this.toolRegistry.registerTool(entry.name, entry.phase, entry.create);
+      loaded++;
     }
 
-    await this.loadAllTools();
-    console.log("[AE3] 40+ tools loaded (fullstack mode) OK");
+    console.log(`[AE3] ${loaded} tools loaded (${mode} mode) OK`);
   }
 
-  private async loadAllTools(): Promise<void> {
-    await this.toolRegistry.registerTool("UserIntentParser", "recebe", () => new UserIntentParser());
-    await this.toolRegistry.registerTool("DataAnonymizer", "recebe", () => new DataAnonymizer());
-    await this.toolRegistry.registerTool("Webhook", "recebe", () => new Webhook());
-    await this.toolRegistry.registerTool("HTTPRequest", "recebe", () => new HTTPRequest(this.metricsSink));
-    await this.toolRegistry.registerTool("InputValidator", "recebe", () => new InputValidator());
-
-    await this.toolRegistry.registerTool("ExcelDataProcessor", "colhe", () => new ExcelDataProcessor());
-    await this.toolRegistry.registerTool("MarketDataFetcher", "colhe", () => new MarketDataFetcher());
-    await this.toolRegistry.registerTool("HybridSearch", "colhe", () => new HybridSearch());
-    await this.toolRegistry.registerTool("UserProfileManager", "colhe", () => new UserProfileManager());
-    await this.toolRegistry.registerTool("EmbeddingLookup", "colhe", () => new EmbeddingLookup());
-    await this.toolRegistry.registerTool("TaskDiagnoser", "colhe", () => new TaskDiagnoser());
-    await this.toolRegistry.registerTool("DataIntegration", "colhe", () => new DataIntegration());
-    await this.toolRegistry.registerTool("DatabaseQuery", "colhe", () => new DatabaseQuery());
-
-    await this.toolRegistry.registerTool(
-      "ChainOfThoughtGenerator",
-      "processa",
-      () => new ChainOfThoughtGenerator(this.mode)
-    );
-    await this.toolRegistry.registerTool("FinancialManager", "processa", () => new FinancialManager());
-    await this.toolRegistry.registerTool("ScenarioSimulator", "processa", () => new ScenarioSimulator());
-    await this.toolRegistry.registerTool("PricingEngine", "processa", () => new PricingEngine());
-    await this.toolRegistry.registerTool("InvestmentPlanner", "processa", () => new InvestmentPlanner());
-    await this.toolRegistry.registerTool("MultimodalSynthesizer", "processa", () => new MultimodalSynthesizer());
-    await this.toolRegistry.registerTool("PredictiveOptimizer", "processa", () => new PredictiveOptimizer());
-    await this.toolRegistry.registerTool("TaxComplianceSimulator", "processa", () => new TaxComplianceSimulator());
-    await this.toolRegistry.registerTool("InsightSummarizer", "processa", () => new ProcessaSummarizer());
-    await this.toolRegistry.registerTool("DataTransformer", "processa", () => new DataTransformer());
-    await this.toolRegistry.registerTool("SentimentAnalyzer", "processa", () => new SentimentAnalyzer());
-    await this.toolRegistry.registerTool("PatternMatcher", "processa", () => new PatternMatcher());
-    await this.toolRegistry.registerTool("AnomalyDetector", "processa", () => new AnomalyDetector());
-
-    await this.toolRegistry.registerTool("FeedbackAndAlerting", "fornece", () => new FeedbackAndAlerting());
-    await this.toolRegistry.registerTool("WebResearchUpdater", "fornece", () => new WebResearchUpdater());
-    await this.toolRegistry.registerTool("ClauseGeneration", "fornece", () => new ClauseGeneration());
-    await this.toolRegistry.registerTool("Traducao", "fornece", () => new Traducao());
-    await this.toolRegistry.registerTool("InsightSummarizerOutput", "fornece", () => new ForneceSummarizer());
-    await this.toolRegistry.registerTool("VersionManager", "fornece", () => new VersionManager());
-    await this.toolRegistry.registerTool("ReportGenerator", "fornece", () => new ReportGenerator());
-    await this.toolRegistry.registerTool("EmailSender", "fornece", () => new EmailSender());
+  /**
+   * Todas as tools embutidas; o modo operacional escolhe quais registrar
+   */
+  private toolCatalog(): ToolCatalogEntry[] {
+    return [
+      { name: "UserIntentParser", phase: "recebe", create: () => new UserIntentParser() },
+      { name: "DataAnonymizer", phase: "recebe", create: () => new DataAnonymizer() },
+      { name: "Webhook", phase: "recebe", create: () => new Webhook() },
+      { name: "HTTPRequest", phase: "recebe", network: true, create: () => new HTTPRequest(this.metricsSink) },
+      { name: "InputValidator", phase: "recebe", create: () => new InputValidator() },
+
+      { name: "ExcelDataProcessor", phase: "colhe", create: () => new ExcelDataProcessor() },
+      { name: "MarketDataFetcher", phase: "colhe", network: true, create: () => new MarketDataFetcher() },
+      { name: "HybridSearch", phase: "colhe", create: () => new HybridSearch() },
+      { name: "UserProfileManager", phase: "colhe", create: () => new UserProfileManager() },
+      { name: "EmbeddingLookup", phase: "colhe", create: () => new EmbeddingLookup() },
+      { name: "TaskDiagnoser", phase: "colhe", create: () => new TaskDiagnoser() },
+      { name: "DataIntegration", phase: "colhe", create: () => new DataIntegration() },
+      { name: "DatabaseQuery", phase: "colhe", create: () => new DatabaseQuery() },
+
+      { name: "ChainOfThoughtGenerator", phase: "processa", create: () => new ChainOfThoughtGenerator(this.mode) },
+      { name: "FinancialManager", phase: "processa", create: () => new FinancialManager() },
+      { name: "ScenarioSimulator", phase: "processa", create: () => new ScenarioSimulator() },
+      { name: "PricingEngine", phase: "processa", create: () => new PricingEngine() },
+      { name: "InvestmentPlanner", phase: "processa", create: () => new InvestmentPlanner() },
+      { name: "MultimodalSynthesizer", phase: "processa", create: () => new MultimodalSynthesizer() },
+      { name: "PredictiveOptimizer", phase: "processa", create: () => new PredictiveOptimizer() },
+      { name: "TaxComplianceSimulator", phase: "processa", create: () => new TaxComplianceSimulator() },
+      { name: "InsightSummarizer", phase: "processa", create: () => new ProcessaSummarizer() },
+      { name: "DataTransformer", phase: "processa", create: () => new DataTransformer() },
+      { name: "SentimentAnalyzer", phase: "processa", create: () => new SentimentAnalyzer() },
+      { name: "PatternMatcher", phase: "processa", create: () => new PatternMatcher() },
+      { name: "AnomalyDetector", phase: "processa", create: () => new AnomalyDetector() },
+
+      { name: "FeedbackAndAlerting", phase: "fornece", create: () => new FeedbackAndAlerting() },
+      { name: "WebResearchUpdater", phase: "fornece", network: true, create: () => new WebResearchUpdater() },
+      { name: "ClauseGeneration", phase: "fornece", create: () => new ClauseGeneration() },
+      { name: "Traducao", phase: "fornece", create: () => new Traducao() },
+      { name: "InsightSummarizerOutput", phase: "fornece", create: () => new ForneceSummarizer() },
+      { name: "VersionManager", phase: "fornece", create: () => new VersionManager() },
+      { name: "ReportGenerator", phase: "fornece", create: () => new ReportGenerator() },
+      { name: "EmailSender", phase: "fornece", network: true, create: () => new EmailSender() },
+    ];
   }
 
   private async loadPlugins(): Promise<void> {
     console.log("[AE3] Loading custom plugins...");
 
     const plugins = await this.pluginLoader!.discover();
+    let registered = 0;
     for (const plugin of plugins) {
-      await this.toolRegistry.registerPlugin(plugin);
+      try {
+        await this.toolRegistry.registerPlugin(plugin);
+        registered++;
+      } catch (error) {
+        console.error(`[AE3] Failed to register plugin ${plugin.definition.name}:`, error);
+      }
     }
 
-    console.log(`[AE3] ${plugins.length} custom plugins loaded OK`);
+    console.log(`[AE3] ${registered} custom plugins loaded OK`);
   }
 
   async executePlan(plan: OrchestrationPlan): Promise<ExecutionResult> {
@@ -231,6 +281,10 @@ export class PipelineCore {
     }
   }
 
+  hasTool(name: string): boolean {
+    return this.toolRegistry.hasTool(name);
+  }
+
   async getToolAvailability(): Promise<ToolAvailability> {
     const tools = this.toolRegistry.getAllTools();
 
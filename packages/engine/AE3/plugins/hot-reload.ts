@@ -1,3 +1,168 @@
-export function hotReload(): void {
-  // Placeholder for hot reload.
+import * as fs from "fs";
+import * as path from "path";
+import { getEventBus, EventBus } from "../../AE0/event-stream/event-bus";
+import { getToolContractsPath, loadToolContract } from "../contracts/contract-loader";
+import type { ToolRegistry } from "../tools/recebe/tool-registry";
+import { isPluginModuleFile } from "./plugin-loader";
+import type { PluginLoader } from "./plugin-loader";
+
+/**
+ * Hot reload de plugins e contratos de tools AE3.
+ *
+ * Observa o diretório de plugins e AE3/contracts/tools; cada mudança é revalidada
+ * e trocada no ToolRegistry de forma atômica. Planos em execução usam o snapshot
+ * do registro (ExecutionEngine) e terminam na versão anterior.
+ *
+ * Eventos no AE0 event bus: `plugin.reloaded` e `plugin.reload_failed`.
+ */
+
+export interface HotReloaderOptions {
+  contractsDir?: string;
+  debounceMs?: number;
+  eventBus?: EventBus;
+}
+
+export class HotReloader {
+  private contractsDir: string;
+  private debounceMs: number;
+  private eventBus?: EventBus;
+  private watchers: fs.FSWatcher[] = [];
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private registry: ToolRegistry,
+    private loader: PluginLoader,
+    options: HotReloaderOptions = {}
+  ) {
+    this.contractsDir = options.contractsDir ?? getToolContractsPath();
+    this.debounceMs = options.debounceMs ?? 100;
+    this.eventBus = options.eventBus;
+
+    if (!this.eventBus) {
+      try {
+        this.eventBus = getEventBus();
+      } catch {
+        // Event bus não inicializado
+      }
+    }
+  }
+
+  start(): void {
+    if (this.watchers.length > 0) return;
+
+    this.watch(this.loader.getPluginsDir(), true, (file) => this.reloadPlugin(file));
+    this.watch(this.contractsDir, false, (file) => this.reloadContract(file));
+    console.log("[AE3:HotReload] Watching plugins and tool contracts");
+  }
+
+  stop(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    this.pending.forEach((timer) => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  /**
+   * Recarrega um plugin a partir de um arquivo do diretório de plugins.
+   * Arquivos que não são módulos (ex: contrato YAML) recarregam todos os plugins.
+   */
+  async reloadPlugin(file: string): Promise<void> {
+    const pluginsDir = this.loader.getPluginsDir();
+    const [topLevel] = path.relative(pluginsDir, file).split(path.sep);
+    const entry = path.join(pluginsDir, topLevel);
+
+    if (!fs.existsSync(entry)) {
+      console.warn(`[AE3:HotReload] ${entry} removed; keeping registered version`);
+      return;
+    }
+
+    const isModule = fs.statSync(entry).isDirectory() || isPluginModuleFile(topLevel);
+    const targets = isModule ? [entry] : this.registeredPluginSources();
+
+    for (const target of targets) {
+      try {
+        const plugin = this.loader.loadPlugin(target);
+        if (!plugin) continue;
+
+        await this.registry.registerPlugin(plugin);
+        this.publish("plugin.reloaded", {
+          kind: "plugin",
+          name: plugin.definition.name,
+          version: plugin.definition.version,
+          source: target,
+        });
+      } catch (error) {
+        this.fail("plugin", target, error);
+      }
+    }
+  }
+
+  /**
+   * Recarrega o contrato de uma tool já registrada
+   */
+  async reloadContract(file: string): Promise<void> {
+    if (!/\.contract\.ya?ml$/.test(file) || !fs.existsSync(file)) return;
+
+    try {
+      const contract = loadToolContract(file);
+      if (!contract?.name || !this.registry.hasTool(contract.name)) return;
+
+      this.registry.reloadContract(contract);
+      this.publish("plugin.reloaded", {
+        kind: "contract",
+        name: contract.name,
+        version: contract.version,
+        source: file,
+      });
+    } catch (error) {
+      this.fail("contract", file, error);
+    }
+  }
+
+  private watch(dir: string, recursive: boolean, onChange: (file: string) => Promise<void>): void {
+    if (!fs.existsSync(dir)) {
+      console.warn(`[AE3:HotReload] Directory not found, not watching: ${dir}`);
+      return;
+    }
+
+    const watcher = fs.watch(dir, { recursive }, (_event, filename) => {
+      if (!filename) return;
+      const file = path.join(dir, filename.toString());
+
+      // Editores disparam vários eventos por save
+      clearTimeout(this.pending.get(file));
+      const timer = setTimeout(() => {
+        this.pending.delete(file);
+        void onChange(file);
+      }, this.debounceMs);
+      timer.unref();
+      this.pending.set(file, timer);
+    });
+    watcher.unref();
+    this.watchers.push(watcher);
+  }
+
+  private registeredPluginSources(): string[] {
+    const pluginsDir = this.loader.getPluginsDir();
+    const sources = this.registry
+      .getAllTools()
+      .map((tool) => tool.plugin?.source)
+      .filter((source): source is string => !!source && source.startsWith(pluginsDir));
+
+    // Plugins em diretório são recarregados pelo diretório (reaplica o manifesto)
+    return [...new Set(sources.map((source) => path.join(pluginsDir, path.relative(pluginsDir, source).split(path.sep)[0])))];
+  }
+
+  private fail(kind: "plugin" | "contract", source: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[AE3:HotReload] Failed to reload ${kind} ${source}: ${message}`);
+    this.publish("plugin.reload_failed", { kind, source, error: message });
+  }
+
+  private publish(type: string, payload: Record<string, unknown>): void {
+    this.eventBus?.publish(type, payload, {
+      source: "AE3/hot-reload",
+      priority: type === "plugin.reload_failed" ? 10 : 50,
+    });
+  }
 }
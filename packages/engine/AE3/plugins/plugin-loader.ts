@@ -1,39 +1,213 @@
-import type { Tool } from "../integration/tool-interface";
+import * as fs from "fs";
+import * as path from "path";
+import * as YAML from "yaml";
+import { ArqosError } from "@arqos/utils";
+import { EnginePaths } from "../../src/core/paths";
+import { loadToolContract, ToolContract } from "../contracts/contract-loader";
+import { validatePlugin, getEngineVersion } from "./plugin-validator";
+import type { LoadedPlugin, PluginModule } from "../../types/plugin.types";
+
+/**
+ * Descoberta de plugins AE3.
+ *
+ * Um plugin é um módulo que exporta `plugin: PluginModule`. Fontes:
+ * - arquivos .ts/.js no diretório configurado (plugins-config.yaml: directory)
+ * - subdiretórios ou pacotes npm cujo package.json declara `"arqos": { "plugin": "./entry.js" }`
+ */
+
+export interface PluginsConfig {
+  enabled: boolean;
+  directory: string;
+  packages: string[];
+  hotReload: boolean;
+  strict: boolean;
+}
+
+export interface PluginLoaderOptions {
+  directory?: string;
+  packages?: string[];
+  strict?: boolean;
+  engineVersion?: string;
+}
+
+const MODULE_EXTENSIONS = [".ts", ".js"];
+
+/**
+ * Lê config/plugins-config.yaml
+ */
+export function loadPluginsConfig(
+  configPath: string = EnginePaths.resolveFromRoot("config", "plugins-config.yaml")
+): PluginsConfig {
+  const raw = fs.existsSync(configPath)
+    ? (YAML.parse(fs.readFileSync(configPath, "utf-8"))?.plugins_config ?? {})
+    : {};
+
+  return {
+    enabled: raw.enabled ?? true,
+    directory: EnginePaths.resolveFromRoot(raw.directory ?? "./AE3/plugins/custom-tools"),
+    packages: raw.packages ?? [],
+    hotReload: raw.hot_reload ?? false,
+    strict: raw.validation_strict ?? true,
+  };
+}
 
 export class PluginLoader {
-  private pluginsDir = "./AE3/plugins/custom-tools";
+  private pluginsDir: string;
+  private packages: string[];
+  private strict: boolean;
+  private engineVersion: string;
+
+  constructor(options: PluginLoaderOptions = {}) {
+    this.pluginsDir = options.directory ?? EnginePaths.resolveFromRoot("AE3", "plugins", "custom-tools");
+    this.packages = options.packages ?? [];
+    this.strict = options.strict ?? true;
+    this.engineVersion = options.engineVersion ?? getEngineVersion();
+  }
 
-  async discover(): Promise<Plugin[]> {
+  getPluginsDir(): string {
+    return this.pluginsDir;
+  }
+
+  async discover(): Promise<LoadedPlugin[]> {
     console.log("[AE3:PluginLoader] Discovering custom plugins...");
-    const plugins: Plugin[] = [];
+    const plugins: LoadedPlugin[] = [];
     const files = await this.scanPluginDirectory();
 
     for (const file of files) {
-      const plugin = await this.loadPlugin(file);
-      if (this.validatePlugin(plugin)) {
-        plugins.push(plugin);
-      }
+      this.tryLoad(() => this.loadPlugin(file), file, plugins);
+    }
+    for (const pkg of this.packages) {
+      this.tryLoad(() => this.loadPackage(pkg), pkg, plugins);
     }
 
     console.log(`[AE3:PluginLoader] Found ${plugins.length} valid plugins`);
     return plugins;
   }
 
+  /**
+   * Carrega e valida um módulo de plugin; retorna null se o arquivo não exporta `plugin`
+   */
+  loadPlugin(file: string): LoadedPlugin | null {
+    const entry = this.resolveEntry(file);
+    if (!entry) return null;
+
+    // Sempre relê do disco (hot reload), inclusive os módulos que o entry importa
+    clearModuleCache(fs.statSync(file).isDirectory() ? file : path.dirname(entry));
+    delete require.cache[require.resolve(entry)];
+    const mod = require(entry);
+    const pluginModule: PluginModule | undefined = mod.plugin ?? mod.default?.plugin ?? mod.default;
+    if (!pluginModule || typeof pluginModule.createTool !== "function" || !pluginModule.definition) {
+      return null;
+    }
+
+    const { definition } = pluginModule;
+    const tool = pluginModule.createTool();
+    const contract = this.loadContract(entry, definition.contract);
+
+    const result = validatePlugin(definition, tool, contract, {
+      engineVersion: this.engineVersion,
+      strict: this.strict,
+    });
+    result.warnings.forEach((w) => console.warn(`[AE3:PluginLoader] ${definition.name}: ${w}`));
+
+    if (!result.valid) {
+      throw new ArqosError(
+        `Invalid plugin ${definition.name ?? entry}: ${result.errors.join("; ")}`,
+        "ARQOS_PLUGIN_INVALID"
+      );
+    }
+
+    return {
+      definition,
+      phase: tool.phase,
+      factory: pluginModule.createTool,
+      contract,
+      source: entry,
+    };
+  }
+
+  /**
+   * Carrega um plugin distribuído como pacote npm (manifesto `arqos.plugin` no package.json)
+   */
+  loadPackage(packageName: string): LoadedPlugin | null {
+    const manifestPath = require.resolve(`${packageName}/package.json`, {
+      paths: [process.cwd(), EnginePaths.getRoot()],
+    });
+    const plugin = this.loadPlugin(path.dirname(manifestPath));
+    if (!plugin) {
+      throw new ArqosError(`Package ${packageName} does not declare an Arqos plugin`, "ARQOS_PLUGIN_INVALID");
+    }
+    return { ...plugin, source: packageName };
+  }
+
   private async scanPluginDirectory(): Promise<string[]> {
-    return [];
+    if (!fs.existsSync(this.pluginsDir)) {
+      console.warn(`[AE3:PluginLoader] Plugins directory not found: ${this.pluginsDir}`);
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.pluginsDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() || isPluginModuleFile(entry.name))
+      .map((entry) => path.join(this.pluginsDir, entry.name))
+      .sort();
   }
 
-  private async loadPlugin(_file: string): Promise<Plugin> {
-    return {} as Plugin;
+  /**
+   * Arquivo de módulo direto, ou entry declarado no package.json de um diretório
+   */
+  private resolveEntry(file: string): string | null {
+    if (!fs.statSync(file).isDirectory()) return file;
+
+    const manifestPath = path.join(file, "package.json");
+    if (!fs.existsSync(manifestPath)) return null;
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+    const entry = manifest.arqos?.plugin;
+    return typeof entry === "string" ? path.resolve(file, entry) : null;
   }
 
-  private validatePlugin(_plugin: Plugin): boolean {
-    return true;
+  private loadContract(entry: string, contractFile?: string): ToolContract | undefined {
+    if (!contractFile) return undefined;
+
+    const contractPath = path.resolve(path.dirname(entry), contractFile);
+    if (!fs.existsSync(contractPath)) {
+      throw new ArqosError(`Plugin contract not found: ${contractPath}`, "ARQOS_PLUGIN_INVALID");
+    }
+    return loadToolContract(contractPath);
+  }
+
+  private tryLoad(load: () => LoadedPlugin | null, source: string, plugins: LoadedPlugin[]): void {
+    try {
+      const plugin = load();
+      if (plugin) {
+        plugins.push(plugin);
+        console.log(`[AE3:PluginLoader] Loaded ${plugin.definition.name}@${plugin.definition.version}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[AE3:PluginLoader] Skipping ${source}: ${message}`);
+    }
   }
 }
 
-interface Plugin extends Tool {
-  author: string;
-  license: string;
-  dependencies: string[];
+/**
+ * Módulo de plugin (.ts/.js), exceto declarações e testes
+ */
+export function isPluginModuleFile(name: string): boolean {
+  return (
+    MODULE_EXTENSIONS.includes(path.extname(name)) &&
+    !name.endsWith(".d.ts") &&
+    !/\.(test|spec)\.[jt]s$/.test(name)
+  );
+}
+
+/**
+ * Remove do require.cache os módulos carregados de dentro de `dir`
+ */
+function clearModuleCache(dir: string): void {
+  const root = fs.realpathSync(dir) + path.sep;
+  for (const cached of Object.keys(require.cache)) {
+    if (cached.startsWith(root)) delete require.cache[cached];
+  }
 }
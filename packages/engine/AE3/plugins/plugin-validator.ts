@@ -1,3 +1,111 @@
-export function validatePlugin(): boolean {
-  return true;
+import Ajv, { ValidateFunction } from "ajv";
+import * as fs from "fs";
+import * as path from "path";
+import { isValidSemver, satisfiesSemver } from "@arqos/utils";
+import { EnginePaths } from "../../src/core/paths";
+import type { Tool } from "../integration/tool-interface";
+import type { ToolContract } from "../contracts/contract-loader";
+import type { PluginDefinition } from "../../types/plugin.types";
+
+/**
+ * Validação de plugins AE3: PluginDefinition + interface Tool + contrato
+ */
+
+export interface PluginValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface PluginValidationOptions {
+  /** Versão do @arqos/engine em execução */
+  engineVersion: string;
+  /** validation_strict (plugins-config.yaml): contrato obrigatório */
+  strict: boolean;
+}
+
+const PHASES = ["recebe", "colhe", "processa", "fornece"];
+
+let contractSchemaValidator: ValidateFunction | undefined;
+
+export function validatePlugin(
+  definition: PluginDefinition,
+  tool: Tool,
+  contract: ToolContract | undefined,
+  options: PluginValidationOptions
+): PluginValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // PluginDefinition
+  for (const field of ["name", "author", "license", "version"] as const) {
+    if (typeof definition?.[field] !== "string" || definition[field].trim() === "") {
+      errors.push(`definition.${field} is required`);
+    }
+  }
+  if (definition?.version && !isValidSemver(definition.version)) {
+    errors.push(`definition.version is not valid semver: ${definition.version}`);
+  }
+  if (definition?.engine && !satisfiesSemver(options.engineVersion, definition.engine)) {
+    errors.push(`Plugin requires engine ${definition.engine}, running ${options.engineVersion}`);
+  }
+
+  // Interface Tool
+  for (const field of ["id", "name", "version"] as const) {
+    if (typeof tool?.[field] !== "string") {
+      errors.push(`tool.${field} must be a string`);
+    }
+  }
+  if (!PHASES.includes(tool?.phase)) {
+    errors.push(`tool.phase must be one of ${PHASES.join(", ")}`);
+  }
+  if (typeof tool?.execute !== "function") errors.push("tool.execute must be a function");
+  if (typeof tool?.healthCheck !== "function") errors.push("tool.healthCheck must be a function");
+
+  if (tool?.name && definition?.name && tool.name !== definition.name) {
+    errors.push(`tool.name '${tool.name}' does not match definition.name '${definition.name}'`);
+  }
+  if (tool?.version && definition?.version && tool.version !== definition.version) {
+    errors.push(`tool.version '${tool.version}' does not match definition.version '${definition.version}'`);
+  }
+
+  // Contrato
+  if (!contract) {
+    (options.strict ? errors : warnings).push("Plugin has no contract file");
+  } else {
+    const validateContract = getContractSchemaValidator();
+    if (!validateContract(contract)) {
+      for (const err of validateContract.errors ?? []) {
+        errors.push(`contract${err.instancePath}: ${err.message}`);
+      }
+    }
+    if (contract.name !== definition?.name) {
+      errors.push(`contract.name '${contract.name}' does not match definition.name '${definition?.name}'`);
+    }
+    if (tool?.id && contract.tool_id !== tool.id) {
+      errors.push(`contract.tool_id '${contract.tool_id}' does not match tool.id '${tool.id}'`);
+    }
+    if (tool?.phase && contract.phase !== tool.phase) {
+      errors.push(`contract.phase '${contract.phase}' does not match tool.phase '${tool.phase}'`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Versão do @arqos/engine (package.json da raiz do engine)
+ */
+export function getEngineVersion(): string {
+  const pkg = JSON.parse(fs.readFileSync(EnginePaths.resolveFromRoot("package.json"), "utf-8"));
+  return pkg.version;
+}
+
+function getContractSchemaValidator(): ValidateFunction {
+  if (!contractSchemaValidator) {
+    const schemaPath = path.join(EnginePaths.getSchemasPath(), "tool-contract.schema.json");
+    const schema = JSON.parse(fs.readFileSync(schemaPath, "utf-8"));
+    contractSchemaValidator = new Ajv({ allErrors: true, strict: false }).compile(schema);
+  }
+  return contractSchemaValidator;
 }
@@ -1 +1,65 @@
-export const toolSchema = {};
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { ArqosError } from "@arqos/utils";
+import type { ToolContract } from "../contracts/contract-loader";
+import type { SchemaViolation } from "../integration/tool-interface";
+
+/**
+ * Validação de ToolInput/ToolOutput contra os schemas dos contratos AE3
+ */
+
+interface CompiledToolSchema {
+  contract: ToolContract;
+  input?: ValidateFunction;
+  output?: ValidateFunction;
+}
+
+export class ToolInputInvalidError extends ArqosError {
+  constructor(
+    public readonly toolName: string,
+    public readonly violations: SchemaViolation[]
+  ) {
+    super(
+      `Invalid input for ${toolName}: ${violations.map((v) => `${v.path}: ${v.message}`).join("; ")}`,
+      "ARQOS_INPUT_INVALID"
+    );
+    this.name = "ToolInputInvalidError";
+  }
+}
+
+export class ToolSchemaValidator {
+  private ajv = new Ajv({ allErrors: true, strict: false });
+  private compiled = new Map<string, CompiledToolSchema>();
+
+  /**
+   * Compila (ou reaproveita) os schemas do contrato
+   */
+  compile(contract: ToolContract): CompiledToolSchema {
+    const cached = this.compiled.get(contract.name);
+    if (cached && cached.contract === contract) return cached;
+
+    const entry: CompiledToolSchema = {
+      contract,
+      input: contract.input_schema ? this.ajv.compile(contract.input_schema) : undefined,
+      output: contract.output_schema ? this.ajv.compile(contract.output_schema) : undefined
+    };
+    this.compiled.set(contract.name, entry);
+    return entry;
+  }
+
+  validateInput(contract: ToolContract, input: unknown): SchemaViolation[] {
+    const validate = this.compile(contract).input;
+    return validate && !validate(input) ? toViolations(validate.errors) : [];
+  }
+
+  validateOutput(contract: ToolContract, output: unknown): SchemaViolation[] {
+    const validate = this.compile(contract).output;
+    return validate && !validate(output) ? toViolations(validate.errors) : [];
+  }
+}
+
+function toViolations(errors: ErrorObject[] | null | undefined): SchemaViolation[] {
+  return (errors ?? []).map((err) => ({
+    path: err.instancePath || "/",
+    message: err.message ?? "invalid"
+  }));
+}
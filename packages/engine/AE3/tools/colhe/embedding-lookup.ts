@@ -1,8 +1,11 @@
 import type { Tool, ToolInput, ToolOutput, ToolHealth } from "../../integration/tool-interface";
+import { EmbeddingService, EmbedOptions, getEmbeddingService } from "../../../AE1/memory/embeddings/embedding-service";
 
 type EmbeddingRecord = {
   id: string;
   embedding: number[];
+  /** Sem embedding, o texto é vetorizado pelo provider da consulta */
+  text?: string;
   metadata?: Record<string, unknown>;
 };
 
@@ -16,6 +19,8 @@ type EmbeddingLookupOutput = {
   query: string;
   matches: EmbeddingMatch[];
   used_index_size: number;
+  provider_used?: string;
+  embedding_dim: number;
 };
 
 export class EmbeddingLookup implements Tool {
@@ -29,6 +34,11 @@ export class EmbeddingLookup implements Tool {
   private totalDuration = 0;
   private index: Map<string, EmbeddingRecord> = new Map();
 
+  /**
+   * @param embeddings - Padrão: serviço compartilhado do AE1 (embedding.provider)
+   */
+  constructor(private embeddings?: EmbeddingService) {}
+
   async execute(input: ToolInput): Promise<ToolOutput> {
     const startTime = Date.now();
     this.executionCount += 1;
@@ -39,11 +49,22 @@ export class EmbeddingLookup implements Tool {
       const topK = this.clampNumber(input.top_k, 1, 50, 5);
       const minScore = this.clampNumber(input.min_score, 0, 1, 0.2);
 
+      const options: EmbedOptions = {
+        provider: typeof input.provider === "string" && input.provider ? input.provider : undefined
+      };
+      const embeddings = this.embeddings ?? getEmbeddingService();
+
       if (Array.isArray(input.index)) {
-        this.loadIndex(input.index);
+        await this.loadIndex(input.index, embeddings, options);
       }
 
-      const queryEmbedding = providedEmbedding.length ? providedEmbedding : this.hashEmbedding(query, 16);
+      let queryEmbedding = providedEmbedding;
+      let providerUsed: string | undefined;
+      if (!queryEmbedding.length && query) {
+        const embedded = await embeddings.embedWithProvider([query], options);
+        [queryEmbedding] = embedded.vectors;
+        providerUsed = embedded.provider;
+      }
       const matches = this.searchIndex(queryEmbedding, minScore)
         .slice(0, topK)
         .map((match) => ({
@@ -58,7 +79,9 @@ export class EmbeddingLookup implements Tool {
       const output: EmbeddingLookupOutput = {
         query,
         matches,
-        used_index_size: this.index.size
+        used_index_size: this.index.size,
+        provider_used: providerUsed,
+        embedding_dim: queryEmbedding.length
       };
 
       return {
@@ -95,11 +118,18 @@ export class EmbeddingLookup implements Tool {
     };
   }
 
-  private loadIndex(records: unknown[]): void {
-    for (const record of records) {
-      const normalized = this.normalizeRecord(record);
-      if (!normalized) continue;
-      this.index.set(normalized.id, normalized);
+  private async loadIndex(records: unknown[], embeddings: EmbeddingService, options: EmbedOptions): Promise<void> {
+    const normalized = records.map((record) => this.normalizeRecord(record)).filter((record): record is EmbeddingRecord => !!record);
+
+    // Registros só com texto são vetorizados em um lote
+    const pending = normalized.filter((record) => !record.embedding.length);
+    const vectors = await embeddings.embedBatch(pending.map((record) => record.text ?? ""), options);
+    pending.forEach((record, position) => {
+      record.embedding = vectors[position];
+    });
+
+    for (const record of normalized) {
+      this.index.set(record.id, record);
     }
   }
 
@@ -119,10 +149,12 @@ export class EmbeddingLookup implements Tool {
     const id = String((record as EmbeddingRecord).id ?? "").trim();
     if (!id) return null;
     const embedding = this.normalizeEmbedding((record as EmbeddingRecord).embedding);
-    if (!embedding.length) return null;
+    const text = typeof (record as EmbeddingRecord).text === "string" ? (record as EmbeddingRecord).text : undefined;
+    if (!embedding.length && !text) return null;
     return {
       id,
       embedding,
+      text,
       metadata: (record as EmbeddingRecord).metadata
     };
   }
@@ -147,26 +179,6 @@ export class EmbeddingLookup implements Tool {
     return dot / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
-  private hashEmbedding(text: string, size: number): number[] {
-    const embedding = new Array(size).fill(0);
-    if (!text) return embedding;
-    const tokens = text.toLowerCase().split(/\s+/).filter(Boolean);
-    for (const token of tokens) {
-      const hash = this.hashString(token);
-      embedding[hash % size] += 1;
-    }
-    const norm = Math.sqrt(embedding.reduce((acc, val) => acc + val * val, 0));
-    return norm ? embedding.map((val) => val / norm) : embedding;
-  }
-
-  private hashString(value: string): number {
-    let hash = 0;
-    for (let i = 0; i < value.length; i += 1) {
-      hash = (hash * 37 + value.charCodeAt(i)) >>> 0;
-    }
-    return hash;
-  }
-
   private clampNumber(value: unknown, min: number, max: number, fallback: number): number {
     const num = Number(value);
     if (!Number.isFinite(num)) return fallback;
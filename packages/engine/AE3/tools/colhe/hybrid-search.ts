@@ -1,4 +1,5 @@
 import type { Tool, ToolInput, ToolOutput, ToolHealth } from "../../integration/tool-interface";
+import { EmbeddingService, getEmbeddingService } from "../../../AE1/memory/embeddings/embedding-service";
 
 type SearchDocument = {
   id: string;
@@ -38,6 +39,11 @@ export class HybridSearch implements Tool {
   private successCount = 0;
   private totalDuration = 0;
 
+  /**
+   * @param embeddings - Padrão: serviço compartilhado do AE1 (embedding.provider)
+   */
+  constructor(private embeddings?: EmbeddingService) {}
+
   async execute(input: ToolInput): Promise<ToolOutput> {
     const startTime = Date.now();
     this.executionCount += 1;
@@ -52,7 +58,7 @@ export class HybridSearch implements Tool {
         return this.buildSuccess({ query, results: [], strategy: weights }, startTime);
       }
 
-      const queryEmbedding = this.resolveQueryEmbedding(query, input.query_embedding);
+      const queryEmbedding = weights.vector_weight > 0 ? await this.resolveQueryEmbedding(query, documents, input.query_embedding) : [];
       const textScores = this.rankByText(query, documents);
       const vectorScores = queryEmbedding.length ? this.rankByVector(queryEmbedding, documents) : new Map<string, number>();
 
@@ -153,11 +159,24 @@ export class HybridSearch implements Tool {
     return { text_weight: text / total, vector_weight: vector / total };
   }
 
-  private resolveQueryEmbedding(query: string, provided?: unknown): number[] {
+  /**
+   * Vetor fornecido ou gerado pelo provider de embeddings; no segundo caso os
+   * documentos sem embedding são vetorizados no mesmo lote
+   */
+  private async resolveQueryEmbedding(query: string, docs: SearchDocument[], provided?: unknown): Promise<number[]> {
     if (Array.isArray(provided)) {
       return provided.map((value) => Number(value)).filter((value) => Number.isFinite(value));
     }
-    return this.hashEmbedding(query, 12);
+
+    const pending = docs.filter((doc) => !doc.embedding?.length);
+    const [queryEmbedding, ...docEmbeddings] = await (this.embeddings ?? getEmbeddingService()).embedBatch([
+      query,
+      ...pending.map((doc) => doc.text)
+    ]);
+    pending.forEach((doc, position) => {
+      doc.embedding = docEmbeddings[position];
+    });
+    return queryEmbedding;
   }
 
   private rankByText(query: string, docs: SearchDocument[]): Map<string, number> {
@@ -220,25 +239,6 @@ export class HybridSearch implements Tool {
     return dot / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
-  private hashEmbedding(text: string, size: number): number[] {
-    const embedding = new Array(size).fill(0);
-    const tokens = this.tokenize(text);
-    for (const token of tokens) {
-      const hash = this.hashString(token);
-      embedding[hash % size] += 1;
-    }
-    const norm = Math.sqrt(embedding.reduce((acc, val) => acc + val * val, 0));
-    return norm ? embedding.map((val) => val / norm) : embedding;
-  }
-
-  private hashString(value: string): number {
-    let hash = 0;
-    for (let i = 0; i < value.length; i += 1) {
-      hash = (hash * 33 + value.charCodeAt(i)) >>> 0;
-    }
-    return hash;
-  }
-
   private clampNumber(value: unknown, min: number, max: number, fallback: number): number {
     const num = Number(value);
     if (!Number.isFinite(num)) return fallback;
@@ -1,4 +1,4 @@
-import type { Tool, ToolInput, ToolOutput, ToolHealth } from "../../integration/tool-interface";
+import type { Tool, ToolInput, ToolOutput, ToolHealth, ToolExecutionOptions } from "../../integration/tool-interface";
 
 type MarketQuote = {
   symbol: string;
@@ -52,7 +52,7 @@ export class MarketDataFetcher implements Tool {
   private successCount = 0;
   private totalDuration = 0;
 
-  async execute(input: ToolInput): Promise<ToolOutput> {
+  async execute(input: ToolInput, execOptions?: ToolExecutionOptions): Promise<ToolOutput> {
     const startTime = Date.now();
     this.executionCount += 1;
 
@@ -66,7 +66,7 @@ export class MarketDataFetcher implements Tool {
       // [Real implementation] Try to fetch from CoinGecko for crypto
       if (options.source === "real" || options.source === "coingecko") {
         try {
-          quotes = await this.fetchFromCoinGecko(symbols, options);
+          quotes = await this.fetchFromCoinGecko(symbols, options, execOptions?.signal);
         } catch (e) {
           console.warn("[AE3:MarketDataFetcher] CoinGecko fetch failed, falling back to simulation.", e);
           quotes = symbols.map((symbol) => this.generateQuote(symbol, options, now));
@@ -287,7 +287,11 @@ export class MarketDataFetcher implements Tool {
     return 100 - 100 / (1 + rs);
   }
 
-  private async fetchFromCoinGecko(symbols: string[], options: FetchOptions): Promise<MarketQuote[]> {
+  private async fetchFromCoinGecko(
+    symbols: string[],
+    options: FetchOptions,
+    signal?: AbortSignal
+  ): Promise<MarketQuote[]> {
     const cryptoMap: Record<string, string> = {
       BTC: "bitcoin",
       ETH: "ethereum",
@@ -308,7 +312,7 @@ export class MarketDataFetcher implements Tool {
 
     const url = `https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=${options.currency?.toLowerCase() || "usd"}&include_24hr_change=true`;
 
-    const response = await fetch(url);
+    const response = await fetch(url, { signal });
     if (!response.ok) throw new Error("CoinGecko API error");
 
     const data = await response.json();
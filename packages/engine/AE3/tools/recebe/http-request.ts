@@ -1,5 +1,6 @@
 import { ArqosError, withRetry, MetricsSink } from "@arqos/utils";
-import { Tool, ToolInput, ToolOutput, ToolHealth } from "../../integration/tool-interface";
+import { Tool, ToolInput, ToolOutput, ToolHealth, ToolExecutionOptions } from "../../integration/tool-interface";
+import { tracer, formatTraceparent } from "../../../runtime/tracing";
 
 type HttpRequestPayload = {
   url?: string;
@@ -30,7 +31,7 @@ export class HTTPRequest implements Tool {
     this.metricsSink = sink;
   }
 
-  async execute(input: ToolInput): Promise<ToolOutput> {
+  async execute(input: ToolInput, options?: ToolExecutionOptions): Promise<ToolOutput> {
     const startTime = Date.now();
     this.metrics.executionCount++;
 
@@ -59,16 +60,21 @@ export class HTTPRequest implements Tool {
       const headers = payload.headers ?? {};
       const body = payload.body;
       const timeout = payload.timeout_ms ?? 30000; // 30s default
-      const retries = payload.retries ?? 2; // 2 retries default
+      // Com resilience.retry no contrato o executor já retenta (options.retries = 0)
+      const retries = payload.retries ?? options?.retries ?? 2; // 2 retries default
       const retryDelay = payload.retry_delay_ms ?? 1000; // 1s default
 
       // Executar request com retry usando o utilitário centralizado
       const response = await withRetry(
-        () => this.makeRequest(url, method, headers, body, timeout),
+        () => this.makeRequest(url, method, headers, body, timeout, options?.signal),
         {
           retries,
           delay: retryDelay,
           shouldRetry: (error: unknown) => {
+            // Step cancelado pelo executor: não insistir
+            if (options?.signal?.aborted) {
+              return false;
+            }
             // Não fazer retry em erros 4xx (client errors)
             if (error instanceof Error && error.message.includes("HTTP 4")) {
               return false;
@@ -154,12 +160,22 @@ export class HTTPRequest implements Tool {
     method: string,
     headers: Record<string, string>,
     body: unknown,
-    timeout: number
+    timeout: number,
+    signal?: AbortSignal
   ): Promise<{ status: number; statusText: string; headers: Record<string, string>; data: unknown }> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", onAbort);
 
     try {
+      // Propaga o trace para o serviço chamado (W3C Trace Context)
+      const trace = tracer.activeContext();
+      if (trace && !headers["traceparent"]) {
+        headers = { ...headers, traceparent: formatTraceparent(trace) };
+      }
+
       const requestInit: RequestInit = {
         method,
         headers,
@@ -221,6 +237,7 @@ export class HTTPRequest implements Tool {
       throw error;
     } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
@@ -1,4 +1,8 @@
-import type { Tool } from "../../integration/tool-interface";
+import type { Tool, SchemaViolation } from "../../integration/tool-interface";
+import type { ToolContract } from "../../contracts/contract-loader";
+import { ToolSchemaValidator, ToolInputInvalidError } from "../../schemas/tool-schema";
+import type { LoadedPlugin } from "../../../types/plugin.types";
+import { ArqosError, compareSemver } from "@arqos/utils";
 
 export interface RegisteredTool {
   name: string;
@@ -6,33 +10,113 @@ export interface RegisteredTool {
   status: "healthy" | "degraded" | "down";
   metrics: { avg_latency_ms: number; success_rate: number };
   factory?: () => Tool;
+  contract?: ToolContract;
+  /** Presente quando a tool veio de um plugin */
+  plugin?: { version: string; source: string };
 }
 
 export class ToolRegistry {
   private tools: RegisteredTool[] = [];
   private toolMap = new Map<string, RegisteredTool>();
+  private schemaValidator = new ToolSchemaValidator();
 
-  constructor(private mode: "lite" | "fullstack") {}
+  constructor(
+    private mode: "lite" | "fullstack",
+    private contracts: Map<string, ToolContract> = new Map()
+  ) {}
 
   async registerTool(
     name: string,
     phase: RegisteredTool["phase"],
-    factory?: () => Tool
+    factory?: () => Tool,
+    contract: ToolContract | undefined = this.contracts.get(name)
   ): Promise<void> {
     const tool: RegisteredTool = {
       name,
       phase,
       status: "healthy",
       metrics: { avg_latency_ms: 0, success_rate: 1 },
-      factory
+      factory,
+      contract
     };
-    this.tools.push(tool);
-    this.toolMap.set(name, tool);
+    this.addTool(tool);
     console.log(`[AE3:ToolRegistry] Registering tool: ${name} (${phase})`);
   }
 
-  async registerPlugin(_tool: Tool): Promise<void> {
-    // Placeholder for plugin registration.
+  /**
+   * Registra a tool de um plugin validado. Não sobrescreve tools nativas nem
+   * aceita downgrade de um plugin já registrado.
+   */
+  async registerPlugin(plugin: LoadedPlugin): Promise<void> {
+    const { name, version } = plugin.definition;
+    const existing = this.toolMap.get(name);
+
+    if (existing && !existing.plugin) {
+      throw new ArqosError(`Plugin ${name} conflicts with built-in tool`, "ARQOS_PLUGIN_INVALID");
+    }
+    if (existing?.plugin && compareSemver(version, existing.plugin.version) < 0) {
+      throw new ArqosError(
+        `Plugin ${name}@${version} is older than registered ${existing.plugin.version}`,
+        "ARQOS_PLUGIN_INVALID"
+      );
+    }
+
+    this.addTool({
+      name,
+      phase: plugin.phase,
+      status: "healthy",
+      metrics: existing?.metrics ?? { avg_latency_ms: 0, success_rate: 1 },
+      factory: plugin.factory,
+      contract: plugin.contract,
+      plugin: { version, source: plugin.source }
+    });
+    console.log(`[AE3:ToolRegistry] Registering plugin: ${name}@${version} (${plugin.phase})`);
+  }
+
+  /**
+   * Troca o contrato de uma tool registrada. Lança se os schemas não compilam,
+   * mantendo o contrato anterior.
+   */
+  reloadContract(contract: ToolContract): void {
+    const existing = this.toolMap.get(contract.name);
+    if (!existing) {
+      throw new ArqosError(`Tool not registered: ${contract.name}`, "ARQOS_NOT_FOUND");
+    }
+
+    this.schemaValidator.compile(contract);
+    this.contracts.set(contract.name, contract);
+    this.addTool({ ...existing, contract });
+    console.log(`[AE3:ToolRegistry] Contract reloaded: ${contract.name}@${contract.version}`);
+  }
+
+  /**
+   * Cópia rasa do registro: entradas trocadas depois (reload) não afetam o snapshot
+   */
+  snapshot(): ToolRegistry {
+    const copy = new ToolRegistry(this.mode, this.contracts);
+    copy.tools = [...this.tools];
+    copy.toolMap = new Map(this.toolMap);
+    copy.schemaValidator = this.schemaValidator;
+    return copy;
+  }
+
+  private addTool(tool: RegisteredTool): void {
+    if (tool.contract) {
+      try {
+        this.schemaValidator.compile(tool.contract);
+      } catch (error) {
+        console.warn(`[AE3:ToolRegistry] Invalid schemas in contract for ${tool.name}:`, error);
+        tool.contract = undefined;
+      }
+    }
+
+    const index = this.tools.findIndex((t) => t.name === tool.name);
+    if (index >= 0) {
+      this.tools[index] = tool;
+    } else {
+      this.tools.push(tool);
+    }
+    this.toolMap.set(tool.name, tool);
   }
 
   hasTool(name: string): boolean {
@@ -47,6 +131,52 @@ export class ToolRegistry {
     return tool.factory();
   }
 
+  /**
+   * Atualiza o status (ex: estado do circuit breaker da tool)
+   */
+  setStatus(name: string, status: RegisteredTool["status"]): void {
+    const tool = this.toolMap.get(name);
+    if (tool) {
+      tool.status = status;
+    }
+  }
+
+  /**
+   * Atualiza latência e taxa de sucesso reportadas pelo healthCheck da tool
+   */
+  setMetrics(name: string, metrics: RegisteredTool["metrics"]): void {
+    const tool = this.toolMap.get(name);
+    if (tool) {
+      tool.metrics = metrics;
+    }
+  }
+
+  getContract(name: string): ToolContract | undefined {
+    return this.toolMap.get(name)?.contract ?? this.contracts.get(name);
+  }
+
+  /**
+   * Valida o input contra o input_schema do contrato; lança ARQOS_INPUT_INVALID
+   */
+  validateInput(name: string, input: unknown): void {
+    const contract = this.toolMap.get(name)?.contract;
+    if (!contract) return;
+
+    const violations = this.schemaValidator.validateInput(contract, input);
+    if (violations.length > 0) {
+      throw new ToolInputInvalidError(name, violations);
+    }
+  }
+
+  /**
+   * Retorna as violações do output_schema do contrato (vazio se válido)
+   */
+  validateOutput(name: string, output: unknown): SchemaViolation[] {
+    const contract = this.toolMap.get(name)?.contract;
+    if (!contract) return [];
+    return this.schemaValidator.validateOutput(contract, output);
+  }
+
   getAllTools(): RegisteredTool[] {
     return [...this.tools];
   }
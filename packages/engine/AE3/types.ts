@@ -1,12 +1,29 @@
 export interface OrchestrationPlan {
   id: string;
-  sequence: { tool_name: string; tool_input: Record<string, unknown> }[];
+  sequence: PlanStep[];
   timeout_budget: number;
+  /** W3C traceparent do chamador; a execução vira filha deste span */
+  traceparent?: string;
+  /**
+   * Steps cuja falha interrompe o plano: os que ainda não começaram são pulados.
+   * Efeitos de tools já executadas não são desfeitos.
+   */
+  halt_on_failure?: string[];
+}
+
+export interface PlanStep {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  /** Identificador do step; padrão: tool_name (ou `tool_name#index` se repetido) */
+  id?: string;
+  /** Steps que precisam terminar antes. Ausente = depende do step anterior */
+  depends_on?: string[];
 }
 
 export interface ExecutionResult {
   plan_id: string;
   success: boolean;
+  status: "success" | "failed" | "timed_out";
   outputs: unknown[];
   total_duration_ms: number;
   tools_executed: number;
@@ -27,3 +44,32 @@ export interface ToolAvailability {
     success_rate: number;
   }[];
 }
+
+/**
+ * Eventos publicados no AE0 event bus ao fim de cada plano (consumidos pelo AE1)
+ */
+export const AE3_EXECUTION_EVENTS = {
+  completed: "ae3.execution.completed",
+  failed: "ae3.execution.failed",
+} as const;
+
+/**
+ * Planos recebidos pelo AE3 via AE0 event bus (AE3/integration/ae2-listener)
+ */
+export const AE3_PLAN_EVENTS = {
+  submitted: "ae3.plan.submitted",
+} as const;
+
+export interface ExecutionReport {
+  plan_id: string;
+  result: ExecutionResult;
+  duration_ms: number;
+  timestamp: string;
+}
+
+export interface ExecutionFailureReport {
+  plan_id: string;
+  error: { message: string; code?: string };
+  duration_ms: number;
+  timestamp: string;
+}
@@ -0,0 +1,82 @@
+import { CircuitBreakerRegistry } from "../../AE0/circuit-breaker/circuit-breaker";
+import { ToolHealth } from "../../AE3/monitoring/tool-health";
+import { ToolRegistry } from "../../AE3/tools/recebe/tool-registry";
+import { fakeTool } from "../../AE3/__tests__/helpers/fake-tool";
+import { HealthMonitor, HealthStatus } from "../health-monitor";
+
+describe("Health probes", () => {
+  let monitor: HealthMonitor;
+
+  beforeEach(() => {
+    monitor = new HealthMonitor({ enableLogs: false });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    CircuitBreakerRegistry.clear();
+    jest.restoreAllMocks();
+  });
+
+  function register(name: string, status: HealthStatus, critical: boolean, probes?: Array<"liveness" | "readiness" | "startup">) {
+    monitor.registerCheck({ name, check: async () => ({ status }), critical, probes });
+  }
+
+  it("deve separar liveness, readiness e startup", async () => {
+    register("event-loop", "healthy", true, ["liveness"]);
+    register("vector-store", "unhealthy", true);
+    register("optional-tool", "unhealthy", false);
+
+    expect(monitor.getProbe("liveness").ok).toBe(true);
+    expect(monitor.getProbe("startup")).toMatchObject({ ok: false, message: "Bootstrap not complete" });
+
+    monitor.markStarted();
+    expect(monitor.getProbe("startup").ok).toBe(true);
+    // Check crítico que ainda não rodou não está pronto
+    expect(monitor.getProbe("readiness")).toMatchObject({ ok: false, checks: { "vector-store": "unknown" } });
+
+    await monitor.runAllChecks();
+    const readiness = monitor.getProbe("readiness");
+    expect(readiness.ok).toBe(false);
+    expect(readiness.message).toBe("Failing checks: vector-store");
+    expect(readiness.checks).toEqual({ "vector-store": "unhealthy", "optional-tool": "unhealthy" });
+    expect(monitor.getProbe("liveness").checks).toEqual({ "event-loop": "healthy" });
+  });
+
+  it("deve agendar checks registrados com o monitor rodando", async () => {
+    monitor.start();
+    register("late", "healthy", true);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(monitor.getComponentHealth("late")?.status).toBe("healthy");
+  });
+
+  it("deve registrar um check por tool e refletir o status no ToolRegistry", async () => {
+    let searchStatus: "healthy" | "degraded" | "down" = "healthy";
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Search", "colhe", () =>
+      fakeTool("Search", { health: () => ({ status: searchStatus, avg_latency_ms: 12, success_rate: 0.5 }) })
+    );
+    await registry.registerTool("Fetch", "colhe", () => fakeTool("Fetch"));
+    await registry.registerTool("NoFactory", "colhe");
+    const toolHealth = new ToolHealth(registry, { monitor });
+
+    toolHealth.start();
+    searchStatus = "down";
+    await monitor.runAllChecks();
+
+    expect(Object.keys(monitor.getSystemHealth().components).sort()).toEqual(["ae3.tool.Fetch", "ae3.tool.Search"]);
+    expect(monitor.getComponentHealth("ae3.tool.Search")?.status).toBe("unhealthy");
+    expect(registry.getAllTools().find((tool) => tool.name === "Search")).toMatchObject({
+      status: "down",
+      metrics: { avg_latency_ms: 12, success_rate: 0.5 }
+    });
+
+    // Breaker aberto prevalece sobre healthCheck saudável
+    CircuitBreakerRegistry.getOrCreate({ name: "ae3.tool.Fetch", failureThreshold: 1 }).trip();
+    await monitor.runCheck("ae3.tool.Fetch");
+    expect(registry.getAllTools().find((tool) => tool.name === "Fetch")?.status).toBe("down");
+
+    toolHealth.stop();
+    expect(monitor.getSystemHealth().components).toEqual({});
+  });
+});
@@ -0,0 +1,96 @@
+import { CircuitBreakerRegistry } from "../../AE0/circuit-breaker/circuit-breaker";
+import { circuitBreakerCollector, RegistryMetricsSink } from "../engine-metrics";
+import { MetricsRegistry } from "../metrics-registry";
+import { exposeMetrics, OPENMETRICS_CONTENT_TYPE, renderMetrics } from "../prometheus";
+
+describe("Metrics registry and Prometheus exposition", () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  afterEach(() => CircuitBreakerRegistry.clear());
+
+  it("deve renderizar counters, gauges e histogramas no formato texto", () => {
+    registry.counter("arqos_requests_total", "Requests", { labelNames: ["route"] }).inc({ route: "/decide" }, 2);
+    registry.gauge("arqos_queue_size", "Queue size").set(7);
+    const latency = registry.histogram("arqos_latency_seconds", "Latency", { buckets: [0.1, 1] });
+    latency.observe(0.05);
+    latency.observe(0.5);
+    latency.observe(3);
+
+    expect(renderMetrics(registry.collect())).toBe(
+      [
+        "# HELP arqos_requests_total Requests",
+        "# TYPE arqos_requests_total counter",
+        'arqos_requests_total{route="/decide"} 2',
+        "# HELP arqos_queue_size Queue size",
+        "# TYPE arqos_queue_size gauge",
+        "arqos_queue_size 7",
+        "# HELP arqos_latency_seconds Latency",
+        "# TYPE arqos_latency_seconds histogram",
+        'arqos_latency_seconds_bucket{le="0.1"} 1',
+        'arqos_latency_seconds_bucket{le="1"} 2',
+        'arqos_latency_seconds_bucket{le="+Inf"} 3',
+        "arqos_latency_seconds_sum 3.55",
+        "arqos_latency_seconds_count 3",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("deve seguir as regras do OpenMetrics quando negociado", () => {
+    registry.counter("arqos_errors_total", "Errors\nper tool", { labelNames: ["tool"] }).inc({ tool: 'say "hi"' });
+
+    const { contentType, body } = exposeMetrics(registry, "application/openmetrics-text;version=1.0.0,text/plain;q=0.5");
+
+    expect(contentType).toBe(OPENMETRICS_CONTENT_TYPE);
+    expect(body).toBe(
+      [
+        "# HELP arqos_errors Errors\\nper tool",
+        "# TYPE arqos_errors counter",
+        'arqos_errors_total{tool="say \\"hi\\""} 1',
+        "# EOF",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("deve validar nomes e tipos de métricas", () => {
+    registry.counter("arqos_calls_total", "Calls", { labelNames: ["tool"] });
+
+    expect(() => registry.gauge("arqos_calls_total", "Calls")).toThrow(/already registered as counter/);
+    expect(() => registry.counter("arqos-bad", "Bad")).toThrow(/Invalid metric name/);
+    expect(() => registry.counter("arqos_calls_total", "Calls").inc({ route: "x" })).toThrow(/no label "route"/);
+    expect(() => registry.histogram("arqos_h", "H", { labelNames: ["le"] })).toThrow(/Invalid label name/);
+  });
+
+  it("deve exportar circuit breakers e métricas das tools", async () => {
+    const breaker = CircuitBreakerRegistry.getOrCreate({ name: "ae3.tool.Search", failureThreshold: 1 });
+    await breaker.execute(async () => { throw new Error("down"); }).catch(() => undefined);
+    registry.registerCollector("circuit-breakers", circuitBreakerCollector);
+
+    const sink = new RegistryMetricsSink(registry);
+    await sink.record({ tool_id: "http_request", metricData: { duration_ms: 40, success: true }, timestamp: new Date() });
+
+    const body = renderMetrics(registry.collect());
+
+    expect(body).toContain('arqos_circuit_breaker_state{circuit="ae3.tool.Search",state="open"} 1');
+    expect(body).toContain('arqos_circuit_breaker_calls_total{circuit="ae3.tool.Search",result="failure"} 1');
+    expect(body).toContain('arqos_tool_events_total{tool="http_request",success="true"} 1');
+    expect(body).toContain('arqos_tool_duration_seconds_bucket{tool="http_request",success="true",le="0.05"} 1');
+  });
+
+  it("não deve derrubar o scrape quando um collector falha", () => {
+    registry.gauge("arqos_up", "Up").set(1);
+    registry.registerCollector("broken", () => {
+      throw new Error("boom");
+    });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    expect(renderMetrics(registry.collect())).toContain("arqos_up 1");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Collector "broken" failed'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Métricas do Arqos Engine
+ * Collectors que traduzem HealthMonitor, Profiler e circuit breakers para o
+ * MetricsRegistry, e um MetricsSink que alimenta o registry com métricas das tools
+ */
+
+import type { MetricEvent, MetricsSink } from '@arqos/utils';
+import { CircuitBreakerRegistry, CircuitState } from '../AE0/circuit-breaker/circuit-breaker';
+import { Profiler, profiler as globalProfiler } from '../runtime/profiler';
+import type { HealthMonitor, HealthStatus } from './health-monitor';
+import {
+  Counter,
+  getMetricsRegistry,
+  Histogram,
+  histogramFromValues,
+  MetricFamily,
+  MetricLabels,
+  MetricSample,
+  MetricsRegistry
+} from './metrics-registry';
+
+const HEALTH_STATUSES: HealthStatus[] = ['healthy', 'degraded', 'unhealthy', 'unknown'];
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'half_open', 'open'];
+
+/**
+ * Séries de um "state set": 1 para o estado atual, 0 para os demais
+ */
+function stateSet(name: string, labels: MetricLabels, states: string[], current: string, key = 'status'): MetricSample[] {
+  return states.map(state => ({ name, labels: { ...labels, [key]: state }, value: state === current ? 1 : 0 }));
+}
+
+function gauge(name: string, help: string, samples: MetricSample[]): MetricFamily {
+  return { name, help, type: 'gauge', samples };
+}
+
+/**
+ * Saúde geral, por componente e memória do processo
+ */
+export function healthCollector(monitor: HealthMonitor): () => MetricFamily[] {
+  return () => {
+    const health = monitor.getSystemHealth();
+    const components = Object.values(health.components);
+    const memory = process.memoryUsage();
+
+    return [
+      gauge('arqos_health_status', 'Overall engine health (1 = current status)',
+        stateSet('arqos_health_status', {}, HEALTH_STATUSES, health.status)),
+      gauge('arqos_health_component_status', 'Health check status per component (1 = current status)',
+        components.flatMap(c => stateSet('arqos_health_component_status', { component: c.name }, HEALTH_STATUSES, c.status))),
+      gauge('arqos_health_component_response_time_seconds', 'Duration of the last health check',
+        components
+          .filter(c => c.responseTimeMs !== undefined)
+          .map(c => ({
+            name: 'arqos_health_component_response_time_seconds',
+            labels: { component: c.name },
+            value: c.responseTimeMs! / 1000
+          }))),
+      gauge('arqos_uptime_seconds', 'Time since the health monitor started',
+        [{ name: 'arqos_uptime_seconds', labels: {}, value: health.uptime / 1000 }]),
+      gauge('arqos_process_memory_bytes', 'Node.js process memory usage',
+        Object.entries({
+          rss: memory.rss,
+          heap_total: memory.heapTotal,
+          heap_used: memory.heapUsed,
+          external: memory.external,
+          array_buffers: memory.arrayBuffers
+        }).map(([type, value]) => ({ name: 'arqos_process_memory_bytes', labels: { type }, value })))
+    ];
+  };
+}
+
+/**
+ * Estado e contadores de todos os circuit breakers registrados
+ */
+export function circuitBreakerCollector(): MetricFamily[] {
+  const stats = CircuitBreakerRegistry.getAllStats();
+
+  return [
+    gauge('arqos_circuit_breaker_state', 'Circuit breaker state (1 = current state)',
+      stats.flatMap(s => stateSet('arqos_circuit_breaker_state', { circuit: s.name }, CIRCUIT_STATES, s.state, 'state'))),
+    {
+      name: 'arqos_circuit_breaker_calls_total',
+      help: 'Calls through the circuit breaker by result',
+      type: 'counter',
+      samples: stats.flatMap(s => [
+        { name: 'arqos_circuit_breaker_calls_total', labels: { circuit: s.name, result: 'success' }, value: s.totalSuccesses },
+        { name: 'arqos_circuit_breaker_calls_total', labels: { circuit: s.name, result: 'failure' }, value: s.totalFailures },
+        { name: 'arqos_circuit_breaker_calls_total', labels: { circuit: s.name, result: 'rejected' }, value: s.totalRejected }
+      ])
+    },
+    gauge('arqos_circuit_breaker_consecutive_failures', 'Consecutive failures counted by the breaker',
+      stats.map(s => ({ name: 'arqos_circuit_breaker_consecutive_failures', labels: { circuit: s.name }, value: s.failures }))),
+    gauge('arqos_circuit_breaker_failure_rate', 'Failure rate in the sliding window',
+      stats
+        .filter(s => s.failureRate !== undefined)
+        .map(s => ({ name: 'arqos_circuit_breaker_failure_rate', labels: { circuit: s.name }, value: s.failureRate! })))
+  ];
+}
+
+/**
+ * Histograma das medições do Profiler (AE2, gateway...)
+ */
+export function profilerCollector(source: Profiler = globalProfiler): () => MetricFamily[] {
+  return () => [{
+    name: 'arqos_profiler_span_duration_seconds',
+    help: 'Duration of spans measured by the runtime profiler',
+    type: 'histogram',
+    samples: source.getNames().flatMap(span =>
+      histogramFromValues(
+        'arqos_profiler_span_duration_seconds',
+        { span },
+        source.getDurations(span).map(ms => ms / 1000)
+      )
+    )
+  }];
+}
+
+export interface EngineCollectorsOptions {
+  healthMonitor?: HealthMonitor;
+  profiler?: Profiler;
+}
+
+/**
+ * Registra os collectors do engine; chamar de novo substitui os anteriores
+ */
+export function registerEngineCollectors(
+  registry: MetricsRegistry = getMetricsRegistry(),
+  options: EngineCollectorsOptions = {}
+): void {
+  registry.registerCollector('circuit-breakers', circuitBreakerCollector);
+  registry.registerCollector('profiler', profilerCollector(options.profiler));
+  if (options.healthMonitor) {
+    registry.registerCollector('health', healthCollector(options.healthMonitor));
+  }
+}
+
+/**
+ * MetricsSink que alimenta o registry: conta execuções por tool/sucesso e
+ * observa duration_ms como histograma. Demais campos ficam só no FileMetricsSink
+ */
+export class RegistryMetricsSink implements MetricsSink {
+  private readonly events: Counter;
+  private readonly duration: Histogram;
+
+  constructor(registry: MetricsRegistry = getMetricsRegistry()) {
+    this.events = registry.counter('arqos_tool_events_total', 'Metric events recorded by AE3 tools', {
+      labelNames: ['tool', 'success']
+    });
+    this.duration = registry.histogram('arqos_tool_duration_seconds', 'Duration reported by AE3 tools', {
+      labelNames: ['tool', 'success']
+    });
+  }
+
+  async record(event: MetricEvent): Promise<void> {
+    const { duration_ms, success } = event.metricData;
+    const labels: MetricLabels = {
+      tool: event.tool_id,
+      success: typeof success === 'boolean' ? String(success) : 'unknown'
+    };
+
+    this.events.inc(labels);
+    if (typeof duration_ms === 'number') {
+      this.duration.observe(duration_ms / 1000, labels);
+    }
+  }
+}
@@ -4,9 +4,28 @@
  */
 
 import { CircuitBreakerRegistry, CircuitBreakerStats } from '../AE0/circuit-breaker/circuit-breaker';
+import { registerEngineCollectors } from './engine-metrics';
+import { getMetricsRegistry } from './metrics-registry';
 
 export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
 
+/**
+ * Semântica de probes do Kubernetes:
+ * - liveness: o processo está vivo (falha → restart)
+ * - readiness: pode receber tráfego (falha → sai do Service)
+ * - startup: bootstrap concluído (até lá liveness/readiness são ignorados)
+ */
+export type ProbeType = 'liveness' | 'readiness' | 'startup';
+
+export interface ProbeResult {
+  probe: ProbeType;
+  ok: boolean;
+  /** Checks considerados pelo probe e seus status */
+  checks: Record<string, HealthStatus>;
+  /** Motivo da falha */
+  message?: string;
+}
+
 export interface ComponentHealth {
   name: string;
   status: HealthStatus;
@@ -46,6 +65,8 @@ export interface HealthCheckConfig {
   timeoutMs?: number;
   /** Crítico para o sistema */
   critical?: boolean;
+  /** Probes que consideram este check (padrão: readiness) */
+  probes?: ProbeType[];
 }
 
 export interface HealthCheckResult {
@@ -76,6 +97,7 @@ export class HealthMonitor {
   private intervals = new Map<string, NodeJS.Timeout>();
   private startTime: number;
   private running = false;
+  private started = false;
 
   private readonly defaultIntervalMs: number;
   private readonly memoryWarningMb: number;
@@ -96,11 +118,18 @@ export class HealthMonitor {
    * Registra um health check
    */
   registerCheck(config: HealthCheckConfig): void {
+    const previous = this.intervals.get(config.name);
+    if (previous) {
+      clearInterval(previous);
+      this.intervals.delete(config.name);
+    }
+
     this.checks.set(config.name, {
       ...config,
       intervalMs: config.intervalMs ?? this.defaultIntervalMs,
       timeoutMs: config.timeoutMs ?? 5000,
-      critical: config.critical ?? false
+      critical: config.critical ?? false,
+      probes: config.probes ?? ['readiness']
     });
 
     // Inicializa resultado como unknown
@@ -111,6 +140,12 @@ export class HealthMonitor {
     });
 
     this.log(`Registered health check: ${config.name}`);
+
+    // Checks registrados com o monitor já rodando (ex: tools carregadas depois) entram no ciclo
+    if (this.running) {
+      this.schedule(config.name);
+      void this.runCheck(config.name);
+    }
   }
 
   /**
@@ -142,16 +177,32 @@ export class HealthMonitor {
     this.runAllChecks();
 
     // Agenda verificações periódicas
-    for (const [name, config] of this.checks) {
-      const interval = setInterval(() => {
-        this.runCheck(name);
-      }, config.intervalMs);
-      this.intervals.set(name, interval);
+    for (const name of this.checks.keys()) {
+      this.schedule(name);
     }
 
     this.log('Health monitor started');
   }
 
+  /**
+   * Agenda um check; o timer não segura o processo vivo
+   */
+  private schedule(name: string): void {
+    const config = this.checks.get(name)!;
+    const interval = setInterval(() => {
+      this.runCheck(name);
+    }, config.intervalMs);
+    interval.unref();
+    this.intervals.set(name, interval);
+  }
+
+  /**
+   * Sinaliza fim do bootstrap (libera startup e readiness)
+   */
+  markStarted(): void {
+    this.started = true;
+  }
+
   /**
    * Para o monitoramento
    */
@@ -159,6 +210,7 @@ export class HealthMonitor {
     if (!this.running) return;
 
     this.running = false;
+    this.started = false;
 
     for (const interval of this.intervals.values()) {
       clearInterval(interval);
@@ -315,6 +367,33 @@ export class HealthMonitor {
     };
   }
 
+  /**
+   * Avalia um probe. Só checks críticos derrubam o probe; em readiness um check
+   * crítico que ainda não rodou (unknown) também conta como não pronto.
+   */
+  getProbe(probe: ProbeType): ProbeResult {
+    const checks: Record<string, HealthStatus> = {};
+    const failing: string[] = [];
+
+    for (const [name, config] of this.checks) {
+      if (!config.probes!.includes(probe)) continue;
+
+      const status = this.results.get(name)?.status ?? 'unknown';
+      checks[name] = status;
+      if (config.critical && (status === 'unhealthy' || (probe === 'readiness' && status === 'unknown'))) {
+        failing.push(name);
+      }
+    }
+
+    if (probe !== 'liveness' && !this.started) {
+      return { probe, ok: false, checks, message: 'Bootstrap not complete' };
+    }
+    if (failing.length > 0) {
+      return { probe, ok: false, checks, message: `Failing checks: ${failing.join(', ')}` };
+    }
+    return { probe, ok: true, checks };
+  }
+
   /**
    * Verifica se o sistema está saudável
    */
@@ -372,7 +451,8 @@ export function registerDefaultChecks(monitor: HealthMonitor): void {
       };
     },
     intervalMs: 30000, // 30s
-    critical: true
+    critical: true,
+    probes: ['liveness', 'readiness']
   });
 
   // Check do Event Loop
@@ -395,7 +475,8 @@ export function registerDefaultChecks(monitor: HealthMonitor): void {
       };
     },
     intervalMs: 5000, // 5s
-    critical: true
+    critical: true,
+    probes: ['liveness']
   });
 
   // Check de Circuit Breakers
@@ -432,6 +513,7 @@ export function startHealthMonitoring(): void {
     enableLogs: true
   });
   registerDefaultChecks(monitor);
+  registerEngineCollectors(getMetricsRegistry(), { healthMonitor: monitor });
   monitor.start();
 }
 
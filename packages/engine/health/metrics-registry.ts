@@ -0,0 +1,332 @@
+/**
+ * Metrics Registry para AE0
+ * Registro unificado de counters, gauges e histograms de todas as camadas AE,
+ * exportado em formato Prometheus/OpenMetrics (ver prometheus.ts)
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  /** Nome completo da série (ex: arqos_x_bucket) */
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+}
+
+/**
+ * Fonte de métricas lida no momento do scrape (HealthMonitor, Profiler...)
+ */
+export type MetricsCollector = () => MetricFamily[];
+
+/** Buckets padrão em segundos (mesmos do client oficial do Prometheus) */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+abstract class Metric<TValue> {
+  protected series = new Map<string, { labels: MetricLabels; value: TValue }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  abstract readonly type: MetricType;
+
+  abstract collect(): MetricFamily;
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected entry(labels: MetricLabels, initial: () => TValue): { labels: MetricLabels; value: TValue } {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Metric "${this.name}" has no label "${name}"`);
+      }
+    }
+
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Valor monotônico (requisições, erros...)
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter "${this.name}" cannot be decreased`);
+    }
+    this.entry(labels, () => 0).value += value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      samples: Array.from(this.series.values()).map(({ labels, value }) => ({ name: this.name, labels, value }))
+    };
+  }
+}
+
+/**
+ * Valor que sobe e desce (fila, conexões, estado...)
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value -= value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels))?.value ?? 0;
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      samples: Array.from(this.series.values()).map(({ labels, value }) => ({ name: this.name, labels, value }))
+    };
+  }
+}
+
+interface HistogramValue {
+  /** Contagem por bucket (não cumulativa) */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribuição de valores em buckets cumulativos (latências, tamanhos...)
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: readonly string[], readonly buckets: readonly number[]) {
+    super(name, help, labelNames);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) entry.counts[index]++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Mede a duração (em segundos) de uma operação assíncrona
+   */
+  async time<T>(fn: () => Promise<T>, labels: MetricLabels = {}): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await fn();
+    } finally {
+      this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+    }
+  }
+
+  collect(): MetricFamily {
+    const samples: MetricSample[] = [];
+    for (const { labels, value } of this.series.values()) {
+      samples.push(...histogramSamples(this.name, labels, this.buckets, value.counts, value.sum, value.count));
+    }
+    return { name: this.name, help: this.help, type: this.type, samples };
+  }
+}
+
+/**
+ * Séries _bucket/_sum/_count de um histograma
+ */
+function histogramSamples(
+  name: string,
+  labels: MetricLabels,
+  buckets: readonly number[],
+  counts: number[],
+  sum: number,
+  count: number
+): MetricSample[] {
+  const samples: MetricSample[] = [];
+  let cumulative = 0;
+  buckets.forEach((bound, i) => {
+    cumulative += counts[i];
+    samples.push({ name: `${name}_bucket`, labels: { ...labels, le: String(bound) }, value: cumulative });
+  });
+  samples.push({ name: `${name}_bucket`, labels: { ...labels, le: '+Inf' }, value: count });
+  samples.push({ name: `${name}_sum`, labels, value: sum });
+  samples.push({ name: `${name}_count`, labels, value: count });
+  return samples;
+}
+
+/**
+ * Monta as séries de histograma a partir de valores brutos (usado por collectors)
+ */
+export function histogramFromValues(
+  name: string,
+  labels: MetricLabels,
+  values: number[],
+  buckets: readonly number[] = DEFAULT_BUCKETS
+): MetricSample[] {
+  const counts = buckets.map(() => 0);
+  let sum = 0;
+  for (const value of values) {
+    const index = buckets.findIndex(bound => value <= bound);
+    if (index >= 0) counts[index]++;
+    sum += value;
+  }
+  return histogramSamples(name, labels, buckets, counts, sum, values.length);
+}
+
+export interface MetricOptions {
+  labelNames?: string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: number[];
+}
+
+/**
+ * Registry de métricas; registrar o mesmo nome retorna a métrica existente
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+  private collectors = new Map<string, MetricsCollector>();
+
+  counter(name: string, help: string, options: MetricOptions = {}): Counter {
+    return this.getOrRegister(name, 'counter', () => new Counter(name, help, this.checkLabels(options.labelNames)));
+  }
+
+  gauge(name: string, help: string, options: MetricOptions = {}): Gauge {
+    return this.getOrRegister(name, 'gauge', () => new Gauge(name, help, this.checkLabels(options.labelNames)));
+  }
+
+  histogram(name: string, help: string, options: HistogramOptions = {}): Histogram {
+    const buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    return this.getOrRegister(
+      name,
+      'histogram',
+      () => new Histogram(name, help, this.checkLabels(options.labelNames), buckets)
+    );
+  }
+
+  /**
+   * Registra (ou substitui) um collector avaliado a cada scrape
+   */
+  registerCollector(name: string, collector: MetricsCollector): void {
+    this.collectors.set(name, collector);
+  }
+
+  unregisterCollector(name: string): boolean {
+    return this.collectors.delete(name);
+  }
+
+  /**
+   * Coleta todas as famílias; falha de um collector não derruba o scrape
+   */
+  collect(): MetricFamily[] {
+    const families = Array.from(this.metrics.values()).map(metric => metric.collect());
+
+    for (const [name, collector] of this.collectors) {
+      try {
+        families.push(...collector());
+      } catch (error) {
+        console.warn(`[AE0:Metrics] Collector "${name}" failed: ${(error as Error).message}`);
+      }
+    }
+
+    return families;
+  }
+
+  /**
+   * Zera os valores mantendo as métricas registradas
+   */
+  resetValues(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  clear(): void {
+    this.metrics.clear();
+    this.collectors.clear();
+  }
+
+  private getOrRegister<T extends Metric<any>>(name: string, type: MetricType, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric "${name}" already registered as ${existing.type}`);
+      }
+      return existing as T;
+    }
+
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+
+  private checkLabels(labelNames: string[] = []): string[] {
+    for (const label of labelNames) {
+      if (!LABEL_NAME.test(label) || label.startsWith('__') || label === 'le') {
+        throw new Error(`Invalid label name: ${label}`);
+      }
+    }
+    return labelNames;
+  }
+}
+
+// Registry global
+let metricsRegistry: MetricsRegistry | null = null;
+
+/**
+ * Retorna o registry global (criado sob demanda)
+ */
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!metricsRegistry) {
+    metricsRegistry = new MetricsRegistry();
+  }
+  return metricsRegistry;
+}
@@ -0,0 +1,100 @@
+/**
+ * Exposição de métricas em formato texto Prometheus (0.0.4) e OpenMetrics (1.0.0)
+ */
+
+import { MetricFamily, MetricLabels, MetricsRegistry } from './metrics-registry';
+
+export type ExpositionFormat = 'prometheus' | 'openmetrics';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeHelp(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Famílias com o mesmo nome (ex: dois collectors) viram uma só, sob o primeiro
+ * metadata, já que o formato exige amostras contíguas por família
+ */
+function mergeFamilies(families: MetricFamily[]): MetricFamily[] {
+  const merged = new Map<string, MetricFamily>();
+  for (const family of families) {
+    const existing = merged.get(family.name);
+    if (existing) {
+      existing.samples = existing.samples.concat(family.samples);
+    } else {
+      merged.set(family.name, { ...family });
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Renderiza famílias de métricas; em OpenMetrics counters perdem o sufixo
+ * _total no metadata e ganham nas amostras, e o texto termina com # EOF
+ */
+export function renderMetrics(families: MetricFamily[], format: ExpositionFormat = 'prometheus'): string {
+  const lines: string[] = [];
+
+  for (const family of mergeFamilies(families)) {
+    let name = family.name;
+    if (format === 'openmetrics' && family.type === 'counter') {
+      name = name.replace(/_total$/, '');
+    }
+
+    lines.push(`# HELP ${name} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${name} ${family.type}`);
+
+    for (const sample of family.samples) {
+      let sampleName = sample.name;
+      if (format === 'openmetrics' && family.type === 'counter' && !sampleName.endsWith('_total')) {
+        sampleName = `${sampleName}_total`;
+      }
+      lines.push(`${sampleName}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  if (format === 'openmetrics') {
+    lines.push('# EOF');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escolhe o formato pelo header Accept (Prometheus envia openmetrics quando suporta)
+ */
+export function negotiateFormat(accept?: string): ExpositionFormat {
+  return accept?.includes('application/openmetrics-text') ? 'openmetrics' : 'prometheus';
+}
+
+/**
+ * Corpo e content-type prontos para um endpoint de scrape
+ */
+export function exposeMetrics(
+  registry: MetricsRegistry,
+  accept?: string
+): { contentType: string; body: string } {
+  const format = negotiateFormat(accept);
+  return {
+    contentType: format === 'openmetrics' ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+    body: renderMetrics(registry.collect(), format)
+  };
+}
@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createEventBus } from "../../AE0/event-stream/event-bus";
+import { ExecutionEngine } from "../../AE3/execution/execution-engine";
+import { ToolRegistry } from "../../AE3/tools/recebe/tool-registry";
+import { fakeTool } from "../../AE3/__tests__/helpers/fake-tool";
+import { OtlpFileExporter } from "../otlp-exporter";
+import { profiler } from "../profiler";
+import { formatTraceparent, parseTraceparent, Span, SpanExporter, tracer } from "../tracing";
+
+class MemoryExporter implements SpanExporter {
+  spans: Span[] = [];
+
+  async export(spans: Span[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  named(name: string): Span[] {
+    return this.spans.filter((span) => span.name === name);
+  }
+}
+
+describe("Arqos tracing", () => {
+  let exporter: MemoryExporter;
+
+  beforeEach(() => {
+    exporter = new MemoryExporter();
+    tracer.configure({ exporter });
+  });
+
+  afterEach(async () => {
+    await tracer.flush();
+    tracer.configure({});
+    profiler.clear();
+  });
+
+  it("deve encadear plano e tools do AE3 sob o span do chamador", async () => {
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Search", "colhe", () => fakeTool("Search"));
+    await registry.registerTool("Broken", "colhe", () => fakeTool("Broken", { result: async () => ({ success: false, error: "boom" }) }));
+    const engine = new ExecutionEngine("lite", registry);
+
+    const root = await tracer.withSpan("request", async (span) => {
+      await engine.execute({
+        id: "p1",
+        timeout_budget: 5000,
+        sequence: [
+          { id: "a", tool_name: "Search", tool_input: {}, depends_on: [] },
+          { id: "b", tool_name: "Broken", tool_input: {}, depends_on: [] }
+        ]
+      });
+      return span;
+    });
+    await tracer.flush();
+
+    const [plan] = exporter.named("AE3_ExecutePlan");
+    const [search] = exporter.named("AE3_Tool Search");
+    const [broken] = exporter.named("AE3_Tool Broken");
+
+    expect(plan.parentSpanId).toBe(root.context.spanId);
+    expect(plan.attributes).toMatchObject({ "arqos.plan.id": "p1", "arqos.plan.tools_failed": 1 });
+    expect(plan.status.code).toBe("error");
+    expect(search.parentSpanId).toBe(plan.context.spanId);
+    expect(search.context.traceId).toBe(root.context.traceId);
+    expect(search.events.map((event) => event.name)).toEqual(["attempt"]);
+    expect(broken.status).toEqual({ code: "error", message: "boom" });
+  });
+
+  it("deve continuar o trace de um traceparent recebido no plano", async () => {
+    const registry = new ToolRegistry("lite");
+    await registry.registerTool("Search", "colhe", () => fakeTool("Search"));
+    const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+    await new ExecutionEngine("lite", registry).execute({
+      id: "p2",
+      timeout_budget: 5000,
+      traceparent,
+      sequence: [{ tool_name: "Search", tool_input: {} }]
+    });
+    await tracer.flush();
+
+    const [plan] = exporter.named("AE3_ExecutePlan");
+    expect(plan.context.traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(plan.parentSpanId).toBe("00f067aa0ba902b7");
+  });
+
+  it("deve propagar o contexto pelo metadata do EventBus até os handlers", async () => {
+    const bus = createEventBus({ mode: "lite" });
+    const seen: Array<{ traceId?: string; parent?: string; traceparent?: string }> = [];
+    bus.subscribe("ae3.tool.completed", (_payload, meta) =>
+      tracer.withSpan("handler", (span) => {
+        seen.push({ traceId: meta.traceId, parent: span.parentSpanId, traceparent: meta.metadata?.traceparent });
+      })
+    );
+
+    const publisher = await tracer.withSpan("publisher", async (span) => {
+      bus.publish("ae3.tool.completed", { ok: true });
+      return span;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(seen).toEqual([
+      {
+        traceId: publisher.context.traceId,
+        parent: publisher.context.spanId,
+        traceparent: formatTraceparent(publisher.context)
+      }
+    ]);
+  });
+
+  it("deve transformar medições do Profiler em spans filhos", async () => {
+    await tracer.withSpan("AE2_Decision", () => profiler.profile("AE2_StrategicAnalysis", async () => "ok", { module: "M1" }));
+    await tracer.flush();
+
+    const [decision] = exporter.named("AE2_Decision");
+    const [analysis] = exporter.named("AE2_StrategicAnalysis");
+    expect(analysis.parentSpanId).toBe(decision.context.spanId);
+    expect(analysis.attributes).toEqual({ module: "M1" });
+  });
+
+  it("deve gravar OTLP/JSON em arquivo", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "arqos-trace-"));
+    const file = path.join(dir, "traces.jsonl");
+    tracer.configure({ exporter: new OtlpFileExporter(file), serviceName: "arqos-test" });
+
+    try {
+      await tracer
+        .withSpan("failing", () => {
+          throw new Error("nope");
+        }, { kind: "server", attributes: { retries: 2, ratio: 0.5, cached: false } })
+        .catch(() => undefined);
+      await tracer.flush();
+
+      const request = JSON.parse(fs.readFileSync(file, "utf8").trim());
+      const [resource] = request.resourceSpans;
+      const [span] = resource.scopeSpans[0].spans;
+
+      expect(resource.resource.attributes).toEqual([{ key: "service.name", value: { stringValue: "arqos-test" } }]);
+      expect(span).toMatchObject({
+        name: "failing",
+        kind: 2,
+        status: { code: 2, message: "nope" },
+        attributes: [
+          { key: "retries", value: { intValue: "2" } },
+          { key: "ratio", value: { doubleValue: 0.5 } },
+          { key: "cached", value: { boolValue: false } }
+        ]
+      });
+      expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(span.events[0]).toMatchObject({ name: "exception" });
+      expect(BigInt(span.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(span.startTimeUnixNano));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("deve rejeitar traceparent inválido", () => {
+    expect(parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")).toMatchObject({
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736"
+    });
+    expect(parseTraceparent("00-00000000000000000000000000000000-00f067aa0ba902b7-01")).toBeUndefined();
+    expect(parseTraceparent("garbage")).toBeUndefined();
+    expect(parseTraceparent(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Exporters OTLP/JSON para os spans do Arqos Tracing
+ * Arquivo (uma ExportTraceServiceRequest por linha) ou collector local via HTTP.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Span, SpanAttributes, SpanExporter, SpanKind, SpanStatusCode, tracer } from './tracing';
+
+type OtlpAnyValue =
+    | { stringValue: string }
+    | { boolValue: boolean }
+    | { intValue: string }
+    | { doubleValue: number };
+
+interface OtlpKeyValue {
+    key: string;
+    value: OtlpAnyValue;
+}
+
+export interface OtlpTraceRequest {
+    resourceSpans: Array<{
+        resource: { attributes: OtlpKeyValue[] };
+        scopeSpans: Array<{
+            scope: { name: string };
+            spans: Array<Record<string, unknown>>;
+        }>;
+    }>;
+}
+
+// Enums do proto opentelemetry.proto.trace.v1
+const SPAN_KIND: Record<SpanKind, number> = {
+    internal: 1,
+    server: 2,
+    client: 3,
+    producer: 4,
+    consumer: 5
+};
+
+const STATUS_CODE: Record<SpanStatusCode, number> = {
+    unset: 0,
+    ok: 1,
+    error: 2
+};
+
+function toAnyValue(value: string | number | boolean): OtlpAnyValue {
+    if (typeof value === 'boolean') return { boolValue: value };
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    }
+    return { stringValue: value };
+}
+
+function toAttributes(attributes: SpanAttributes): OtlpKeyValue[] {
+    return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/**
+ * Converte spans finalizados no payload OTLP/JSON (trace IDs em hex, tempos em string)
+ */
+export function toOtlpJson(spans: Span[], serviceName: string = tracer.getServiceName()): OtlpTraceRequest {
+    return {
+        resourceSpans: [{
+            resource: { attributes: toAttributes({ 'service.name': serviceName }) },
+            scopeSpans: [{
+                scope: { name: 'arqos-engine' },
+                spans: spans.map(span => ({
+                    traceId: span.context.traceId,
+                    spanId: span.context.spanId,
+                    ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+                    name: span.name,
+                    kind: SPAN_KIND[span.kind],
+                    startTimeUnixNano: span.startTimeUnixNano,
+                    endTimeUnixNano: span.endTimeUnixNano,
+                    attributes: toAttributes(span.attributes),
+                    events: span.events.map(event => ({
+                        timeUnixNano: event.timeUnixNano,
+                        name: event.name,
+                        attributes: toAttributes(event.attributes)
+                    })),
+                    status: {
+                        code: STATUS_CODE[span.status.code],
+                        ...(span.status.message ? { message: span.status.message } : {})
+                    }
+                }))
+            }]
+        }]
+    };
+}
+
+/**
+ * Acrescenta cada lote como uma linha JSON (formato do file exporter do Collector)
+ */
+export class OtlpFileExporter implements SpanExporter {
+    constructor(private readonly filePath: string) {}
+
+    async export(spans: Span[]): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, JSON.stringify(toOtlpJson(spans)) + '\n', 'utf8');
+    }
+}
+
+export interface OtlpHttpExporterOptions {
+    /** Padrão: http://localhost:4318/v1/traces */
+    endpoint?: string;
+    headers?: Record<string, string>;
+    timeoutMs?: number;
+}
+
+/**
+ * Envia os lotes para um collector OTLP/HTTP com encoding JSON
+ */
+export class OtlpHttpExporter implements SpanExporter {
+    private readonly endpoint: string;
+    private readonly headers: Record<string, string>;
+    private readonly timeoutMs: number;
+
+    constructor(options: OtlpHttpExporterOptions = {}) {
+        this.endpoint = options.endpoint ?? 'http://localhost:4318/v1/traces';
+        this.headers = options.headers ?? {};
+        this.timeoutMs = options.timeoutMs ?? 10000;
+    }
+
+    async export(spans: Span[]): Promise<void> {
+        const response = await fetch(this.endpoint, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', ...this.headers },
+            body: JSON.stringify(toOtlpJson(spans)),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        if (!response.ok) {
+            throw new Error(`OTLP collector responded ${response.status} ${response.statusText}`);
+        }
+    }
+}
+
+/**
+ * Exporter a partir do ambiente:
+ * - ARQOS_TRACE_FILE: arquivo OTLP/JSON
+ * - OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_ENDPOINT: collector
+ * - OTEL_TRACES_EXPORTER=none desabilita
+ */
+export function resolveSpanExporterFromEnv(env: NodeJS.ProcessEnv = process.env): SpanExporter | undefined {
+    if (env.OTEL_TRACES_EXPORTER === 'none') return undefined;
+
+    if (env.ARQOS_TRACE_FILE) {
+        return new OtlpFileExporter(env.ARQOS_TRACE_FILE);
+    }
+
+    const endpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+        ?? (env.OTEL_EXPORTER_OTLP_ENDPOINT ? `${env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, '')}/v1/traces` : undefined);
+    return endpoint ? new OtlpHttpExporter({ endpoint }) : undefined;
+}
@@ -3,12 +3,17 @@
  * High-resolution timing and metrics collection for AE components.
  */
 
+import { tracer, SpanAttributes } from './tracing';
+
 export interface ProfileMetric {
     name: string;
     startTime: number;
     endTime?: number;
     durationMs?: number;
     metadata?: Record<string, any>;
+    /** Span ativo durante a medição (profile() cria um span filho por medição) */
+    traceId?: string;
+    spanId?: string;
 }
 
 export class Profiler {
@@ -30,10 +35,13 @@ export class Profiler {
      */
     public start(name: string, metadata?: Record<string, any>): string {
         const id = `${name}_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+        const active = tracer.activeContext();
         const metric: ProfileMetric = {
             name,
             startTime: performance.now(),
-            metadata
+            metadata,
+            traceId: active?.traceId,
+            spanId: active?.spanId
         };
         this.activeSpans.set(id, metric);
         return id;
@@ -62,15 +70,17 @@ export class Profiler {
      * Captura o resultado de uma função assíncrona
      */
     public async profile<T>(name: string, fn: () => Promise<T>, metadata?: Record<string, any>): Promise<T> {
-        const id = this.start(name, metadata);
-        try {
-            const result = await fn();
-            this.end(id);
-            return result;
-        } catch (error) {
-            this.end(id, { error: error instanceof Error ? error.message : String(error) });
-            throw error;
-        }
+        return tracer.withSpan(name, async () => {
+            const id = this.start(name, metadata);
+            try {
+                const result = await fn();
+                this.end(id);
+                return result;
+            } catch (error) {
+                this.end(id, { error: error instanceof Error ? error.message : String(error) });
+                throw error;
+            }
+        }, { attributes: toSpanAttributes(metadata) });
     }
 
     /**
@@ -90,11 +100,26 @@ export class Profiler {
             max: durations[count - 1],
             avg: durations.reduce((a, b) => a + b, 0) / count,
             p50: durations[Math.floor(count * 0.5)],
+            p90: durations[Math.floor(count * 0.9)],
             p95: durations[Math.floor(count * 0.95)],
             p99: durations[Math.floor(count * 0.99)],
         };
     }
 
+    /**
+     * Nomes com medições registradas
+     */
+    public getNames(): string[] {
+        return Array.from(this.metrics.keys());
+    }
+
+    /**
+     * Durações brutas (ms) de um componente, na ordem em que foram medidas
+     */
+    public getDurations(name: string): number[] {
+        return (this.metrics.get(name) || []).map(h => h.durationMs!);
+    }
+
     /**
      * Exporta todos os dados
      */
@@ -112,4 +137,17 @@ export class Profiler {
     }
 }
 
+/**
+ * Metadata primitiva vira atributo do span
+ */
+function toSpanAttributes(metadata?: Record<string, any>): SpanAttributes {
+    const attributes: SpanAttributes = {};
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            attributes[key] = value;
+        }
+    }
+    return attributes;
+}
+
 export const profiler = Profiler.getInstance();
@@ -0,0 +1,286 @@
+/**
+ * Arqos Tracing
+ * Spans compatíveis com OpenTelemetry (W3C Trace Context), propagados via
+ * AsyncLocalStorage entre AE0–AE3 e exportados em OTLP/JSON (ver otlp-exporter.ts).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export interface SpanContext {
+    /** 32 caracteres hex */
+    traceId: string;
+    /** 16 caracteres hex */
+    spanId: string;
+    /** Contexto restaurado de um traceparent (outro processo, evento, plano) */
+    remote?: boolean;
+}
+
+export interface SpanEvent {
+    name: string;
+    timeUnixNano: string;
+    attributes: SpanAttributes;
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    attributes?: SpanAttributes;
+    /** Pai explícito; null força um novo trace. Padrão: span ativo */
+    parent?: SpanContext | null;
+    /** Trace ID a usar quando o span inicia um novo trace (ex: OrchestrationRequest.traceId) */
+    traceId?: string;
+}
+
+/**
+ * Destino dos spans finalizados
+ */
+export interface SpanExporter {
+    export(spans: Span[]): Promise<void>;
+    shutdown?(): Promise<void>;
+}
+
+export interface TracerConfig {
+    exporter?: SpanExporter;
+    /** service.name no resource OTLP */
+    serviceName?: string;
+    /** Exporta quando o buffer atinge este tamanho (padrão: 256) */
+    maxBatchSize?: number;
+    /** Intervalo máximo entre exports (padrão: 5000ms) */
+    flushIntervalMs?: number;
+}
+
+const TRACE_ID = /^[0-9a-f]{32}$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+function nowUnixNano(): string {
+    const ms = performance.timeOrigin + performance.now();
+    const whole = Math.floor(ms);
+    return (BigInt(whole) * 1000000n + BigInt(Math.round((ms - whole) * 1e6))).toString();
+}
+
+function newTraceId(): string {
+    return randomBytes(16).toString('hex');
+}
+
+function newSpanId(): string {
+    return randomBytes(8).toString('hex');
+}
+
+export class Span {
+    readonly context: SpanContext;
+    readonly parentSpanId?: string;
+    readonly kind: SpanKind;
+    readonly startTimeUnixNano: string;
+    endTimeUnixNano?: string;
+    readonly attributes: SpanAttributes;
+    readonly events: SpanEvent[] = [];
+    status: { code: SpanStatusCode; message?: string } = { code: 'unset' };
+
+    private readonly startedAt = performance.now();
+    private durationMs?: number;
+
+    constructor(
+        readonly name: string,
+        options: SpanOptions,
+        parent: SpanContext | undefined,
+        private readonly onEnd: (span: Span) => void
+    ) {
+        const traceId = parent?.traceId ?? (options.traceId && TRACE_ID.test(options.traceId) ? options.traceId : newTraceId());
+        this.context = { traceId, spanId: newSpanId() };
+        this.parentSpanId = parent?.spanId;
+        this.kind = options.kind ?? 'internal';
+        this.attributes = { ...options.attributes };
+        this.startTimeUnixNano = nowUnixNano();
+    }
+
+    setAttribute(key: string, value: SpanAttributeValue): this {
+        this.attributes[key] = value;
+        return this;
+    }
+
+    setAttributes(attributes: SpanAttributes): this {
+        Object.assign(this.attributes, attributes);
+        return this;
+    }
+
+    addEvent(name: string, attributes: SpanAttributes = {}): this {
+        this.events.push({ name, timeUnixNano: nowUnixNano(), attributes });
+        return this;
+    }
+
+    setStatus(code: SpanStatusCode, message?: string): this {
+        this.status = { code, message };
+        return this;
+    }
+
+    /**
+     * Registra a exceção (convenção semântica OTel) e marca o span como erro
+     */
+    recordException(error: unknown): this {
+        const message = error instanceof Error ? error.message : String(error);
+        this.addEvent('exception', {
+            'exception.type': error instanceof Error ? error.name : typeof error,
+            'exception.message': message
+        });
+        return this.setStatus('error', message);
+    }
+
+    isEnded(): boolean {
+        return this.endTimeUnixNano !== undefined;
+    }
+
+    /**
+     * Duração em ms (até agora, se o span ainda está aberto)
+     */
+    getDurationMs(): number {
+        return this.durationMs ?? performance.now() - this.startedAt;
+    }
+
+    end(): void {
+        if (this.isEnded()) return;
+        this.durationMs = performance.now() - this.startedAt;
+        this.endTimeUnixNano = nowUnixNano();
+        this.onEnd(this);
+    }
+}
+
+/**
+ * Serializa o contexto no header W3C traceparent
+ */
+export function formatTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+/**
+ * Lê um header traceparent; undefined se ausente ou inválido
+ */
+export function parseTraceparent(header?: string): SpanContext | undefined {
+    const match = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(header?.trim().toLowerCase() ?? '');
+    if (!match || match[1] === 'ff' || match[2] === INVALID_TRACE_ID || match[3] === INVALID_SPAN_ID) {
+        return undefined;
+    }
+    return { traceId: match[2], spanId: match[3], remote: true };
+}
+
+export class Tracer {
+    private static instance: Tracer;
+    private storage = new AsyncLocalStorage<Span | SpanContext>();
+    private exporter?: SpanExporter;
+    private buffer: Span[] = [];
+    private flushTimer?: NodeJS.Timeout;
+    private serviceName = 'arqos-engine';
+    private maxBatchSize = 256;
+    private flushIntervalMs = 5000;
+
+    public static getInstance(): Tracer {
+        if (!Tracer.instance) {
+            Tracer.instance = new Tracer();
+        }
+        return Tracer.instance;
+    }
+
+    /**
+     * Define exporter e batching; sem exporter os spans só propagam contexto
+     */
+    public configure(config: TracerConfig): void {
+        this.exporter = config.exporter;
+        this.serviceName = config.serviceName ?? this.serviceName;
+        this.maxBatchSize = config.maxBatchSize ?? this.maxBatchSize;
+        this.flushIntervalMs = config.flushIntervalMs ?? this.flushIntervalMs;
+    }
+
+    public getServiceName(): string {
+        return this.serviceName;
+    }
+
+    /**
+     * Contexto do span ativo na cadeia assíncrona atual
+     */
+    public activeContext(): SpanContext | undefined {
+        const active = this.storage.getStore();
+        return active instanceof Span ? active.context : active;
+    }
+
+    /**
+     * Span ativo (undefined se o contexto ativo veio de outro processo)
+     */
+    public activeSpan(): Span | undefined {
+        const active = this.storage.getStore();
+        return active instanceof Span ? active : undefined;
+    }
+
+    /**
+     * Inicia um span sem ativá-lo; quem chama deve invocar end()
+     */
+    public startSpan(name: string, options: SpanOptions = {}): Span {
+        const parent = options.parent === null ? undefined : options.parent ?? this.activeContext();
+        return new Span(name, options, parent, span => this.onSpanEnd(span));
+    }
+
+    /**
+     * Executa fn com um novo span ativo; erros marcam o span e são relançados
+     */
+    public async withSpan<T>(name: string, fn: (span: Span) => Promise<T> | T, options: SpanOptions = {}): Promise<T> {
+        const span = this.startSpan(name, options);
+        try {
+            return await this.storage.run(span, () => fn(span));
+        } catch (error) {
+            span.recordException(error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * Executa fn com o contexto dado como pai (ex: traceparent recebido)
+     */
+    public withContext<T>(context: SpanContext | undefined, fn: () => T): T {
+        return context ? this.storage.run(context, fn) : fn();
+    }
+
+    /**
+     * Exporta os spans pendentes
+     */
+    public async flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        if (!this.exporter || this.buffer.length === 0) return;
+
+        const batch = this.buffer;
+        this.buffer = [];
+        try {
+            await this.exporter.export(batch);
+        } catch (error) {
+            console.warn(`[Tracing] Failed to export ${batch.length} spans: ${(error as Error).message}`);
+        }
+    }
+
+    public async shutdown(): Promise<void> {
+        await this.flush();
+        await this.exporter?.shutdown?.();
+        this.exporter = undefined;
+    }
+
+    private onSpanEnd(span: Span): void {
+        if (!this.exporter) return;
+
+        this.buffer.push(span);
+        if (this.buffer.length >= this.maxBatchSize) {
+            void this.flush();
+        } else if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+            this.flushTimer.unref();
+        }
+    }
+}
+
+export const tracer = Tracer.getInstance();
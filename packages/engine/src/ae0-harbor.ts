@@ -2,7 +2,8 @@ import { bootstrap, AE0Context } from '../AE0/bootstrap';
 import { EnginePaths } from './core/paths';
 
 /**
- * Wrapper for testing bootstrapping with environment injection
+ * Wrapper for testing bootstrapping with environment injection.
+ * Runs AE0 validation only; AE1/AE2/AE3 are not started.
  */
 export async function bootstrapLite({ env }: { env: any }): Promise<AE0Context> {
     const originalEnv = { ...process.env };
@@ -17,7 +18,7 @@ export async function bootstrapLite({ env }: { env: any }): Promise<AE0Context>
         Object.assign(process.env, env);
 
         const mode = env.ARQOS_MODE || 'lite';
-        return await bootstrap(mode);
+        return await bootstrap(mode, { startComponents: false });
     } finally {
         process.env = originalEnv;
     }
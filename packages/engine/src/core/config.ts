@@ -0,0 +1,549 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { ArqosError } from '@arqos/utils';
+import { EnginePaths } from './paths';
+import { getBaseMode } from '../../AE0/validators/mode-validator';
+
+/**
+ * Configuração tipada do Arqos Engine.
+ *
+ * Camadas, da menor para a maior precedência:
+ * defaults → runtime/runtime_<modo>.yaml → arqos.config.yaml do projeto → env → explícito (ArqosConfig).
+ * Cada chave guarda a camada de origem (provenance); chaves reloadable podem
+ * mudar em tempo de execução via reload() e notificam os listeners de onChange()
+ * (o bootstrap repassa como `config.changed` no event bus).
+ */
+
+export interface EngineConfig {
+    'mode': string;
+    'environment': string;
+    'persistence': 'local' | 'sqlite' | 'memory' | 'remote';
+    'storage_path': string;
+    'enable_audit': boolean;
+    'state_encryption.enabled': boolean;
+    'state_encryption.keyfile': string | undefined;
+    'state_encryption.key': string | undefined;
+    'state_encryption.key_id': string;
+    'tracing.enabled': boolean;
+    'tracing.service_name': string;
+    'event_stream.buffer_limit': number;
+    'event_stream.log_dir': string | undefined;
+    'circuit_breaker.state_dir': string | undefined;
+    'embedding.provider': string;
+    'embedding.openai_model': string;
+    'embedding.openai_api_key': string | undefined;
+    'embedding.cohere_model': string;
+    'embedding.cohere_api_key': string | undefined;
+    'vectorial.provider': 'memory' | 'pinecone' | 'pgvector' | 'weaviate';
+    'vectorial.dimensions': number;
+    'vectorial.namespace': string | undefined;
+    'vectorial.max_items': number;
+    'vectorial.pinecone.api_key': string | undefined;
+    'vectorial.pinecone.index_host': string | undefined;
+    'vectorial.pinecone.timeout_ms': number;
+    'vectorial.pgvector.table': string | undefined;
+    'vectorial.pgvector.autocreate': boolean;
+    'vectorial.weaviate.host': string | undefined;
+    'vectorial.weaviate.api_key': string | undefined;
+    'vectorial.weaviate.class_name': string | undefined;
+    'vectorial.weaviate.timeout_ms': number;
+}
+
+export type ConfigKey = keyof EngineConfig;
+export type ConfigSource = 'default' | 'runtime' | 'file' | 'env' | 'explicit';
+type ConfigValue = string | number | boolean;
+
+interface ConfigKeyDefinition {
+    default?: ConfigValue;
+    /** Variáveis de ambiente, em ordem de preferência */
+    env?: string[];
+    /** Caminho no runtime_<modo>.yaml */
+    runtime?: string;
+    /** Pode mudar sem restart (lida a cada uso) */
+    reloadable?: boolean;
+    /** Valor mascarado em explain()/effective()/eventos */
+    secret?: boolean;
+}
+
+const CONFIG_KEYS: Record<ConfigKey, ConfigKeyDefinition> = {
+    'mode': { default: 'lite', env: ['ARQOS_MODE'] },
+    'environment': { default: 'development', env: ['ARQOS_ENVIRONMENT'], runtime: 'runtime.environment' },
+    'persistence': { default: 'memory', env: ['ARQOS_PERSISTENCE'] },
+    'storage_path': { default: './.storage', env: ['ARQOS_STORAGE_PATH'] },
+    'enable_audit': { default: true, env: ['ARQOS_ENABLE_AUDIT'] },
+    'state_encryption.enabled': { default: false, env: ['ARQOS_STATE_ENCRYPTION'] },
+    'state_encryption.keyfile': { env: ['ARQOS_STATE_KEYFILE'] },
+    'state_encryption.key': { env: ['ARQOS_STATE_KEY'], secret: true },
+    'state_encryption.key_id': { default: 'default', env: ['ARQOS_STATE_KEY_ID'] },
+    'tracing.enabled': { default: true, env: ['ARQOS_TRACING_ENABLED'], runtime: 'observability.tracing.enabled' },
+    'tracing.service_name': { default: 'arqos-engine', env: ['OTEL_SERVICE_NAME'] },
+    'event_stream.buffer_limit': { default: 1000, env: ['ARQOS_EVENT_BUFFER_LIMIT'] },
+    'event_stream.log_dir': { env: ['ARQOS_EVENT_LOG_DIR'] },
+    'circuit_breaker.state_dir': { env: ['ARQOS_CIRCUIT_STATE_DIR'] },
+    'embedding.provider': { default: 'local', env: ['ARQOS_EMBEDDING_PROVIDER'], reloadable: true },
+    'embedding.openai_model': { default: 'text-embedding-3-small', env: ['ARQOS_OPENAI_EMBEDDING_MODEL'], reloadable: true },
+    'embedding.openai_api_key': { env: ['OPENAI_API_KEY'], reloadable: true, secret: true },
+    'embedding.cohere_model': { default: 'embed-english-v3.0', env: ['ARQOS_COHERE_EMBEDDING_MODEL'], reloadable: true },
+    'embedding.cohere_api_key': { env: ['COHERE_API_KEY'], reloadable: true, secret: true },
+    'vectorial.provider': { default: 'memory', env: ['ARQOS_VECTORIAL_PROVIDER'] },
+    'vectorial.dimensions': { default: 768, env: ['ARQOS_VECTORIAL_DIMENSIONS'] },
+    'vectorial.namespace': { env: ['ARQOS_VECTORIAL_NAMESPACE'] },
+    'vectorial.max_items': { default: 5000, env: ['ARQOS_VECTORIAL_MAX_ITEMS'] },
+    'vectorial.pinecone.api_key': { env: ['ARQOS_PINECONE_API_KEY'], secret: true },
+    'vectorial.pinecone.index_host': { env: ['ARQOS_PINECONE_INDEX_HOST'] },
+    'vectorial.pinecone.timeout_ms': { default: 5000, env: ['ARQOS_PINECONE_TIMEOUT_MS'] },
+    'vectorial.pgvector.table': { env: ['ARQOS_PGVECTOR_TABLE'] },
+    'vectorial.pgvector.autocreate': { default: true, env: ['ARQOS_PGVECTOR_AUTOCREATE'] },
+    'vectorial.weaviate.host': { env: ['ARQOS_WEAVIATE_HOST'] },
+    'vectorial.weaviate.api_key': { env: ['ARQOS_WEAVIATE_API_KEY'], secret: true },
+    'vectorial.weaviate.class_name': { env: ['ARQOS_WEAVIATE_CLASS'] },
+    'vectorial.weaviate.timeout_ms': { default: 5000, env: ['ARQOS_WEAVIATE_TIMEOUT_MS'] }
+};
+
+const CONFIG_KEY_LIST = Object.keys(CONFIG_KEYS) as ConfigKey[];
+const MASK = '***';
+
+/** Valores explícitos no formato aninhado do arquivo (ex: { vectorial: { provider: 'pinecone' } }) */
+export type ConfigOverrides = Record<string, unknown>;
+
+export interface ConfigLoadOptions {
+    /** Camada explícita (maior precedência) */
+    overrides?: ConfigOverrides;
+    /** Arquivo do projeto; padrão: ARQOS_CONFIG ou ./arqos.config.yaml (.yml/.json) */
+    configFile?: string;
+    /** Padrão: process.env (relido a cada reload) */
+    env?: NodeJS.ProcessEnv;
+    /** Diretório dos runtime_<modo>.yaml (padrão: runtime/) */
+    runtimeDir?: string;
+}
+
+export interface ConfigLayerValue {
+    source: ConfigSource;
+    /** Variável de ambiente, arquivo ou 'ArqosConfig' */
+    origin: string;
+    value: unknown;
+}
+
+export interface ConfigEntry extends ConfigLayerValue {
+    key: ConfigKey;
+    reloadable: boolean;
+    /** Camadas de menor precedência que também definiam a chave */
+    overridden: ConfigLayerValue[];
+}
+
+export interface ConfigChange {
+    key: ConfigKey;
+    previous: unknown;
+    value: unknown;
+    source: ConfigSource;
+    origin: string;
+}
+
+export type ConfigChangeListener = (change: ConfigChange) => void;
+
+interface ConfigLayer {
+    source: ConfigSource;
+    origin: string;
+    values: Partial<Record<ConfigKey, unknown>>;
+}
+
+function getPath(object: unknown, dotted: string): unknown {
+    let current = object;
+    for (const part of dotted.split('.')) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[part];
+    }
+    return current;
+}
+
+function setPath(object: Record<string, unknown>, dotted: string, value: unknown): void {
+    const parts = dotted.split('.');
+    let current = object;
+    for (const part of parts.slice(0, -1)) {
+        current[part] = (current[part] as Record<string, unknown>) ?? {};
+        current = current[part] as Record<string, unknown>;
+    }
+    current[parts[parts.length - 1]] = value;
+}
+
+function pickKeys(object: unknown, pathFor: (key: ConfigKey) => string | undefined): Partial<Record<ConfigKey, unknown>> {
+    const values: Partial<Record<ConfigKey, unknown>> = {};
+    for (const key of CONFIG_KEY_LIST) {
+        const dotted = pathFor(key);
+        const value = dotted ? getPath(object, dotted) : undefined;
+        if (value !== undefined && value !== null) values[key] = value;
+    }
+    return values;
+}
+
+function defaultValues(): Partial<Record<ConfigKey, unknown>> {
+    const values: Partial<Record<ConfigKey, unknown>> = {};
+    for (const key of CONFIG_KEY_LIST) {
+        if (CONFIG_KEYS[key].default !== undefined) values[key] = CONFIG_KEYS[key].default;
+    }
+    return values;
+}
+
+function readStructuredFile(file: string): unknown {
+    const content = fs.readFileSync(file, 'utf-8');
+    return file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+}
+
+export class ConfigService {
+    private static instance: ConfigService;
+    private options: ConfigLoadOptions = {};
+    private entries = new Map<ConfigKey, ConfigEntry>();
+    private values: Partial<EngineConfig> = {};
+    private listeners = new Set<ConfigChangeListener>();
+    private validator?: ValidateFunction;
+    private watcher?: fs.FSWatcher;
+    private reloadTimer?: NodeJS.Timeout;
+    private loaded = false;
+
+    public static getInstance(): ConfigService {
+        if (!ConfigService.instance) {
+            ConfigService.instance = new ConfigService();
+        }
+        return ConfigService.instance;
+    }
+
+    /**
+     * (Re)constrói a configuração a partir de todas as camadas
+     *
+     * @throws ArqosError (ARQOS_FAIL_FAST) se o resultado não passar no schema
+     */
+    public load(options: ConfigLoadOptions = {}): this {
+        this.options = options;
+        this.apply(this.resolve());
+        this.loaded = true;
+        return this;
+    }
+
+    public get<K extends ConfigKey>(key: K): EngineConfig[K] {
+        this.ensureLoaded();
+        return this.values[key] as EngineConfig[K];
+    }
+
+    /**
+     * Valor efetivo de uma chave, quem o definiu e o que foi sobrescrito
+     */
+    public explain(key: ConfigKey): ConfigEntry {
+        this.ensureLoaded();
+        return this.mask(this.entries.get(key)!);
+    }
+
+    /**
+     * Configuração efetiva completa com provenance (segredos mascarados)
+     */
+    public effective(): ConfigEntry[] {
+        this.ensureLoaded();
+        return CONFIG_KEY_LIST.map(key => this.explain(key));
+    }
+
+    /**
+     * Arquivo de configuração do projeto em uso (undefined se não houver)
+     */
+    public getConfigFile(): string | undefined {
+        const file = this.options.configFile ?? process.env.ARQOS_CONFIG;
+        if (file) return path.resolve(file);
+
+        return ['arqos.config.yaml', 'arqos.config.yml', 'arqos.config.json']
+            .map(name => path.resolve(name))
+            .find(candidate => fs.existsSync(candidate));
+    }
+
+    /**
+     * Relê arquivo e env. Chaves reloadable alteradas são aplicadas e notificadas;
+     * as demais mantêm o valor atual até o próximo restart.
+     */
+    public reload(): ConfigChange[] {
+        this.ensureLoaded();
+        const next = this.resolve();
+        const changes: ConfigChange[] = [];
+
+        for (const key of CONFIG_KEY_LIST) {
+            const current = this.entries.get(key)!;
+            const candidate = next.get(key)!;
+            if (Object.is(current.value, candidate.value)) continue;
+
+            if (!CONFIG_KEYS[key].reloadable) {
+                console.warn(`[AE0:Config] ${key} changed (${candidate.origin}) but requires a restart; keeping current value`);
+                next.set(key, current);
+                continue;
+            }
+
+            const masked = this.mask(candidate);
+            changes.push({
+                key,
+                previous: this.mask(current).value,
+                value: masked.value,
+                source: candidate.source,
+                origin: candidate.origin
+            });
+        }
+
+        this.apply(next);
+        for (const change of changes) {
+            this.notify(change);
+        }
+        return changes;
+    }
+
+    /**
+     * Escuta mudanças de chaves reloadable
+     */
+    public onChange(listener: ConfigChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Recarrega quando o arquivo do projeto muda
+     */
+    public watch(debounceMs: number = 100): void {
+        const file = this.getConfigFile();
+        if (this.watcher || !file || !fs.existsSync(file)) return;
+
+        this.watcher = fs.watch(file, () => {
+            if (this.reloadTimer) clearTimeout(this.reloadTimer);
+            this.reloadTimer = setTimeout(() => {
+                this.reloadTimer = undefined;
+                try {
+                    this.reload();
+                } catch (error) {
+                    console.warn(`[AE0:Config] Reload of ${file} failed; keeping previous config: ${(error as Error).message}`);
+                }
+            }, debounceMs);
+        });
+        this.watcher.unref();
+        console.log(`[AE0:Config] Watching ${file}`);
+    }
+
+    public unwatch(): void {
+        this.watcher?.close();
+        this.watcher = undefined;
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = undefined;
+    }
+
+    /**
+     * Volta ao estado inicial (próximo get() recarrega do ambiente)
+     */
+    public reset(): void {
+        this.unwatch();
+        this.listeners.clear();
+        this.entries.clear();
+        this.values = {};
+        this.options = {};
+        this.loaded = false;
+    }
+
+    private ensureLoaded(): void {
+        if (!this.loaded) this.load();
+    }
+
+    private resolve(): Map<ConfigKey, ConfigEntry> {
+        const env = this.options.env ?? process.env;
+        const layers: ConfigLayer[] = [
+            { source: 'default', origin: 'default', values: defaultValues() },
+            this.fileLayer(),
+            this.envLayer(env),
+            { source: 'explicit', origin: 'ArqosConfig', values: pickKeys(this.options.overrides ?? {}, key => key) }
+        ];
+
+        // O runtime YAML depende do modo, que pode vir de qualquer outra camada
+        const mode = this.winner(layers, 'mode')?.value;
+        layers.splice(1, 0, this.runtimeLayer(String(mode)));
+
+        const entries = new Map<ConfigKey, ConfigEntry>();
+        const merged: Record<string, unknown> = {};
+        for (const key of CONFIG_KEY_LIST) {
+            const defined = layers
+                .filter(layer => layer.values[key] !== undefined)
+                .map(layer => ({ source: layer.source, origin: this.originFor(layer, key), value: layer.values[key] }));
+            const winner = defined.pop();
+            entries.set(key, {
+                key,
+                source: winner?.source ?? 'default',
+                origin: winner?.origin ?? 'default',
+                value: winner?.value,
+                reloadable: CONFIG_KEYS[key].reloadable ?? false,
+                overridden: defined.reverse()
+            });
+            if (winner) setPath(merged, key, winner.value);
+        }
+
+        this.validate(merged, entries);
+        for (const [key, entry] of entries) {
+            entry.value = getPath(merged, key);
+        }
+        return entries;
+    }
+
+    private winner(layers: ConfigLayer[], key: ConfigKey): { value: unknown } | undefined {
+        const layer = [...layers].reverse().find(candidate => candidate.values[key] !== undefined);
+        return layer ? { value: layer.values[key] } : undefined;
+    }
+
+    private originFor(layer: ConfigLayer, key: ConfigKey): string {
+        if (layer.source !== 'env') return layer.origin;
+        return (CONFIG_KEYS[key].env ?? []).find(name => this.envValue(this.options.env ?? process.env, name) !== undefined) ?? 'env';
+    }
+
+    private envValue(env: NodeJS.ProcessEnv, name: string): string | undefined {
+        const value = env[name];
+        return value === undefined || value === '' ? undefined : value;
+    }
+
+    private envLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+        const values: Partial<Record<ConfigKey, unknown>> = {};
+        for (const key of CONFIG_KEY_LIST) {
+            for (const name of CONFIG_KEYS[key].env ?? []) {
+                const value = this.envValue(env, name);
+                if (value !== undefined) {
+                    values[key] = value;
+                    break;
+                }
+            }
+        }
+        return { source: 'env', origin: 'env', values };
+    }
+
+    private fileLayer(): ConfigLayer {
+        const file = this.getConfigFile();
+        if (!file) return { source: 'file', origin: 'file', values: {} };
+
+        let content: unknown;
+        try {
+            content = readStructuredFile(file) ?? {};
+        } catch (error) {
+            throw new ArqosError(`[AE0] fail-fast: config ${file} could not be read: ${(error as Error).message}`, 'ARQOS_FAIL_FAST', error);
+        }
+
+        // Chaves desconhecidas no arquivo são erro (typos não podem ser ignorados em silêncio)
+        const validate = this.getValidator();
+        if (!validate(content)) {
+            throw new ArqosError(
+                `[AE0] fail-fast: config ${file} is invalid: ${this.describeErrors(validate.errors)}`,
+                'ARQOS_FAIL_FAST'
+            );
+        }
+        return { source: 'file', origin: file, values: pickKeys(content, key => key) };
+    }
+
+    private runtimeLayer(mode: string): ConfigLayer {
+        const runtimeDir = this.options.runtimeDir ?? EnginePaths.resolveFromRoot('runtime');
+        let base: string;
+        try {
+            base = getBaseMode(mode);
+        } catch {
+            // Modo inválido é reportado pelo bootstrap (validateMode)
+            return { source: 'runtime', origin: 'runtime', values: {} };
+        }
+
+        const file = path.join(runtimeDir, base === 'lite' ? 'runtime_ae_lite.yaml' : `runtime_${base}.yaml`);
+        if (!fs.existsSync(file)) return { source: 'runtime', origin: file, values: {} };
+
+        try {
+            return { source: 'runtime', origin: file, values: pickKeys(readStructuredFile(file), key => CONFIG_KEYS[key].runtime) };
+        } catch (error) {
+            console.warn(`[AE0:Config] Ignoring ${file}: ${(error as Error).message}`);
+            return { source: 'runtime', origin: file, values: {} };
+        }
+    }
+
+    private validate(merged: Record<string, unknown>, entries: Map<ConfigKey, ConfigEntry>): void {
+        const validate = this.getValidator();
+        if (validate(merged)) return;
+
+        const details = (validate.errors ?? []).map(error => {
+            const key = error.instancePath.slice(1).replace(/\//g, '.') as ConfigKey;
+            const entry = entries.get(key);
+            return entry ? `${key} = ${JSON.stringify(this.mask(entry).value)} (${entry.origin}) ${error.message}` : `${key || '/'} ${error.message}`;
+        });
+        throw new ArqosError(`[AE0] fail-fast: invalid configuration: ${details.join('; ')}`, 'ARQOS_FAIL_FAST');
+    }
+
+    private getValidator(): ValidateFunction {
+        if (!this.validator) {
+            const schemaPath = path.join(EnginePaths.getSchemasPath(), 'arqos-config.schema.json');
+            const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8'));
+            // Env chega como string: "768" → 768, "false" → false
+            this.validator = new Ajv({ allErrors: true, strict: false, coerceTypes: true }).compile(schema);
+        }
+        return this.validator;
+    }
+
+    private describeErrors(errors?: ErrorObject[] | null): string {
+        return (errors ?? []).map(error => {
+            const params = error.params as Record<string, unknown>;
+            const where = error.instancePath || '/';
+            return params.additionalProperty ? `${where} unknown key "${params.additionalProperty}"` : `${where} ${error.message}`;
+        }).join('; ');
+    }
+
+    private apply(entries: Map<ConfigKey, ConfigEntry>): void {
+        this.entries = entries;
+        const values: Record<string, unknown> = {};
+        for (const [key, entry] of entries) {
+            values[key] = entry.value;
+        }
+        this.values = values as Partial<EngineConfig>;
+    }
+
+    private mask(entry: ConfigEntry): ConfigEntry {
+        if (!CONFIG_KEYS[entry.key].secret) return entry;
+        const hide = (value: unknown) => (value === undefined ? undefined : MASK);
+        return {
+            ...entry,
+            value: hide(entry.value),
+            overridden: entry.overridden.map(layer => ({ ...layer, value: hide(layer.value) }))
+        };
+    }
+
+    private notify(change: ConfigChange): void {
+        console.log(`[AE0:Config] ${change.key} reloaded from ${change.origin}`);
+        for (const listener of this.listeners) {
+            try {
+                listener(change);
+            } catch (error) {
+                console.warn(`[AE0:Config] Change listener failed for ${change.key}: ${(error as Error).message}`);
+            }
+        }
+    }
+}
+
+/**
+ * Serviço de configuração global (carregado sob demanda)
+ */
+export function getConfigService(): ConfigService {
+    return ConfigService.getInstance();
+}
+
+/**
+ * Atalho para getConfigService().get(key)
+ */
+export function getConfig<K extends ConfigKey>(key: K): EngineConfig[K] {
+    return ConfigService.getInstance().get(key);
+}
+
+// CLI: ts-node src/core/config.ts [chave] — mostra o valor efetivo e de onde veio
+if (require.main === module) {
+    try {
+        const service = getConfigService();
+        const key = process.argv[2] as ConfigKey | undefined;
+        const entries = key ? [service.explain(key)] : service.effective();
+
+        for (const entry of entries) {
+            const value = entry.value === undefined ? '(unset)' : JSON.stringify(entry.value);
+            const shadowed = entry.overridden.map(layer => `${layer.origin}=${JSON.stringify(layer.value)}`).join(', ');
+            console.log(`${entry.key} = ${value}  [${entry.source}: ${entry.origin}]${shadowed ? `  overrides ${shadowed}` : ''}`);
+        }
+        process.exit(0);
+    } catch (error) {
+        console.error(`[AE0:Config] ✗ ${(error as Error).message}`);
+        process.exit(1);
+    }
+}
@@ -46,4 +46,11 @@ export class EnginePaths {
     public static getContractsPath(): string {
         return process.env.ARQOS_CONTRACTS_PATH || this.resolveFromRoot('interfaces');
     }
+
+    /**
+     * Standardized path for custom operational modes (YAML).
+     */
+    public static getModesPath(): string {
+        return process.env.ARQOS_MODES_PATH || this.resolveFromRoot('runtime', 'modes');
+    }
 }
@@ -1,5 +1,35 @@
+import type { Tool } from "../AE3/integration/tool-interface";
+import type { ToolContract } from "../AE3/contracts/contract-loader";
+
 export interface PluginDefinition {
   name: string;
   author: string;
   license: string;
+  /** Versão semver do plugin; deve bater com Tool.version */
+  version: string;
+  /** Range de versões do @arqos/engine suportadas (ex: "^1.5.0") */
+  engine?: string;
+  /** Contrato YAML da tool, relativo ao módulo do plugin */
+  contract?: string;
+  dependencies?: string[];
+}
+
+/**
+ * Formato exportado por um módulo de plugin (`export const plugin = {...}`)
+ */
+export interface PluginModule {
+  definition: PluginDefinition;
+  createTool: () => Tool;
+}
+
+/**
+ * Plugin carregado e validado, pronto para o ToolRegistry
+ */
+export interface LoadedPlugin {
+  definition: PluginDefinition;
+  phase: Tool["phase"];
+  factory: () => Tool;
+  contract?: ToolContract;
+  /** Arquivo do módulo ou nome do pacote npm */
+  source: string;
 }
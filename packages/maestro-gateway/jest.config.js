@@ -0,0 +1,10 @@
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    testMatch: ['**/*.test.ts'],
+    moduleFileExtensions: ['ts', 'js', 'json', 'node'],
+    moduleNameMapper: {
+        '^@arqos/engine/(.*)$': '<rootDir>/../engine/$1',
+        '^@arqos/utils$': '<rootDir>/../utils/src/index.ts'
+    }
+};
@@ -0,0 +1,20 @@
+import { GatewayServer } from "./server";
+import { registerEngineRoutes, GatewayEngine } from "./routes";
+
+export * from "./server";
+export * from "./routes";
+
+export interface GatewayOptions {
+    engine: GatewayEngine;
+}
+
+/**
+ * Cria o Maestro Gateway para uma instância Arqos já inicializada
+ */
+export async function createServer({ engine }: GatewayOptions): Promise<GatewayServer> {
+    const server = new GatewayServer();
+    registerEngineRoutes(server, engine);
+
+    console.log(`[Gateway] Routes registered: ${server.getRoutes().join(", ")}`);
+    return server;
+}
@@ -0,0 +1,140 @@
+import { ArqosError } from "@arqos/utils";
+import type { Arqos } from "@arqos/engine/AE0/Arqos";
+import type { OrchestrationPlan } from "@arqos/engine/AE3/types";
+import type { MemoryEvent, MemoryQuery } from "@arqos/engine/AE1/memory/memory-types";
+import { profiler } from "@arqos/engine/runtime/profiler";
+import { getMetricsRegistry } from "@arqos/engine/health/metrics-registry";
+import { exposeMetrics } from "@arqos/engine/health/prometheus";
+import type { ProbeType } from "@arqos/engine/health/health-monitor";
+import { tracer, parseTraceparent } from "@arqos/engine/runtime/tracing";
+import type { GatewayServer, HttpMethod, RouteHandler } from "./server";
+
+/**
+ * Rotas que expõem a instância Arqos via HTTP
+ */
+
+export const REQUEST_METRIC = "Gateway_Request";
+
+/**
+ * Subconjunto da API Arqos usado pelo gateway
+ */
+export type GatewayEngine = Pick<
+    Arqos,
+    "decide" | "executePlan" | "getPipeline" | "getMemory" | "getHealth" | "getProbe"
+>;
+
+export function registerEngineRoutes(server: GatewayServer, engine: GatewayEngine): void {
+    // Toda rota é medida pelo profiler para alimentar /metrics; o span continua o traceparent do chamador
+    const route = (method: HttpMethod, path: string, handler: RouteHandler) =>
+        server.route(method, path, (req) =>
+            tracer.withContext(parseTraceparent(req.headers["traceparent"]), () =>
+                profiler.profile(REQUEST_METRIC, () => handler(req), { route: path })
+            )
+        );
+
+    route("GET", "/health", async () => {
+        const health = engine.getHealth();
+        return {
+            statusCode: health.status === "unhealthy" ? 503 : 200,
+            body: health,
+        };
+    });
+
+    // Probes Kubernetes: 200 quando ok, 503 caso contrário
+    const probes: Record<string, ProbeType> = {
+        "/health/live": "liveness",
+        "/health/ready": "readiness",
+        "/health/startup": "startup",
+    };
+    for (const [path, probe] of Object.entries(probes)) {
+        route("GET", path, async () => {
+            const result = engine.getProbe(probe);
+            return { statusCode: result.ok ? 200 : 503, body: result };
+        });
+    }
+
+    route("POST", "/decide", async (req) => {
+        const body = requireObject(req.body, "body");
+        const context = requireObject(body.context, "context");
+        const agents = optionalArray(body.agents, "agents");
+        const constraints = optionalArray(body.constraints, "constraints");
+
+        return { statusCode: 200, body: await engine.decide(context, agents, constraints) };
+    });
+
+    // Atalho compatível com o hub: { goal } -> decisão
+    route("POST", "/cognition/plan", async (req) => {
+        const body = requireObject(req.body, "body");
+        if (typeof body.goal !== "string" || body.goal.trim() === "") {
+            throw new ArqosError("Field 'goal' must be a non-empty string", "ARQOS_INPUT_INVALID");
+        }
+
+        const { goal, ...rest } = body;
+        return { statusCode: 200, body: await engine.decide({ ...rest, intent: goal }) };
+    });
+
+    route("POST", "/plans/execute", async (req) => {
+        const plan = requireObject(req.body, "plan") as unknown as OrchestrationPlan;
+        if (typeof plan.id !== "string" || !Array.isArray(plan.sequence)) {
+            throw new ArqosError("Plan must have 'id' and 'sequence'", "ARQOS_INPUT_INVALID");
+        }
+        if (typeof plan.timeout_budget !== "number") {
+            throw new ArqosError("Plan must have numeric 'timeout_budget'", "ARQOS_INPUT_INVALID");
+        }
+
+        return { statusCode: 200, body: await engine.executePlan(plan) };
+    });
+
+    route("GET", "/tools", async () => {
+        return { statusCode: 200, body: await engine.getPipeline().getToolAvailability() };
+    });
+
+    route("POST", "/memory", async (req) => {
+        const event = requireObject(req.body, "event") as unknown as MemoryEvent;
+        if (typeof event.id !== "string" || typeof event.type !== "string") {
+            throw new ArqosError("Memory event must have 'id' and 'type'", "ARQOS_INPUT_INVALID");
+        }
+
+        const stored: MemoryEvent = { ...event, timestamp: event.timestamp ?? new Date().toISOString() };
+        await engine.getMemory().store(stored);
+        return { statusCode: 201, body: { stored: stored.id } };
+    });
+
+    route("POST", "/memory/query", async (req) => {
+        const query = (req.body ?? {}) as MemoryQuery;
+        const events = await engine.getMemory().retrieve(query);
+        return { statusCode: 200, body: { count: events.length, events } };
+    });
+
+    route("GET", "/metrics", async (req) => {
+        // Scrapers Prometheus pedem texto; demais clientes continuam recebendo JSON
+        const accept = req.headers["accept"] ?? "";
+        if (/text\/plain|application\/openmetrics-text/.test(accept)) {
+            const { contentType, body } = exposeMetrics(getMetricsRegistry(), accept);
+            return { statusCode: 200, headers: { "content-type": contentType }, body };
+        }
+
+        return {
+            statusCode: 200,
+            body: {
+                latencyP90: profiler.getStats(REQUEST_METRIC)?.p90 ?? 0,
+                profiler: profiler.export(),
+            },
+        };
+    });
+}
+
+function requireObject(value: unknown, name: string): Record<string, any> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new ArqosError(`Field '${name}' must be a JSON object`, "ARQOS_INPUT_INVALID");
+    }
+    return value as Record<string, any>;
+}
+
+function optionalArray(value: unknown, name: string): any[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        throw new ArqosError(`Field '${name}' must be an array`, "ARQOS_INPUT_INVALID");
+    }
+    return value;
+}
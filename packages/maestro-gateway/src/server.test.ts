@@ -0,0 +1,164 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { getMetricsRegistry } from "@arqos/engine/health/metrics-registry";
+import { createServer, GatewayEngine } from "./index";
+
+function createStubEngine() {
+    const stored: any[] = [];
+    const engine = {
+        decide: jest.fn(async (context: any) => ({ decision: { id: "d1" }, context })),
+        executePlan: jest.fn(async (plan: any) => ({
+            plan_id: plan.id,
+            success: true,
+            outputs: [],
+            total_duration_ms: 1,
+            tools_executed: 0,
+            tools_failed: 0,
+        })),
+        getPipeline: () => ({ getToolAvailability: async () => [{ tool_name: "UserIntentParser" }] }),
+        getMemory: () => ({
+            store: async (event: any) => { stored.push(event); },
+            retrieve: async () => stored,
+        }),
+        getHealth: () => ({ status: "healthy", components: [] }),
+        getProbe: jest.fn((probe: string) => ({ probe, ok: probe !== "readiness", checks: {} })),
+    };
+    return engine as unknown as GatewayEngine & typeof engine;
+}
+
+describe("Maestro Gateway", () => {
+    it("reports engine health", async () => {
+        const app = await createServer({ engine: createStubEngine() });
+        const res = await app.inject({ method: "GET", url: "/health" });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.json().status).toBe("healthy");
+    });
+
+    it("serves Kubernetes probes with 503 when not ok", async () => {
+        const engine = createStubEngine();
+        const app = await createServer({ engine });
+
+        const live = await app.inject({ method: "GET", url: "/health/live" });
+        const ready = await app.inject({ method: "GET", url: "/health/ready" });
+
+        expect(live.statusCode).toBe(200);
+        expect(ready.statusCode).toBe(503);
+        expect(ready.json().probe).toBe("readiness");
+        expect(engine.getProbe).toHaveBeenCalledWith("liveness");
+    });
+
+    it("maps /cognition/plan goal into a decision intent", async () => {
+        const engine = createStubEngine();
+        const app = await createServer({ engine });
+
+        const res = await app.inject({ method: "POST", url: "/cognition/plan", payload: { goal: "sumarizar" } });
+
+        expect(res.statusCode).toBe(200);
+        expect(engine.decide).toHaveBeenCalledWith({ intent: "sumarizar" });
+    });
+
+    it("rejects invalid input with ARQOS_INPUT_INVALID", async () => {
+        const app = await createServer({ engine: createStubEngine() });
+
+        const missingGoal = await app.inject({ method: "POST", url: "/cognition/plan", payload: {} });
+        const badPlan = await app.inject({ method: "POST", url: "/plans/execute", payload: { id: "p1" } });
+
+        expect(missingGoal.statusCode).toBe(400);
+        expect(missingGoal.json().error.code).toBe("ARQOS_INPUT_INVALID");
+        expect(badPlan.statusCode).toBe(400);
+    });
+
+    it("executes AE3 plans", async () => {
+        const engine = createStubEngine();
+        const app = await createServer({ engine });
+        const plan = { id: "p1", sequence: [], timeout_budget: 1000 };
+
+        const res = await app.inject({ method: "POST", url: "/plans/execute", payload: plan });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.json().plan_id).toBe("p1");
+        expect(engine.executePlan).toHaveBeenCalledWith(plan);
+    });
+
+    it("stores and queries memory events", async () => {
+        const app = await createServer({ engine: createStubEngine() });
+
+        const store = await app.inject({ method: "POST", url: "/memory", payload: { id: "m1", type: "execution" } });
+        const query = await app.inject({ method: "POST", url: "/memory/query", payload: { limit: 10 } });
+
+        expect(store.statusCode).toBe(201);
+        expect(query.json().count).toBe(1);
+        expect(query.json().events[0].timestamp).toBeDefined();
+    });
+
+    it("hides internal error details from 500 responses", async () => {
+        const engine = createStubEngine();
+        engine.executePlan.mockRejectedValueOnce(new Error("connect ECONNREFUSED 10.0.0.5:5432"));
+        const logged = jest.spyOn(console, "error").mockImplementation(() => undefined);
+        const app = await createServer({ engine });
+
+        const res = await app.inject({
+            method: "POST",
+            url: "/plans/execute",
+            payload: { id: "p1", sequence: [], timeout_budget: 1000 },
+        });
+
+        expect(res.statusCode).toBe(500);
+        expect(res.json().error).toEqual({ code: "ARQOS_INTERNAL_ERROR", message: "Internal server error" });
+        expect(logged).toHaveBeenCalled();
+        logged.mockRestore();
+    });
+
+    it("answers oversized bodies with 413 before closing the connection", async () => {
+        const app = await createServer({ engine: createStubEngine() });
+        const server = app.listen(0);
+        await new Promise((resolve) => server.once("listening", resolve));
+
+        try {
+            const { port } = server.address() as AddressInfo;
+            const res = await new Promise<{ statusCode?: number; headers: http.IncomingHttpHeaders; body: string }>(
+                (resolve, reject) => {
+                    const req = http.request({ port, method: "POST", path: "/plans/execute" }, (response) => {
+                        let body = "";
+                        response.on("data", (chunk) => (body += chunk));
+                        response.on("end", () => resolve({ statusCode: response.statusCode, headers: response.headers, body }));
+                    });
+                    req.on("error", reject);
+                    req.end(Buffer.alloc(1024 * 1024 + 1, "a"));
+                }
+            );
+
+            expect(res.statusCode).toBe(413);
+            expect(res.headers.connection).toBe("close");
+            expect(JSON.parse(res.body).error.code).toBe("ARQOS_PAYLOAD_TOO_LARGE");
+        } finally {
+            await app.close();
+        }
+    });
+
+    it("returns 404 and 405 for unknown routes and methods", async () => {
+        const app = await createServer({ engine: createStubEngine() });
+
+        expect((await app.inject({ method: "GET", url: "/nope" })).statusCode).toBe(404);
+        expect((await app.inject({ method: "DELETE", url: "/health" })).statusCode).toBe(405);
+    });
+
+    it("exposes request latency metrics", async () => {
+        const app = await createServer({ engine: createStubEngine() });
+        await app.inject({ method: "GET", url: "/health" });
+
+        const res = await app.inject({ method: "GET", url: "/metrics" });
+        expect(res.json().latencyP90).toBeGreaterThanOrEqual(0);
+    });
+
+    it("serves Prometheus text exposition when requested", async () => {
+        getMetricsRegistry().counter("arqos_gateway_test_total", "Gateway test counter").inc();
+        const app = await createServer({ engine: createStubEngine() });
+
+        const res = await app.inject({ method: "GET", url: "/metrics", headers: { Accept: "text/plain;version=0.0.4" } });
+
+        expect(res.headers["content-type"]).toBe("text/plain; version=0.0.4; charset=utf-8");
+        expect(res.body).toContain("# TYPE arqos_gateway_test_total counter\narqos_gateway_test_total 1");
+    });
+});
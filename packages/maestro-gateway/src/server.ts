@@ -0,0 +1,248 @@
+import * as http from "http";
+import { ArqosError } from "@arqos/utils";
+
+/**
+ * Maestro Gateway - HTTP Server
+ * Minimal router on top of node:http. Every request goes through the same
+ * `handle()` path whether it arrives over a socket or through `inject()`.
+ */
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+
+export interface GatewayRequest {
+    method: HttpMethod;
+    path: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+export interface GatewayResponse {
+    statusCode: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+}
+
+export type RouteHandler = (request: GatewayRequest) => Promise<GatewayResponse>;
+
+export interface InjectOptions {
+    method: HttpMethod;
+    url: string;
+    payload?: unknown;
+    headers?: Record<string, string>;
+}
+
+export interface InjectResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: string;
+    json<T = any>(): T;
+}
+
+const STATUS_BY_CODE: Record<string, number> = {
+    ARQOS_INPUT_INVALID: 400,
+    ARQOS_NOT_FOUND: 404,
+    ARQOS_METHOD_NOT_ALLOWED: 405,
+    ARQOS_PAYLOAD_TOO_LARGE: 413,
+    ARQOS_UNAVAILABLE: 503,
+};
+
+const MAX_BODY_BYTES = 1024 * 1024; // 1MB
+
+export class GatewayServer {
+    private routes = new Map<string, Map<HttpMethod, RouteHandler>>();
+    private server?: http.Server;
+
+    /**
+     * Registra um handler para método + caminho exato
+     */
+    route(method: HttpMethod, path: string, handler: RouteHandler): this {
+        const methods = this.routes.get(path) ?? new Map<HttpMethod, RouteHandler>();
+        methods.set(method, handler);
+        this.routes.set(path, methods);
+        return this;
+    }
+
+    /**
+     * Lista rotas registradas (ex: "GET /health")
+     */
+    getRoutes(): string[] {
+        const out: string[] = [];
+        for (const [path, methods] of this.routes) {
+            for (const method of methods.keys()) {
+                out.push(`${method} ${path}`);
+            }
+        }
+        return out;
+    }
+
+    /**
+     * Processa uma requisição já parseada
+     */
+    async handle(request: GatewayRequest): Promise<GatewayResponse> {
+        const methods = this.routes.get(request.path);
+        if (!methods) {
+            return errorResponse(new ArqosError(`Route not found: ${request.path}`, "ARQOS_NOT_FOUND"));
+        }
+
+        const handler = methods.get(request.method);
+        if (!handler) {
+            return errorResponse(
+                new ArqosError(`Method ${request.method} not allowed on ${request.path}`, "ARQOS_METHOD_NOT_ALLOWED")
+            );
+        }
+
+        try {
+            return await handler(request);
+        } catch (error) {
+            return errorResponse(error);
+        }
+    }
+
+    /**
+     * Executa uma requisição em memória, sem abrir socket (útil para testes)
+     */
+    async inject(options: InjectOptions): Promise<InjectResponse> {
+        const url = new URL(options.url, "http://gateway.local");
+        const response = await this.handle({
+            method: options.method,
+            path: url.pathname,
+            query: Object.fromEntries(url.searchParams),
+            headers: normalizeHeaders(options.headers ?? {}),
+            body: options.payload,
+        });
+
+        return toInjectResponse(response);
+    }
+
+    /**
+     * Inicia o servidor HTTP
+     */
+    listen(port: number, callback?: () => void): http.Server {
+        this.server = http.createServer((req, res) => {
+            void this.handleNative(req, res);
+        });
+        this.server.listen(port, callback);
+        return this.server;
+    }
+
+    /**
+     * Encerra o servidor HTTP
+     */
+    async close(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = undefined;
+
+        await new Promise<void>((resolve, reject) => {
+            server.close((err) => (err ? reject(err) : resolve()));
+        });
+    }
+
+    private async handleNative(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let response: GatewayResponse;
+
+        try {
+            const url = new URL(req.url ?? "/", "http://gateway.local");
+            const raw = await readBody(req);
+
+            response = await this.handle({
+                method: (req.method ?? "GET").toUpperCase() as HttpMethod,
+                path: url.pathname,
+                query: Object.fromEntries(url.searchParams),
+                headers: normalizeHeaders(req.headers as Record<string, string>),
+                body: parseBody(raw),
+            });
+        } catch (error) {
+            response = errorResponse(error);
+        }
+
+        const serialized = serialize(response);
+        // Corpo não lido até o fim (413): responde primeiro e fecha a conexão; o restante é descartado
+        if (!req.complete) {
+            serialized.headers.connection = "close";
+        }
+        res.writeHead(response.statusCode, serialized.headers);
+        res.end(serialized.body);
+    }
+}
+
+/**
+ * Converte qualquer erro em resposta JSON padronizada.
+ * Erros internos (500) vão para o log; o cliente recebe só uma mensagem genérica.
+ */
+export function errorResponse(error: unknown): GatewayResponse {
+    const code = error instanceof ArqosError && error.code ? error.code : "ARQOS_INTERNAL_ERROR";
+    const statusCode = STATUS_BY_CODE[code] ?? 500;
+
+    if (statusCode === 500) {
+        console.error("[Gateway] Internal error:", error);
+        return { statusCode, body: { error: { code, message: "Internal server error" } } };
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return { statusCode, body: { error: { code, message } } };
+}
+
+function normalizeHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+        if (value === undefined) continue;
+        out[key.toLowerCase()] = Array.isArray(value) ? value.join(", ") : value;
+    }
+    return out;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        req.on("data", (chunk: Buffer) => {
+            // Acima do limite o corpo é só drenado: a resposta 413 sai antes do socket fechar
+            if (size > MAX_BODY_BYTES) return;
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                chunks.length = 0;
+                reject(new ArqosError(`Request body exceeds ${MAX_BODY_BYTES} bytes`, "ARQOS_PAYLOAD_TOO_LARGE"));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        req.on("error", reject);
+    });
+}
+
+function parseBody(raw: string): unknown {
+    if (!raw) return undefined;
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        throw new ArqosError("Request body is not valid JSON", "ARQOS_INPUT_INVALID", error);
+    }
+}
+
+function serialize(response: GatewayResponse): { headers: Record<string, string>; body: string } {
+    const headers = { ...(response.headers ?? {}) };
+
+    if (typeof response.body === "string") {
+        headers["content-type"] = headers["content-type"] ?? "text/plain; charset=utf-8";
+        return { headers, body: response.body };
+    }
+
+    headers["content-type"] = headers["content-type"] ?? "application/json; charset=utf-8";
+    return { headers, body: response.body === undefined ? "" : JSON.stringify(response.body) };
+}
+
+function toInjectResponse(response: GatewayResponse): InjectResponse {
+    const serialized = serialize(response);
+    return {
+        statusCode: response.statusCode,
+        headers: serialized.headers,
+        body: serialized.body,
+        json<T = any>(): T {
+            return JSON.parse(serialized.body) as T;
+        },
+    };
+}
@@ -1,3 +1,4 @@
 export * from './errors';
 export * from './backoff';
 export * from './observability';
+export * from './semver';
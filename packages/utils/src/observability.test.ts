@@ -1,5 +1,5 @@
 
-import { FileMetricsSink, MetricEvent } from './observability';
+import { CompositeMetricsSink, FileMetricsSink, MetricEvent } from './observability';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -52,3 +52,16 @@ describe('FileMetricsSink', () => {
         expect(lines.length).toBe(2);
     });
 });
+
+describe('CompositeMetricsSink', () => {
+    it('should forward events to every sink', async () => {
+        const first = { record: jest.fn(async () => undefined) };
+        const second = { record: jest.fn(async () => undefined) };
+        const event: MetricEvent = { tool_id: 'tool-1', metricData: { duration_ms: 5 }, timestamp: new Date() };
+
+        await new CompositeMetricsSink([first, second]).record(event);
+
+        expect(first.record).toHaveBeenCalledWith(event);
+        expect(second.record).toHaveBeenCalledWith(event);
+    });
+});
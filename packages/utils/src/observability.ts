@@ -34,3 +34,14 @@ export class NoOpMetricsSink implements MetricsSink {
         // Do nothing
     }
 }
+
+/**
+ * Encaminha cada evento para vários sinks (ex: arquivo + registry Prometheus)
+ */
+export class CompositeMetricsSink implements MetricsSink {
+    constructor(private readonly sinks: MetricsSink[]) {}
+
+    async record(event: MetricEvent): Promise<void> {
+        await Promise.all(this.sinks.map(sink => sink.record(event)));
+    }
+}
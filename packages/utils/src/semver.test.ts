@@ -0,0 +1,19 @@
+import { compareSemver, isValidSemver, satisfiesSemver } from './semver';
+
+describe('semver', () => {
+    it('should validate and compare versions', () => {
+        expect(isValidSemver('1.2.3')).toBe(true);
+        expect(isValidSemver('1.2')).toBe(false);
+        expect(compareSemver('1.10.0', '1.9.9')).toBeGreaterThan(0);
+        expect(compareSemver('2.0.0-beta', '2.0.0')).toBeLessThan(0);
+    });
+
+    it('should match caret, tilde and comparator ranges', () => {
+        expect(satisfiesSemver('1.5.0', '^1.2.0')).toBe(true);
+        expect(satisfiesSemver('2.0.0', '^1.2.0')).toBe(false);
+        expect(satisfiesSemver('0.3.1', '^0.3.0')).toBe(true);
+        expect(satisfiesSemver('1.3.0', '~1.2.0')).toBe(false);
+        expect(satisfiesSemver('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+        expect(satisfiesSemver('1.5.0', '*')).toBe(true);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Utilitários mínimos de Semantic Versioning (MAJOR.MINOR.PATCH)
+ * Suporta ranges simples: "*", "1.2.3", "^1.2.3", "~1.2.3", ">=1.2.3 <2.0.0"
+ */
+
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease?: string;
+}
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Faz o parse de uma versão; retorna null se inválida
+ */
+export function parseSemver(version: string): SemVer | null {
+    const match = SEMVER_PATTERN.exec(String(version).trim());
+    if (!match) return null;
+
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4],
+    };
+}
+
+export function isValidSemver(version: string): boolean {
+    return parseSemver(version) !== null;
+}
+
+/**
+ * Compara duas versões: negativo se a < b, zero se iguais, positivo se a > b
+ */
+export function compareSemver(a: string, b: string): number {
+    const va = requireSemver(a);
+    const vb = requireSemver(b);
+
+    const diff = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+    if (diff !== 0) return diff;
+
+    // Pré-release tem precedência menor que a release
+    if (va.prerelease === vb.prerelease) return 0;
+    if (!va.prerelease) return 1;
+    if (!vb.prerelease) return -1;
+    return va.prerelease < vb.prerelease ? -1 : 1;
+}
+
+/**
+ * Verifica se a versão satisfaz o range (comparadores separados por espaço são AND)
+ */
+export function satisfiesSemver(version: string, range: string): boolean {
+    const v = parseSemver(version);
+    if (!v) return false;
+
+    const comparators = range.trim().split(/\s+/).filter(Boolean);
+    if (comparators.length === 0) return true;
+
+    return comparators.every((comparator) => satisfiesComparator(version, v, comparator));
+}
+
+function satisfiesComparator(version: string, v: SemVer, comparator: string): boolean {
+    if (comparator === '*' || comparator.toLowerCase() === 'x') return true;
+
+    if (comparator.startsWith('^')) {
+        const base = requireSemver(comparator.slice(1));
+        if (compareSemver(version, comparator.slice(1)) < 0) return false;
+        if (base.major > 0) return v.major === base.major;
+        if (base.minor > 0) return v.major === 0 && v.minor === base.minor;
+        return v.major === 0 && v.minor === 0 && v.patch === base.patch;
+    }
+
+    if (comparator.startsWith('~')) {
+        const base = requireSemver(comparator.slice(1));
+        return compareSemver(version, comparator.slice(1)) >= 0 && v.major === base.major && v.minor === base.minor;
+    }
+
+    const match = /^(>=|<=|>|<|=)?(.+)$/.exec(comparator)!;
+    const cmp = compareSemver(version, match[2]);
+    switch (match[1]) {
+        case '>=': return cmp >= 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '<': return cmp < 0;
+        default: return cmp === 0;
+    }
+}
+
+function requireSemver(version: string): SemVer {
+    const parsed = parseSemver(version);
+    if (!parsed) {
+        throw new Error(`Invalid semantic version: ${version}`);
+    }
+    return parsed;
+}